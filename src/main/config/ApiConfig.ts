@@ -1,5 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import { ESC_POS_CODE_PAGES, EscPosCodePage } from '../services/EscPosEncoder';
+import type { PrinterTransportType } from '../services/PrinterService';
 
 export interface PdvClientConfig {
   caixaId: string;
@@ -8,6 +10,66 @@ export interface PdvClientConfig {
   timeout: number;
   retries: number;
   syncInterval: number;
+  // Desconto máximo (%) que cada perfil concede sem autorização de supervisor
+  discountLimitOperator: number;
+  discountLimitSupervisor: number;
+  discountLimitManager: number;
+  // Etiquetas de balança (EAN-13 de peso variável): prefixos, valor embutido e dígitos do PLU
+  scaleBarcodePrefixes: string[];
+  scaleBarcodeMode: 'PRECO' | 'PESO';
+  scaleBarcodePluLength: number;
+  // Tecla que repete o último item lançado (valor de KeyboardEvent.key, ex.: "+", "Insert")
+  repeatItemKey: string;
+  // Fidelidade: pontos ganhos por R$ 1,00 pago e valor (R$) de cada ponto no resgate
+  loyaltyPointsPerReal: number;
+  loyaltyPointValue: number;
+  // Dias que as vendas finalizadas ficam no histórico local (0 mantém todas)
+  saleHistoryDays: number;
+  // Impressora ESC/POS: transporte, endereço, colunas da bobina (48/42/32), tabela de caracteres e logo (.bmp)
+  printerType: PrinterTransportType;
+  printerAddress: string;
+  printerColumns: number;
+  printerCodePage: EscPosCodePage;
+  printerLogo: string | null;
+  // Gaveta ligada na porta da impressora (pino 2 ou 5 do conector)
+  drawerEnabled: boolean;
+  drawerPin: 2 | 5;
+  // Pasta das cópias de cupom exportadas em PDF/HTML
+  receiptExportDir: string;
+  // NFC-e (modelo 65) em contingência off-line: ambiente (1 produção, 2 homologação), série e numeração
+  nfceEnabled: boolean;
+  nfceEnvironment: 1 | 2;
+  nfceSeries: number;
+  nfceFirstNumber: number;
+  // CSC do QR Code, certificado A1 (.pfx), pasta dos XSD da SEFAZ e URLs da UF
+  nfceCscId: string;
+  nfceCsc: string;
+  nfceCertificate: string | null;
+  nfceCertificatePassword: string;
+  nfceSchemasDir: string;
+  nfceQrCodeUrl: string;
+  nfceConsultaUrl: string;
+  nfceContingencyReason: string;
+  // Tributação padrão dos produtos sem CST/CSOSN no cadastro (cupom e NFC-e)
+  nfceDefaultNcm: string;
+  nfceDefaultCfop: string;
+  nfceDefaultIcms: string;
+  nfceDefaultIcmsRate: number;
+  nfceDefaultPisCofins: string;
+  // Emitente (dados do cadastro na SEFAZ)
+  emitterCnpj: string;
+  emitterIe: string;
+  emitterName: string;
+  emitterTradeName: string;
+  emitterCrt: 1 | 2 | 3 | 4;
+  emitterStreet: string;
+  emitterNumber: string;
+  emitterDistrict: string;
+  emitterCityCode: string;
+  emitterCity: string;
+  emitterUf: string;
+  emitterCep: string;
+  emitterPhone: string;
 }
 
 export class ApiConfig {
@@ -35,7 +97,55 @@ export class ApiConfig {
       apiKey: 'PDV-SECRET-KEY-2025',
       timeout: 10000,
       retries: 3,
-      syncInterval: 300000 // 5 minutos
+      syncInterval: 300000, // 5 minutos
+      discountLimitOperator: 5,
+      discountLimitSupervisor: 20,
+      discountLimitManager: 100,
+      scaleBarcodePrefixes: ['2'],
+      scaleBarcodeMode: 'PRECO',
+      scaleBarcodePluLength: 4,
+      repeatItemKey: '+',
+      loyaltyPointsPerReal: 1,
+      loyaltyPointValue: 0.01,
+      saleHistoryDays: 90,
+      printerType: 'NENHUMA',
+      printerAddress: '',
+      printerColumns: 48,
+      printerCodePage: 'CP860',
+      printerLogo: null,
+      drawerEnabled: false,
+      drawerPin: 2,
+      receiptExportDir: 'C:/PDV-Caixa/comprovantes',
+      nfceEnabled: false,
+      nfceEnvironment: 2,
+      nfceSeries: 1,
+      nfceFirstNumber: 1,
+      nfceCscId: '',
+      nfceCsc: '',
+      nfceCertificate: null,
+      nfceCertificatePassword: '',
+      nfceSchemasDir: 'C:/PDV-Caixa/schemas',
+      nfceQrCodeUrl: '',
+      nfceConsultaUrl: '',
+      nfceContingencyReason: 'Sem comunicacao com a SEFAZ no momento da venda',
+      nfceDefaultNcm: '00000000',
+      nfceDefaultCfop: '5102',
+      nfceDefaultIcms: '102',
+      nfceDefaultIcmsRate: 0,
+      nfceDefaultPisCofins: '49',
+      emitterCnpj: '',
+      emitterIe: '',
+      emitterName: '',
+      emitterTradeName: '',
+      emitterCrt: 1,
+      emitterStreet: '',
+      emitterNumber: '',
+      emitterDistrict: '',
+      emitterCityCode: '',
+      emitterCity: '',
+      emitterUf: '',
+      emitterCep: '',
+      emitterPhone: ''
     };
 
     // Tentar carregar do .env.pdv
@@ -88,6 +198,155 @@ export class ApiConfig {
           case 'PDV_SYNC_INTERVAL':
             config.syncInterval = parseInt(value) || 300000;
             break;
+          case 'PDV_DESCONTO_MAX_OPERADOR':
+            config.discountLimitOperator = parseFloat(value) || 0;
+            break;
+          case 'PDV_DESCONTO_MAX_SUPERVISOR':
+            config.discountLimitSupervisor = parseFloat(value) || 0;
+            break;
+          case 'PDV_DESCONTO_MAX_GERENTE':
+            config.discountLimitManager = parseFloat(value) || 0;
+            break;
+          case 'PDV_BALANCA_PREFIXOS':
+            config.scaleBarcodePrefixes = value.split(',').map(prefixo => prefixo.trim()).filter(Boolean);
+            break;
+          case 'PDV_BALANCA_MODO':
+            config.scaleBarcodeMode = value.toUpperCase() === 'PESO' ? 'PESO' : 'PRECO';
+            break;
+          case 'PDV_BALANCA_DIGITOS_PLU':
+            config.scaleBarcodePluLength = parseInt(value) || 4;
+            break;
+          case 'PDV_TECLA_REPETIR_ITEM':
+            config.repeatItemKey = value || '+';
+            break;
+          case 'PDV_FIDELIDADE_PONTOS_POR_REAL':
+            config.loyaltyPointsPerReal = parseFloat(value) || 0;
+            break;
+          case 'PDV_FIDELIDADE_VALOR_PONTO':
+            config.loyaltyPointValue = parseFloat(value) || 0;
+            break;
+          case 'PDV_HISTORICO_DIAS':
+            config.saleHistoryDays = Math.max(0, parseInt(value) || 0);
+            break;
+          case 'PDV_IMPRESSORA':
+            config.printerType = ['TCP', 'DISPOSITIVO', 'ARQUIVO'].includes(value.toUpperCase())
+              ? value.toUpperCase()
+              : 'NENHUMA';
+            break;
+          case 'PDV_IMPRESSORA_ENDERECO':
+            config.printerAddress = value;
+            break;
+          case 'PDV_IMPRESSORA_COLUNAS':
+            config.printerColumns = parseInt(value) || 48;
+            break;
+          case 'PDV_IMPRESSORA_CODEPAGE':
+            config.printerCodePage = ESC_POS_CODE_PAGES.includes(value.toUpperCase() as EscPosCodePage)
+              ? value.toUpperCase()
+              : 'CP860';
+            break;
+          case 'PDV_IMPRESSORA_LOGO':
+            config.printerLogo = value || null;
+            break;
+          case 'PDV_GAVETA':
+            config.drawerEnabled = value.toUpperCase() === 'SIM';
+            break;
+          case 'PDV_GAVETA_PINO':
+            config.drawerPin = parseInt(value) === 5 ? 5 : 2;
+            break;
+          case 'PDV_COMPROVANTES_PASTA':
+            config.receiptExportDir = value || config.receiptExportDir;
+            break;
+          case 'PDV_NFCE':
+            config.nfceEnabled = value.toUpperCase() === 'SIM';
+            break;
+          case 'PDV_NFCE_AMBIENTE':
+            config.nfceEnvironment = value.toUpperCase() === 'PRODUCAO' ? 1 : 2;
+            break;
+          case 'PDV_NFCE_SERIE':
+            config.nfceSeries = parseInt(value) || 1;
+            break;
+          case 'PDV_NFCE_NUMERO_INICIAL':
+            config.nfceFirstNumber = Math.max(1, parseInt(value) || 1);
+            break;
+          case 'PDV_NFCE_CSC_ID':
+            config.nfceCscId = value;
+            break;
+          case 'PDV_NFCE_CSC':
+            config.nfceCsc = value;
+            break;
+          case 'PDV_NFCE_CERTIFICADO':
+            config.nfceCertificate = value || null;
+            break;
+          case 'PDV_NFCE_CERTIFICADO_SENHA':
+            config.nfceCertificatePassword = value;
+            break;
+          case 'PDV_NFCE_SCHEMAS':
+            if (value) config.nfceSchemasDir = value;
+            break;
+          case 'PDV_NFCE_URL_QRCODE':
+            config.nfceQrCodeUrl = value;
+            break;
+          case 'PDV_NFCE_URL_CONSULTA':
+            config.nfceConsultaUrl = value;
+            break;
+          case 'PDV_NFCE_JUSTIFICATIVA':
+            // A SEFAZ exige de 15 a 256 caracteres
+            if (value.length >= 15) config.nfceContingencyReason = value.substring(0, 256);
+            break;
+          case 'PDV_NFCE_NCM_PADRAO':
+            config.nfceDefaultNcm = value;
+            break;
+          case 'PDV_NFCE_CFOP_PADRAO':
+            config.nfceDefaultCfop = value;
+            break;
+          case 'PDV_NFCE_ICMS_PADRAO':
+            config.nfceDefaultIcms = value;
+            break;
+          case 'PDV_NFCE_ALIQUOTA_ICMS_PADRAO':
+            config.nfceDefaultIcmsRate = parseFloat(value) || 0;
+            break;
+          case 'PDV_NFCE_PIS_COFINS_PADRAO':
+            config.nfceDefaultPisCofins = value;
+            break;
+          case 'PDV_EMITENTE_CNPJ':
+            config.emitterCnpj = value.replace(/\D/g, '');
+            break;
+          case 'PDV_EMITENTE_IE':
+            config.emitterIe = value.replace(/\D/g, '');
+            break;
+          case 'PDV_EMITENTE_RAZAO_SOCIAL':
+            config.emitterName = value;
+            break;
+          case 'PDV_EMITENTE_NOME_FANTASIA':
+            config.emitterTradeName = value;
+            break;
+          case 'PDV_EMITENTE_CRT':
+            config.emitterCrt = [1, 2, 3, 4].includes(parseInt(value)) ? parseInt(value) : 1;
+            break;
+          case 'PDV_EMITENTE_LOGRADOURO':
+            config.emitterStreet = value;
+            break;
+          case 'PDV_EMITENTE_NUMERO':
+            config.emitterNumber = value;
+            break;
+          case 'PDV_EMITENTE_BAIRRO':
+            config.emitterDistrict = value;
+            break;
+          case 'PDV_EMITENTE_MUNICIPIO_CODIGO':
+            config.emitterCityCode = value.replace(/\D/g, '');
+            break;
+          case 'PDV_EMITENTE_MUNICIPIO':
+            config.emitterCity = value;
+            break;
+          case 'PDV_EMITENTE_UF':
+            config.emitterUf = value.toUpperCase();
+            break;
+          case 'PDV_EMITENTE_CEP':
+            config.emitterCep = value.replace(/\D/g, '');
+            break;
+          case 'PDV_EMITENTE_FONE':
+            config.emitterPhone = value.replace(/\D/g, '');
+            break;
         }
       }
     }
@@ -111,6 +370,82 @@ PDV_API_TIMEOUT=${this.config.timeout}
 PDV_API_RETRIES=${this.config.retries}
 PDV_SYNC_INTERVAL=${this.config.syncInterval}
 
+# ✅ DESCONTO MÁXIMO (%) POR PERFIL SEM AUTORIZAÇÃO DE SUPERVISOR
+PDV_DESCONTO_MAX_OPERADOR=${this.config.discountLimitOperator}
+PDV_DESCONTO_MAX_SUPERVISOR=${this.config.discountLimitSupervisor}
+PDV_DESCONTO_MAX_GERENTE=${this.config.discountLimitManager}
+
+# ✅ ETIQUETAS DE BALANÇA (EAN-13 COM PREFIXO 2)
+# PRECO = valor total embutido | PESO = peso em gramas embutido
+PDV_BALANCA_PREFIXOS=${this.config.scaleBarcodePrefixes.join(',')}
+PDV_BALANCA_MODO=${this.config.scaleBarcodeMode}
+PDV_BALANCA_DIGITOS_PLU=${this.config.scaleBarcodePluLength}
+
+# ✅ TECLA PARA REPETIR O ÚLTIMO ITEM (ex.: +, Insert, F12)
+PDV_TECLA_REPETIR_ITEM=${this.config.repeatItemKey}
+
+# ✅ PROGRAMA DE FIDELIDADE (0 desativa o acúmulo / o resgate)
+PDV_FIDELIDADE_PONTOS_POR_REAL=${this.config.loyaltyPointsPerReal}
+PDV_FIDELIDADE_VALOR_PONTO=${this.config.loyaltyPointValue}
+
+# ✅ DIAS DE VENDAS NO HISTÓRICO LOCAL (0 mantém todas)
+PDV_HISTORICO_DIAS=${this.config.saleHistoryDays}
+
+# ✅ IMPRESSORA DO CUPOM (ESC/POS)
+# PDV_IMPRESSORA: NENHUMA | TCP | DISPOSITIVO | ARQUIVO
+# ENDERECO: 192.168.0.50:9100 (TCP) | COM3, /dev/usb/lp0 (DISPOSITIVO) | pasta (ARQUIVO)
+# COLUNAS: 48 (80mm) | 42 | 32 (58mm)  CODEPAGE: CP860 | CP850 | CP858 | WPC1252
+PDV_IMPRESSORA=${this.config.printerType}
+PDV_IMPRESSORA_ENDERECO=${this.config.printerAddress}
+PDV_IMPRESSORA_COLUNAS=${this.config.printerColumns}
+PDV_IMPRESSORA_CODEPAGE=${this.config.printerCodePage}
+PDV_IMPRESSORA_LOGO=${this.config.printerLogo || ''}
+
+# ✅ GAVETA DE DINHEIRO NA PORTA DA IMPRESSORA (SIM | NAO; pino 2 ou 5)
+PDV_GAVETA=${this.config.drawerEnabled ? 'SIM' : 'NAO'}
+PDV_GAVETA_PINO=${this.config.drawerPin}
+
+# ✅ PASTA DAS CÓPIAS DE CUPOM EXPORTADAS (PDF/HTML)
+PDV_COMPROVANTES_PASTA=${this.config.receiptExportDir}
+
+# ✅ NFC-e EM CONTINGÊNCIA OFF-LINE (SIM | NAO; ambiente PRODUCAO | HOMOLOGACAO)
+# CERTIFICADO: arquivo .pfx do A1 | SCHEMAS: pasta com o pacote de XSD da NF-e 4.00 (nfe_v4.00.xsd)
+# URLs do QR Code e da consulta: as publicadas pela SEFAZ da UF do emitente
+PDV_NFCE=${this.config.nfceEnabled ? 'SIM' : 'NAO'}
+PDV_NFCE_AMBIENTE=${this.config.nfceEnvironment === 1 ? 'PRODUCAO' : 'HOMOLOGACAO'}
+PDV_NFCE_SERIE=${this.config.nfceSeries}
+PDV_NFCE_NUMERO_INICIAL=${this.config.nfceFirstNumber}
+PDV_NFCE_CSC_ID=${this.config.nfceCscId}
+PDV_NFCE_CSC=${this.config.nfceCsc}
+PDV_NFCE_CERTIFICADO=${this.config.nfceCertificate || ''}
+PDV_NFCE_CERTIFICADO_SENHA=${this.config.nfceCertificatePassword}
+PDV_NFCE_SCHEMAS=${this.config.nfceSchemasDir}
+PDV_NFCE_URL_QRCODE=${this.config.nfceQrCodeUrl}
+PDV_NFCE_URL_CONSULTA=${this.config.nfceConsultaUrl}
+PDV_NFCE_JUSTIFICATIVA=${this.config.nfceContingencyReason}
+
+# ✅ TRIBUTAÇÃO PADRÃO DOS PRODUTOS SEM DADOS FISCAIS (ICMS: CSOSN 102/500/900 ou CST 00/40/60)
+PDV_NFCE_NCM_PADRAO=${this.config.nfceDefaultNcm}
+PDV_NFCE_CFOP_PADRAO=${this.config.nfceDefaultCfop}
+PDV_NFCE_ICMS_PADRAO=${this.config.nfceDefaultIcms}
+PDV_NFCE_ALIQUOTA_ICMS_PADRAO=${this.config.nfceDefaultIcmsRate}
+PDV_NFCE_PIS_COFINS_PADRAO=${this.config.nfceDefaultPisCofins}
+
+# ✅ EMITENTE (CRT: 1 Simples Nacional | 2 excesso de sublimite | 3 regime normal | 4 MEI)
+PDV_EMITENTE_CNPJ=${this.config.emitterCnpj}
+PDV_EMITENTE_IE=${this.config.emitterIe}
+PDV_EMITENTE_RAZAO_SOCIAL=${this.config.emitterName}
+PDV_EMITENTE_NOME_FANTASIA=${this.config.emitterTradeName}
+PDV_EMITENTE_CRT=${this.config.emitterCrt}
+PDV_EMITENTE_LOGRADOURO=${this.config.emitterStreet}
+PDV_EMITENTE_NUMERO=${this.config.emitterNumber}
+PDV_EMITENTE_BAIRRO=${this.config.emitterDistrict}
+PDV_EMITENTE_MUNICIPIO_CODIGO=${this.config.emitterCityCode}
+PDV_EMITENTE_MUNICIPIO=${this.config.emitterCity}
+PDV_EMITENTE_UF=${this.config.emitterUf}
+PDV_EMITENTE_CEP=${this.config.emitterCep}
+PDV_EMITENTE_FONE=${this.config.emitterPhone}
+
 # ================================
 # EXEMPLOS DE CONFIGURAÇÃO:
 # ================================
@@ -126,6 +461,14 @@ PDV_SYNC_INTERVAL=${this.config.syncInterval}
 
 # SINCRONIZAÇÃO A CADA 2 MINUTOS:
 # PDV_SYNC_INTERVAL=120000
+
+# ETIQUETA 2 CCCCC PPPPP D (PLU com 5 dígitos e peso embutido):
+# PDV_BALANCA_DIGITOS_PLU=5
+# PDV_BALANCA_MODO=PESO
+
+# IMPRESSÃO EM ARQUIVO (testes sem impressora):
+# PDV_IMPRESSORA=ARQUIVO
+# PDV_IMPRESSORA_ENDERECO=C:/PDV-Caixa/impressao
 `;
 
     const configPath = path.join('C:/PDV-Caixa', '.env.pdv');
@@ -143,6 +486,14 @@ PDV_SYNC_INTERVAL=${this.config.syncInterval}
     console.log(`⏱️ Timeout: ${this.config.timeout}ms`);
     console.log(`🔄 Retries: ${this.config.retries}`);
     console.log(`⏰ Sync Interval: ${this.config.syncInterval}ms`);
+    console.log(`🏷️ Desconto máx.: OP ${this.config.discountLimitOperator}% | SUP ${this.config.discountLimitSupervisor}% | GER ${this.config.discountLimitManager}%`);
+    console.log(`🔁 Repetir item: ${this.config.repeatItemKey}`);
+    console.log(`⭐ Fidelidade: ${this.config.loyaltyPointsPerReal} ponto(s) por R$ | ponto vale R$ ${this.config.loyaltyPointValue}`);
+    console.log(`🗂️ Histórico local: ${this.config.saleHistoryDays > 0 ? `${this.config.saleHistoryDays} dias` : 'sem limite'}`);
+    console.log(`🖨️ Impressora: ${this.config.printerType}${this.config.printerAddress ? ` ${this.config.printerAddress}` : ''} | ${this.config.printerColumns} colunas | ${this.config.printerCodePage} | gaveta ${this.config.drawerEnabled ? `pino ${this.config.drawerPin}` : 'não'}`);
+    console.log(`📄 Cópias de cupom: ${this.config.receiptExportDir}`);
+    console.log(`🧾 NFC-e: ${this.config.nfceEnabled ? `série ${this.config.nfceSeries} | ${this.config.nfceEnvironment === 1 ? 'produção' : 'homologação'} | CNPJ ${this.config.emitterCnpj || '-'}` : 'desativada'}`);
+    console.log(`⚖️ Balança: prefixos ${this.config.scaleBarcodePrefixes.join(',')} | ${this.config.scaleBarcodeMode} | PLU ${this.config.scaleBarcodePluLength} dígitos`);
     console.log('🔧 ================================');
   }
 }
\ No newline at end of file
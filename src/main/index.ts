@@ -1,5 +1,6 @@
 import { app, shell, BrowserWindow, ipcMain, globalShortcut } from 'electron'
 import path, { join } from 'node:path'
+import { randomUUID } from 'node:crypto'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { createFileRoute, createURLRoute } from 'electron-router-dom'
 
@@ -9,12 +10,56 @@ import { ApiConfig } from './config/ApiConfig'
 import { ProductService } from './services/ProductService'
 import { BarcodeService } from './services/BarcodeService'
 import { LogService, setupEnhancedLogging } from './services/LogService'
+import { ShiftService } from './services/ShiftService'
+import { ParkedSaleService } from './services/ParkedSaleService'
+import { CartService } from './services/CartService'
+import { ScaleBarcodeService } from './services/ScaleBarcodeService'
+import { OperatorService } from './services/OperatorService'
+import { OverrideService } from './services/OverrideService'
+import { DiscountService } from './services/DiscountService'
+import { PromotionService } from './services/PromotionService'
+import { ReceiptService } from './services/ReceiptService'
+import { PrinterService } from './services/PrinterService'
+import { ReceiptExportService } from './services/ReceiptExportService'
+import { CustomerService, validateCustomerDocument } from './services/CustomerService'
+import { SaleHistoryService } from './services/SaleHistoryService'
+import { ReturnService, cashRefundCents } from './services/ReturnService'
+import { NfceService } from './services/NfceService'
+import { TaxService } from './services/TaxService'
+import type {
+  CustomerDocument,
+  DrawerOpeningReason,
+  NfceDocument,
+  OverrideAction,
+  OverrideCredentials,
+  PaymentType,
+  ReceiptExportFormat,
+  RefundType,
+  SaleHistoryFilter,
+  SaleHistoryRecord,
+  SaleReturnRequestItem
+} from './types/NetworkTypes'
 
 // SERVIÇOS PDV COM API
 let logger: LogService;
 let pdvApiService: PdvApiService;
 let apiConfig: ApiConfig;
 let productService: ProductService;
+let shiftService: ShiftService;
+let parkedSaleService: ParkedSaleService;
+let cartService: CartService;
+let operatorService: OperatorService;
+let overrideService: OverrideService;
+let discountService: DiscountService;
+let promotionService: PromotionService;
+let receiptService: ReceiptService;
+let printerService: PrinterService;
+let receiptExportService: ReceiptExportService;
+let customerService: CustomerService;
+let saleHistoryService: SaleHistoryService;
+let returnService: ReturnService;
+let taxService: TaxService;
+let nfceService: NfceService;
 let barcodeService: BarcodeService | null = null;
 let mainWindow: BrowserWindow | null = null;
 let healthCheckTimer: NodeJS.Timeout | null = null;
@@ -108,8 +153,117 @@ async function initializePDVServices(): Promise<void> {
     logger.info('API', 'Servico API inicializado com sucesso');
     logger.info('PRODUCTS', 'Servico de produtos inicializado');
     
-    // Inicializar serviço de produtos
-    productService = new ProductService(pdvApiService);
+    // Inicializar serviço de produtos (com decodificação de etiquetas de balança)
+    productService = new ProductService(pdvApiService, new ScaleBarcodeService({
+      prefixos: apiConfig.config.scaleBarcodePrefixes,
+      modo: apiConfig.config.scaleBarcodeMode,
+      digitosPlu: apiConfig.config.scaleBarcodePluLength
+    }));
+    
+    // Impressora ESC/POS (o cupom em texto segue a largura da bobina)
+    printerService = new PrinterService({
+      tipo: apiConfig.config.printerType,
+      endereco: apiConfig.config.printerAddress,
+      colunas: apiConfig.config.printerColumns,
+      codePage: apiConfig.config.printerCodePage,
+      logo: apiConfig.config.printerLogo,
+      gaveta: apiConfig.config.drawerEnabled,
+      pinoGaveta: apiConfig.config.drawerPin
+    });
+    await printerService.initialize();
+    
+    // Cupom da venda em texto
+    receiptService = new ReceiptService(apiConfig.config.caixaId, printerService.getColumns());
+    receiptExportService = new ReceiptExportService(apiConfig.config.receiptExportDir);
+    
+    // Inicializar operadores (login por PIN e permissões)
+    operatorService = new OperatorService(pdvApiService);
+    await operatorService.initialize();
+    
+    // Autorizações de supervisor (auditoria de ações restritas)
+    overrideService = new OverrideService(pdvApiService, operatorService, apiConfig.config.caixaId);
+    await overrideService.initialize();
+    
+    // Descontos (motivos e limite por perfil)
+    discountService = new DiscountService(pdvApiService, overrideService, {
+      OPERADOR: apiConfig.config.discountLimitOperator,
+      SUPERVISOR: apiConfig.config.discountLimitSupervisor,
+      GERENTE: apiConfig.config.discountLimitManager
+    });
+    await discountService.initialize();
+    
+    // Promoções (sincronizadas para o cache e aplicadas também offline)
+    promotionService = new PromotionService(pdvApiService);
+    await promotionService.initialize();
+    
+    // Clientes e pontos de fidelidade (cache local, pontos offline conciliados na sincronização)
+    customerService = new CustomerService(pdvApiService, {
+      pontos_por_real: apiConfig.config.loyaltyPointsPerReal,
+      valor_ponto: apiConfig.config.loyaltyPointValue
+    }, apiConfig.config.caixaId);
+    await customerService.initialize();
+    
+    // Inicializar controle de turnos (abertura/fechamento de caixa)
+    shiftService = new ShiftService(pdvApiService, apiConfig.config.caixaId);
+    await shiftService.initialize();
+    
+    // Vendas em espera (carrinhos estacionados no turno)
+    parkedSaleService = new ParkedSaleService(pdvApiService);
+    await parkedSaleService.initialize();
+    
+    // Venda em andamento gravada a cada alteração (restaurada após queda)
+    cartService = new CartService(pdvApiService);
+    await cartService.initialize();
+    
+    // Histórico local das vendas finalizadas e devoluções ligadas a elas
+    saleHistoryService = new SaleHistoryService(pdvApiService, apiConfig.config.saleHistoryDays);
+    await saleHistoryService.initialize();
+    returnService = new ReturnService(pdvApiService, apiConfig.config.caixaId);
+    await returnService.initialize();
+    
+    // Tributos por linha (cadastro do produto ou tributação padrão do caixa)
+    taxService = new TaxService(pdvApiService, {
+      ncm: apiConfig.config.nfceDefaultNcm,
+      cfop: apiConfig.config.nfceDefaultCfop,
+      icms: apiConfig.config.nfceDefaultIcms,
+      aliquotaIcms: apiConfig.config.nfceDefaultIcmsRate,
+      pisCofins: apiConfig.config.nfceDefaultPisCofins
+    });
+    
+    // NFC-e em contingência off-line (XML assinado guardado e enviado pela fila)
+    nfceService = new NfceService(pdvApiService, taxService, {
+      habilitada: apiConfig.config.nfceEnabled,
+      ambiente: apiConfig.config.nfceEnvironment,
+      serie: apiConfig.config.nfceSeries,
+      numeroInicial: apiConfig.config.nfceFirstNumber,
+      emitente: {
+        cnpj: apiConfig.config.emitterCnpj,
+        ie: apiConfig.config.emitterIe,
+        razaoSocial: apiConfig.config.emitterName,
+        nomeFantasia: apiConfig.config.emitterTradeName,
+        crt: apiConfig.config.emitterCrt,
+        logradouro: apiConfig.config.emitterStreet,
+        numero: apiConfig.config.emitterNumber,
+        bairro: apiConfig.config.emitterDistrict,
+        codigoMunicipio: apiConfig.config.emitterCityCode,
+        municipio: apiConfig.config.emitterCity,
+        uf: apiConfig.config.emitterUf,
+        cep: apiConfig.config.emitterCep,
+        fone: apiConfig.config.emitterPhone
+      },
+      qrCode: {
+        cscId: apiConfig.config.nfceCscId,
+        csc: apiConfig.config.nfceCsc,
+        urlQrCode: apiConfig.config.nfceQrCodeUrl,
+        urlConsulta: apiConfig.config.nfceConsultaUrl
+      },
+      certificado: apiConfig.config.nfceCertificate,
+      senhaCertificado: apiConfig.config.nfceCertificatePassword,
+      pastaSchemas: apiConfig.config.nfceSchemasDir,
+      justificativaContingencia: apiConfig.config.nfceContingencyReason,
+      versaoAplicativo: `PDV Mercado ${app.getVersion()}`
+    });
+    await nfceService.initialize();
     
     // Inicializar leitor de código de barras (opcional)
     try {
@@ -141,11 +295,94 @@ function sendStatusUpdate(): void {
   }
 }
 
+// IMPRESSÃO EM SEGUNDO PLANO: falha na impressora não desfaz a operação, só avisa o operador
+function printReceipt(comprovante: string, descricao: string): void {
+  if (!printerService.isEnabled()) return;
+
+  printerService.printReceipt(comprovante).catch((error: any) => {
+    logger.error('PRINTER', `Falha ao imprimir ${descricao}`, { error: error.message });
+    mainWindow?.webContents.send('pdv:notification', {
+      type: 'error',
+      message: `Falha na impressão (${descricao}): ${error.message}`,
+      duration: 7000
+    });
+  });
+}
+
+// GAVETA EM SEGUNDO PLANO: toda abertura fica registrada no turno, inclusive quando o pulso falha
+function openDrawer(
+  turnoId: number,
+  motivo: DrawerOpeningReason,
+  operador: string,
+  opcoes: { referencia?: string | null; observacao?: string | null; autorizadoPor?: string | null } = {}
+): void {
+  if (!printerService.hasDrawer()) return;
+
+  const registrar = (aberta: boolean): Promise<unknown> =>
+    shiftService.registerDrawerOpening({ turnoId, motivo, operador, aberta, ...opcoes });
+
+  printerService.openDrawer()
+    .then(() => registrar(true))
+    .catch(async (error: any) => {
+      logger.error('DRAWER', `Falha ao abrir a gaveta (${motivo})`, { error: error.message });
+      mainWindow?.webContents.send('pdv:notification', {
+        type: 'error',
+        message: `Gaveta não abriu: ${error.message}`,
+        duration: 7000
+      });
+      await registrar(false).catch(() => undefined);
+    });
+}
+
+// NFC-E DA VENDA: falha na emissão não desfaz a venda, só avisa o operador (nota fica para emissão manual)
+async function emitNfce(vendaId: number, consumidor: CustomerDocument | null): Promise<NfceDocument | null> {
+  try {
+    const venda = await saleHistoryService.findById(vendaId);
+    if (!venda) {
+      throw new Error('Venda não encontrada no histórico do caixa');
+    }
+    
+    const nfce = await nfceService.emitForSale(venda, consumidor);
+    if (nfce.status === 'INUTILIZADA') {
+      mainWindow?.webContents.send('pdv:notification', {
+        type: 'error',
+        message: `NFC-e ${nfce.numero} reprovada na validação (número inutilizado): ${nfce.erros_validacao[0] || 'verifique o log'}`,
+        duration: 7000
+      });
+    }
+    return nfce;
+  } catch (error: any) {
+    logger.error('NFCE', `Falha ao emitir NFC-e da venda ${vendaId}`, { error: error.message });
+    mainWindow?.webContents.send('pdv:notification', {
+      type: 'error',
+      message: `NFC-e não emitida: ${error.message}`,
+      duration: 7000
+    });
+    return null;
+  }
+}
+
+// NFC-E DO CUPOM CANCELADO: falha não desfaz o cancelamento, só avisa o operador
+async function cancelNfce(venda: SaleHistoryRecord, motivo: string): Promise<NfceDocument | null> {
+  try {
+    return await nfceService.cancelForSale(venda, motivo);
+  } catch (error: any) {
+    logger.error('NFCE', `Falha ao cancelar NFC-e da venda ${venda.id}`, { error: error.message });
+    mainWindow?.webContents.send('pdv:notification', {
+      type: 'error',
+      message: `NFC-e do cupom ${venda.numero_venda} não cancelada: ${error.message}`,
+      duration: 7000
+    });
+    return null;
+  }
+}
+
 // HANDLERS IPC PARA API
 function setupPDVHandlers(): void {
   // Handler para buscar produto por código
   ipcMain.handle('product:findByCode', async (event, codigo: string) => {
     try {
+      operatorService.requirePermission('product:read');
       const produto = await productService.findByCode(codigo);
       return {
         success: true,
@@ -163,6 +400,7 @@ function setupPDVHandlers(): void {
   // Handler para buscar todos os produtos
   ipcMain.handle('product:findAll', async () => {
     try {
+      operatorService.requirePermission('product:read');
       const produtos = await productService.findAll();
       return {
         success: true,
@@ -179,6 +417,7 @@ function setupPDVHandlers(): void {
   // Handler para buscar produtos (autocomplete)
   ipcMain.handle('product:search', async (event, termo: string) => {
     try {
+      operatorService.requirePermission('product:read');
       const produtos = await productService.searchProducts(termo);
       return {
         success: true,
@@ -195,7 +434,108 @@ function setupPDVHandlers(): void {
   // Handler para criar venda
   ipcMain.handle('sale:create', async (event, vendaData) => {
     try {
-      const venda = await productService.createSale(vendaData);
+      const operador = operatorService.requirePermission('sale:create');
+      
+      // Vendas só podem ser registradas com caixa aberto
+      const turno = await shiftService.requireOpenShift();
+      
+      // Devoluções (quantidade negativa) exigem autorização do supervisor por item
+      const autorizacoesDevolucao = await overrideService.requireItemAuthorizations(
+        'ITEM_RETURN',
+        (vendaData.items || [])
+          .filter((item: any) => item.quantidade < 0)
+          .map((item: any) => ({
+            autorizacaoId: item.autorizacao_devolucao_id,
+            detalhes: { codigo: item.codigo, quantidade: item.quantidade }
+          })),
+        operador.id
+      );
+      
+      // Itens cancelados e preços alterados também exigem a autorização do supervisor por linha
+      const autorizacoesCancelamento = await overrideService.requireItemAuthorizations(
+        'ITEM_REMOVE',
+        (vendaData.itens_cancelados || []).map((item: any) => ({
+          autorizacaoId: item.autorizacao_id,
+          detalhes: { sequencia: item.sequencia, codigo: item.codigo, quantidade_original: item.quantidade }
+        })),
+        operador.id
+      );
+      const autorizacoesPreco = await overrideService.requireItemAuthorizations(
+        'PRICE_CHANGE',
+        (vendaData.items || [])
+          .filter((item: any) => item.autorizacao_id || item.preco_original !== undefined)
+          .map((item: any) => ({
+            autorizacaoId: item.autorizacao_id,
+            detalhes: { codigo: item.codigo, preco_original: item.preco_original, preco_novo: item.preco_unitario }
+          })),
+        operador.id
+      );
+      
+      // CPF/CNPJ na nota conferido pelos dígitos verificadores
+      const consumidor = vendaData.documento_consumidor
+        ? validateCustomerDocument(vendaData.documento_consumidor)
+        : null;
+      
+      // Promoções recalculadas aqui (a tela só exibe); descontos validados contra o limite do perfil
+      const vendaComPromocoes = promotionService.applyPromotions(vendaData);
+      const vendaComDescontos = await discountService.applyDiscounts(vendaComPromocoes, operador);
+      
+      // Resgate de pontos conferido contra o saldo do cliente; acúmulo calculado sobre o total líquido
+      const fidelidade = await customerService.applyLoyalty(vendaComDescontos, vendaData.cliente_id);
+      
+      // Crédito na loja só para cliente cadastrado, conferido contra o limite e o saldo devedor do cache
+      const contaCliente = await customerService.applyStoreCredit(vendaComDescontos, vendaData.cliente_id);
+      
+      // Tributos de cada linha sobre o valor líquido; seguem para a API, o cupom, o histórico e a NFC-e
+      const tributos = await taxService.calculateSale(
+        vendaComDescontos.items,
+        vendaComDescontos.valor_desconto_venda || 0
+      );
+      const vendaCompleta = {
+        ...vendaComDescontos,
+        items: vendaComDescontos.items.map((item: any, indice: number) => ({ ...item, tributos: tributos.itens[indice] })),
+        tributos: tributos.totais,
+        consumidor,
+        fidelidade,
+        conta_cliente: contaCliente,
+        turno_id: turno.id,
+        operador_id: operador.id,
+        operador_codigo: operador.codigo,
+        referencia: randomUUID()
+      };
+      
+      // Conferências da venda antes de consumir as autorizações: venda recusada não gasta a autorização do supervisor
+      await productService.validateSale(vendaCompleta);
+      
+      // Autorizações usadas nesta venda não valem para outra operação
+      await overrideService.consumeAuthorizations(
+        [...autorizacoesDevolucao, ...autorizacoesCancelamento, ...autorizacoesPreco, ...vendaComDescontos.autorizacoes_desconto],
+        vendaCompleta.referencia
+      );
+      
+      const venda = await productService.createSale(vendaCompleta);
+      venda.tributos = tributos.totais;
+      if (fidelidade) {
+        venda.fidelidade = await customerService.registerPoints(fidelidade, venda.sincronizado !== false);
+      }
+      if (contaCliente) {
+        venda.conta_cliente = await customerService.registerStoreCredit(contaCliente, venda.sincronizado !== false);
+      }
+      venda.comprovante = receiptService.buildSaleReceipt(venda, {
+        ...vendaCompleta,
+        fidelidade: venda.fidelidade,
+        conta_cliente: venda.conta_cliente
+      });
+      await shiftService.registerSale(turno.id, venda.id, venda.pagamentos || []);
+      await saleHistoryService.record(venda, { ...vendaCompleta, cliente_id: vendaData.cliente_id });
+      await cartService.clear();
+      if (nfceService.isEnabled()) {
+        venda.nfce = await emitNfce(venda.id, consumidor);
+      }
+      if ((venda.pagamentos || []).some((pagamento: any) => pagamento.tipo === 'DINHEIRO' && pagamento.valor > 0)) {
+        openDrawer(turno.id, 'VENDA', operador.codigo, { referencia: String(venda.numero_venda) });
+      }
+      printReceipt(venda.comprovante, `cupom da venda ${venda.numero_venda}`);
       
       // Enviar atualização de status após venda
       sendStatusUpdate();
@@ -213,10 +553,671 @@ function setupPDVHandlers(): void {
     }
   });
 
+  // Handler para regras de desconto (motivos e limite do operador logado)
+  ipcMain.handle('discount:getRules', async () => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const regras = await discountService.getRules(operador);
+      return {
+        success: true,
+        data: regras
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para avaliar as promoções do carrinho a cada alteração de itens
+  ipcMain.handle('promotion:evaluate', async (event, items) => {
+    try {
+      operatorService.requirePermission('sale:create');
+      return {
+        success: true,
+        data: promotionService.evaluate(items || [])
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para identificar o cliente da fidelidade (CPF ou telefone)
+  ipcMain.handle('customer:find', async (event, termo: string) => {
+    try {
+      operatorService.requirePermission('sale:create');
+      const cliente = await customerService.find(termo);
+      return {
+        success: true,
+        data: cliente
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para recebimento de conta do cliente (crédito na loja)
+  ipcMain.handle('customerAccount:pay', async (event, dados: { clienteId: number; tipo: PaymentType; valor: number; valorRecebido?: number }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      
+      const pagamento = await customerService.registerAccountPayment(dados.clienteId, dados, turno, operador.codigo);
+      await shiftService.registerAccountPayment(pagamento);
+      
+      const comprovante = receiptService.buildAccountPaymentReceipt(pagamento);
+      if (dados.tipo === 'DINHEIRO') {
+        openDrawer(turno.id, 'RECEBIMENTO_CONTA', operador.codigo, { referencia: `cliente ${dados.clienteId}` });
+      }
+      printReceipt(comprovante, 'comprovante de recebimento');
+      
+      // Enviar atualização de status (fila de sincronização pode ter mudado)
+      sendStatusUpdate();
+      
+      return {
+        success: true,
+        data: {
+          pagamento,
+          comprovante
+        }
+      };
+    } catch (error: any) {
+      logger.error('CUSTOMER', 'Erro ao registrar recebimento de conta', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para listar os recebimentos de conta do turno aberto
+  ipcMain.handle('customerAccount:list', async () => {
+    try {
+      operatorService.requirePermission('sale:create');
+      const recebimentos = await shiftService.listAccountPayments();
+      return {
+        success: true,
+        data: recebimentos
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para localizar a venda original da devolução (número ou código de barras do cupom)
+  ipcMain.handle('saleReturn:findSale', async (event, termo: string) => {
+    try {
+      operatorService.requirePermission('sale:return');
+      const venda = await saleHistoryService.find(termo);
+      return {
+        success: true,
+        data: venda
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para registrar devolução/troca (autorizada pelo supervisor)
+  ipcMain.handle('saleReturn:create', async (event, dados: {
+    vendaId: number;
+    itens: SaleReturnRequestItem[];
+    tipoReembolso: RefundType;
+    autorizacaoId: number;
+  }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:return');
+      const turno = await shiftService.requireOpenShift();
+      
+      await overrideService.requireItemAuthorizations(
+        'ITEM_RETURN',
+        [{ autorizacaoId: dados.autorizacaoId, detalhes: { venda_id: dados.vendaId } }],
+        operador.id
+      );
+      const autorizacao = await overrideService.getAuthorization(dados.autorizacaoId);
+      
+      const venda = await saleHistoryService.findById(dados.vendaId);
+      if (!venda) {
+        throw new Error('Venda original não encontrada no histórico do caixa');
+      }
+      
+      const itens = returnService.buildReturnItems(venda, dados.itens);
+      // Qualquer parte em dinheiro (inclusive o rateio da forma original) sai da gaveta
+      const reembolsoDinheiroCents = cashRefundCents(returnService.buildRefunds(venda, itens, dados.tipoReembolso));
+      if (reembolsoDinheiroCents > 0) {
+        await shiftService.requireCashAvailable(reembolsoDinheiroCents / 100);
+      }
+      await overrideService.consumeAuthorizations([dados.autorizacaoId], `DEVOLUCAO venda ${venda.numero_venda}`);
+      
+      const devolucao = await returnService.registerReturn(venda, itens, dados.tipoReembolso, turno, operador, {
+        codigo: autorizacao!.supervisor_codigo,
+        autorizacaoId: autorizacao!.id
+      });
+      await saleHistoryService.addReturnedQuantities(venda.id, devolucao.itens);
+      await shiftService.registerReturn(devolucao);
+      
+      const comprovante = receiptService.buildReturnReceipt(devolucao);
+      if (cashRefundCents(devolucao.reembolsos) > 0) {
+        openDrawer(turno.id, 'DEVOLUCAO', operador.codigo, {
+          referencia: `venda ${venda.numero_venda}`,
+          autorizadoPor: autorizacao!.supervisor_codigo
+        });
+      }
+      printReceipt(comprovante, 'comprovante de devolução');
+      
+      // Enviar atualização de status (fila de sincronização pode ter mudado)
+      sendStatusUpdate();
+      
+      return {
+        success: true,
+        data: {
+          devolucao,
+          comprovante
+        }
+      };
+    } catch (error: any) {
+      logger.error('RETURN', 'Erro ao registrar devolução', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para consultar o histórico local de vendas (tela de histórico)
+  ipcMain.handle('saleHistory:search', async (event, filtros: SaleHistoryFilter) => {
+    try {
+      operatorService.requirePermission('sale:history');
+      const vendas = await saleHistoryService.search(filtros || {});
+      return {
+        success: true,
+        data: vendas
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para reimprimir o cupom de uma venda do histórico (segunda via)
+  ipcMain.handle('saleHistory:reprint', async (event, vendaId: number) => {
+    try {
+      const operador = operatorService.requirePermission('sale:history');
+      const venda = await saleHistoryService.findById(vendaId);
+      if (!venda) {
+        throw new Error('Venda não encontrada no histórico do caixa');
+      }
+      
+      const comprovante = receiptService.buildReprintReceipt(venda, await saleHistoryService.getReceipt(venda.id));
+      printReceipt(comprovante, `segunda via da venda ${venda.numero_venda}`);
+      logger.info('SALE_HISTORY', `Segunda via da venda ${venda.numero_venda}`, { operador: operador.codigo });
+      
+      return {
+        success: true,
+        data: comprovante
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para o comprovante de uma venda do histórico sem imprimir (prévia e exportação)
+  ipcMain.handle('saleHistory:receipt', async (event, vendaId: number) => {
+    try {
+      operatorService.requirePermission('sale:history');
+      const venda = await saleHistoryService.findById(vendaId);
+      if (!venda) {
+        throw new Error('Venda não encontrada no histórico do caixa');
+      }
+      
+      // Cupom original; vendas antigas sem o texto gravado saem como segunda via
+      const comprovante = await saleHistoryService.getReceipt(venda.id)
+        ?? receiptService.buildReprintReceipt(venda, null);
+      
+      return {
+        success: true,
+        data: comprovante
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para as NFC-e ainda não recebidas pelo servidor (pendentes ou reprovadas no XSD)
+  ipcMain.handle('nfce:pending', async () => {
+    try {
+      operatorService.requirePermission('nfce:manage');
+      
+      return {
+        success: true,
+        data: await nfceService.listPending()
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para revalidar o XML guardado de uma NFC-e contra os schemas da pasta
+  ipcMain.handle('nfce:validate', async (event, chave: string) => {
+    try {
+      operatorService.requirePermission('nfce:manage');
+      
+      return {
+        success: true,
+        data: await nfceService.validate(chave)
+      };
+    } catch (error: any) {
+      logger.error('NFCE', 'Erro ao validar NFC-e', { error: error.message, chave });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para a prévia do cupom exatamente como a impressora monta
+  ipcMain.handle('receipt:preview', async (event, comprovante: string) => {
+    try {
+      operatorService.requirePermission('receipt:export');
+      return {
+        success: true,
+        data: printerService.layout(comprovante)
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para exportar qualquer comprovante em PDF ou HTML (pasta PDV_COMPROVANTES_PASTA)
+  ipcMain.handle('receipt:export', async (event, dados: { comprovante: string; formato: ReceiptExportFormat; nome: string }) => {
+    try {
+      operatorService.requirePermission('receipt:export');
+      if (!dados.comprovante?.trim()) {
+        throw new Error('Comprovante vazio');
+      }
+      if (dados.formato !== 'PDF' && dados.formato !== 'HTML') {
+        throw new Error(`Formato de exportação inválido: ${dados.formato}`);
+      }
+      
+      const arquivo = await receiptExportService.export(printerService.layout(dados.comprovante), dados.formato, dados.nome);
+      
+      return {
+        success: true,
+        data: arquivo
+      };
+    } catch (error: any) {
+      logger.error('RECEIPT_EXPORT', 'Erro ao exportar comprovante', { error: error.message, nome: dados.nome });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para cancelar um cupom já finalizado no turno atual (autorização do supervisor)
+  ipcMain.handle('sale:void', async (event, dados: { vendaId: number; motivo: string; autorizacaoId: number }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      
+      await overrideService.requireItemAuthorizations(
+        'SALE_CANCEL',
+        [{ autorizacaoId: dados.autorizacaoId, detalhes: { venda_id: dados.vendaId } }],
+        operador.id
+      );
+      const autorizacao = await overrideService.getAuthorization(dados.autorizacaoId);
+      
+      const venda = await saleHistoryService.findById(dados.vendaId);
+      if (!venda) {
+        throw new Error('Venda não encontrada no histórico do caixa');
+      }
+      
+      // Dinheiro da venda volta ao cliente
+      const dinheiro = venda.pagamentos
+        .filter(pagamento => pagamento.tipo === 'DINHEIRO')
+        .reduce((soma, pagamento) => soma + pagamento.valor, 0);
+      if (dinheiro > 0) {
+        await shiftService.requireCashAvailable(dinheiro);
+      }
+      await overrideService.consumeAuthorizations([dados.autorizacaoId], `CANCELAMENTO venda ${venda.numero_venda}`);
+      
+      const cancelamento = await saleHistoryService.cancelSale(venda, turno, operador, {
+        codigo: autorizacao!.supervisor_codigo,
+        autorizacaoId: autorizacao!.id
+      }, dados.motivo);
+      await shiftService.cancelSale(turno.id, venda.id);
+      await cancelNfce(venda, dados.motivo);
+      
+      const comprovante = receiptService.buildCancellationReceipt(cancelamento);
+      if (dinheiro > 0) {
+        openDrawer(turno.id, 'CANCELAMENTO', operador.codigo, {
+          referencia: `venda ${venda.numero_venda}`,
+          observacao: dados.motivo,
+          autorizadoPor: autorizacao!.supervisor_codigo
+        });
+      }
+      printReceipt(comprovante, 'comprovante de cancelamento');
+      
+      // Enviar atualização de status (fila de sincronização pode ter mudado)
+      sendStatusUpdate();
+      
+      return {
+        success: true,
+        data: {
+          cancelamento,
+          comprovante
+        }
+      };
+    } catch (error: any) {
+      logger.error('SALE', 'Erro ao cancelar cupom', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para consultar a venda em andamento (restauração na inicialização)
+  ipcMain.handle('cart:get', async () => {
+    try {
+      operatorService.requirePermission('sale:create');
+      const turno = await shiftService.getOpenShift();
+      const carrinho = await cartService.get(turno?.id ?? null);
+      return {
+        success: true,
+        data: carrinho
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para gravar a venda em andamento (chamado a cada alteração do carrinho)
+  ipcMain.handle('cart:save', async (event, dados: { itens: any[]; desconto_venda?: any; pagamentos?: any[]; documento_consumidor?: string | null; cliente?: any }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      const carrinho = await cartService.save(
+        turno.id,
+        operador,
+        dados.itens,
+        dados.desconto_venda || null,
+        dados.pagamentos || [],
+        dados.documento_consumidor || null,
+        dados.cliente || null
+      );
+      return {
+        success: true,
+        data: carrinho
+      };
+    } catch (error: any) {
+      logger.error('CART', 'Erro ao gravar venda em andamento', { error: error.message });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para colocar a venda atual em espera
+  ipcMain.handle('parkedSale:park', async (event, dados: { itens: any[]; desconto_venda?: any }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      const venda = await parkedSaleService.park(turno.id, operador, dados.itens, dados.desconto_venda || null);
+      await cartService.clear();
+      return {
+        success: true,
+        data: venda
+      };
+    } catch (error: any) {
+      logger.error('PARKED_SALE', 'Erro ao colocar venda em espera', { error: error.message });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para listar as vendas em espera do turno aberto
+  ipcMain.handle('parkedSale:list', async () => {
+    try {
+      operatorService.requirePermission('sale:create');
+      const turno = await shiftService.getOpenShift();
+      const vendas = turno ? await parkedSaleService.list(turno.id) : [];
+      return {
+        success: true,
+        data: vendas
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para recuperar uma venda em espera
+  ipcMain.handle('parkedSale:recall', async (event, id: number) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      const venda = await parkedSaleService.recall(id, turno.id, operador);
+      return {
+        success: true,
+        data: venda
+      };
+    } catch (error: any) {
+      logger.error('PARKED_SALE', `Erro ao recuperar venda em espera ${id}`, { error: error.message });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para sangria/suprimento
+  ipcMain.handle('cashMovement:create', async (event, dados: { tipo: 'SANGRIA' | 'SUPRIMENTO'; valor: number; motivo: string; autorizacaoId: number }) => {
+    try {
+      const operador = operatorService.requirePermission('cash:movement');
+      
+      // Supervisor confirma o movimento por PIN/crachá; autorização vale para este tipo e valor
+      await overrideService.requireItemAuthorizations(
+        'CASH_MOVEMENT',
+        [{ autorizacaoId: dados.autorizacaoId, detalhes: { tipo: dados.tipo, valor: dados.valor } }],
+        operador.id
+      );
+      const autorizacao = await overrideService.getAuthorization(dados.autorizacaoId);
+      const supervisor = { codigo: autorizacao!.supervisor_codigo, autorizacaoId: autorizacao!.id };
+      
+      const turno = await shiftService.validateMovement(dados.tipo, dados.valor, dados.motivo, operador, supervisor);
+      await overrideService.consumeAuthorizations([dados.autorizacaoId], `${dados.tipo} turno ${turno.id}`);
+      
+      const movimento = await shiftService.registerMovement(dados.tipo, dados.valor, dados.motivo, operador, supervisor);
+      const comprovante = receiptService.buildMovementReceipt(movimento);
+      openDrawer(movimento.turno_id, movimento.tipo, operador.codigo, {
+        referencia: `movimento ${movimento.id}`,
+        observacao: movimento.motivo,
+        autorizadoPor: movimento.supervisor
+      });
+      printReceipt(comprovante, `comprovante de ${movimento.tipo === 'SANGRIA' ? 'sangria' : 'suprimento'}`);
+      
+      // Enviar atualização de status (fila de sincronização pode ter mudado)
+      sendStatusUpdate();
+      
+      return {
+        success: true,
+        data: {
+          movimento,
+          comprovante
+        }
+      };
+    } catch (error: any) {
+      logger.error('CASH_MOVEMENT', 'Erro ao registrar movimento de caixa', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para abrir a gaveta sem venda (troco, conferência): exige permissão ou autorização do supervisor
+  ipcMain.handle('drawer:open', async (event, dados: { motivo: string; autorizacaoId?: number }) => {
+    try {
+      const operador = operatorService.requirePermission('sale:create');
+      const turno = await shiftService.requireOpenShift();
+      
+      if (!printerService.hasDrawer()) {
+        throw new Error('Gaveta de dinheiro não configurada');
+      }
+      if (!dados.motivo?.trim()) {
+        throw new Error('Informe o motivo da abertura da gaveta');
+      }
+      
+      let autorizadoPor: string | null = null;
+      if (!operatorService.hasPermission('drawer:open')) {
+        await overrideService.useItemAuthorizations(
+          'DRAWER_OPEN',
+          [{ autorizacaoId: dados.autorizacaoId, detalhes: { motivo: dados.motivo.trim() } }],
+          operador.id,
+          `GAVETA turno ${turno.id}`
+        );
+        autorizadoPor = (await overrideService.getAuthorization(dados.autorizacaoId!))!.supervisor_codigo;
+      }
+      
+      await printerService.openDrawer();
+      const abertura = await shiftService.registerDrawerOpening({
+        turnoId: turno.id,
+        motivo: 'SEM_VENDA',
+        observacao: dados.motivo.trim(),
+        operador: operador.codigo,
+        autorizadoPor,
+        aberta: true
+      });
+      
+      return {
+        success: true,
+        data: abertura
+      };
+    } catch (error: any) {
+      logger.error('DRAWER', 'Erro ao abrir a gaveta sem venda', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para listar movimentos do turno aberto
+  ipcMain.handle('cashMovement:list', async () => {
+    try {
+      operatorService.requirePermission('cash:movement');
+      const movimentos = await shiftService.listMovements();
+      return {
+        success: true,
+        data: movimentos
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para consultar o turno aberto (sem valores esperados - contagem cega)
+  // Sem verificação de permissão: usado antes do login para decidir a tela inicial
+  ipcMain.handle('shift:getCurrent', async () => {
+    try {
+      const turno = await shiftService.getOpenShift();
+      return {
+        success: true,
+        data: turno
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para abertura de caixa
+  ipcMain.handle('shift:open', async (event, dados: { fundo_troco: number }) => {
+    try {
+      const operador = operatorService.requirePermission('shift:open');
+      const turno = await shiftService.openShift(operador.codigo, dados.fundo_troco);
+      return {
+        success: true,
+        data: turno
+      };
+    } catch (error: any) {
+      logger.error('SHIFT', 'Erro ao abrir caixa', { error: error.message, dados });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para fechamento de caixa com contagem cega
+  ipcMain.handle('shift:close', async (event, dados: { contagem: Record<string, number>; observacao?: string }) => {
+    try {
+      operatorService.requirePermission('shift:close');
+      const relatorio = await shiftService.closeShift(dados.contagem, dados.observacao);
+      relatorio.vendas_espera_expiradas = await parkedSaleService.expireShift(relatorio.turno.id);
+      return {
+        success: true,
+        data: relatorio
+      };
+    } catch (error: any) {
+      logger.error('SHIFT', 'Erro ao fechar caixa', { error: error.message });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
   // Handler para sincronização manual de cache
   ipcMain.handle('cache:sync', async () => {
     try {
+      operatorService.requirePermission('cache:sync');
       const success = await productService.forceSync();
+      await operatorService.syncOperators();
+      await discountService.syncReasons();
+      await promotionService.syncPromotions();
+      await customerService.syncCustomers();
       
       // Enviar atualização de status após sincronização
       sendStatusUpdate();
@@ -233,7 +1234,24 @@ function setupPDVHandlers(): void {
     }
   });
 
-  // Handler para status da API e cache
+  // Handler para configurações de operação usadas pela tela do PDV
+  ipcMain.handle('config:getPdv', async () => {
+    try {
+      return {
+        success: true,
+        data: {
+          tecla_repetir_item: apiConfig.config.repeatItemKey
+        }
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para status da API e cache (livre: exibido também na tela de login)
   ipcMain.handle('api:getStatus', async () => {
     try {
       const status = await productService.getStatus();
@@ -249,7 +1267,7 @@ function setupPDVHandlers(): void {
     }
   });
 
-  // Handler para leitor de código de barras
+  // Handler para leitor de código de barras (livre: o leitor é ligado antes do login)
   ipcMain.handle('barcode:listen', async () => {
     try {
       if (barcodeService) {
@@ -272,6 +1290,7 @@ function setupPDVHandlers(): void {
    // HANDLER PARA LOGS
   ipcMain.handle('logs:export', async (event, filters) => {
     try {
+      operatorService.requirePermission('logs:export');
       logger.info('LOG_EXPORT', 'Exportando logs', filters);
       
       const startDate = filters.startDate ? new Date(filters.startDate) : undefined;
@@ -299,6 +1318,7 @@ function setupPDVHandlers(): void {
   // HANDLER PARA ESTATÍSTICAS DE LOGS
   ipcMain.handle('logs:stats', async () => {
     try {
+      operatorService.requirePermission('logs:export');
       const stats = logger.getLogStats();
       return {
         success: true,
@@ -313,6 +1333,70 @@ function setupPDVHandlers(): void {
     }
   });
 
+  // HANDLERS DE OPERADOR (LOGIN/LOGOUT)
+  ipcMain.handle('auth:login', async (event, dados: { codigo: string; pin: string }) => {
+    try {
+      const sessao = await operatorService.login(dados.codigo, dados.pin);
+      return {
+        success: true,
+        data: sessao
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  ipcMain.handle('auth:logout', async () => {
+    try {
+      operatorService.logout();
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  ipcMain.handle('auth:getSession', async () => {
+    try {
+      return {
+        success: true,
+        data: operatorService.getSession()
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
+  // Handler para autorização de supervisor (PIN ou crachá) de uma ação restrita
+  // A permissão exigida é a do supervisor, validada pelo OverrideService
+  ipcMain.handle('override:authorize', async (event, dados: { acao: OverrideAction; credenciais: OverrideCredentials; detalhes?: Record<string, any> }) => {
+    try {
+      const autorizacao = await overrideService.authorize(dados.acao, dados.credenciais, dados.detalhes);
+      
+      // Auditoria pode ter entrado na fila de sincronização
+      sendStatusUpdate();
+      
+      return {
+        success: true,
+        data: autorizacao
+      };
+    } catch (error: any) {
+      logger.warn('OVERRIDE', 'Autorizacao de supervisor recusada', { error: error.message, acao: dados?.acao });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  });
+
   console.log('✅ Handlers IPC do PDV com API configurados');
 }
 
@@ -363,6 +1447,14 @@ function setupPDVShortcuts(): void {
   // ATALHO PARA EXPORTAR LOGS (Ctrl+L)
   globalShortcut.register('CommandOrControl+L', async () => {
     try {
+      if (!operatorService.hasPermission('logs:export')) {
+        mainWindow?.webContents.send('pdv:notification', {
+          type: 'error',
+          message: 'Operador sem permissão para exportar logs'
+        });
+        return;
+      }
+      
       logger.info('LOG_EXPORT', 'Exportacoo de logs iniciada via atalho');
       
       const logs = logger.exportLogs();
@@ -0,0 +1,142 @@
+// ================================
+// CartService.ts - Venda em Andamento (à prova de queda)
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import type {
+  CartState,
+  Customer,
+  Discount,
+  Operator
+} from '../types/NetworkTypes';
+
+export class CartService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private carrinho: CartState | null = null;
+
+  constructor(apiService: PdvApiService) {
+    this.apiService = apiService;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Venda em andamento: uma única linha, regravada a cada alteração do carrinho
+      CREATE TABLE IF NOT EXISTS venda_em_andamento (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        turno_id INTEGER NOT NULL,
+        operador_id INTEGER NOT NULL,
+        operador_nome TEXT NOT NULL,
+        estado_json TEXT NOT NULL,
+        versao INTEGER NOT NULL,
+        iniciado_em TEXT NOT NULL,
+        atualizado_em TEXT NOT NULL
+      );
+    `);
+
+    const registro = await this.db.get('SELECT * FROM venda_em_andamento WHERE id = 1');
+    if (!registro) return;
+
+    try {
+      const { estado_json, id, ...dados } = registro;
+      const estado = JSON.parse(estado_json);
+      this.carrinho = {
+        ...dados,
+        itens: estado.itens || [],
+        desconto_venda: estado.desconto_venda || null,
+        pagamentos: estado.pagamentos || [],
+        documento_consumidor: estado.documento_consumidor || null,
+        cliente: estado.cliente || null
+      };
+
+      this.logger.warn('CART', `Venda em andamento recuperada do disco (${this.carrinho!.itens.length} itens)`, {
+        turno_id: this.carrinho!.turno_id,
+        operador: this.carrinho!.operador_nome,
+        pagamentos: this.carrinho!.pagamentos.length,
+        versao: this.carrinho!.versao
+      });
+    } catch (error: any) {
+      this.logger.error('CART', 'Venda em andamento corrompida - descartada', error);
+      await this.clear();
+    }
+  }
+
+  // Carrinho de outro turno (caixa já fechado) não é mais restaurável
+  async get(turnoId: number | null): Promise<CartState | null> {
+    if (this.carrinho && this.carrinho.turno_id !== turnoId) {
+      this.logger.warn('CART', `Venda em andamento do turno ${this.carrinho.turno_id} descartada (turno encerrado)`);
+      await this.clear();
+    }
+
+    return this.carrinho;
+  }
+
+  // Grava o estado completo a cada alteração; carrinho vazio apaga o registro
+  async save(
+    turnoId: number,
+    operador: Operator,
+    itens: Record<string, any>[],
+    descontoVenda: Discount | null = null,
+    pagamentos: Record<string, any>[] = [],
+    documentoConsumidor: string | null = null,
+    cliente: Customer | null = null
+  ): Promise<CartState | null> {
+    if (!Array.isArray(itens) || !Array.isArray(pagamentos)) {
+      throw new Error('Estado do carrinho inválido');
+    }
+
+    if (itens.length === 0 && pagamentos.length === 0 && !documentoConsumidor && !cliente) {
+      await this.clear();
+      return null;
+    }
+
+    const agora = new Date().toISOString();
+    const carrinho: CartState = {
+      turno_id: turnoId,
+      operador_id: operador.id,
+      operador_nome: operador.nome,
+      itens,
+      desconto_venda: descontoVenda,
+      pagamentos,
+      documento_consumidor: documentoConsumidor,
+      cliente,
+      versao: (this.carrinho?.versao || 0) + 1,
+      iniciado_em: this.carrinho?.iniciado_em || agora,
+      atualizado_em: agora
+    };
+
+    await this.db.run(`
+      INSERT OR REPLACE INTO venda_em_andamento (
+        id, turno_id, operador_id, operador_nome, estado_json, versao, iniciado_em, atualizado_em
+      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      carrinho.turno_id,
+      carrinho.operador_id,
+      carrinho.operador_nome,
+      JSON.stringify({ itens, desconto_venda: descontoVenda, pagamentos, documento_consumidor: documentoConsumidor, cliente }),
+      carrinho.versao,
+      carrinho.iniciado_em,
+      carrinho.atualizado_em
+    ]);
+
+    this.carrinho = carrinho;
+    return carrinho;
+  }
+
+  // Venda finalizada, cancelada ou colocada em espera
+  async clear(): Promise<void> {
+    await this.db.run('DELETE FROM venda_em_andamento');
+
+    if (this.carrinho) {
+      this.logger.debug('CART', `Venda em andamento encerrada (versao ${this.carrinho.versao})`);
+    }
+    this.carrinho = null;
+  }
+}
@@ -0,0 +1,393 @@
+// ================================
+// CustomerService.ts - Consumidor (CPF/CNPJ na nota), Fidelidade e Crédito na Loja
+// ================================
+
+import * as crypto from 'crypto';
+import { PdvApiService } from './PdvApiService';
+import { LocalCacheService } from './LocalCacheService';
+import { LogService } from './LogService';
+import { itemGrossCents } from './ScaleBarcodeService';
+import type {
+  Customer,
+  CustomerDocument,
+  LoyaltyRules,
+  PaymentType,
+  SaleLoyalty,
+  SaleStoreCredit,
+  Shift,
+  StoreCreditPayment
+} from '../types/NetworkTypes';
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Formas aceitas no recebimento de conta (crédito na loja e pontos não quitam conta)
+const ACCOUNT_PAYMENT_TYPES: PaymentType[] = ['DINHEIRO', 'CARTAO_DEBITO', 'CARTAO_CREDITO', 'PIX'];
+
+// Remove máscara; CNPJ alfanumérico mantém as letras (maiúsculas)
+export function normalizeDocument(valor: string): string {
+  return String(valor || '').toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+// Dígito verificador módulo 11 (pesos da direita para a esquerda, de 2 até o peso máximo)
+function mod11Digit(base: string, pesoMaximo: number): number {
+  let peso = 2;
+  let soma = 0;
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    soma += (base.charCodeAt(i) - 48) * peso;
+    peso = peso === pesoMaximo ? 2 : peso + 1;
+  }
+
+  const resto = soma % 11;
+  return resto < 2 ? 0 : 11 - resto;
+}
+
+export function isValidCpf(valor: string): boolean {
+  const cpf = normalizeDocument(valor);
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const primeiro = mod11Digit(cpf.slice(0, 9), 11);
+  const segundo = mod11Digit(cpf.slice(0, 10), 11);
+
+  return cpf.endsWith(`${primeiro}${segundo}`);
+}
+
+// CNPJ numérico ou alfanumérico (12 posições 0-9/A-Z + 2 dígitos verificadores)
+export function isValidCnpj(valor: string): boolean {
+  const cnpj = normalizeDocument(valor);
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+  const primeiro = mod11Digit(cnpj.slice(0, 12), 9);
+  const segundo = mod11Digit(cnpj.slice(0, 13), 9);
+
+  return cnpj.endsWith(`${primeiro}${segundo}`);
+}
+
+// Documento validado pelos dígitos verificadores; o tipo é definido pelo tamanho
+export function validateCustomerDocument(valor: string): CustomerDocument {
+  const documento = normalizeDocument(valor);
+
+  if (documento.length === 11) {
+    if (!isValidCpf(documento)) throw new Error('CPF inválido');
+    return { tipo: 'CPF', numero: documento };
+  }
+
+  if (documento.length === 14) {
+    if (!isValidCnpj(documento)) throw new Error('CNPJ inválido');
+    return { tipo: 'CNPJ', numero: documento };
+  }
+
+  throw new Error('Informe um CPF (11 dígitos) ou CNPJ (14 posições)');
+}
+
+export function formatCustomerDocument(documento: CustomerDocument): string {
+  const n = documento.numero;
+  return documento.tipo === 'CPF'
+    ? `${n.slice(0, 3)}.${n.slice(3, 6)}.${n.slice(6, 9)}-${n.slice(9)}`
+    : `${n.slice(0, 2)}.${n.slice(2, 5)}.${n.slice(5, 8)}/${n.slice(8, 12)}-${n.slice(12)}`;
+}
+
+export class CustomerService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private regras: LoyaltyRules;
+  private caixaId: string;
+
+  constructor(apiService: PdvApiService, regras: LoyaltyRules, caixaId: string) {
+    this.apiService = apiService;
+    this.logger = LogService.getInstance();
+    this.regras = regras;
+    this.caixaId = caixaId;
+  }
+
+  private get cache(): LocalCacheService {
+    return this.apiService.getCache();
+  }
+
+  async initialize(): Promise<void> {
+    await this.syncCustomers();
+  }
+
+  // Atualizar clientes a partir da API (mantém o cache atual se offline)
+  async syncCustomers(): Promise<boolean> {
+    const clientes = await this.apiService.fetchCustomers();
+
+    if (!clientes) {
+      this.logger.warn('CUSTOMER', 'API indisponivel - usando cache local de clientes');
+      return false;
+    }
+
+    await this.cache.syncClientes(clientes);
+    this.logger.info('CUSTOMER', `${clientes.length} clientes sincronizados`);
+    return true;
+  }
+
+  getRules(): LoyaltyRules {
+    return { ...this.regras };
+  }
+
+  // Busca pelo CPF (quando os dígitos verificadores conferem) ou pelo telefone com DDD
+  async find(termo: string): Promise<Customer | null> {
+    const digitos = String(termo || '').replace(/\D/g, '');
+
+    if (digitos.length === 11 && isValidCpf(digitos)) {
+      const cliente = await this.cache.findCustomer('cpf', digitos);
+      if (cliente) return this.toCustomer(cliente);
+    }
+
+    if (digitos.length === 10 || digitos.length === 11) {
+      const cliente = await this.cache.findCustomer('telefone', digitos);
+      return cliente ? this.toCustomer(cliente) : null;
+    }
+
+    throw new Error('Informe o CPF ou o telefone com DDD do cliente');
+  }
+
+  // Resgate (forma de pagamento PONTOS) conferido contra o saldo; acúmulo só sobre o valor pago em outras formas
+  async applyLoyalty(
+    vendaData: { items: any[]; valor_desconto_venda?: number; payments?: any[] },
+    clienteId?: number | null
+  ): Promise<SaleLoyalty | null> {
+    const resgateCents = (vendaData.payments || [])
+      .filter((pagamento: any) => pagamento.tipo === 'PONTOS')
+      .reduce((soma: number, pagamento: any) => soma + toCents(pagamento.valor), 0);
+
+    if (!clienteId) {
+      if (resgateCents > 0) throw new Error('Identifique o cliente para pagar com pontos');
+      return null;
+    }
+
+    const registro = await this.cache.findCustomer('id', clienteId);
+    if (!registro) {
+      throw new Error('Cliente do programa de fidelidade não encontrado');
+    }
+
+    const cliente = this.toCustomer(registro);
+    const valorPontoCents = toCents(this.regras.valor_ponto);
+    const totalCents = vendaData.items.reduce((soma: number, item: any) =>
+      soma + itemGrossCents(item) - toCents(item.valor_desconto) - toCents(item.valor_promocao), 0)
+      - toCents(vendaData.valor_desconto_venda || 0);
+
+    let pontosResgatados = 0;
+    if (resgateCents > 0) {
+      if (valorPontoCents <= 0) {
+        throw new Error('Resgate de pontos desativado neste caixa');
+      }
+
+      if (resgateCents > totalCents) {
+        throw new Error('Pagamento com pontos maior que o total da venda');
+      }
+
+      // Valor que não fecha em pontos inteiros arredonda para cima
+      pontosResgatados = Math.ceil(resgateCents / valorPontoCents);
+      if (pontosResgatados > cliente.pontos) {
+        this.logger.warn('CUSTOMER', `Saldo de pontos insuficiente para o cliente ${cliente.id}`, {
+          necessario: pontosResgatados,
+          disponivel: cliente.pontos
+        });
+        throw new Error(`Saldo de pontos insuficiente. Necessário: ${pontosResgatados} | Disponível: ${cliente.pontos}`);
+      }
+    }
+
+    const pontosAcumulados = Math.max(0, Math.floor((totalCents - resgateCents) * this.regras.pontos_por_real / 100 + 1e-9));
+
+    return {
+      cliente_id: cliente.id,
+      cliente_nome: cliente.nome,
+      referencia: crypto.randomUUID(),
+      pontos_acumulados: pontosAcumulados,
+      pontos_resgatados: pontosResgatados
+    };
+  }
+
+  // Movimentos gravados depois da venda registrada; venda offline fica pendente até o syncPendingSales
+  async registerPoints(fidelidade: SaleLoyalty, sincronizado: boolean): Promise<SaleLoyalty> {
+    const movimentos: Array<{ tipo: 'ACUMULO' | 'RESGATE'; pontos: number }> = [];
+
+    if (fidelidade.pontos_resgatados > 0) {
+      movimentos.push({ tipo: 'RESGATE', pontos: -fidelidade.pontos_resgatados });
+    }
+    if (fidelidade.pontos_acumulados > 0) {
+      movimentos.push({ tipo: 'ACUMULO', pontos: fidelidade.pontos_acumulados });
+    }
+
+    if (movimentos.length > 0) {
+      await this.cache.addLoyaltyPoints(fidelidade.cliente_id, fidelidade.referencia, movimentos, sincronizado);
+    }
+
+    const registro = await this.cache.findCustomer('id', fidelidade.cliente_id);
+    const saldo = registro ? this.toCustomer(registro).pontos : undefined;
+
+    this.logger.info('CUSTOMER', `Pontos da venda registrados para o cliente ${fidelidade.cliente_id}`, {
+      acumulados: fidelidade.pontos_acumulados,
+      resgatados: fidelidade.pontos_resgatados,
+      saldo,
+      sincronizado
+    });
+
+    return { ...fidelidade, saldo };
+  }
+
+  // Venda no crédito da loja (forma CREDITO_LOJA): só cliente cadastrado e dentro do limite disponível
+  async applyStoreCredit(
+    vendaData: { items: any[]; valor_desconto_venda?: number; payments?: any[] },
+    clienteId?: number | null
+  ): Promise<SaleStoreCredit | null> {
+    const creditoCents = (vendaData.payments || [])
+      .filter((pagamento: any) => pagamento.tipo === 'CREDITO_LOJA')
+      .reduce((soma: number, pagamento: any) => soma + toCents(pagamento.valor), 0);
+
+    if (creditoCents <= 0) return null;
+
+    if (!clienteId) {
+      throw new Error('Identifique o cliente para vender no crédito da loja');
+    }
+
+    const registro = await this.cache.findCustomer('id', clienteId);
+    if (!registro) {
+      throw new Error('Cliente não encontrado no cadastro');
+    }
+
+    const cliente = this.toCustomer(registro);
+    if (cliente.limite_credito <= 0) {
+      throw new Error(`Cliente ${cliente.nome} não possui crédito na loja`);
+    }
+
+    const totalCents = vendaData.items.reduce((soma: number, item: any) =>
+      soma + itemGrossCents(item) - toCents(item.valor_desconto) - toCents(item.valor_promocao), 0)
+      - toCents(vendaData.valor_desconto_venda || 0);
+
+    if (creditoCents > totalCents) {
+      throw new Error('Pagamento no crédito da loja maior que o total da venda');
+    }
+
+    if (creditoCents > toCents(cliente.credito_disponivel)) {
+      this.logger.warn('CUSTOMER', `Limite de crédito insuficiente para o cliente ${cliente.id}`, {
+        valor: fromCents(creditoCents),
+        limite: cliente.limite_credito,
+        saldo_devedor: cliente.saldo_devedor
+      });
+      throw new Error(
+        `Limite de crédito insuficiente. Disponível: R$ ${cliente.credito_disponivel.toFixed(2).replace('.', ',')}`
+      );
+    }
+
+    return {
+      cliente_id: cliente.id,
+      cliente_nome: cliente.nome,
+      referencia: crypto.randomUUID(),
+      valor: fromCents(creditoCents)
+    };
+  }
+
+  // Compra lançada na conta depois da venda registrada; venda offline fica pendente até o syncPendingSales
+  async registerStoreCredit(conta: SaleStoreCredit, sincronizado: boolean): Promise<SaleStoreCredit> {
+    await this.cache.addStoreCreditMovement(conta.cliente_id, conta.referencia, 'COMPRA', conta.valor, sincronizado);
+
+    const registro = await this.cache.findCustomer('id', conta.cliente_id);
+    const saldoDevedor = registro ? this.toCustomer(registro).saldo_devedor : undefined;
+
+    this.logger.info('CUSTOMER', `Compra no crédito da loja registrada para o cliente ${conta.cliente_id}`, {
+      valor: conta.valor,
+      saldo_devedor: saldoDevedor,
+      sincronizado
+    });
+
+    return { ...conta, saldo_devedor: saldoDevedor };
+  }
+
+  // Recebimento de conta: abate o saldo devedor e segue pela fila de operações quando offline
+  async registerAccountPayment(
+    clienteId: number,
+    dados: { tipo: PaymentType; valor: number; valorRecebido?: number },
+    turno: Shift,
+    operadorCodigo: string
+  ): Promise<StoreCreditPayment> {
+    if (!ACCOUNT_PAYMENT_TYPES.includes(dados.tipo)) {
+      throw new Error(`Forma de pagamento inválida para recebimento de conta: ${dados.tipo}`);
+    }
+
+    const valorCents = toCents(dados.valor);
+    if (typeof dados.valor !== 'number' || isNaN(dados.valor) || valorCents <= 0) {
+      throw new Error('Valor do recebimento deve ser maior que zero');
+    }
+
+    const registro = await this.cache.findCustomer('id', clienteId);
+    if (!registro) {
+      throw new Error('Cliente não encontrado no cadastro');
+    }
+
+    const cliente = this.toCustomer(registro);
+    if (valorCents > toCents(cliente.saldo_devedor)) {
+      throw new Error(
+        `Valor maior que o saldo devedor do cliente (R$ ${cliente.saldo_devedor.toFixed(2).replace('.', ',')})`
+      );
+    }
+
+    // Só dinheiro tem troco; nas demais formas o recebido é o próprio valor
+    const recebidoCents = dados.tipo === 'DINHEIRO' ? toCents(dados.valorRecebido ?? dados.valor) : valorCents;
+    if (recebidoCents < valorCents) {
+      throw new Error('Valor recebido menor que o valor do pagamento');
+    }
+
+    const referencia = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+    const sincronizado = await this.apiService.sendOrQueue('PAGAMENTO_CONTA', '/clientes/conta/pagamentos', {
+      caixaId: this.caixaId,
+      turnoId: turno.id,
+      referencia,
+      clienteId: cliente.id,
+      formaPagamento: dados.tipo,
+      valor: fromCents(valorCents),
+      operador: operadorCodigo,
+      dataHora: createdAt
+    });
+
+    await this.cache.addStoreCreditMovement(cliente.id, referencia, 'PAGAMENTO', -fromCents(valorCents), sincronizado);
+
+    const atualizado = await this.cache.findCustomer('id', cliente.id);
+    const pagamento: StoreCreditPayment = {
+      referencia,
+      cliente_id: cliente.id,
+      cliente_nome: cliente.nome,
+      turno_id: turno.id,
+      tipo: dados.tipo,
+      valor: fromCents(valorCents),
+      valor_recebido: fromCents(recebidoCents),
+      troco: fromCents(recebidoCents - valorCents),
+      saldo_devedor: atualizado ? this.toCustomer(atualizado).saldo_devedor : fromCents(toCents(cliente.saldo_devedor) - valorCents),
+      operador: operadorCodigo,
+      created_at: createdAt,
+      sincronizado
+    };
+
+    this.logger.info('CUSTOMER', `Recebimento de conta do cliente ${cliente.id}`, {
+      tipo: pagamento.tipo,
+      valor: pagamento.valor,
+      saldo_devedor: pagamento.saldo_devedor,
+      sincronizado
+    });
+
+    return pagamento;
+  }
+
+  private toCustomer(registro: any): Customer {
+    const pontos = (registro.pontos || 0) + (registro.pontos_pendentes || 0);
+    const limiteCents = toCents(registro.limite_credito);
+    const saldoDevedorCents = toCents(registro.saldo_devedor) + toCents(registro.conta_pendente);
+
+    return {
+      id: registro.id,
+      nome: registro.nome,
+      cpf: registro.cpf || null,
+      telefone: registro.telefone || null,
+      pontos,
+      pontos_pendentes: registro.pontos_pendentes || 0,
+      valor_disponivel: Math.floor(Math.max(0, pontos) * toCents(this.regras.valor_ponto)) / 100,
+      limite_credito: fromCents(limiteCents),
+      saldo_devedor: fromCents(saldoDevedorCents),
+      credito_disponivel: fromCents(Math.max(0, limiteCents - saldoDevedorCents))
+    };
+  }
+}
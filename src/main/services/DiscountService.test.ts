@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiscountCents } from './DiscountService';
+
+describe('calculateDiscountCents', () => {
+  it('percentual arredonda meio centavo para cima', () => {
+    expect(calculateDiscountCents(1005, { tipo: 'PERCENTUAL', valor: 10, motivo: 'AVARIA' })).toBe(101);
+    expect(calculateDiscountCents(999, { tipo: 'PERCENTUAL', valor: 12.5, motivo: 'AVARIA' })).toBe(125);
+  });
+
+  it('valor em reais vira centavos sem erro de ponto flutuante', () => {
+    expect(calculateDiscountCents(5000, { tipo: 'VALOR', valor: 0.29, motivo: 'AVARIA' })).toBe(29);
+    expect(calculateDiscountCents(5000, { tipo: 'VALOR', valor: 1.15, motivo: 'AVARIA' })).toBe(115);
+  });
+
+  it('fica limitado à base', () => {
+    expect(calculateDiscountCents(350, { tipo: 'VALOR', valor: 10, motivo: 'AVARIA' })).toBe(350);
+    expect(calculateDiscountCents(350, { tipo: 'PERCENTUAL', valor: 150, motivo: 'AVARIA' })).toBe(350);
+  });
+
+  it('sem desconto, valor não positivo ou base zerada não desconta', () => {
+    expect(calculateDiscountCents(1000, null)).toBe(0);
+    expect(calculateDiscountCents(1000, undefined)).toBe(0);
+    expect(calculateDiscountCents(1000, { tipo: 'VALOR', valor: 0, motivo: 'AVARIA' })).toBe(0);
+    expect(calculateDiscountCents(1000, { tipo: 'PERCENTUAL', valor: -5, motivo: 'AVARIA' })).toBe(0);
+    expect(calculateDiscountCents(0, { tipo: 'VALOR', valor: 5, motivo: 'AVARIA' })).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+// ================================
+// DiscountService.ts - Descontos por Item e na Venda
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { OverrideService } from './OverrideService';
+import { LogService } from './LogService';
+import { itemGrossCents } from './ScaleBarcodeService';
+import type {
+  Discount,
+  DiscountReason,
+  DiscountRules,
+  Operator,
+  OperatorRole
+} from '../types/NetworkTypes';
+
+// Motivos usados enquanto a API não enviar os cadastrados pela loja
+const DEFAULT_REASONS: DiscountReason[] = [
+  { codigo: 'AVARIA', descricao: 'Produto avariado' },
+  { codigo: 'VALIDADE', descricao: 'Próximo ao vencimento' },
+  { codigo: 'FIDELIDADE', descricao: 'Cliente fidelidade' },
+  { codigo: 'NEGOCIACAO', descricao: 'Negociação com o cliente' },
+  { codigo: 'CORTESIA', descricao: 'Cortesia da loja' }
+];
+
+// Tolerância de arredondamento na comparação de percentuais
+const PERCENT_TOLERANCE = 0.01;
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Valor do desconto em centavos, limitado à base
+export function calculateDiscountCents(baseCents: number, desconto: Discount | null | undefined): number {
+  if (!desconto || !(desconto.valor > 0) || baseCents <= 0) return 0;
+
+  const centavos = desconto.tipo === 'PERCENTUAL'
+    ? Math.round(baseCents * desconto.valor / 100)
+    : toCents(desconto.valor);
+
+  return Math.min(centavos, baseCents);
+}
+
+export class DiscountService {
+  private apiService: PdvApiService;
+  private overrideService: OverrideService;
+  private logger: LogService;
+  private limites: Record<OperatorRole, number>;
+
+  constructor(apiService: PdvApiService, overrideService: OverrideService, limites: Record<OperatorRole, number>) {
+    this.apiService = apiService;
+    this.overrideService = overrideService;
+    this.limites = limites;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Motivos de desconto cadastrados na retaguarda
+      CREATE TABLE IF NOT EXISTS cache_motivos_desconto (
+        codigo TEXT PRIMARY KEY,
+        descricao TEXT NOT NULL,
+        ativo BOOLEAN DEFAULT true,
+        cached_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Supervisor só autoriza descontos dentro do limite do próprio perfil
+    this.overrideService.registerValidator('DISCOUNT', (supervisor, detalhes) => {
+      this.assertWithinRoleLimit(supervisor.perfil, Number(detalhes.percentual) || 0, supervisor.nome);
+    });
+
+    await this.syncReasons();
+  }
+
+  // Atualizar motivos a partir da API (mantém o cache atual se offline)
+  async syncReasons(): Promise<boolean> {
+    const motivos = await this.apiService.fetchDiscountReasons();
+
+    if (!motivos) {
+      const total = await this.db.get('SELECT COUNT(*) as total FROM cache_motivos_desconto');
+      if (!total?.total) {
+        await this.replaceReasons(DEFAULT_REASONS);
+        this.logger.warn('DISCOUNT', 'Motivos de desconto padrao carregados (API indisponivel)');
+      }
+      return false;
+    }
+
+    await this.replaceReasons(motivos.filter((motivo: any) => motivo.ativo !== false));
+    this.logger.info('DISCOUNT', `${motivos.length} motivos de desconto sincronizados`);
+    return true;
+  }
+
+  private async replaceReasons(motivos: any[]): Promise<void> {
+    await this.db.exec('BEGIN TRANSACTION');
+
+    try {
+      await this.db.run('DELETE FROM cache_motivos_desconto');
+
+      for (const motivo of motivos) {
+        await this.db.run(
+          'INSERT INTO cache_motivos_desconto (codigo, descricao) VALUES (?, ?)',
+          [String(motivo.codigo), motivo.descricao]
+        );
+      }
+
+      await this.db.exec('COMMIT');
+    } catch (error: any) {
+      await this.db.exec('ROLLBACK');
+      this.logger.error('DISCOUNT', 'Erro ao gravar motivos de desconto', error);
+      throw error;
+    }
+  }
+
+  async getReasons(): Promise<DiscountReason[]> {
+    return this.db.all('SELECT codigo, descricao FROM cache_motivos_desconto WHERE ativo = true ORDER BY descricao');
+  }
+
+  getRoleLimit(perfil: OperatorRole): number {
+    return this.limites[perfil] ?? 0;
+  }
+
+  async getRules(operador: Operator): Promise<DiscountRules> {
+    return {
+      motivos: await this.getReasons(),
+      limite_percentual: this.getRoleLimit(operador.perfil),
+      limites: { ...this.limites }
+    };
+  }
+
+  assertWithinRoleLimit(perfil: OperatorRole, percentual: number, nome: string): void {
+    const limite = this.getRoleLimit(perfil);
+    if (percentual > limite + PERCENT_TOLERANCE) {
+      throw new Error(`${nome} pode conceder no máximo ${limite}% de desconto`);
+    }
+  }
+
+  // Recalcula e valida os descontos da venda; devolve os dados com os valores em R$ de cada desconto
+  async applyDiscounts<T extends { items: any[]; desconto_venda?: Discount | null }>(
+    vendaData: T,
+    operador: Operator
+  ): Promise<T & { valor_desconto_venda: number; autorizacoes_desconto: number[] }> {
+    const motivos = new Set((await this.getReasons()).map(motivo => motivo.codigo));
+    const autorizacoesUsadas = new Set<number>();
+
+    const validar = async (desconto: Discount, baseCents: number, descontoCents: number, origem: string): Promise<void> => {
+      if (!['PERCENTUAL', 'VALOR'].includes(desconto.tipo) || !(desconto.valor > 0)) {
+        throw new Error(`Desconto inválido em ${origem}`);
+      }
+
+      if (desconto.tipo === 'PERCENTUAL' && desconto.valor > 100) {
+        throw new Error(`Desconto acima de 100% em ${origem}`);
+      }
+
+      if (!desconto.motivo || !motivos.has(desconto.motivo)) {
+        throw new Error(`Motivo de desconto inválido em ${origem}`);
+      }
+
+      const percentual = baseCents > 0 ? (descontoCents / baseCents) * 100 : 0;
+      if (percentual <= this.getRoleLimit(operador.perfil) + PERCENT_TOLERANCE) return;
+
+      // Acima do limite do operador: precisa de autorização de desconto para este operador
+      const autorizacao = desconto.autorizacaoId
+        ? await this.overrideService.getAuthorization(desconto.autorizacaoId)
+        : null;
+
+      if (
+        !autorizacao ||
+        autorizacao.acao !== 'DISCOUNT' ||
+        autorizacao.operador_id !== operador.id ||
+        autorizacoesUsadas.has(autorizacao.id) ||
+        !this.overrideService.isAvailable(autorizacao) ||
+        Number(autorizacao.detalhes.percentual) + PERCENT_TOLERANCE < percentual
+      ) {
+        throw new Error(`Desconto de ${percentual.toFixed(2)}% em ${origem} exige autorização do supervisor`);
+      }
+
+      autorizacoesUsadas.add(autorizacao.id);
+    };
+
+    let liquidoCents = 0;
+    const items: any[] = [];
+
+    for (const item of vendaData.items) {
+      // Desconto do item incide sobre o bruto já sem a promoção da linha (o líquido nunca fica negativo)
+      const baseCents = Math.max(itemGrossCents(item) - toCents(item.valor_promocao), 0);
+      const descontoCents = calculateDiscountCents(baseCents, item.desconto);
+
+      if (item.desconto) {
+        await validar(item.desconto, baseCents, descontoCents, `item ${item.sequencia ?? item.codigo}`);
+      }
+
+      liquidoCents += baseCents - descontoCents;
+      items.push({ ...item, valor_desconto: fromCents(descontoCents) });
+    }
+
+    // Desconto na venda incide sobre o subtotal já com as promoções e os descontos dos itens
+    const descontoVendaCents = calculateDiscountCents(liquidoCents, vendaData.desconto_venda);
+    if (vendaData.desconto_venda) {
+      await validar(vendaData.desconto_venda, liquidoCents, descontoVendaCents, 'subtotal da venda');
+    }
+
+    return {
+      ...vendaData,
+      items,
+      valor_desconto_venda: fromCents(descontoVendaCents),
+      // Consumidas quando a venda é registrada
+      autorizacoes_desconto: [...autorizacoesUsadas]
+    };
+  }
+}
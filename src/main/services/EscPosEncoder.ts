@@ -0,0 +1,207 @@
+// ================================
+// EscPosEncoder.ts - Comandos ESC/POS (impressoras térmicas)
+// ================================
+
+export type EscPosCodePage = 'CP850' | 'CP858' | 'CP860' | 'WPC1252';
+
+export const ESC_POS_CODE_PAGES: EscPosCodePage[] = ['CP850', 'CP858', 'CP860', 'WPC1252'];
+
+// Número da tabela no comando ESC t (padrão Epson, seguido pela maioria das térmicas)
+const CODE_PAGE_NUMBERS: Record<EscPosCodePage, number> = {
+  CP850: 2,
+  CP860: 3,
+  WPC1252: 16,
+  CP858: 19
+};
+
+// Caracteres acima de 0x7F usados em cupons em português
+const CP850_CHARS: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'à': 0x85, 'ç': 0x87, 'ê': 0x88, 'è': 0x8a,
+  'É': 0x90, 'ô': 0x93, 'ò': 0x95, 'ú': 0xa3, 'ù': 0x97, 'Ü': 0x9a, 'á': 0xa0, 'í': 0xa1,
+  'ó': 0xa2, 'ñ': 0xa4, 'Ñ': 0xa5, 'ª': 0xa6, 'º': 0xa7, 'Á': 0xb5, 'Â': 0xb6, 'À': 0xb7,
+  'ã': 0xc6, 'Ã': 0xc7, 'Ê': 0xd2, 'È': 0xd4, 'Í': 0xd6, 'Ó': 0xe0, 'Ô': 0xe2, 'Ò': 0xe3,
+  'õ': 0xe4, 'Õ': 0xe5, 'Ú': 0xe9, 'Ù': 0xeb, '°': 0xf8
+};
+
+const CP860_CHARS: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ã': 0x84, 'à': 0x85, 'Á': 0x86, 'ç': 0x87,
+  'ê': 0x88, 'Ê': 0x89, 'è': 0x8a, 'Í': 0x8b, 'Ô': 0x8c, 'Ã': 0x8e, 'Â': 0x8f, 'É': 0x90,
+  'À': 0x91, 'È': 0x92, 'ô': 0x93, 'õ': 0x94, 'ò': 0x95, 'Ú': 0x96, 'ù': 0x97, 'Õ': 0x99,
+  'Ü': 0x9a, 'Ù': 0x9d, 'Ó': 0x9f, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4,
+  'Ñ': 0xa5, 'ª': 0xa6, 'º': 0xa7, 'Ò': 0xa9, '°': 0xf8
+};
+
+// Código de barras do cupom: altura e largura do módulo em pontos
+export const BARCODE_HEIGHT_DOTS = 80;
+export const BARCODE_MODULE_DOTS = 2;
+
+// Imagem de 1 bit por ponto, linhas de cima para baixo (bit 1 = ponto preto)
+export interface MonoBitmap {
+  largura: number;
+  altura: number;
+  dados: Buffer;
+}
+
+export function encodeText(texto: string, codePage: EscPosCodePage): Buffer {
+  const bytes: number[] = [];
+
+  for (const caractere of texto) {
+    const codigo = caractere.charCodeAt(0);
+
+    if (codigo < 0x80) {
+      bytes.push(codigo);
+      continue;
+    }
+
+    const convertido = codePage === 'WPC1252'
+      ? (codigo <= 0xff ? codigo : undefined)
+      : codePage === 'CP860'
+        ? CP860_CHARS[caractere]
+        : caractere === '€' && codePage === 'CP858' ? 0xd5 : CP850_CHARS[caractere];
+
+    if (convertido !== undefined) {
+      bytes.push(convertido);
+      continue;
+    }
+
+    // Fora da tabela: letra sem acento ou '?'
+    const semAcento = caractere.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    bytes.push(semAcento.length === 1 && semAcento.charCodeAt(0) < 0x80 ? semAcento.charCodeAt(0) : 0x3f);
+  }
+
+  return Buffer.from(bytes);
+}
+
+// Bitmap monocromático (.bmp de 1 bit, sem compressão) para o logo do cupom
+export function readMonochromeBmp(arquivo: Buffer): MonoBitmap {
+  if (arquivo.length < 62 || arquivo.toString('ascii', 0, 2) !== 'BM') {
+    throw new Error('Logo deve ser um arquivo .bmp');
+  }
+
+  const inicioPixels = arquivo.readUInt32LE(10);
+  const tamanhoCabecalho = arquivo.readUInt32LE(14);
+  const largura = arquivo.readInt32LE(18);
+  const alturaBruta = arquivo.readInt32LE(22);
+  const bitsPorPixel = arquivo.readUInt16LE(28);
+  const compressao = arquivo.readUInt32LE(30);
+
+  if (bitsPorPixel !== 1 || compressao !== 0) {
+    throw new Error('Logo deve ser um .bmp monocromático (1 bit) sem compressão');
+  }
+
+  const altura = Math.abs(alturaBruta);
+  const bytesPorLinhaBmp = Math.ceil(largura / 32) * 4;
+  const bytesPorLinha = Math.ceil(largura / 8);
+
+  // Paleta BGRA: a cor mais escura é a que imprime
+  const paleta = 14 + tamanhoCabecalho;
+  const brilho = (indice: number): number =>
+    arquivo[paleta + indice * 4] + arquivo[paleta + indice * 4 + 1] + arquivo[paleta + indice * 4 + 2];
+  const inverter = brilho(0) < brilho(1);
+
+  const dados = Buffer.alloc(bytesPorLinha * altura);
+  for (let y = 0; y < altura; y++) {
+    // Altura positiva: linhas gravadas de baixo para cima
+    const origem = inicioPixels + (alturaBruta > 0 ? altura - 1 - y : y) * bytesPorLinhaBmp;
+
+    for (let x = 0; x < bytesPorLinha; x++) {
+      let byte = arquivo[origem + x];
+      if (inverter) byte = ~byte & 0xff;
+
+      // Bits além da largura da imagem ficam em branco
+      if (x === bytesPorLinha - 1 && largura % 8 !== 0) {
+        byte &= (0xff << (8 - (largura % 8))) & 0xff;
+      }
+
+      dados[y * bytesPorLinha + x] = byte;
+    }
+  }
+
+  return { largura, altura, dados };
+}
+
+export class EscPosEncoder {
+  private codePage: EscPosCodePage;
+  private partes: Buffer[] = [];
+
+  constructor(codePage: EscPosCodePage) {
+    this.codePage = codePage;
+  }
+
+  // ESC @ (reinicia a impressora) + ESC t (tabela de caracteres)
+  initialize(): this {
+    this.partes.push(Buffer.from([0x1b, 0x40, 0x1b, 0x74, CODE_PAGE_NUMBERS[this.codePage]]));
+    return this;
+  }
+
+  align(alinhamento: 'left' | 'center' | 'right'): this {
+    const valor = alinhamento === 'center' ? 1 : alinhamento === 'right' ? 2 : 0;
+    this.partes.push(Buffer.from([0x1b, 0x61, valor]));
+    return this;
+  }
+
+  bold(ativo: boolean): this {
+    this.partes.push(Buffer.from([0x1b, 0x45, ativo ? 1 : 0]));
+    return this;
+  }
+
+  // GS ! - altura dupla (a largura continua a da bobina)
+  doubleHeight(ativo: boolean): this {
+    this.partes.push(Buffer.from([0x1d, 0x21, ativo ? 0x01 : 0x00]));
+    return this;
+  }
+
+  line(texto: string = ''): this {
+    this.partes.push(encodeText(texto, this.codePage), Buffer.from([0x0a]));
+    return this;
+  }
+
+  // CODE128 (conjunto B) com o texto legível abaixo das barras
+  barcode(dados: string): this {
+    const conteudo = Buffer.concat([Buffer.from('{B', 'ascii'), Buffer.from(dados, 'ascii')]);
+    this.partes.push(
+      Buffer.from([0x1d, 0x68, BARCODE_HEIGHT_DOTS]),
+      Buffer.from([0x1d, 0x77, BARCODE_MODULE_DOTS]),
+      Buffer.from([0x1d, 0x48, 2]), // texto abaixo
+      Buffer.from([0x1d, 0x6b, 73, conteudo.length]),
+      conteudo,
+      Buffer.from([0x0a])
+    );
+    return this;
+  }
+
+  // GS v 0 - imagem em modo raster
+  image(bitmap: MonoBitmap): this {
+    const bytesPorLinha = Math.ceil(bitmap.largura / 8);
+    this.partes.push(
+      Buffer.from([
+        0x1d, 0x76, 0x30, 0x00,
+        bytesPorLinha & 0xff, (bytesPorLinha >> 8) & 0xff,
+        bitmap.altura & 0xff, (bitmap.altura >> 8) & 0xff
+      ]),
+      bitmap.dados
+    );
+    return this;
+  }
+
+  feed(linhas: number): this {
+    this.partes.push(Buffer.from([0x1b, 0x64, Math.max(0, Math.min(255, linhas))]));
+    return this;
+  }
+
+  // ESC p - pulso na gaveta (pino 2 ou 5 do conector RJ-11), 50ms ligado / 500ms desligado
+  drawerKick(pino: 2 | 5): this {
+    this.partes.push(Buffer.from([0x1b, 0x70, pino === 5 ? 1 : 0, 25, 250]));
+    return this;
+  }
+
+  // GS V 66 - avança até a guilhotina e faz o corte parcial
+  cut(): this {
+    this.partes.push(Buffer.from([0x1d, 0x56, 66, 0]));
+    return this;
+  }
+
+  encode(): Buffer {
+    return Buffer.concat(this.partes);
+  }
+}
@@ -4,6 +4,14 @@ import * as path from 'path';
 import * as fs from 'fs';
 import type { Product } from '../types/NetworkTypes';
 
+// Operação com erro no envio volta à fila com espera dobrada a cada tentativa (1 min até 30 min)
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+function retryDelayMs(tentativas: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(tentativas - 1, 0)), RETRY_MAX_MS);
+}
+
 export class LocalCacheService {
   private db: Database | null = null;
   private cacheDbPath: string;
@@ -60,9 +68,65 @@ export class LocalCacheService {
         created_at TEXT,
         updated_at TEXT,
         caixa_origem TEXT,
+        cached_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        ncm TEXT,
+        cest TEXT,
+        cfop TEXT,
+        origem INTEGER DEFAULT 0,
+        cst_icms TEXT, -- CST ou CSOSN; vazio usa a tributação padrão do caixa
+        aliquota_icms REAL DEFAULT 0,
+        cst_pis TEXT,
+        aliquota_pis REAL DEFAULT 0,
+        tipo_aliquota_pis TEXT DEFAULT 'PERCENTUAL', -- 'PERCENTUAL', 'VALOR' (R$ por unidade)
+        cst_cofins TEXT,
+        aliquota_cofins REAL DEFAULT 0,
+        tipo_aliquota_cofins TEXT DEFAULT 'PERCENTUAL'
+      );
+      
+      -- Faixas de preço de atacado por produto (preço unitário a partir da quantidade mínima)
+      CREATE TABLE IF NOT EXISTS cache_produtos_atacado (
+        produto_id INTEGER NOT NULL,
+        quantidade_minima REAL NOT NULL,
+        preco REAL NOT NULL,
+        PRIMARY KEY (produto_id, quantidade_minima)
+      );
+      
+      -- Clientes do programa de fidelidade (pontos = saldo informado pela API)
+      CREATE TABLE IF NOT EXISTS cache_clientes (
+        id INTEGER PRIMARY KEY,
+        nome TEXT NOT NULL,
+        cpf TEXT,
+        telefone TEXT,
+        pontos INTEGER DEFAULT 0,
+        limite_credito REAL DEFAULT 0,
+        saldo_devedor REAL DEFAULT 0,
+        ativo BOOLEAN DEFAULT true,
+        updated_at TEXT,
         cached_at TEXT DEFAULT CURRENT_TIMESTAMP
       );
       
+      -- Movimentos de pontos por venda (PENDENTE até a venda chegar à API)
+      CREATE TABLE IF NOT EXISTS pontos_fidelidade (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cliente_id INTEGER NOT NULL,
+        referencia TEXT NOT NULL, -- mesma referência enviada na venda
+        tipo TEXT NOT NULL, -- 'ACUMULO', 'RESGATE'
+        pontos INTEGER NOT NULL, -- resgate negativo
+        status TEXT DEFAULT 'PENDENTE',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      -- Movimentos da conta do cliente (compra no crédito da loja e recebimentos)
+      CREATE TABLE IF NOT EXISTS conta_cliente_movimentos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cliente_id INTEGER NOT NULL,
+        referencia TEXT NOT NULL, -- mesma referência enviada na venda ou no recebimento
+        tipo TEXT NOT NULL, -- 'COMPRA', 'PAGAMENTO', 'ESTORNO'
+        valor REAL NOT NULL, -- pagamento negativo
+        status TEXT DEFAULT 'PENDENTE',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      
       -- Fila de vendas para sincronização
       CREATE TABLE IF NOT EXISTS vendas_pendentes (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -73,6 +137,19 @@ export class LocalCacheService {
         error_message TEXT
       );
       
+      -- Fila de outras operações para sincronização (movimentos de caixa etc.)
+      CREATE TABLE IF NOT EXISTS operacoes_pendentes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tipo TEXT NOT NULL, -- 'MOVIMENTO_CAIXA', ...
+        endpoint TEXT NOT NULL,
+        dados TEXT NOT NULL,
+        status TEXT DEFAULT 'PENDENTE',
+        tentativas INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        error_message TEXT,
+        ultima_tentativa TEXT
+      );
+      
       -- Log de sincronização
       CREATE TABLE IF NOT EXISTS sync_log (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -94,7 +171,46 @@ export class LocalCacheService {
       CREATE INDEX IF NOT EXISTS idx_cache_produtos_ean13 ON cache_produtos(ean13);
       CREATE INDEX IF NOT EXISTS idx_cache_produtos_ativo ON cache_produtos(ativo) WHERE ativo = true;
       CREATE INDEX IF NOT EXISTS idx_vendas_pendentes_status ON vendas_pendentes(status);
+      CREATE INDEX IF NOT EXISTS idx_operacoes_pendentes_status ON operacoes_pendentes(status);
+      CREATE INDEX IF NOT EXISTS idx_cache_clientes_cpf ON cache_clientes(cpf);
+      CREATE INDEX IF NOT EXISTS idx_cache_clientes_telefone ON cache_clientes(telefone);
+      CREATE INDEX IF NOT EXISTS idx_pontos_fidelidade_referencia ON pontos_fidelidade(referencia);
+      CREATE INDEX IF NOT EXISTS idx_conta_cliente_referencia ON conta_cliente_movimentos(referencia);
     `);
+    
+    // Bancos criados antes do crédito na loja
+    const colunas = await this.db.all('PRAGMA table_info(cache_clientes)');
+    if (!colunas.some((coluna: any) => coluna.name === 'limite_credito')) {
+      await this.db.exec(`
+        ALTER TABLE cache_clientes ADD COLUMN limite_credito REAL DEFAULT 0;
+        ALTER TABLE cache_clientes ADD COLUMN saldo_devedor REAL DEFAULT 0;
+      `);
+    }
+    
+    // Filas criadas antes da nova tentativa das operações com erro
+    const colunasOperacoes = await this.db.all('PRAGMA table_info(operacoes_pendentes)');
+    if (!colunasOperacoes.some((coluna: any) => coluna.name === 'ultima_tentativa')) {
+      await this.db.exec('ALTER TABLE operacoes_pendentes ADD COLUMN ultima_tentativa TEXT');
+    }
+    
+    // Caches criados antes dos dados fiscais do produto (preenchidos na próxima sincronização)
+    const colunasProdutos = await this.db.all('PRAGMA table_info(cache_produtos)');
+    if (!colunasProdutos.some((coluna: any) => coluna.name === 'ncm')) {
+      await this.db.exec(`
+        ALTER TABLE cache_produtos ADD COLUMN ncm TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN cest TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN cfop TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN origem INTEGER DEFAULT 0;
+        ALTER TABLE cache_produtos ADD COLUMN cst_icms TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN aliquota_icms REAL DEFAULT 0;
+        ALTER TABLE cache_produtos ADD COLUMN cst_pis TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN aliquota_pis REAL DEFAULT 0;
+        ALTER TABLE cache_produtos ADD COLUMN tipo_aliquota_pis TEXT DEFAULT 'PERCENTUAL';
+        ALTER TABLE cache_produtos ADD COLUMN cst_cofins TEXT;
+        ALTER TABLE cache_produtos ADD COLUMN aliquota_cofins REAL DEFAULT 0;
+        ALTER TABLE cache_produtos ADD COLUMN tipo_aliquota_cofins TEXT DEFAULT 'PERCENTUAL';
+      `);
+    }
   }
   
   async syncProdutos(produtos: Product[]): Promise<void> {
@@ -108,14 +224,18 @@ export class LocalCacheService {
     try {
       // Limpar cache atual
       await this.db.run('DELETE FROM cache_produtos');
+      await this.db.run('DELETE FROM cache_produtos_atacado');
       
       // Inserir produtos atualizados
       const stmt = await this.db.prepare(`
         INSERT INTO cache_produtos (
           id, codigo, ean13, descricao, preco, custo, estoque, 
           estoque_minimo, categoria_id, unidade, ativo, 
-          created_at, updated_at, caixa_origem
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          created_at, updated_at, caixa_origem,
+          ncm, cest, cfop, origem, cst_icms, aliquota_icms,
+          cst_pis, aliquota_pis, tipo_aliquota_pis,
+          cst_cofins, aliquota_cofins, tipo_aliquota_cofins
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
       for (const produto of produtos) {
@@ -133,11 +253,39 @@ export class LocalCacheService {
           produto.ativo,
           produto.created_at,
           produto.updated_at,
-          produto.caixa_origem
+          produto.caixa_origem,
+          produto.ncm ?? null,
+          produto.cest ?? null,
+          produto.cfop ?? null,
+          produto.origem ?? 0,
+          produto.cst_icms ?? null,
+          produto.aliquota_icms ?? 0,
+          produto.cst_pis ?? null,
+          produto.aliquota_pis ?? 0,
+          produto.tipo_aliquota_pis === 'VALOR' ? 'VALOR' : 'PERCENTUAL',
+          produto.cst_cofins ?? null,
+          produto.aliquota_cofins ?? 0,
+          produto.tipo_aliquota_cofins === 'VALOR' ? 'VALOR' : 'PERCENTUAL'
         ]);
       }
       
       await stmt.finalize();
+      
+      // Faixas de atacado: só preços abaixo do varejo e quantidade mínima positiva
+      const stmtAtacado = await this.db.prepare(`
+        INSERT OR REPLACE INTO cache_produtos_atacado (produto_id, quantidade_minima, preco)
+        VALUES (?, ?, ?)
+      `);
+      
+      for (const produto of produtos) {
+        for (const faixa of produto.precos_atacado || []) {
+          if (faixa.quantidade_minima > 0 && faixa.preco > 0 && faixa.preco < produto.preco) {
+            await stmtAtacado.run([produto.id, faixa.quantidade_minima, faixa.preco]);
+          }
+        }
+      }
+      
+      await stmtAtacado.finalize();
       await this.db.exec('COMMIT');
       
       // Atualizar timestamp de sincronização
@@ -164,7 +312,15 @@ export class LocalCacheService {
       LIMIT 1
     `, [codigo, codigo]);
     
-    return produto || null;
+    if (!produto) return null;
+    
+    const precosAtacado = await this.db.all(`
+      SELECT quantidade_minima, preco FROM cache_produtos_atacado
+      WHERE produto_id = ?
+      ORDER BY quantidade_minima ASC
+    `, [produto.id]);
+    
+    return precosAtacado.length > 0 ? { ...produto, precos_atacado: precosAtacado } : produto;
   }
   
   async getAllProducts(): Promise<Product[]> {
@@ -190,6 +346,16 @@ export class LocalCacheService {
     `, [searchTerm, searchTerm, searchTerm]);
   }
   
+  // Estoque do cache acompanha vendas e devoluções até a próxima sincronização de produtos
+  async adjustStock(codigo: string, quantidade: number): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(
+      'UPDATE cache_produtos SET estoque = ROUND(estoque + ?, 3) WHERE codigo = ?',
+      [quantidade, codigo]
+    );
+  }
+  
   async addPendingSale(vendaData: any): Promise<void> {
     if (!this.db) throw new Error('Cache database not initialized');
     
@@ -201,6 +367,49 @@ export class LocalCacheService {
     console.log('💾 Venda adicionada à fila de sincronização');
   }
   
+  // Venda cancelada antes de sincronizar sai da fila junto com os pontos e a conta do cliente
+  async cancelPendingSale(referencia: string): Promise<boolean> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const pendentes: Array<{ id: number; venda_data: string }> = await this.db.all(`
+      SELECT id, venda_data FROM vendas_pendentes
+      WHERE status IN ('PENDENTE', 'ERRO')
+    `);
+    const pendente = pendentes.find(registro => JSON.parse(registro.venda_data).referencia === referencia);
+    
+    if (!pendente) return false;
+    
+    const vendaData = JSON.parse(pendente.venda_data);
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      await this.db.run(`UPDATE vendas_pendentes SET status = 'CANCELADA' WHERE id = ?`, [pendente.id]);
+      
+      if (vendaData.fidelidade?.referencia) {
+        await this.db.run(`
+          UPDATE pontos_fidelidade SET status = 'CANCELADO'
+          WHERE referencia = ? AND status = 'PENDENTE'
+        `, [vendaData.fidelidade.referencia]);
+      }
+      
+      if (vendaData.contaCliente?.referencia) {
+        await this.db.run(`
+          UPDATE conta_cliente_movimentos SET status = 'CANCELADO'
+          WHERE referencia = ? AND status = 'PENDENTE'
+        `, [vendaData.contaCliente.referencia]);
+      }
+      
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+    
+    console.log('🚫 Venda pendente cancelada na fila de sincronização');
+    return true;
+  }
+  
   async getPendingSales(): Promise<any[]> {
     if (!this.db) throw new Error('Cache database not initialized');
     
@@ -231,6 +440,287 @@ export class LocalCacheService {
     `, [errorMessage, id]);
   }
   
+  async addPendingOperation(tipo: string, endpoint: string, dados: any): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(`
+      INSERT INTO operacoes_pendentes (tipo, endpoint, dados, status)
+      VALUES (?, ?, ?, 'PENDENTE')
+    `, [tipo, endpoint, JSON.stringify(dados)]);
+    
+    console.log(`💾 Operação ${tipo} adicionada à fila de sincronização`);
+  }
+  
+  // Pendentes e, vencida a espera da última tentativa, as que falharam no envio
+  async getPendingOperations(): Promise<any[]> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const operacoes = await this.db.all(`
+      SELECT * FROM operacoes_pendentes 
+      WHERE status IN ('PENDENTE', 'ERRO') 
+      ORDER BY created_at ASC, id ASC
+    `);
+    const agora = Date.now();
+    
+    return operacoes.filter((operacao: any) =>
+      operacao.status === 'PENDENTE' ||
+      !operacao.ultima_tentativa ||
+      agora - new Date(operacao.ultima_tentativa).getTime() >= retryDelayMs(operacao.tentativas));
+  }
+  
+  async markOperationAsSynced(id: number): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(`
+      UPDATE operacoes_pendentes 
+      SET status = 'SINCRONIZADA' 
+      WHERE id = ?
+    `, [id]);
+  }
+  
+  async markOperationAsError(id: number, errorMessage: string): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(`
+      UPDATE operacoes_pendentes 
+      SET status = 'ERRO', tentativas = tentativas + 1, error_message = ?, ultima_tentativa = ?
+      WHERE id = ?
+    `, [errorMessage, new Date().toISOString(), id]);
+  }
+  
+  async syncClientes(clientes: any[]): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      await this.db.run('DELETE FROM cache_clientes');
+      
+      // CPF e telefone gravados só com dígitos (busca sem máscara)
+      const stmt = await this.db.prepare(`
+        INSERT INTO cache_clientes (id, nome, cpf, telefone, pontos, limite_credito, saldo_devedor, ativo, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      
+      for (const cliente of clientes) {
+        await stmt.run([
+          cliente.id,
+          cliente.nome,
+          String(cliente.cpf || '').replace(/\D/g, '') || null,
+          String(cliente.telefone || '').replace(/\D/g, '') || null,
+          Math.trunc(Number(cliente.pontos) || 0),
+          Number(cliente.limite_credito) || 0,
+          Number(cliente.saldo_devedor) || 0,
+          cliente.ativo !== false,
+          cliente.updated_at
+        ]);
+      }
+      
+      await stmt.finalize();
+      await this.db.exec('COMMIT');
+      await this.logSync('CLIENTES', 'SUCCESS', `${clientes.length} clientes sincronizados`);
+    } catch (error: any) {
+      await this.db.exec('ROLLBACK');
+      await this.logSync('CLIENTES', 'ERROR', error.message);
+      throw error;
+    }
+  }
+  
+  // Cliente ativo com os saldos da API somados aos movimentos ainda pendentes
+  async findCustomer(campo: 'id' | 'cpf' | 'telefone', valor: string | number): Promise<any | null> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const cliente = await this.db.get(`
+      SELECT c.*, COALESCE((
+        SELECT SUM(p.pontos) FROM pontos_fidelidade p
+        WHERE p.cliente_id = c.id AND p.status = 'PENDENTE'
+      ), 0) as pontos_pendentes, COALESCE((
+        SELECT SUM(m.valor) FROM conta_cliente_movimentos m
+        WHERE m.cliente_id = c.id AND m.status = 'PENDENTE'
+      ), 0) as conta_pendente
+      FROM cache_clientes c
+      WHERE c.${campo} = ? AND c.ativo = true
+      LIMIT 1
+    `, [valor]);
+    
+    return cliente || null;
+  }
+  
+  // Venda já aceita pela API entra sincronizada (saldo do cache atualizado na hora)
+  async addLoyaltyPoints(
+    clienteId: number,
+    referencia: string,
+    movimentos: Array<{ tipo: 'ACUMULO' | 'RESGATE'; pontos: number }>,
+    sincronizado: boolean
+  ): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      for (const movimento of movimentos) {
+        await this.db.run(`
+          INSERT INTO pontos_fidelidade (cliente_id, referencia, tipo, pontos, status)
+          VALUES (?, ?, ?, ?, ?)
+        `, [clienteId, referencia, movimento.tipo, movimento.pontos, sincronizado ? 'SINCRONIZADO' : 'PENDENTE']);
+      }
+      
+      if (sincronizado) {
+        const total = movimentos.reduce((soma, movimento) => soma + movimento.pontos, 0);
+        await this.db.run('UPDATE cache_clientes SET pontos = pontos + ? WHERE id = ?', [total, clienteId]);
+      }
+      
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+  
+  // Venda da fila chegou à API: os pontos pendentes dela passam para o saldo do cache
+  async reconcileLoyaltyPoints(referencia: string): Promise<number> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const pendentes: Array<{ cliente_id: number; total: number }> = await this.db.all(`
+      SELECT cliente_id, SUM(pontos) as total FROM pontos_fidelidade
+      WHERE referencia = ? AND status = 'PENDENTE'
+      GROUP BY cliente_id
+    `, [referencia]);
+    
+    if (pendentes.length === 0) return 0;
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      for (const pendente of pendentes) {
+        await this.db.run('UPDATE cache_clientes SET pontos = pontos + ? WHERE id = ?', [pendente.total, pendente.cliente_id]);
+      }
+      
+      await this.db.run(`
+        UPDATE pontos_fidelidade SET status = 'SINCRONIZADO'
+        WHERE referencia = ? AND status = 'PENDENTE'
+      `, [referencia]);
+      
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+    
+    return pendentes.reduce((soma, pendente) => soma + pendente.total, 0);
+  }
+  
+  // Compra no crédito ou recebimento de conta; já aceito pela API atualiza o saldo devedor do cache
+  async addStoreCreditMovement(
+    clienteId: number,
+    referencia: string,
+    tipo: 'COMPRA' | 'PAGAMENTO' | 'ESTORNO',
+    valor: number,
+    sincronizado: boolean
+  ): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      await this.db.run(`
+        INSERT INTO conta_cliente_movimentos (cliente_id, referencia, tipo, valor, status)
+        VALUES (?, ?, ?, ?, ?)
+      `, [clienteId, referencia, tipo, valor, sincronizado ? 'SINCRONIZADO' : 'PENDENTE']);
+      
+      if (sincronizado) {
+        await this.db.run(
+          'UPDATE cache_clientes SET saldo_devedor = ROUND(saldo_devedor + ?, 2) WHERE id = ?',
+          [valor, clienteId]
+        );
+      }
+      
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+  
+  // Venda ou recebimento da fila chegou à API: o movimento passa para o saldo devedor do cache
+  async reconcileStoreCredit(referencia: string): Promise<number> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const pendentes: Array<{ cliente_id: number; total: number }> = await this.db.all(`
+      SELECT cliente_id, SUM(valor) as total FROM conta_cliente_movimentos
+      WHERE referencia = ? AND status = 'PENDENTE'
+      GROUP BY cliente_id
+    `, [referencia]);
+    
+    if (pendentes.length === 0) return 0;
+    
+    await this.db.exec('BEGIN TRANSACTION');
+    
+    try {
+      for (const pendente of pendentes) {
+        await this.db.run(
+          'UPDATE cache_clientes SET saldo_devedor = ROUND(saldo_devedor + ?, 2) WHERE id = ?',
+          [pendente.total, pendente.cliente_id]
+        );
+      }
+      
+      await this.db.run(`
+        UPDATE conta_cliente_movimentos SET status = 'SINCRONIZADO'
+        WHERE referencia = ? AND status = 'PENDENTE'
+      `, [referencia]);
+      
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+    
+    return pendentes.reduce((soma, pendente) => soma + pendente.total, 0);
+  }
+  
+  // Venda offline chegou à API: o histórico (tabela historico_vendas, mantida pelo SaleHistoryService)
+  // guarda o id atribuído pela API para o cancelamento
+  async markHistorySaleSynced(referencia: string, vendaIdServidor: number): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(`
+      UPDATE historico_vendas SET sincronizado = 1, venda_id_servidor = ?
+      WHERE referencia = ?
+    `, [vendaIdServidor, referencia]);
+  }
+  
+  // NFC-e da fila chegou ao servidor (tabela nfce_documentos, mantida pelo NfceService)
+  async markNfceTransmitted(chave: string): Promise<void> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    await this.db.run(`
+      UPDATE nfce_documentos SET status = 'ENVIADA', enviada_em = ?
+      WHERE chave = ? AND status = 'PENDENTE'
+    `, [new Date().toISOString(), chave]);
+  }
+  
+  // NFC-e ainda não entregue ao servidor sai da fila de transmissão (cupom cancelado)
+  async cancelPendingNfce(chave: string): Promise<boolean> {
+    if (!this.db) throw new Error('Cache database not initialized');
+    
+    const pendentes: Array<{ id: number; dados: string }> = await this.db.all(`
+      SELECT id, dados FROM operacoes_pendentes
+      WHERE tipo = 'NFCE_CONTINGENCIA' AND status IN ('PENDENTE', 'ERRO')
+    `);
+    const pendente = pendentes.find(registro => JSON.parse(registro.dados).chave === chave);
+    
+    if (!pendente) return false;
+    
+    await this.db.run(`UPDATE operacoes_pendentes SET status = 'CANCELADA' WHERE id = ?`, [pendente.id]);
+    return true;
+  }
+  
+  // Conexão compartilhada com os serviços que mantêm tabelas próprias no cache
+  getDatabase(): Database {
+    if (!this.db) throw new Error('Cache database not initialized');
+    return this.db;
+  }
+  
   async getLastSyncTime(): Promise<Date | null> {
     return this.lastSyncTime;
   }
@@ -272,6 +762,8 @@ export class LocalCacheService {
       SELECT 
         COUNT(*) as total_produtos,
         (SELECT COUNT(*) FROM vendas_pendentes WHERE status = 'PENDENTE') as vendas_pendentes,
+        (SELECT COUNT(*) FROM operacoes_pendentes WHERE status = 'PENDENTE') as operacoes_pendentes,
+        (SELECT COUNT(*) FROM operacoes_pendentes WHERE status = 'ERRO') as operacoes_erro,
         (SELECT valor FROM cache_config WHERE chave = 'last_sync_time') as ultima_sync
     `);
     
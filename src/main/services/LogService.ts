@@ -37,6 +37,7 @@ export class LogService {
   private maxLogSize: number = 10 * 1024 * 1024; // 10MB
   private maxLogFiles: number = 5;
   private caixaId: string;
+  private userId: string | undefined; // operador logado (LogEntry.user_id)
   private isWriting: boolean = false; // ✅ PREVENIR RECURSÃO
 
   private constructor(caixaId: string) {
@@ -82,7 +83,8 @@ export class LogService {
   private formatLogEntry(entry: LogEntry): string {
     const levelName = LogLevel[entry.level];
     const dataStr = entry.data ? ` | DATA: ${JSON.stringify(entry.data)}` : '';
-    return `[${entry.timestamp}] [${levelName}] [${entry.category}] [${entry.caixa_id}] ${entry.message}${dataStr}\n`;
+    const userStr = entry.user_id ? ` [OP:${entry.user_id}]` : '';
+    return `[${entry.timestamp}] [${levelName}] [${entry.category}] [${entry.caixa_id}]${userStr} ${entry.message}${dataStr}\n`;
   }
 
   private writeToFile(logEntry: LogEntry): void {
@@ -157,7 +159,8 @@ export class LogService {
       category,
       message,
       data,
-      caixa_id: this.caixaId
+      caixa_id: this.caixaId,
+      user_id: this.userId
     };
 
     // ESCREVER NO ARQUIVO SEM INTERCEPTAÇÃO
@@ -177,6 +180,11 @@ export class LogService {
     }
   }
 
+  // Operador registrado nas próximas entradas de log (undefined = sem operador)
+  public setUserId(userId: string | undefined): void {
+    this.userId = userId;
+  }
+
   public debug(category: string, message: string, data?: any): void {
     this.log(LogLevel.DEBUG, category, message, data);
   }
@@ -0,0 +1,43 @@
+// ================================
+// NfceSchemaValidator.ts - Validação da NFC-e contra os XSD da SEFAZ (sem rede)
+// ================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateXML } from 'xmllint-wasm';
+
+// Schema raiz do pacote de liberação (PL) da NF-e 4.00; os demais .xsd da pasta são importados por ele
+export const NFE_ROOT_SCHEMA = 'nfe_v4.00.xsd';
+
+export class NfceSchemaValidator {
+  private pasta: string;
+
+  constructor(pasta: string) {
+    this.pasta = pasta;
+  }
+
+  isAvailable(): boolean {
+    return fs.existsSync(path.join(this.pasta, NFE_ROOT_SCHEMA));
+  }
+
+  // Lista de erros do xmllint (vazia quando o documento é válido)
+  async validate(xml: string): Promise<string[]> {
+    if (!this.isAvailable()) {
+      throw new Error(`Schemas da NF-e não encontrados em ${this.pasta} (${NFE_ROOT_SCHEMA})`);
+    }
+
+    const arquivos = (await fs.promises.readdir(this.pasta)).filter(nome => nome.toLowerCase().endsWith('.xsd'));
+    const schemas = await Promise.all(arquivos.map(async (nome) => ({
+      fileName: nome,
+      contents: await fs.promises.readFile(path.join(this.pasta, nome), 'utf8')
+    })));
+
+    const resultado = await validateXML({
+      xml: [{ fileName: 'nfce.xml', contents: xml }],
+      schema: schemas.filter(schema => schema.fileName === NFE_ROOT_SCHEMA),
+      preload: schemas.filter(schema => schema.fileName !== NFE_ROOT_SCHEMA)
+    });
+
+    return resultado.valid ? [] : resultado.errors.map(erro => erro.message);
+  }
+}
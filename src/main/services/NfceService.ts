@@ -0,0 +1,414 @@
+// ================================
+// NfceService.ts - NFC-e em contingência off-line (geração, assinatura e guarda local)
+// ================================
+
+import * as fs from 'fs';
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import {
+  assembleNfe,
+  buildInfNFe,
+  buildInfNFeSupl,
+  buildQrCodeUrl,
+  fiscalText,
+  NFE_NAMESPACE,
+  NfceDocumentData,
+  NfceEmitter,
+  NfceEnvironment,
+  NfceItem,
+  NfceItemTaxes,
+  NfceQrCodeConfig,
+  nfceTotals,
+  randomNumericCode
+} from './NfceXmlBuilder';
+import { A1Certificate, loadA1Certificate, signXmlElement } from './XmlSignature';
+import { NfceSchemaValidator } from './NfceSchemaValidator';
+import { TaxService } from './TaxService';
+import { itemGrossCents } from './ScaleBarcodeService';
+import type { CustomerDocument, LineTaxes, NfceDocument, NfceStatus, SaleHistoryRecord } from '../types/NetworkTypes';
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Certificado perto do vencimento gera aviso na inicialização
+const CERTIFICATE_WARNING_DAYS = 30;
+
+export interface NfceConfig {
+  habilitada: boolean;
+  ambiente: NfceEnvironment;
+  serie: number;
+  numeroInicial: number;
+  emitente: NfceEmitter;
+  qrCode: NfceQrCodeConfig;
+  certificado: string | null; // arquivo .pfx do A1
+  senhaCertificado: string;
+  pastaSchemas: string;
+  justificativaContingencia: string;
+  versaoAplicativo: string;
+}
+
+export class NfceService {
+  private apiService: PdvApiService;
+  private taxService: TaxService;
+  private config: NfceConfig;
+  private validator: NfceSchemaValidator;
+  private certificado: A1Certificate | null = null;
+  private erroCertificado: string | null = null;
+  private logger: LogService;
+
+  constructor(apiService: PdvApiService, taxService: TaxService, config: NfceConfig) {
+    this.apiService = apiService;
+    this.taxService = taxService;
+    this.config = config;
+    this.validator = new NfceSchemaValidator(config.pastaSchemas);
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- NFC-e emitidas no caixa (XML assinado guardado até a transmissão)
+      CREATE TABLE IF NOT EXISTS nfce_documentos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        venda_id INTEGER NOT NULL,
+        serie INTEGER NOT NULL,
+        numero INTEGER NOT NULL,
+        chave TEXT NOT NULL UNIQUE,
+        tipo_emissao INTEGER NOT NULL, -- 1 normal, 9 contingência off-line
+        ambiente INTEGER NOT NULL, -- 1 produção, 2 homologação
+        valor_total REAL NOT NULL,
+        xml TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'PENDENTE', -- 'PENDENTE', 'ENVIADA', 'ERRO_VALIDACAO', 'CANCELADA', 'INUTILIZADA'
+        erros_validacao TEXT, -- JSON com as mensagens do XSD
+        created_at TEXT NOT NULL,
+        enviada_em TEXT,
+        UNIQUE (serie, numero)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_nfce_documentos_venda ON nfce_documentos(venda_id);
+    `);
+
+    if (!this.config.habilitada) {
+      this.logger.info('NFCE', 'Emissão de NFC-e desativada');
+      return;
+    }
+
+    this.loadCertificate();
+
+    if (!this.validator.isAvailable()) {
+      this.logger.warn('NFCE', `Schemas da NF-e ausentes em ${this.config.pastaSchemas} - NFC-e sem validação local`);
+    }
+
+    this.logger.info('NFCE', `NFC-e série ${this.config.serie} em ${this.config.ambiente === 1 ? 'produção' : 'homologação'}`, {
+      certificado: this.certificado?.titular,
+      valido_ate: this.certificado?.validoAte.toISOString()
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.config.habilitada;
+  }
+
+  // A1 lido uma vez; falha não impede a venda, só a emissão (mensagem guardada para o operador)
+  private loadCertificate(): void {
+    try {
+      if (!this.config.certificado) {
+        throw new Error('Certificado A1 não configurado (PDV_NFCE_CERTIFICADO)');
+      }
+
+      this.certificado = loadA1Certificate(fs.readFileSync(this.config.certificado), this.config.senhaCertificado);
+      this.erroCertificado = null;
+
+      const diasRestantes = Math.floor((this.certificado.validoAte.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+      if (diasRestantes < 0) {
+        this.erroCertificado = `Certificado A1 vencido em ${this.certificado.validoAte.toLocaleDateString('pt-BR')}`;
+      } else if (diasRestantes <= CERTIFICATE_WARNING_DAYS) {
+        this.logger.warn('NFCE', `Certificado A1 vence em ${diasRestantes} dia(s)`, { titular: this.certificado.titular });
+      }
+    } catch (error: any) {
+      this.certificado = null;
+      this.erroCertificado = error.message;
+    }
+
+    if (this.erroCertificado) {
+      this.logger.error('NFCE', this.erroCertificado);
+    }
+  }
+
+  // NFC-e da venda finalizada em contingência off-line (tpEmis 9): assinada, validada e guardada para transmissão
+  async emitForSale(venda: SaleHistoryRecord, consumidor: CustomerDocument | null): Promise<NfceDocument> {
+    if (!this.config.habilitada) {
+      throw new Error('Emissão de NFC-e desativada');
+    }
+    if (!this.certificado || this.erroCertificado) {
+      throw new Error(this.erroCertificado || 'Certificado A1 não carregado');
+    }
+
+    // Nota reprovada teve o número inutilizado: nova emissão recebe outro número
+    const existente = await this.db.get(`
+      SELECT * FROM nfce_documentos WHERE venda_id = ? AND status != 'INUTILIZADA'
+    `, [venda.id]);
+    if (existente) {
+      return this.toDocument(existente);
+    }
+
+    const emissao = new Date();
+    const numero = await this.nextNumber();
+    const dados: NfceDocumentData = {
+      emitente: this.config.emitente,
+      ambiente: this.config.ambiente,
+      tipoEmissao: 9,
+      serie: this.config.serie,
+      numero,
+      codigoNumerico: randomNumericCode(numero),
+      emissao,
+      contingencia: { inicio: emissao, justificativa: this.config.justificativaContingencia },
+      consumidor,
+      itens: await this.buildItems(venda),
+      pagamentos: venda.pagamentos.map(pagamento => ({
+        tipo: pagamento.tipo,
+        valor: pagamento.valorRecebido ?? pagamento.valor
+      })),
+      troco: fromCents(venda.pagamentos.reduce((soma, pagamento) => soma + toCents(pagamento.troco || 0), 0)),
+      versaoAplicativo: this.config.versaoAplicativo
+    };
+
+    const totais = nfceTotals(dados.itens);
+    if (toCents(totais.vNF) !== toCents(venda.total)) {
+      this.logger.warn('NFCE', `Total da NFC-e difere da venda ${venda.numero_venda}`, {
+        nfce: totais.vNF,
+        venda: venda.total
+      });
+    }
+
+    // QR Code off-line usa o DigestValue: assina o infNFe antes de montar o infNFeSupl
+    const infNFe = buildInfNFe(dados);
+    const { digestValue, assinatura } = signXmlElement(infNFe.xml, NFE_NAMESPACE, infNFe.id, this.certificado);
+    const qrCodeUrl = buildQrCodeUrl(dados, infNFe.chave, digestValue, this.config.qrCode);
+    const xml = assembleNfe(infNFe.xml, buildInfNFeSupl(qrCodeUrl, this.config.qrCode.urlConsulta), assinatura);
+
+    const erros = await this.validateXml(xml);
+    const status: NfceStatus = erros.length > 0 ? 'INUTILIZADA' : 'PENDENTE';
+    const createdAt = new Date().toISOString();
+
+    const result = await this.db.run(`
+      INSERT INTO nfce_documentos (
+        venda_id, serie, numero, chave, tipo_emissao, ambiente, valor_total, xml, status, erros_validacao, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      venda.id,
+      dados.serie,
+      numero,
+      infNFe.chave,
+      dados.tipoEmissao,
+      dados.ambiente,
+      totais.vNF,
+      xml,
+      status,
+      JSON.stringify(erros),
+      createdAt
+    ]);
+
+    if (status === 'INUTILIZADA') {
+      // Número já consumido na sequência: vai para inutilização em vez de ficar como lacuna
+      await this.voidNumber(dados.serie, numero, fiscalText(`NFC-e ${numero} reprovada na validação local do caixa`, 255));
+      this.logger.error('NFCE', `NFC-e ${numero} reprovada na validação local; numeração enviada para inutilização`, {
+        chave: infNFe.chave,
+        erros
+      });
+    } else {
+      // Transmissão fica com o servidor; a fila reenvia o XML quando a conexão voltar
+      const enviada = await this.apiService.sendOrQueue('NFCE_CONTINGENCIA', '/fiscal/nfce/contingencia', {
+        chave: infNFe.chave,
+        serie: dados.serie,
+        numero,
+        vendaId: venda.id,
+        referenciaVenda: venda.referencia,
+        xml
+      });
+
+      if (enviada) {
+        await this.apiService.getCache().markNfceTransmitted(infNFe.chave);
+      }
+
+      this.logger.info('NFCE', `NFC-e ${numero} emitida em contingência off-line`, {
+        chave: infNFe.chave,
+        venda: venda.numero_venda,
+        enviada
+      });
+    }
+
+    return this.toDocument(await this.db.get('SELECT * FROM nfce_documentos WHERE id = ?', [result.lastID]));
+  }
+
+  // Cupom cancelado: NFC-e ainda na fila sai dela e o número vai para inutilização;
+  // NFC-e já entregue ao servidor recebe o evento de cancelamento
+  async cancelForSale(venda: SaleHistoryRecord, motivo: string): Promise<NfceDocument | null> {
+    const registro = await this.db.get(`
+      SELECT * FROM nfce_documentos WHERE venda_id = ? AND status NOT IN ('CANCELADA', 'INUTILIZADA')
+    `, [venda.id]);
+    if (!registro) return null;
+
+    // xJust da SEFAZ exige de 15 a 255 caracteres
+    const justificativa = fiscalText(`Cupom ${venda.numero_venda} cancelado no caixa: ${motivo}`, 255);
+    const naFila = await this.apiService.getCache().cancelPendingNfce(registro.chave);
+
+    if (naFila) {
+      await this.voidNumber(registro.serie, registro.numero, justificativa);
+    } else {
+      await this.apiService.sendOrQueue('NFCE_CANCELAMENTO', '/fiscal/nfce/cancelamento', {
+        chave: registro.chave,
+        vendaId: venda.id,
+        referenciaVenda: venda.referencia,
+        justificativa
+      });
+    }
+
+    const status: NfceStatus = naFila ? 'INUTILIZADA' : 'CANCELADA';
+    await this.db.run('UPDATE nfce_documentos SET status = ? WHERE id = ?', [status, registro.id]);
+
+    this.logger.info('NFCE', `NFC-e ${registro.numero} ${naFila ? 'retirada da fila e numeração inutilizada' : 'com cancelamento solicitado'}`, {
+      chave: registro.chave,
+      venda: venda.numero_venda
+    });
+
+    return this.toDocument(await this.db.get('SELECT * FROM nfce_documentos WHERE id = ?', [registro.id]));
+  }
+
+  // Número que não chegou à SEFAZ: o servidor pede a inutilização para a sequência não ficar com lacuna
+  private async voidNumber(serie: number, numero: number, justificativa: string): Promise<void> {
+    await this.apiService.sendOrQueue('NFCE_INUTILIZACAO', '/fiscal/nfce/inutilizacao', {
+      serie,
+      numeroInicial: numero,
+      numeroFinal: numero,
+      ambiente: this.config.ambiente,
+      justificativa
+    });
+  }
+
+  // Revalida o XML guardado (após instalar ou atualizar os schemas)
+  async validate(chave: string): Promise<NfceDocument> {
+    const registro = await this.db.get('SELECT * FROM nfce_documentos WHERE chave = ?', [chave]);
+    if (!registro) {
+      throw new Error(`NFC-e ${chave} não encontrada`);
+    }
+
+    const erros = await this.validateXml(registro.xml);
+    if (erros.length > 0) {
+      await this.db.run(`
+        UPDATE nfce_documentos SET erros_validacao = ?,
+          status = CASE WHEN status IN ('ENVIADA', 'CANCELADA', 'INUTILIZADA') THEN status ELSE 'ERRO_VALIDACAO' END
+        WHERE chave = ?
+      `, [JSON.stringify(erros), chave]);
+    } else {
+      await this.db.run(`
+        UPDATE nfce_documentos SET erros_validacao = '[]', status = CASE WHEN status = 'ERRO_VALIDACAO' THEN 'PENDENTE' ELSE status END
+        WHERE chave = ?
+      `, [chave]);
+    }
+
+    return this.toDocument(await this.db.get('SELECT * FROM nfce_documentos WHERE chave = ?', [chave]));
+  }
+
+  async listPending(): Promise<NfceDocument[]> {
+    const registros = await this.db.all(`
+      SELECT * FROM nfce_documentos WHERE status IN ('PENDENTE', 'ERRO_VALIDACAO') ORDER BY serie, numero
+    `);
+    return registros.map((registro: any) => this.toDocument(registro));
+  }
+
+  async getXml(chave: string): Promise<string | null> {
+    const registro = await this.db.get('SELECT xml FROM nfce_documentos WHERE chave = ?', [chave]);
+    return registro?.xml ?? null;
+  }
+
+  // Sem schemas na pasta a nota segue sem validação local (aviso dado na inicialização)
+  private async validateXml(xml: string): Promise<string[]> {
+    if (!this.validator.isAvailable()) return [];
+    return this.validator.validate(xml);
+  }
+
+  // Numeração sequencial por série, a partir do número inicial configurado
+  private async nextNumber(): Promise<number> {
+    const ultimo = await this.db.get(
+      'SELECT MAX(numero) as numero FROM nfce_documentos WHERE serie = ?',
+      [this.config.serie]
+    );
+    return Math.max(ultimo?.numero || 0, this.config.numeroInicial - 1) + 1;
+  }
+
+  private async buildItems(venda: SaleHistoryRecord): Promise<NfceItem[]> {
+    if (venda.itens.some(item => item.quantidade <= 0)) {
+      throw new Error('Venda com devolução no mesmo cupom: registre a devolução separadamente para emitir a NFC-e');
+    }
+
+    const itens: NfceItem[] = [];
+    for (const item of venda.itens) {
+      const produto = await this.apiService.getCache().findProductByCode(item.codigo);
+      const valorBrutoCents = itemGrossCents(item);
+      const descontoCents = Math.max(0, valorBrutoCents - toCents(item.valor_total));
+      const tributos = item.tributos
+        ?? this.taxService.calculateLine(produto, item.quantidade, fromCents(valorBrutoCents - descontoCents));
+
+      itens.push({
+        codigo: item.codigo,
+        gtin: produto?.ean13 || item.codigo,
+        descricao: item.descricao,
+        ncm: tributos.ncm,
+        cest: tributos.cest,
+        cfop: tributos.cfop,
+        unidade: item.unidade,
+        quantidade: item.quantidade,
+        valorUnitario: item.preco_unitario,
+        valorBruto: fromCents(valorBrutoCents),
+        desconto: fromCents(descontoCents),
+        impostos: this.toNfceTaxes(tributos)
+      });
+    }
+
+    return itens;
+  }
+
+  // Tributos gravados na linha da venda; vendas anteriores ao cálculo recalculam pelo cadastro atual
+  private toNfceTaxes(tributos: LineTaxes): NfceItemTaxes {
+    return {
+      origem: tributos.origem,
+      icms: tributos.cst_icms,
+      baseIcms: tributos.base_icms,
+      aliquotaIcms: tributos.aliquota_icms,
+      valorIcms: tributos.valor_icms,
+      pis: tributos.cst_pis,
+      tipoAliquotaPis: tributos.tipo_aliquota_pis,
+      basePis: tributos.base_pis,
+      aliquotaPis: tributos.aliquota_pis,
+      valorPis: tributos.valor_pis,
+      cofins: tributos.cst_cofins,
+      tipoAliquotaCofins: tributos.tipo_aliquota_cofins,
+      baseCofins: tributos.base_cofins,
+      aliquotaCofins: tributos.aliquota_cofins,
+      valorCofins: tributos.valor_cofins,
+      valorTributos: tributos.valor_tributos
+    };
+  }
+
+  private toDocument(registro: any): NfceDocument {
+    return {
+      id: registro.id,
+      venda_id: registro.venda_id,
+      serie: registro.serie,
+      numero: registro.numero,
+      chave: registro.chave,
+      tipo_emissao: registro.tipo_emissao,
+      ambiente: registro.ambiente,
+      valor_total: registro.valor_total,
+      status: registro.status,
+      erros_validacao: registro.erros_validacao ? JSON.parse(registro.erros_validacao) : [],
+      created_at: registro.created_at,
+      enviada_em: registro.enviada_em
+    };
+  }
+}
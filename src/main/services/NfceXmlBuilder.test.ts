@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { accessKeyCheckDigit, fiscalText, validGtin } from './NfceXmlBuilder';
+
+describe('accessKeyCheckDigit', () => {
+  it('módulo 11 com pesos de 2 a 9 da direita para a esquerda', () => {
+    expect(accessKeyCheckDigit('0'.repeat(42) + '1')).toBe(9);
+    expect(accessKeyCheckDigit('0'.repeat(41) + '10')).toBe(8);
+    // Nono dígito da direita volta ao peso 2
+    expect(accessKeyCheckDigit('0'.repeat(34) + '1' + '0'.repeat(8))).toBe(9);
+    expect(accessKeyCheckDigit('3526101234567800019965001000000001112345678')).toBe(1);
+  });
+
+  it('resto 0 ou 1 resulta em dígito 0', () => {
+    expect(accessKeyCheckDigit('0'.repeat(43))).toBe(0);
+    expect(accessKeyCheckDigit('0'.repeat(42) + '6')).toBe(0);
+  });
+
+  it('recusa base que não tem 43 dígitos', () => {
+    expect(() => accessKeyCheckDigit('123')).toThrow('43 dígitos');
+    expect(() => accessKeyCheckDigit('0'.repeat(42) + 'A')).toThrow('43 dígitos');
+  });
+});
+
+describe('validGtin', () => {
+  it('aceita GTIN-8, 12, 13 e 14 com dígito verificador correto', () => {
+    expect(validGtin('96385074')).toBe('96385074');
+    expect(validGtin('036000291452')).toBe('036000291452');
+    expect(validGtin('7891000315507')).toBe('7891000315507');
+    expect(validGtin('00012345600012')).toBe('00012345600012');
+  });
+
+  it('dígito verificador errado, tamanho fora do padrão ou código interno saem como SEM GTIN', () => {
+    expect(validGtin('4006381333932')).toBeNull();
+    expect(validGtin('1234567890')).toBeNull();
+    expect(validGtin('PLU123')).toBeNull();
+    expect(validGtin('')).toBeNull();
+    expect(validGtin(null)).toBeNull();
+    expect(validGtin(undefined)).toBeNull();
+  });
+});
+
+describe('fiscalText', () => {
+  it('junta espaços repetidos e tira os das pontas, mantendo acentos do Latin-1', () => {
+    expect(fiscalText('  Açúcar   União\t1kg \n', 120)).toBe('Açúcar União 1kg');
+  });
+
+  it('troca letras fora do Latin-1 pela letra sem acento e remove o que não tem equivalente', () => {
+    expect(fiscalText('Café Őrség €5 🍎', 120)).toBe('Café Orség 5');
+  });
+
+  it('corta no tamanho do campo sem deixar espaço no fim', () => {
+    expect(fiscalText('Arroz Tipo 1 5kg', 6)).toBe('Arroz');
+    expect(fiscalText('', 10)).toBe('');
+  });
+});
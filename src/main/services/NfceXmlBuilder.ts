@@ -0,0 +1,502 @@
+// ================================
+// NfceXmlBuilder.ts - Leiaute da NFC-e 4.00 (modelo 65)
+// ================================
+
+import * as crypto from 'crypto';
+import type { CustomerDocument, PaymentType, TaxRateType } from '../types/NetworkTypes';
+
+export const NFE_NAMESPACE = 'http://www.portalfiscal.inf.br/nfe';
+export const NFE_VERSION = '4.00';
+export const NFCE_MODEL = '65';
+
+// 1 produção | 2 homologação
+export type NfceEnvironment = 1 | 2;
+// 1 normal | 9 contingência off-line da NFC-e
+export type NfceEmissionType = 1 | 9;
+
+// Código IBGE da UF (primeiros dígitos da chave de acesso)
+export const UF_CODES: Record<string, string> = {
+  RO: '11', AC: '12', AM: '13', RR: '14', PA: '15', AP: '16', TO: '17',
+  MA: '21', PI: '22', CE: '23', RN: '24', PB: '25', PE: '26', AL: '27', SE: '28', BA: '29',
+  MG: '31', ES: '32', RJ: '33', SP: '35',
+  PR: '41', SC: '42', RS: '43',
+  MS: '50', MT: '51', GO: '52', DF: '53'
+};
+
+// Meio de pagamento (tPag) de cada forma aceita no caixa
+export const PAYMENT_TPAG: Record<PaymentType, string> = {
+  DINHEIRO: '01',
+  CARTAO_CREDITO: '03',
+  CARTAO_DEBITO: '04',
+  CREDITO_LOJA: '05',
+  PIX: '17',
+  PONTOS: '19',
+  OUTROS: '99'
+};
+
+// Cartões e PIX levam o grupo card (pagamento não integrado ao sistema de automação)
+const TPAG_WITH_CARD = ['03', '04', '17'];
+
+const HOMOLOGATION_DESCRIPTION = 'NOTA FISCAL EMITIDA EM AMBIENTE DE HOMOLOGACAO - SEM VALOR FISCAL';
+
+export interface NfceEmitter {
+  cnpj: string;
+  ie: string;
+  razaoSocial: string;
+  nomeFantasia: string;
+  crt: 1 | 2 | 3 | 4; // 1 Simples Nacional | 2 excesso de sublimite | 3 regime normal | 4 MEI
+  logradouro: string;
+  numero: string;
+  bairro: string;
+  codigoMunicipio: string; // IBGE, 7 dígitos
+  municipio: string;
+  uf: string;
+  cep: string;
+  fone: string;
+}
+
+// Tributos da linha já calculados (valores em reais)
+export interface NfceItemTaxes {
+  origem: number; // 0 nacional ... 8
+  icms: string; // CST (2 dígitos) ou CSOSN (3 dígitos, Simples Nacional)
+  baseIcms: number;
+  aliquotaIcms: number;
+  valorIcms: number;
+  pis: string; // CST do PIS
+  tipoAliquotaPis: TaxRateType; // VALOR: base em quantidade e alíquota em R$ por unidade
+  basePis: number;
+  aliquotaPis: number;
+  valorPis: number;
+  cofins: string; // CST da COFINS
+  tipoAliquotaCofins: TaxRateType;
+  baseCofins: number;
+  aliquotaCofins: number;
+  valorCofins: number;
+  valorTributos: number; // vTotTrib da linha
+}
+
+export interface NfceItem {
+  codigo: string;
+  gtin: string | null;
+  descricao: string;
+  ncm: string;
+  cest: string | null;
+  cfop: string;
+  unidade: string;
+  quantidade: number;
+  valorUnitario: number;
+  valorBruto: number; // quantidade x valor unitário, arredondado
+  desconto: number;
+  impostos: NfceItemTaxes;
+}
+
+export interface NfcePayment {
+  tipo: PaymentType;
+  valor: number; // valor entregue (dinheiro inclui o troco)
+}
+
+export interface NfceDocumentData {
+  emitente: NfceEmitter;
+  ambiente: NfceEnvironment;
+  tipoEmissao: NfceEmissionType;
+  serie: number;
+  numero: number;
+  codigoNumerico: string; // cNF, 8 dígitos
+  emissao: Date;
+  contingencia: { inicio: Date; justificativa: string } | null;
+  consumidor: CustomerDocument | null;
+  itens: NfceItem[];
+  pagamentos: NfcePayment[];
+  troco: number;
+  versaoAplicativo: string;
+}
+
+export interface NfceQrCodeConfig {
+  cscId: string;
+  csc: string;
+  urlQrCode: string;
+  urlConsulta: string;
+}
+
+const onlyDigits = (valor: string): string => (valor || '').replace(/\D/g, '');
+const dec = (valor: number, casas: number = 2): string => (Math.round(valor * 10 ** casas) / 10 ** casas).toFixed(casas);
+
+// Escapes iguais aos da canonicalização C14N (o infNFe é assinado como foi escrito):
+// no texto só &, <, > e CR; aspas viram &quot; apenas dentro de atributos
+const escapeXml = (texto: string): string =>
+  texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+
+const escapeXmlAttribute = (texto: string): string =>
+  texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;').replace(/\n/g, '&#xA;').replace(/\r/g, '&#xD;');
+
+// TString da SEFAZ: sem espaços nas pontas ou repetidos, caracteres até 0xFF
+export function fiscalText(texto: string, tamanho: number): string {
+  // Tabulação e quebra de linha viram espaço antes de descartar os caracteres de controle
+  const limpo = (texto || '')
+    .normalize('NFC')
+    .replace(/\s/g, ' ')
+    .replace(/[^\x20-\xff]/g, (caractere) =>
+      caractere.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\xff]/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return limpo.slice(0, tamanho).trim();
+}
+
+const tag = (nome: string, valor: string | number): string => `<${nome}>${escapeXml(String(valor))}</${nome}>`;
+
+// Valor unitário com 2 casas quando cabe em centavos (até 10 no leiaute)
+const unitValue = (valor: number): string => {
+  const centavos = valor * 100;
+  return Math.abs(centavos - Math.round(centavos)) < 1e-6 ? dec(valor, 2) : dec(valor, 4);
+};
+
+// Data/hora local com fuso (AAAA-MM-DDThh:mm:ss-03:00)
+export function formatFiscalDateTime(data: Date): string {
+  const doisDigitos = (numero: number): string => String(Math.abs(numero)).padStart(2, '0');
+  const fuso = -data.getTimezoneOffset();
+
+  return `${data.getFullYear()}-${doisDigitos(data.getMonth() + 1)}-${doisDigitos(data.getDate())}`
+    + `T${doisDigitos(data.getHours())}:${doisDigitos(data.getMinutes())}:${doisDigitos(data.getSeconds())}`
+    + `${fuso >= 0 ? '+' : '-'}${doisDigitos(Math.trunc(fuso / 60))}:${doisDigitos(fuso % 60)}`;
+}
+
+// GTIN-8/12/13/14 com dígito verificador válido; demais códigos saem como "SEM GTIN"
+export function validGtin(codigo: string | null | undefined): string | null {
+  if (!codigo || !/^(\d{8}|\d{12,14})$/.test(codigo)) return null;
+
+  const digitos = codigo.split('').map(Number);
+  const verificador = digitos.pop()!;
+  const soma = digitos.reverse().reduce((total, digito, indice) => total + digito * (indice % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (soma % 10)) % 10 === verificador ? codigo : null;
+}
+
+// Módulo 11 com pesos de 2 a 9 da direita para a esquerda; resto 0 ou 1 resulta em 0
+export function accessKeyCheckDigit(chave43: string): number {
+  if (!/^\d{43}$/.test(chave43)) {
+    throw new Error('Base da chave de acesso deve ter 43 dígitos');
+  }
+
+  let peso = 2;
+  let soma = 0;
+
+  for (let i = chave43.length - 1; i >= 0; i--) {
+    soma += Number(chave43[i]) * peso;
+    peso = peso === 9 ? 2 : peso + 1;
+  }
+
+  const resto = soma % 11;
+  return resto < 2 ? 0 : 11 - resto;
+}
+
+// cUF + AAMM + CNPJ + modelo + série + número + tpEmis + cNF + DV
+export function buildAccessKey(dados: NfceDocumentData): string {
+  const cUF = UF_CODES[dados.emitente.uf.toUpperCase()];
+  if (!cUF) {
+    throw new Error(`UF do emitente inválida: ${dados.emitente.uf}`);
+  }
+
+  const cnpj = onlyDigits(dados.emitente.cnpj);
+  if (cnpj.length !== 14) {
+    throw new Error('CNPJ do emitente deve ter 14 dígitos');
+  }
+
+  const aamm = `${String(dados.emissao.getFullYear()).slice(2)}${String(dados.emissao.getMonth() + 1).padStart(2, '0')}`;
+  const base = cUF
+    + aamm
+    + cnpj
+    + NFCE_MODEL
+    + String(dados.serie).padStart(3, '0')
+    + String(dados.numero).padStart(9, '0')
+    + String(dados.tipoEmissao)
+    + dados.codigoNumerico.padStart(8, '0');
+
+  return base + accessKeyCheckDigit(base);
+}
+
+// cNF: 8 dígitos aleatórios, diferente do número da nota
+export function randomNumericCode(numero: number): string {
+  let codigo: string;
+  do {
+    codigo = String(crypto.randomInt(0, 100000000)).padStart(8, '0');
+  } while (Number(codigo) === numero);
+  return codigo;
+}
+
+function buildIcms(impostos: NfceItemTaxes): string {
+  const origem = tag('orig', impostos.origem);
+  const situacao = impostos.icms;
+
+  if (situacao.length === 3) {
+    switch (situacao) {
+      case '102':
+      case '103':
+      case '300':
+      case '400':
+        return `<ICMSSN102>${origem}${tag('CSOSN', situacao)}</ICMSSN102>`;
+      case '500':
+        return `<ICMSSN500>${origem}${tag('CSOSN', situacao)}</ICMSSN500>`;
+      case '900':
+        return `<ICMSSN900>${origem}${tag('CSOSN', situacao)}`
+          + (impostos.valorIcms > 0
+            ? `${tag('modBC', 3)}${tag('vBC', dec(impostos.baseIcms))}${tag('pICMS', dec(impostos.aliquotaIcms, 4))}${tag('vICMS', dec(impostos.valorIcms))}`
+            : '')
+          + '</ICMSSN900>';
+    }
+  } else {
+    switch (situacao) {
+      case '00':
+        return `<ICMS00>${origem}${tag('CST', situacao)}${tag('modBC', 3)}${tag('vBC', dec(impostos.baseIcms))}`
+          + `${tag('pICMS', dec(impostos.aliquotaIcms, 4))}${tag('vICMS', dec(impostos.valorIcms))}</ICMS00>`;
+      case '40':
+      case '41':
+      case '50':
+        return `<ICMS40>${origem}${tag('CST', situacao)}</ICMS40>`;
+      case '60':
+        return `<ICMS60>${origem}${tag('CST', situacao)}</ICMS60>`;
+    }
+  }
+
+  throw new Error(`Situação tributária do ICMS não suportada na NFC-e: ${situacao}`);
+}
+
+// PIS e COFINS têm os mesmos grupos: tributado por alíquota ou por quantidade, não tributado e outras operações
+function buildPisCofins(
+  grupo: 'PIS' | 'COFINS',
+  cst: string,
+  tipo: TaxRateType,
+  base: number,
+  aliquota: number,
+  valor: number
+): string {
+  const codigo = Number(cst);
+  const valores = tipo === 'VALOR'
+    ? `${tag('qBCProd', dec(base, 4))}${tag('vAliqProd', dec(aliquota, 4))}${tag(`v${grupo}`, dec(valor))}`
+    : `${tag('vBC', dec(base))}${tag(`p${grupo}`, dec(aliquota, 4))}${tag(`v${grupo}`, dec(valor))}`;
+
+  if (codigo === 1 || codigo === 2) {
+    return `<${grupo}><${grupo}Aliq>${tag('CST', cst)}${valores}</${grupo}Aliq></${grupo}>`;
+  }
+  if (codigo === 3) {
+    return `<${grupo}><${grupo}Qtde>${tag('CST', cst)}${valores}</${grupo}Qtde></${grupo}>`;
+  }
+  if (codigo >= 4 && codigo <= 9) {
+    return `<${grupo}><${grupo}NT>${tag('CST', cst)}</${grupo}NT></${grupo}>`;
+  }
+  if (codigo >= 49 && codigo <= 99) {
+    return `<${grupo}><${grupo}Outr>${tag('CST', cst)}${valores}</${grupo}Outr></${grupo}>`;
+  }
+
+  throw new Error(`CST do ${grupo} não suportado na NFC-e: ${cst}`);
+}
+
+function buildItem(item: NfceItem, indice: number, ambiente: NfceEnvironment): string {
+  const gtin = validGtin(item.gtin) || 'SEM GTIN';
+  const descricao = ambiente === 2 && indice === 0 ? HOMOLOGATION_DESCRIPTION : fiscalText(item.descricao, 120);
+  const unidade = fiscalText(item.unidade, 6) || 'UN';
+  const quantidade = dec(item.quantidade, 4);
+  const valorUnitario = unitValue(item.valorUnitario);
+
+  const prod = tag('cProd', fiscalText(item.codigo, 60))
+    + tag('cEAN', gtin)
+    + tag('xProd', descricao)
+    + tag('NCM', item.ncm)
+    + (item.cest ? tag('CEST', item.cest) : '')
+    + tag('CFOP', item.cfop)
+    + tag('uCom', unidade)
+    + tag('qCom', quantidade)
+    + tag('vUnCom', valorUnitario)
+    + tag('vProd', dec(item.valorBruto))
+    + tag('cEANTrib', gtin)
+    + tag('uTrib', unidade)
+    + tag('qTrib', quantidade)
+    + tag('vUnTrib', valorUnitario)
+    + (item.desconto > 0 ? tag('vDesc', dec(item.desconto)) : '')
+    + tag('indTot', 1);
+
+  const impostos = item.impostos;
+  const imposto = (impostos.valorTributos > 0 ? tag('vTotTrib', dec(impostos.valorTributos)) : '')
+    + `<ICMS>${buildIcms(impostos)}</ICMS>`
+    + buildPisCofins('PIS', impostos.pis, impostos.tipoAliquotaPis, impostos.basePis, impostos.aliquotaPis, impostos.valorPis)
+    + buildPisCofins(
+      'COFINS',
+      impostos.cofins,
+      impostos.tipoAliquotaCofins,
+      impostos.baseCofins,
+      impostos.aliquotaCofins,
+      impostos.valorCofins
+    );
+
+  return `<det nItem="${indice + 1}"><prod>${prod}</prod><imposto>${imposto}</imposto></det>`;
+}
+
+// Grupos de ICMS que informam base e valor próprios (entram no vBC e no vICMS do total)
+const ICMS_WITH_VALUE = ['00', '900'];
+
+// Totais somados em centavos a partir dos valores já arredondados de cada linha
+export function nfceTotals(itens: NfceItem[]): {
+  vBC: number; vICMS: number; vProd: number; vDesc: number; vPIS: number; vCOFINS: number; vNF: number; vTotTrib: number;
+} {
+  const soma = (valor: (item: NfceItem) => number): number =>
+    itens.reduce((total, item) => total + Math.round(valor(item) * 100), 0);
+
+  const vBC = soma(item => (ICMS_WITH_VALUE.includes(item.impostos.icms) ? item.impostos.baseIcms : 0));
+  const vICMS = soma(item => (ICMS_WITH_VALUE.includes(item.impostos.icms) ? item.impostos.valorIcms : 0));
+  const vProd = soma(item => item.valorBruto);
+  const vDesc = soma(item => item.desconto);
+  const vPIS = soma(item => item.impostos.valorPis);
+  const vCOFINS = soma(item => item.impostos.valorCofins);
+  const vTotTrib = soma(item => item.impostos.valorTributos);
+
+  return {
+    vBC: vBC / 100,
+    vICMS: vICMS / 100,
+    vProd: vProd / 100,
+    vDesc: vDesc / 100,
+    vPIS: vPIS / 100,
+    vCOFINS: vCOFINS / 100,
+    vNF: (vProd - vDesc) / 100,
+    vTotTrib: vTotTrib / 100
+  };
+}
+
+// Elemento infNFe (parte assinada): escrito já na forma canônica, sem espaços entre as tags
+export function buildInfNFe(dados: NfceDocumentData): { id: string; chave: string; xml: string } {
+  if (dados.itens.length === 0) {
+    throw new Error('NFC-e deve ter pelo menos um item');
+  }
+  if (dados.tipoEmissao === 9 && !dados.contingencia) {
+    throw new Error('Emissão em contingência exige data de entrada e justificativa');
+  }
+
+  const chave = buildAccessKey(dados);
+  const id = `NFe${chave}`;
+  const emitente = dados.emitente;
+
+  const ide = tag('cUF', chave.slice(0, 2))
+    + tag('cNF', dados.codigoNumerico)
+    + tag('natOp', 'VENDA')
+    + tag('mod', NFCE_MODEL)
+    + tag('serie', dados.serie)
+    + tag('nNF', dados.numero)
+    + tag('dhEmi', formatFiscalDateTime(dados.emissao))
+    + tag('tpNF', 1)
+    + tag('idDest', 1)
+    + tag('cMunFG', emitente.codigoMunicipio)
+    + tag('tpImp', 4)
+    + tag('tpEmis', dados.tipoEmissao)
+    + tag('cDV', chave.slice(-1))
+    + tag('tpAmb', dados.ambiente)
+    + tag('finNFe', 1)
+    + tag('indFinal', 1)
+    + tag('indPres', 1)
+    + tag('procEmi', 0)
+    + tag('verProc', fiscalText(dados.versaoAplicativo, 20))
+    + (dados.contingencia
+      ? tag('dhCont', formatFiscalDateTime(dados.contingencia.inicio)) + tag('xJust', fiscalText(dados.contingencia.justificativa, 256))
+      : '');
+
+  const endereco = tag('xLgr', fiscalText(emitente.logradouro, 60))
+    + tag('nro', fiscalText(emitente.numero, 60) || 'SN')
+    + tag('xBairro', fiscalText(emitente.bairro, 60))
+    + tag('cMun', emitente.codigoMunicipio)
+    + tag('xMun', fiscalText(emitente.municipio, 60))
+    + tag('UF', emitente.uf.toUpperCase())
+    + (onlyDigits(emitente.cep) ? tag('CEP', onlyDigits(emitente.cep)) : '')
+    + tag('cPais', 1058)
+    + tag('xPais', 'BRASIL')
+    + (onlyDigits(emitente.fone) ? tag('fone', onlyDigits(emitente.fone)) : '');
+
+  const emit = tag('CNPJ', onlyDigits(emitente.cnpj))
+    + tag('xNome', fiscalText(emitente.razaoSocial, 60))
+    + (emitente.nomeFantasia ? tag('xFant', fiscalText(emitente.nomeFantasia, 60)) : '')
+    + `<enderEmit>${endereco}</enderEmit>`
+    + tag('IE', onlyDigits(emitente.ie))
+    + tag('CRT', emitente.crt);
+
+  const dest = dados.consumidor
+    ? `<dest>${tag(dados.consumidor.tipo, dados.consumidor.numero)}${tag('indIEDest', 9)}</dest>`
+    : '';
+
+  const totais = nfceTotals(dados.itens);
+  const icmsTot = tag('vBC', dec(totais.vBC))
+    + tag('vICMS', dec(totais.vICMS))
+    + tag('vICMSDeson', '0.00')
+    + tag('vFCP', '0.00')
+    + tag('vBCST', '0.00')
+    + tag('vST', '0.00')
+    + tag('vFCPST', '0.00')
+    + tag('vFCPSTRet', '0.00')
+    + tag('vProd', dec(totais.vProd))
+    + tag('vFrete', '0.00')
+    + tag('vSeg', '0.00')
+    + tag('vDesc', dec(totais.vDesc))
+    + tag('vII', '0.00')
+    + tag('vIPI', '0.00')
+    + tag('vIPIDevol', '0.00')
+    + tag('vPIS', dec(totais.vPIS))
+    + tag('vCOFINS', dec(totais.vCOFINS))
+    + tag('vOutro', '0.00')
+    + tag('vNF', dec(totais.vNF))
+    + (totais.vTotTrib > 0 ? tag('vTotTrib', dec(totais.vTotTrib)) : '');
+
+  const detPag = dados.pagamentos.map((pagamento) => {
+    const tPag = PAYMENT_TPAG[pagamento.tipo];
+    return '<detPag>'
+      + tag('tPag', tPag)
+      + (tPag === '99' ? tag('xPag', 'Outros') : '')
+      + tag('vPag', dec(pagamento.valor))
+      + (TPAG_WITH_CARD.includes(tPag) ? `<card>${tag('tpIntegra', 2)}</card>` : '')
+      + '</detPag>';
+  }).join('');
+
+  const pag = `<pag>${detPag}${dados.troco > 0 ? tag('vTroco', dec(dados.troco)) : ''}</pag>`;
+
+  const xml = `<infNFe Id="${escapeXmlAttribute(id)}" versao="${NFE_VERSION}">`
+    + `<ide>${ide}</ide>`
+    + `<emit>${emit}</emit>`
+    + dest
+    + dados.itens.map((item, indice) => buildItem(item, indice, dados.ambiente)).join('')
+    + `<total><ICMSTot>${icmsTot}</ICMSTot></total>`
+    + `<transp>${tag('modFrete', 9)}</transp>`
+    + pag
+    + '</infNFe>';
+
+  return { id, chave, xml };
+}
+
+// QR Code versão 2: on-line leva só o token; off-line leva dia, valor e DigestValue da assinatura
+export function buildQrCodeUrl(
+  dados: NfceDocumentData,
+  chave: string,
+  digestValue: string,
+  qrCode: NfceQrCodeConfig
+): string {
+  const idToken = String(Number(onlyDigits(qrCode.cscId)));
+  const campos = dados.tipoEmissao === 9
+    ? [
+      chave,
+      '2',
+      String(dados.ambiente),
+      String(dados.emissao.getDate()).padStart(2, '0'),
+      dec(nfceTotals(dados.itens).vNF),
+      Buffer.from(digestValue, 'utf8').toString('hex'),
+      idToken
+    ]
+    : [chave, '2', String(dados.ambiente), idToken];
+
+  const parametros = campos.join('|');
+  const hash = crypto.createHash('sha1').update(parametros + qrCode.csc).digest('hex').toUpperCase();
+
+  return `${qrCode.urlQrCode}?p=${parametros}|${hash}`;
+}
+
+export function buildInfNFeSupl(qrCodeUrl: string, urlConsulta: string): string {
+  return `<infNFeSupl>${tag('qrCode', qrCodeUrl)}${tag('urlChave', urlConsulta)}</infNFeSupl>`;
+}
+
+export function assembleNfe(infNFe: string, infNFeSupl: string, assinatura: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><NFe xmlns="${NFE_NAMESPACE}">${infNFe}${infNFeSupl}${assinatura}</NFe>`;
+}
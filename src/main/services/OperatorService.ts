@@ -0,0 +1,322 @@
+// ================================
+// OperatorService.ts - Login de Operadores e Permissões
+// ================================
+
+import * as crypto from 'crypto';
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import type {
+  Operator,
+  OperatorRole,
+  OperatorSession,
+  Permission
+} from '../types/NetworkTypes';
+
+// Permissões de cada perfil (perfis superiores herdam as do perfil anterior)
+const OPERADOR_PERMISSIONS: Permission[] = [
+  'product:read',
+  'sale:create',
+  'shift:open',
+  'shift:close',
+  'cash:movement',
+  'sale:return',
+  'sale:history',
+  'receipt:export'
+];
+
+const SUPERVISOR_PERMISSIONS: Permission[] = [
+  ...OPERADOR_PERMISSIONS,
+  'sale:cancel',
+  'item:remove',
+  'price:change',
+  'discount:override',
+  'item:return',
+  'cache:sync',
+  'drawer:open',
+  'cash:authorize',
+  'nfce:manage'
+];
+
+export const ROLE_PERMISSIONS: Record<OperatorRole, Permission[]> = {
+  OPERADOR: OPERADOR_PERMISSIONS,
+  SUPERVISOR: SUPERVISOR_PERMISSIONS,
+  GERENTE: [...SUPERVISOR_PERMISSIONS, 'logs:export']
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  'product:read': 'consultar produtos',
+  'sale:create': 'registrar vendas',
+  'sale:cancel': 'cancelar vendas',
+  'item:remove': 'remover itens',
+  'shift:open': 'abrir caixa',
+  'shift:close': 'fechar caixa',
+  'cash:movement': 'sangria/suprimento',
+  'price:change': 'alterar preços',
+  'discount:override': 'autorizar descontos',
+  'item:return': 'autorizar devoluções',
+  'cache:sync': 'sincronizar dados',
+  'drawer:open': 'abrir a gaveta sem venda',
+  'cash:authorize': 'autorizar sangria/suprimento',
+  'sale:return': 'registrar devoluções',
+  'sale:history': 'consultar o histórico de vendas',
+  'receipt:export': 'visualizar e exportar comprovantes',
+  'nfce:manage': 'gerenciar NFC-e em contingência',
+  'logs:export': 'exportar logs'
+};
+
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOGIN_LOCK_MS = 60 * 1000;
+
+export class OperatorService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private session: OperatorSession | null = null;
+  private failedAttempts: Map<string, { count: number; lockedUntil: number }> = new Map();
+
+  constructor(apiService: PdvApiService) {
+    this.apiService = apiService;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.createOperatorSchema();
+    await this.syncOperators();
+  }
+
+  private async createOperatorSchema(): Promise<void> {
+    await this.db.exec(`
+      -- Cache de operadores (PIN armazenado apenas como hash)
+      CREATE TABLE IF NOT EXISTS cache_operadores (
+        id INTEGER PRIMARY KEY,
+        codigo TEXT UNIQUE NOT NULL,
+        nome TEXT NOT NULL,
+        perfil TEXT NOT NULL DEFAULT 'OPERADOR', -- 'OPERADOR', 'SUPERVISOR', 'GERENTE'
+        pin_hash TEXT NOT NULL,
+        cracha TEXT, -- código de barras do crachá (autorização de supervisor)
+        ativo BOOLEAN DEFAULT true,
+        updated_at TEXT,
+        cached_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_cache_operadores_codigo ON cache_operadores(codigo);
+    `);
+
+    // Bancos criados antes do suporte a crachá
+    const colunas = await this.db.all('PRAGMA table_info(cache_operadores)');
+    if (!colunas.some((coluna: any) => coluna.name === 'cracha')) {
+      await this.db.exec('ALTER TABLE cache_operadores ADD COLUMN cracha TEXT');
+    }
+  }
+
+  // Atualizar cache de operadores a partir da API (mantém o cache atual se offline)
+  async syncOperators(): Promise<boolean> {
+    const operadores = await this.apiService.fetchOperators();
+
+    if (!operadores) {
+      const total = await this.db.get('SELECT COUNT(*) as total FROM cache_operadores');
+      this.logger.warn('OPERATOR', `Usando cache local de operadores (${total?.total || 0} cadastrados)`);
+      return false;
+    }
+
+    await this.db.exec('BEGIN TRANSACTION');
+
+    try {
+      await this.db.run('DELETE FROM cache_operadores');
+
+      for (const operador of operadores) {
+        const pinHash = operador.pin_hash || (operador.pin ? hashPin(String(operador.pin)) : null);
+
+        if (!pinHash) {
+          this.logger.warn('OPERATOR', `Operador ${operador.codigo} sem PIN - ignorado`);
+          continue;
+        }
+
+        await this.db.run(`
+          INSERT INTO cache_operadores (id, codigo, nome, perfil, pin_hash, cracha, ativo, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          operador.id,
+          String(operador.codigo),
+          operador.nome,
+          normalizeRole(operador.perfil),
+          pinHash,
+          operador.cracha ? String(operador.cracha) : null,
+          operador.ativo !== false,
+          operador.updated_at || new Date().toISOString()
+        ]);
+      }
+
+      await this.db.exec('COMMIT');
+      this.logger.info('OPERATOR', `${operadores.length} operadores sincronizados`);
+      return true;
+    } catch (error: any) {
+      await this.db.exec('ROLLBACK');
+      this.logger.error('OPERATOR', 'Erro ao sincronizar operadores', error);
+      return false;
+    }
+  }
+
+  // Valida código + PIN de um operador ativo sem alterar a sessão
+  async verifyCredentials(codigo: string, pin: string): Promise<Operator> {
+    if (!codigo || !pin) {
+      throw new Error('Informe o código do operador e o PIN');
+    }
+
+    const chave = String(codigo).trim();
+    this.checkLock(chave);
+
+    const registro = await this.db.get(`
+      SELECT * FROM cache_operadores
+      WHERE codigo = ? AND ativo = true
+      LIMIT 1
+    `, [chave]);
+
+    if (!registro || !verifyPin(String(pin), registro.pin_hash)) {
+      this.registerFailedAttempt(chave);
+      this.logger.warn('OPERATOR', `Falha de autenticacao para operador ${chave}`);
+      throw new Error('Operador ou PIN inválido');
+    }
+
+    this.failedAttempts.delete(chave);
+
+    return mapOperator(registro);
+  }
+
+  // Valida o crachá (código de barras) de um operador ativo sem alterar a sessão
+  async verifyBadge(cracha: string): Promise<Operator> {
+    const chave = String(cracha || '').trim();
+
+    if (!chave) {
+      throw new Error('Informe o crachá');
+    }
+
+    this.checkLock(`cracha:${chave}`);
+
+    const registro = await this.db.get(`
+      SELECT * FROM cache_operadores
+      WHERE cracha = ? AND ativo = true
+      LIMIT 1
+    `, [chave]);
+
+    if (!registro) {
+      this.registerFailedAttempt(`cracha:${chave}`);
+      this.logger.warn('OPERATOR', 'Cracha nao reconhecido');
+      throw new Error('Crachá não reconhecido');
+    }
+
+    this.failedAttempts.delete(`cracha:${chave}`);
+
+    return mapOperator(registro);
+  }
+
+  async login(codigo: string, pin: string): Promise<OperatorSession> {
+    const operador = await this.verifyCredentials(codigo, pin);
+
+    this.session = {
+      operador,
+      permissoes: ROLE_PERMISSIONS[operador.perfil],
+      login_em: new Date().toISOString()
+    };
+
+    this.logger.setUserId(operador.codigo);
+    this.logger.info('OPERATOR', `Login do operador ${operador.codigo} (${operador.perfil})`);
+
+    return this.session;
+  }
+
+  logout(): void {
+    if (this.session) {
+      this.logger.info('OPERATOR', `Logout do operador ${this.session.operador.codigo}`);
+    }
+
+    this.session = null;
+    this.logger.setUserId(undefined);
+  }
+
+  getSession(): OperatorSession | null {
+    return this.session;
+  }
+
+  getCurrentOperator(): Operator | null {
+    return this.session?.operador || null;
+  }
+
+  hasPermission(permission: Permission): boolean {
+    return this.session?.permissoes.includes(permission) || false;
+  }
+
+  // Usado pelos handlers IPC: lança erro se não houver operador ou permissão
+  requirePermission(permission: Permission): Operator {
+    if (!this.session) {
+      throw new Error('Nenhum operador autenticado. Faça login para continuar');
+    }
+
+    if (!this.hasPermission(permission)) {
+      this.logger.warn('OPERATOR', `Permissao negada: ${permission}`, {
+        operador: this.session.operador.codigo,
+        perfil: this.session.operador.perfil
+      });
+      throw new Error(`Operador sem permissão para ${PERMISSION_LABELS[permission]}`);
+    }
+
+    return this.session.operador;
+  }
+
+  private checkLock(chave: string): void {
+    const bloqueio = this.failedAttempts.get(chave);
+
+    if (bloqueio && bloqueio.lockedUntil > Date.now()) {
+      const segundos = Math.ceil((bloqueio.lockedUntil - Date.now()) / 1000);
+      throw new Error(`Operador bloqueado por excesso de tentativas. Aguarde ${segundos}s`);
+    }
+  }
+
+  private registerFailedAttempt(codigo: string): void {
+    const tentativa = this.failedAttempts.get(codigo) || { count: 0, lockedUntil: 0 };
+    tentativa.count += 1;
+
+    if (tentativa.count >= MAX_LOGIN_ATTEMPTS) {
+      tentativa.count = 0;
+      tentativa.lockedUntil = Date.now() + LOGIN_LOCK_MS;
+      this.logger.warn('OPERATOR', `Operador ${codigo} bloqueado por ${LOGIN_LOCK_MS / 1000}s`);
+    }
+
+    this.failedAttempts.set(codigo, tentativa);
+  }
+}
+
+// Hash do PIN no formato "salt:hash" (scrypt)
+export function hashPin(pin: string, salt: string = crypto.randomBytes(16).toString('hex')): string {
+  const hash = crypto.scryptSync(pin, salt, 32).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+function verifyPin(pin: string, stored: string): boolean {
+  const [salt, hash] = String(stored || '').split(':');
+  if (!salt || !hash) return false;
+
+  const esperado = Buffer.from(hash, 'hex');
+  const calculado = crypto.scryptSync(pin, salt, esperado.length);
+
+  return esperado.length > 0 && crypto.timingSafeEqual(esperado, calculado);
+}
+
+function mapOperator(registro: any): Operator {
+  return {
+    id: registro.id,
+    codigo: registro.codigo,
+    nome: registro.nome,
+    perfil: normalizeRole(registro.perfil),
+    ativo: Boolean(registro.ativo)
+  };
+}
+
+function normalizeRole(perfil: any): OperatorRole {
+  const valor = String(perfil || '').toUpperCase();
+  return valor === 'SUPERVISOR' || valor === 'GERENTE' ? valor : 'OPERADOR';
+}
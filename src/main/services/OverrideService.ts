@@ -0,0 +1,276 @@
+// ================================
+// OverrideService.ts - Autorização de Supervisor e Auditoria
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { OperatorService, ROLE_PERMISSIONS } from './OperatorService';
+import { LogService } from './LogService';
+import type {
+  Operator,
+  OverrideAction,
+  OverrideAuthorization,
+  OverrideCredentials,
+  OverrideMethod,
+  Permission
+} from '../types/NetworkTypes';
+
+// Permissão que o supervisor precisa ter para liberar cada ação
+const ACTION_PERMISSIONS: Record<OverrideAction, Permission> = {
+  ITEM_REMOVE: 'item:remove',
+  SALE_CANCEL: 'sale:cancel',
+  PRICE_CHANGE: 'price:change',
+  DISCOUNT: 'discount:override',
+  ITEM_RETURN: 'item:return',
+  DRAWER_OPEN: 'drawer:open',
+  CASH_MOVEMENT: 'cash:authorize'
+};
+
+const ACTION_LABELS: Record<OverrideAction, string> = {
+  ITEM_REMOVE: 'remoção de item',
+  SALE_CANCEL: 'cancelamento de venda',
+  PRICE_CHANGE: 'alteração de preço',
+  DISCOUNT: 'desconto',
+  ITEM_RETURN: 'devolução de item',
+  DRAWER_OPEN: 'abertura da gaveta sem venda',
+  CASH_MOVEMENT: 'sangria/suprimento'
+};
+
+// Autorização vale só para a ação em andamento: depois disso (ou de usada) é preciso pedir outra
+const AUTHORIZATION_TTL_MINUTES = 30;
+
+// Regra extra de uma ação (ex.: limite de desconto do perfil do supervisor)
+export type OverrideValidator = (supervisor: Operator, detalhes: Record<string, any>) => void;
+
+export class OverrideService {
+  private apiService: PdvApiService;
+  private operatorService: OperatorService;
+  private logger: LogService;
+  private caixaId: string;
+  private validators: Partial<Record<OverrideAction, OverrideValidator>> = {};
+
+  constructor(apiService: PdvApiService, operatorService: OperatorService, caixaId: string) {
+    this.apiService = apiService;
+    this.operatorService = operatorService;
+    this.caixaId = caixaId;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Auditoria de autorizações de supervisor (uma linha por ação liberada)
+      CREATE TABLE IF NOT EXISTS auditoria_autorizacoes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        acao TEXT NOT NULL, -- 'ITEM_REMOVE', 'SALE_CANCEL', 'PRICE_CHANGE', 'DISCOUNT', 'ITEM_RETURN', 'DRAWER_OPEN', 'CASH_MOVEMENT'
+        metodo TEXT NOT NULL, -- 'PIN', 'CRACHA'
+        operador_id INTEGER NOT NULL,
+        operador_codigo TEXT NOT NULL,
+        supervisor_id INTEGER NOT NULL,
+        supervisor_codigo TEXT NOT NULL,
+        supervisor_nome TEXT NOT NULL,
+        detalhes_json TEXT,
+        created_at TEXT NOT NULL,
+        sincronizado BOOLEAN DEFAULT false,
+        usada_em TEXT, -- preenchido quando a operação autorizada é registrada
+        usada_referencia TEXT -- venda ou operação que consumiu a autorização
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_auditoria_autorizacoes_data ON auditoria_autorizacoes(created_at);
+    `);
+
+    // Auditorias criadas antes do consumo das autorizações
+    const colunas = await this.db.all('PRAGMA table_info(auditoria_autorizacoes)');
+    if (!colunas.some((coluna: any) => coluna.name === 'usada_em')) {
+      await this.db.exec(`
+        ALTER TABLE auditoria_autorizacoes ADD COLUMN usada_em TEXT;
+        ALTER TABLE auditoria_autorizacoes ADD COLUMN usada_referencia TEXT;
+      `);
+    }
+  }
+
+  registerValidator(acao: OverrideAction, validator: OverrideValidator): void {
+    this.validators[acao] = validator;
+  }
+
+  // Valida o supervisor para UMA ação e grava a auditoria; cada nova ação exige nova autorização
+  async authorize(
+    acao: OverrideAction,
+    credenciais: OverrideCredentials,
+    detalhes: Record<string, any> = {}
+  ): Promise<OverrideAuthorization> {
+    const operador = this.operatorService.getCurrentOperator();
+    if (!operador) {
+      throw new Error('Nenhum operador autenticado. Faça login para continuar');
+    }
+
+    const permissao = ACTION_PERMISSIONS[acao];
+    if (!permissao) {
+      throw new Error(`Ação não suportada para autorização: ${acao}`);
+    }
+
+    const metodo: OverrideMethod = credenciais?.cracha ? 'CRACHA' : 'PIN';
+    const supervisor: Operator = metodo === 'CRACHA'
+      ? await this.operatorService.verifyBadge(credenciais.cracha!)
+      : await this.operatorService.verifyCredentials(credenciais?.codigo || '', credenciais?.pin || '');
+
+    if (!ROLE_PERMISSIONS[supervisor.perfil].includes(permissao)) {
+      this.logger.warn('OVERRIDE', `Autorizacao negada: ${supervisor.codigo} sem permissao ${permissao}`, {
+        acao,
+        operador: operador.codigo
+      });
+      throw new Error(`${supervisor.nome} não pode autorizar ${ACTION_LABELS[acao]}`);
+    }
+
+    this.validators[acao]?.(supervisor, detalhes);
+
+    const createdAt = new Date().toISOString();
+    const result = await this.db.run(`
+      INSERT INTO auditoria_autorizacoes (
+        acao, metodo, operador_id, operador_codigo,
+        supervisor_id, supervisor_codigo, supervisor_nome, detalhes_json, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      acao,
+      metodo,
+      operador.id,
+      operador.codigo,
+      supervisor.id,
+      supervisor.codigo,
+      supervisor.nome,
+      JSON.stringify(detalhes),
+      createdAt
+    ]);
+
+    const autorizacao: OverrideAuthorization = {
+      id: result.lastID!,
+      acao,
+      metodo,
+      operador_id: operador.id,
+      operador_codigo: operador.codigo,
+      supervisor_id: supervisor.id,
+      supervisor_codigo: supervisor.codigo,
+      supervisor_nome: supervisor.nome,
+      detalhes,
+      created_at: createdAt,
+      usada_em: null,
+      usada_referencia: null
+    };
+
+    const sincronizado = await this.apiService.sendOrQueue('AUTORIZACAO_SUPERVISOR', '/auditoria/autorizacoes', {
+      caixaId: this.caixaId,
+      autorizacaoId: autorizacao.id,
+      acao,
+      metodo,
+      operadorId: operador.id,
+      operadorCodigo: operador.codigo,
+      supervisorId: supervisor.id,
+      supervisorCodigo: supervisor.codigo,
+      detalhes,
+      dataHora: createdAt
+    });
+
+    if (sincronizado) {
+      await this.db.run('UPDATE auditoria_autorizacoes SET sincronizado = true WHERE id = ?', [autorizacao.id]);
+    }
+
+    this.logger.info('OVERRIDE', `${acao} autorizada por ${supervisor.codigo} para ${operador.codigo}`, {
+      autorizacao_id: autorizacao.id,
+      metodo,
+      detalhes
+    });
+
+    return autorizacao;
+  }
+
+  // Ainda não consumida por outra operação e dentro do prazo
+  isAvailable(autorizacao: OverrideAuthorization): boolean {
+    return !autorizacao.usada_em && autorizacao.created_at >= this.expirationLimit();
+  }
+
+  private expirationLimit(): string {
+    return new Date(Date.now() - AUTHORIZATION_TTL_MINUTES * 60 * 1000).toISOString();
+  }
+
+  // Cada item precisa de uma autorização própria, da ação e do operador da venda, dada para os mesmos dados.
+  // Só confere: o consumo acontece em consumeAuthorizations quando a operação é registrada
+  async requireItemAuthorizations(
+    acao: OverrideAction,
+    itens: Array<{ autorizacaoId?: number; detalhes: Record<string, any> }>,
+    operadorId: number
+  ): Promise<number[]> {
+    const usadas = new Set<number>();
+
+    for (const item of itens) {
+      const autorizacao = item.autorizacaoId ? await this.getAuthorization(item.autorizacaoId) : null;
+      const confere = autorizacao &&
+        autorizacao.acao === acao &&
+        autorizacao.operador_id === operadorId &&
+        !usadas.has(autorizacao.id) &&
+        this.isAvailable(autorizacao) &&
+        Object.entries(item.detalhes).every(([chave, valor]) => autorizacao.detalhes[chave] === valor);
+
+      if (!confere) {
+        this.logger.warn('OVERRIDE', `Item sem autorizacao valida para ${acao}`, { ...item, operador_id: operadorId });
+        throw new Error(`Item ${item.detalhes.codigo ?? ''}: ${ACTION_LABELS[acao]} sem autorização do supervisor`);
+      }
+
+      usadas.add(autorizacao.id);
+    }
+
+    return [...usadas];
+  }
+
+  // Marca as autorizações como usadas pela operação; recusa todas se alguma já foi usada ou venceu
+  async consumeAuthorizations(ids: number[], referencia: string): Promise<void> {
+    if (ids.length === 0) return;
+
+    const usadaEm = new Date().toISOString();
+    const limite = this.expirationLimit();
+
+    await this.db.exec('BEGIN TRANSACTION');
+
+    try {
+      for (const id of ids) {
+        const resultado = await this.db.run(`
+          UPDATE auditoria_autorizacoes SET usada_em = ?, usada_referencia = ?
+          WHERE id = ? AND usada_em IS NULL AND created_at >= ?
+        `, [usadaEm, referencia, id, limite]);
+
+        if (resultado.changes !== 1) {
+          throw new Error('Autorização do supervisor já utilizada ou vencida. Solicite nova autorização');
+        }
+      }
+
+      await this.db.exec('COMMIT');
+    } catch (error: any) {
+      await this.db.exec('ROLLBACK');
+      this.logger.warn('OVERRIDE', 'Autorizacao recusada no consumo', { ids, referencia, error: error.message });
+      throw error;
+    }
+  }
+
+  // Confere e consome na mesma chamada (operações de uma única autorização)
+  async useItemAuthorizations(
+    acao: OverrideAction,
+    itens: Array<{ autorizacaoId?: number; detalhes: Record<string, any> }>,
+    operadorId: number,
+    referencia: string
+  ): Promise<void> {
+    await this.consumeAuthorizations(await this.requireItemAuthorizations(acao, itens, operadorId), referencia);
+  }
+
+  async getAuthorization(id: number): Promise<OverrideAuthorization | null> {
+    const registro = await this.db.get('SELECT * FROM auditoria_autorizacoes WHERE id = ?', [id]);
+    if (!registro) return null;
+
+    const { detalhes_json, sincronizado, ...autorizacao } = registro;
+    return {
+      ...autorizacao,
+      detalhes: detalhes_json ? JSON.parse(detalhes_json) : {}
+    };
+  }
+}
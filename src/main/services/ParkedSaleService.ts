@@ -0,0 +1,175 @@
+// ================================
+// ParkedSaleService.ts - Vendas em Espera
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import { calculateDiscountCents } from './DiscountService';
+import type {
+  Discount,
+  Operator,
+  ParkedSale,
+  ParkedSaleCart
+} from '../types/NetworkTypes';
+
+// Limite de carrinhos em espera ao mesmo tempo no turno
+const MAX_PARKED_SALES = 10;
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+export class ParkedSaleService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+
+  constructor(apiService: PdvApiService) {
+    this.apiService = apiService;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Carrinhos estacionados (sobrevivem ao reinício do aplicativo)
+      CREATE TABLE IF NOT EXISTS vendas_em_espera (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL,
+        operador_id INTEGER NOT NULL,
+        operador_nome TEXT NOT NULL,
+        itens_json TEXT NOT NULL,
+        desconto_venda_json TEXT,
+        quantidade_itens INTEGER NOT NULL,
+        total REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'EM_ESPERA', -- 'EM_ESPERA', 'RECUPERADA', 'EXPIRADA'
+        created_at TEXT NOT NULL,
+        recuperada_em TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vendas_em_espera_turno ON vendas_em_espera(turno_id, status);
+    `);
+  }
+
+  // Estaciona o carrinho atual; o total é recalculado aqui para a lista de recuperação
+  async park(
+    turnoId: number,
+    operador: Operator,
+    itens: Record<string, any>[],
+    descontoVenda: Discount | null = null
+  ): Promise<ParkedSale> {
+    const ativos = (itens || []).filter(item => !item.cancelado);
+    if (ativos.length === 0) {
+      throw new Error('Não há itens para colocar em espera');
+    }
+
+    const emEspera = await this.db.get(
+      "SELECT COUNT(*) as total FROM vendas_em_espera WHERE turno_id = ? AND status = 'EM_ESPERA'",
+      [turnoId]
+    );
+    if ((emEspera?.total || 0) >= MAX_PARKED_SALES) {
+      throw new Error(`Limite de ${MAX_PARKED_SALES} vendas em espera atingido. Recupere ou finalize uma delas`);
+    }
+
+    const subtotalCents = ativos.reduce((soma, item) => soma + toCents(item.total), 0);
+    const totalCents = subtotalCents - calculateDiscountCents(subtotalCents, descontoVenda);
+
+    const result = await this.db.run(`
+      INSERT INTO vendas_em_espera (
+        turno_id, operador_id, operador_nome, itens_json, desconto_venda_json,
+        quantidade_itens, total, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      turnoId,
+      operador.id,
+      operador.nome,
+      JSON.stringify(itens),
+      descontoVenda ? JSON.stringify(descontoVenda) : null,
+      ativos.length,
+      fromCents(totalCents),
+      new Date().toISOString()
+    ]);
+
+    const venda = await this.getById(result.lastID!);
+    this.logger.info('PARKED_SALE', `Venda ${venda.id} em espera no turno ${turnoId}`, {
+      operador: operador.codigo,
+      itens: venda.quantidade_itens,
+      total: venda.total
+    });
+
+    return venda;
+  }
+
+  async list(turnoId: number): Promise<ParkedSale[]> {
+    return this.db.all(`
+      SELECT id, turno_id, operador_id, operador_nome, quantidade_itens, total, status, created_at, recuperada_em
+      FROM vendas_em_espera
+      WHERE turno_id = ? AND status = 'EM_ESPERA'
+      ORDER BY created_at ASC, id ASC
+    `, [turnoId]);
+  }
+
+  // Devolve o carrinho para a tela e retira da lista (cada venda em espera só é recuperada uma vez)
+  async recall(id: number, turnoId: number, operador: Operator): Promise<ParkedSaleCart> {
+    const registro = await this.db.get('SELECT * FROM vendas_em_espera WHERE id = ?', [id]);
+
+    if (!registro || registro.turno_id !== turnoId) {
+      throw new Error(`Venda em espera ${id} não encontrada neste turno`);
+    }
+
+    if (registro.status !== 'EM_ESPERA') {
+      throw new Error(`Venda em espera ${id} já foi ${registro.status === 'RECUPERADA' ? 'recuperada' : 'expirada'}`);
+    }
+
+    const recuperadaEm = new Date().toISOString();
+    await this.db.run(
+      "UPDATE vendas_em_espera SET status = 'RECUPERADA', recuperada_em = ? WHERE id = ? AND status = 'EM_ESPERA'",
+      [recuperadaEm, id]
+    );
+
+    this.logger.info('PARKED_SALE', `Venda ${id} recuperada por ${operador.codigo}`, {
+      estacionada_por: registro.operador_nome,
+      total: registro.total
+    });
+
+    const { itens_json, desconto_venda_json, ...venda } = registro;
+    return {
+      ...venda,
+      status: 'RECUPERADA',
+      recuperada_em: recuperadaEm,
+      itens: JSON.parse(itens_json),
+      desconto_venda: desconto_venda_json ? JSON.parse(desconto_venda_json) : null
+    };
+  }
+
+  // Fechamento de caixa: carrinhos não recuperados deixam de valer
+  async expireShift(turnoId: number): Promise<number> {
+    const result = await this.db.run(
+      "UPDATE vendas_em_espera SET status = 'EXPIRADA' WHERE turno_id = ? AND status = 'EM_ESPERA'",
+      [turnoId]
+    );
+
+    const expiradas = result.changes || 0;
+    if (expiradas > 0) {
+      this.logger.warn('PARKED_SALE', `${expiradas} vendas em espera expiradas no fechamento do turno ${turnoId}`);
+    }
+
+    return expiradas;
+  }
+
+  private async getById(id: number): Promise<ParkedSale> {
+    const venda = await this.db.get(`
+      SELECT id, turno_id, operador_id, operador_nome, quantidade_itens, total, status, created_at, recuperada_em
+      FROM vendas_em_espera
+      WHERE id = ?
+    `, [id]);
+
+    if (!venda) {
+      throw new Error(`Venda em espera ${id} não encontrada`);
+    }
+
+    return venda;
+  }
+}
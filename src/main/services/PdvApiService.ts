@@ -1,6 +1,8 @@
+import * as crypto from 'crypto';
 import { HttpApiService, ApiConfig } from './HttpApiService';
 import { LocalCacheService } from './LocalCacheService';
-import type { Product, Sale } from '../types/NetworkTypes';
+import { itemGrossCents } from './ScaleBarcodeService';
+import type { Product, Sale, SalePayment } from '../types/NetworkTypes';
 
 export class PdvApiService {
   private httpApi: HttpApiService;
@@ -62,65 +64,171 @@ export class PdvApiService {
   }
   
   async createSale(vendaData: any): Promise<Sale> {
-    try {
-      console.log('💰 Criando venda...', vendaData);
-      
-      // Preparar dados da venda
-      const salePayload = {
-        subtotal: vendaData.items.reduce((sum: number, item: any) => 
-          sum + (item.quantidade * item.preco_unitario), 0),
-        desconto: 0,
-        total: vendaData.items.reduce((sum: number, item: any) => 
-          sum + (item.quantidade * item.preco_unitario), 0),
-        formaPagamento: 'DINHEIRO',
-        status: 'FINALIZADA',
-        caixaId: this.caixaId,
-        items: vendaData.items.map((item: any) => ({
-          codigo: item.codigo,
-          quantidade: item.quantidade,
-          precoUnitario: item.preco_unitario
+    console.log('💰 Criando venda...', vendaData);
+    
+    // Preparar dados da venda (totais em centavos)
+    const subtotalCents = vendaData.items.reduce((sum: number, item: any) => 
+      sum + itemGrossCents(item), 0);
+    const descontoCents = vendaData.items.reduce((sum: number, item: any) =>
+      sum + Math.round((item.valor_desconto || 0) * 100) + Math.round((item.valor_promocao || 0) * 100), 0)
+      + Math.round((vendaData.valor_desconto_venda || 0) * 100);
+    const pagamentos = this.buildPaymentsPayload(vendaData.payments);
+    
+    const salePayload = {
+      // Identifica a venda na fila e na API (cancelamento de venda ainda não sincronizada)
+      referencia: vendaData.referencia ?? crypto.randomUUID(),
+      subtotal: subtotalCents / 100,
+      desconto: descontoCents / 100,
+      total: (subtotalCents - descontoCents) / 100,
+      descontoVenda: vendaData.desconto_venda ? {
+        tipo: vendaData.desconto_venda.tipo,
+        valor: vendaData.desconto_venda.valor,
+        motivo: vendaData.desconto_venda.motivo,
+        autorizacaoId: vendaData.desconto_venda.autorizacaoId,
+        valorDesconto: vendaData.valor_desconto_venda || 0
+      } : null,
+      promocoes: (vendaData.promocoes || []).map((promocao: any) => ({
+        promocaoId: promocao.promocao_id,
+        nome: promocao.nome,
+        tipo: promocao.tipo,
+        valorDesconto: promocao.valor_desconto,
+        itens: promocao.itens.map((item: any) => ({
+          sequencia: item.sequencia,
+          valorDesconto: item.valor_desconto
         }))
-      };
-      
-      if (this.isOnline) {
+      })),
+      consumidor: vendaData.consumidor ? {
+        tipoDocumento: vendaData.consumidor.tipo,
+        documento: vendaData.consumidor.numero
+      } : null,
+      fidelidade: vendaData.fidelidade ? {
+        clienteId: vendaData.fidelidade.cliente_id,
+        referencia: vendaData.fidelidade.referencia,
+        pontosAcumulados: vendaData.fidelidade.pontos_acumulados,
+        pontosResgatados: vendaData.fidelidade.pontos_resgatados
+      } : null,
+      tributos: vendaData.tributos ? {
+        baseIcms: vendaData.tributos.base_icms,
+        valorIcms: vendaData.tributos.valor_icms,
+        valorPis: vendaData.tributos.valor_pis,
+        valorCofins: vendaData.tributos.valor_cofins,
+        valorTributos: vendaData.tributos.valor_tributos
+      } : null,
+      contaCliente: vendaData.conta_cliente ? {
+        clienteId: vendaData.conta_cliente.cliente_id,
+        referencia: vendaData.conta_cliente.referencia,
+        valor: vendaData.conta_cliente.valor
+      } : null,
+      formaPagamento: this.getMainPaymentMethod(pagamentos),
+      pagamentos,
+      status: 'FINALIZADA',
+      caixaId: this.caixaId,
+      turnoId: vendaData.turno_id,
+      operadorId: vendaData.operador_id,
+      operadorCodigo: vendaData.operador_codigo,
+      items: vendaData.items.map((item: any) => ({
+        sequencia: item.sequencia,
+        codigo: item.codigo,
+        quantidade: item.quantidade,
+        unidade: item.unidade,
+        precoUnitario: item.preco_unitario,
+        codigoBalanca: item.codigo_balanca,
+        valorEtiqueta: item.valor_etiqueta,
+        precoOriginal: item.preco_original,
+        precoVarejo: item.preco_varejo,
+        autorizacaoId: item.autorizacao_id,
+        autorizacaoDevolucaoId: item.autorizacao_devolucao_id,
+        desconto: item.valor_desconto || 0,
+        tipoDesconto: item.desconto?.tipo,
+        valorInformadoDesconto: item.desconto?.valor,
+        motivoDesconto: item.desconto?.motivo,
+        autorizacaoDescontoId: item.desconto?.autorizacaoId,
+        descontoPromocao: item.valor_promocao || 0,
+        ncm: item.tributos?.ncm,
+        cfop: item.tributos?.cfop,
+        valorIcms: item.tributos?.valor_icms ?? 0,
+        valorPis: item.tributos?.valor_pis ?? 0,
+        valorCofins: item.tributos?.valor_cofins ?? 0
+      })),
+      // Itens cancelados durante a venda (aparecem riscados no cupom)
+      itensCancelados: (vendaData.itens_cancelados || []).map((item: any) => ({
+        sequencia: item.sequencia,
+        codigo: item.codigo,
+        quantidade: item.quantidade,
+        unidade: item.unidade,
+        precoUnitario: item.preco_unitario,
+        autorizacaoId: item.autorizacao_id
+      }))
+    };
+    
+    if (this.isOnline) {
+      try {
         // Tentar enviar direto para a API
         const response = await this.httpApi.post<Sale>('/vendas', salePayload);
         
         if (response.success && response.data) {
           console.log('✅ Venda sincronizada em tempo real');
-          return response.data;
-        } else {
-          throw new Error(response.error || 'Erro ao criar venda na API');
+          return {
+            ...response.data,
+            referencia: salePayload.referencia,
+            pagamentos: response.data.pagamentos ?? salePayload.pagamentos
+          };
         }
-      } else {
-        // Modo offline - adicionar à fila
-        await this.cache.addPendingSale(salePayload);
-        
-        // Retornar venda "fake" para o frontend
-        const fakeVenda: Sale = {
-          id: Date.now(),
-          numero_venda: Date.now(),
-          subtotal: salePayload.subtotal,
-          desconto: salePayload.desconto,
-          total: salePayload.total,
-          forma_pagamento: salePayload.formaPagamento,
-          status: salePayload.status,
-          data_venda: new Date().toISOString(),
-          caixa_id: this.caixaId,
-          sincronizado: false
-        };
         
-        console.log('💾 Venda salva para sincronização posterior');
-        return fakeVenda;
+        throw new Error(response.error || 'Erro ao criar venda na API');
+      } catch (error) {
+        // Fallback - a venda já foi paga: segue pela fila como no modo offline
+        console.error('Erro ao criar venda:', error);
       }
-      
-    } catch (error) {
-      console.error('Erro ao criar venda:', error);
-      
-      // Fallback - salvar no cache para sincronizar depois
-      await this.cache.addPendingSale(vendaData);
-      throw error;
     }
+    
+    return this.queueSale(salePayload);
+  }
+  
+  // Venda guardada na fila de sincronização; o frontend recebe uma venda "fake" marcada como não sincronizada
+  private async queueSale(salePayload: any): Promise<Sale> {
+    await this.cache.addPendingSale(salePayload);
+    
+    const fakeVenda: Sale = {
+      id: Date.now(),
+      referencia: salePayload.referencia,
+      numero_venda: Date.now(),
+      subtotal: salePayload.subtotal,
+      desconto: salePayload.desconto,
+      total: salePayload.total,
+      forma_pagamento: salePayload.formaPagamento,
+      pagamentos: salePayload.pagamentos,
+      status: salePayload.status,
+      data_venda: new Date().toISOString(),
+      caixa_id: this.caixaId,
+      sincronizado: false
+    };
+    
+    console.log('💾 Venda salva para sincronização posterior');
+    return fakeVenda;
+  }
+  
+  // Normaliza os pagamentos recebidos do renderer (tipo, valor, recebido e troco)
+  private buildPaymentsPayload(payments: any[] | undefined): SalePayment[] {
+    if (!payments || payments.length === 0) {
+      return [];
+    }
+    
+    return payments.map((payment: any) => ({
+      tipo: payment.tipo,
+      valor: payment.valor,
+      valorRecebido: payment.valorRecebido ?? payment.valor,
+      troco: payment.troco ?? 0
+    }));
+  }
+  
+  // Forma principal = pagamento de maior valor (campo legado formaPagamento)
+  private getMainPaymentMethod(pagamentos: SalePayment[]): string {
+    if (pagamentos.length === 0) return 'DINHEIRO';
+    
+    return pagamentos.reduce((max, current) => 
+      current.valor > max.valor ? current : max
+    ).tipo;
   }
   
   async syncProducts(force: boolean = true): Promise<boolean> {
@@ -153,17 +261,99 @@ export class PdvApiService {
     }
   }
   
+  // Operadores ativos com PIN (hash) para login offline
+  async fetchOperators(): Promise<any[] | null> {
+    try {
+      console.log('🔄 Buscando operadores na API...');
+      const response = await this.httpApi.get<any[]>('/operadores/sync');
+      
+      if (response.success && response.data) {
+        return response.data;
+      }
+      
+      console.warn('⚠️ Não foi possível buscar operadores:', response.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Erro ao buscar operadores:', error);
+      return null;
+    }
+  }
+  
+  async fetchDiscountReasons(): Promise<any[] | null> {
+    try {
+      console.log('🔄 Buscando motivos de desconto na API...');
+      const response = await this.httpApi.get<any[]>('/descontos/motivos');
+      
+      if (response.success && response.data) {
+        return response.data;
+      }
+      
+      console.warn('⚠️ Não foi possível buscar motivos de desconto:', response.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Erro ao buscar motivos de desconto:', error);
+      return null;
+    }
+  }
+
+  async fetchPromotions(): Promise<any[] | null> {
+    try {
+      console.log('🔄 Buscando promoções na API...');
+      const response = await this.httpApi.get<any[]>('/promocoes/sync');
+
+      if (response.success && response.data) {
+        return response.data;
+      }
+
+      console.warn('⚠️ Não foi possível buscar promoções:', response.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Erro ao buscar promoções:', error);
+      return null;
+    }
+  }
+  
+  // Clientes do programa de fidelidade com o saldo de pontos
+  async fetchCustomers(): Promise<any[] | null> {
+    try {
+      console.log('🔄 Buscando clientes na API...');
+      const response = await this.httpApi.get<any[]>('/clientes/sync');
+
+      if (response.success && response.data) {
+        return response.data;
+      }
+
+      console.warn('⚠️ Não foi possível buscar clientes:', response.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Erro ao buscar clientes:', error);
+      return null;
+    }
+  }
+  
+  // Venda já registrada na API pelo número (devolução de venda fora do histórico local)
+  async fetchSale(numeroVenda: number): Promise<any | null> {
+    if (!this.isOnline) return null;
+
+    try {
+      const response = await this.httpApi.get<any>(`/vendas/numero/${numeroVenda}`);
+      return response.success && response.data ? response.data : null;
+    } catch (error) {
+      console.error('❌ Erro ao buscar venda:', error);
+      return null;
+    }
+  }
+  
   async syncPendingSales(): Promise<void> {
     try {
       const pendingSales = await this.cache.getPendingSales();
       
       if (pendingSales.length === 0) {
         console.log('📭 Nenhuma venda pendente para sincronizar');
-        return;
+      } else {
+        console.log(`📤 Sincronizando ${pendingSales.length} vendas pendentes...`);
       }
       
-      console.log(`📤 Sincronizando ${pendingSales.length} vendas pendentes...`);
-      
       for (const sale of pendingSales) {
         try {
           const vendaData = JSON.parse(sale.venda_data);
@@ -172,6 +362,22 @@ export class PdvApiService {
           if (response.success) {
             await this.cache.markSaleAsSynced(sale.id);
             console.log(`✅ Venda ${sale.id} sincronizada`);
+            
+            // Histórico passa a apontar para o id da API (cancelamento do cupom)
+            if (vendaData.referencia && response.data?.id) {
+              await this.cache.markHistorySaleSynced(vendaData.referencia, response.data.id);
+            }
+            
+            // Pontos da venda offline passam a valer no saldo do cache
+            if (vendaData.fidelidade?.referencia) {
+              const pontos = await this.cache.reconcileLoyaltyPoints(vendaData.fidelidade.referencia);
+              console.log(`⭐ ${pontos} pontos da venda ${sale.id} conciliados`);
+            }
+            
+            // Compra no crédito da loja entra no saldo devedor do cache
+            if (vendaData.contaCliente?.referencia) {
+              await this.cache.reconcileStoreCredit(vendaData.contaCliente.referencia);
+            }
           } else {
             await this.cache.markSaleAsError(sale.id, response.error || 'Erro desconhecido');
             console.error(`❌ Erro ao sincronizar venda ${sale.id}:`, response.error);
@@ -184,6 +390,74 @@ export class PdvApiService {
     } catch (error) {
       console.error('❌ Erro na sincronização de vendas:', error);
     }
+    
+    // Operações dependem das vendas já enviadas, por isso vão depois
+    await this.syncPendingOperations();
+  }
+  
+  async syncPendingOperations(): Promise<void> {
+    try {
+      const pendingOperations = await this.cache.getPendingOperations();
+      
+      if (pendingOperations.length === 0) {
+        return;
+      }
+      
+      console.log(`📤 Sincronizando ${pendingOperations.length} operações pendentes...`);
+      
+      for (const operation of pendingOperations) {
+        try {
+          const dados = JSON.parse(operation.dados);
+          const response = await this.httpApi.post<any>(operation.endpoint, dados);
+          
+          if (response.success) {
+            await this.cache.markOperationAsSynced(operation.id);
+            console.log(`✅ Operação ${operation.tipo} ${operation.id} sincronizada`);
+            
+            // Recebimento de conta, devolução ou cancelamento feitos offline abatem o saldo devedor do cache
+            if (['PAGAMENTO_CONTA', 'DEVOLUCAO', 'CANCELAMENTO_VENDA'].includes(operation.tipo) && dados.referencia) {
+              await this.cache.reconcileStoreCredit(dados.referencia);
+            }
+            // Estorno de pontos do cupom cancelado offline entra no saldo de pontos do cache
+            if (operation.tipo === 'CANCELAMENTO_VENDA' && dados.referencia) {
+              await this.cache.reconcileLoyaltyPoints(dados.referencia);
+            }
+            if (operation.tipo === 'NFCE_CONTINGENCIA' && dados.chave) {
+              await this.cache.markNfceTransmitted(dados.chave);
+            }
+          } else {
+            await this.cache.markOperationAsError(operation.id, response.error || 'Erro desconhecido');
+            console.error(`❌ Erro ao sincronizar operação ${operation.id}:`, response.error);
+          }
+        } catch (error: any) {
+          await this.cache.markOperationAsError(operation.id, error.message);
+          console.error(`❌ Erro ao sincronizar operação ${operation.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Erro na sincronização de operações:', error);
+    }
+  }
+  
+  // Envia a operação para a API ou coloca na fila offline. Retorna true se já foi sincronizada.
+  async sendOrQueue(tipo: string, endpoint: string, payload: any): Promise<boolean> {
+    if (this.isOnline) {
+      try {
+        const response = await this.httpApi.post<any>(endpoint, payload);
+        
+        if (response.success) {
+          console.log(`✅ Operação ${tipo} sincronizada em tempo real`);
+          return true;
+        }
+        
+        console.warn(`⚠️ API recusou operação ${tipo}: ${response.error}`);
+      } catch (error) {
+        console.error(`Erro ao enviar operação ${tipo}:`, error);
+      }
+    }
+    
+    await this.cache.addPendingOperation(tipo, endpoint, payload);
+    return false;
   }
 
     async checkApiHealth(): Promise<boolean> {
@@ -219,6 +493,8 @@ export class PdvApiService {
             cache: cacheStats,
             last_sync: cacheStats.ultima_sync,
             pending_sales: cacheStats.vendas_pendentes || 0,
+            pending_operations: cacheStats.operacoes_pendentes || 0,
+            failed_operations: cacheStats.operacoes_erro || 0, // reenviadas com espera crescente
             last_health_check: new Date().toISOString() // ✅ NOVO: timestamp da última verificação
         };
     }
@@ -249,6 +525,10 @@ export class PdvApiService {
     return await this.cache.getAllProducts();
   }
   
+  getCache(): LocalCacheService {
+    return this.cache;
+  }
+  
   async close(): Promise<void> {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
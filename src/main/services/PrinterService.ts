@@ -0,0 +1,222 @@
+// ================================
+// PrinterService.ts - Impressão do Cupom (ESC/POS)
+// ================================
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { LogService } from './LogService';
+import { EscPosCodePage, EscPosEncoder, MonoBitmap, readMonochromeBmp } from './EscPosEncoder';
+import { buildReceiptLayout, DOTS_PER_MM } from './ReceiptLayout';
+import { ReceiptLayout } from '../types/NetworkTypes';
+
+// NENHUMA: sem impressora | TCP: rede (porta 9100) | DISPOSITIVO: serial/USB | ARQUIVO: grava os bytes em disco
+export type PrinterTransportType = 'NENHUMA' | 'TCP' | 'DISPOSITIVO' | 'ARQUIVO';
+
+export const PRINTER_COLUMNS = [48, 42, 32];
+
+export interface PrinterConfig {
+  tipo: PrinterTransportType;
+  endereco: string; // host[:porta], caminho do dispositivo ou pasta dos arquivos
+  colunas: number;
+  codePage: EscPosCodePage;
+  logo: string | null; // .bmp monocromático impresso no topo do cupom
+  gaveta: boolean; // gaveta de dinheiro ligada na impressora
+  pinoGaveta: 2 | 5;
+}
+
+interface PrinterTransport {
+  descricao: string;
+  send(dados: Buffer): Promise<void>;
+}
+
+const TCP_DEFAULT_PORT = 9100;
+const TCP_TIMEOUT = 5000;
+
+class TcpTransport implements PrinterTransport {
+  descricao: string;
+  private host: string;
+  private porta: number;
+
+  constructor(endereco: string) {
+    const [host, porta] = endereco.split(':');
+    this.host = host;
+    this.porta = parseInt(porta) || TCP_DEFAULT_PORT;
+    this.descricao = `TCP ${this.host}:${this.porta}`;
+  }
+
+  send(dados: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.porta });
+      socket.setTimeout(TCP_TIMEOUT);
+
+      socket.once('connect', () => socket.end(dados));
+      socket.once('close', (comErro) => {
+        if (!comErro) resolve();
+      });
+      socket.once('timeout', () => socket.destroy(new Error(`Impressora ${this.descricao} não respondeu`)));
+      socket.once('error', (error) => reject(error));
+    });
+  }
+}
+
+// Porta serial/USB gravada como arquivo (/dev/usb/lp0, /dev/ttyUSB0, COM3, \\computador\impressora)
+class DeviceTransport implements PrinterTransport {
+  descricao: string;
+  private caminho: string;
+
+  constructor(endereco: string) {
+    this.caminho = /^COM\d+$/i.test(endereco) ? `\\\\.\\${endereco.toUpperCase()}` : endereco;
+    this.descricao = `dispositivo ${endereco}`;
+  }
+
+  async send(dados: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.caminho, dados);
+  }
+}
+
+// Um arquivo por cupom (testes sem impressora)
+class FileTransport implements PrinterTransport {
+  descricao: string;
+  private pasta: string;
+  private sequencia = 0;
+
+  constructor(endereco: string) {
+    this.pasta = endereco;
+    this.descricao = `arquivo em ${endereco}`;
+  }
+
+  async send(dados: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.pasta, { recursive: true });
+    const nome = `cupom-${new Date().toISOString().replace(/[:.]/g, '-')}-${++this.sequencia}.bin`;
+    await fs.promises.writeFile(path.join(this.pasta, nome), dados);
+  }
+}
+
+export class PrinterService {
+  private config: PrinterConfig;
+  private transport: PrinterTransport | null;
+  private logo: MonoBitmap | null = null;
+  private logoUrl: string | null = null; // mesmo .bmp para a prévia e a exportação
+  private fila: Promise<void> = Promise.resolve();
+  private logger: LogService;
+
+  constructor(config: PrinterConfig) {
+    this.config = {
+      ...config,
+      colunas: PRINTER_COLUMNS.includes(config.colunas) ? config.colunas : PRINTER_COLUMNS[0]
+    };
+    this.logger = LogService.getInstance();
+    this.transport = this.createTransport();
+  }
+
+  async initialize(): Promise<void> {
+    if (this.config.logo) {
+      try {
+        const arquivo = await fs.promises.readFile(this.config.logo);
+        this.logo = readMonochromeBmp(arquivo);
+        this.logoUrl = `data:image/bmp;base64,${arquivo.toString('base64')}`;
+      } catch (error: any) {
+        this.logger.warn('PRINTER', `Logo não carregado: ${error.message}`, { logo: this.config.logo });
+      }
+    }
+
+    if (!this.transport) {
+      this.logger.info('PRINTER', 'Impressora desativada - cupons apenas na tela');
+      return;
+    }
+
+    this.logger.info('PRINTER', `Impressora ESC/POS: ${this.transport.descricao}`, {
+      colunas: this.config.colunas,
+      code_page: this.config.codePage,
+      logo: Boolean(this.logo),
+      gaveta: this.config.gaveta ? `pino ${this.config.pinoGaveta}` : 'não'
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.transport !== null;
+  }
+
+  hasDrawer(): boolean {
+    return this.transport !== null && this.config.gaveta;
+  }
+
+  getColumns(): number {
+    return this.config.colunas;
+  }
+
+  async printReceipt(comprovante: string): Promise<void> {
+    if (!this.transport) return;
+
+    await this.send(this.render(comprovante));
+  }
+
+  async openDrawer(): Promise<void> {
+    if (!this.hasDrawer()) {
+      throw new Error('Gaveta de dinheiro não configurada');
+    }
+
+    await this.send(new EscPosEncoder(this.config.codePage).drawerKick(this.config.pinoGaveta).encode());
+  }
+
+  // Um envio por vez: gaveta e cupom da mesma venda não disputam a porta
+  private send(dados: Buffer): Promise<void> {
+    const envio = this.fila.then(() => this.transport!.send(dados));
+    this.fila = envio.catch(() => undefined);
+    return envio;
+  }
+
+  // Cupom organizado como sai no papel (também usado pela prévia na tela e pela exportação)
+  layout(comprovante: string): ReceiptLayout {
+    const logo = this.logo && this.logoUrl
+      ? { url: this.logoUrl, larguraMm: this.logo.largura / DOTS_PER_MM }
+      : null;
+
+    return buildReceiptLayout(comprovante, this.config.colunas, logo);
+  }
+
+  // Cupom em texto (ReceiptService) convertido em ESC/POS
+  render(comprovante: string): Buffer {
+    const encoder = new EscPosEncoder(this.config.codePage).initialize();
+
+    if (this.logo) {
+      encoder.align('center').image(this.logo).align('left');
+    }
+
+    for (const linha of this.layout(comprovante).linhas) {
+      switch (linha.estilo) {
+        case 'CODIGO_BARRAS':
+          encoder.align('center').barcode(linha.texto).align('left');
+          break;
+        case 'TITULO':
+          encoder.align('center').bold(true).doubleHeight(true).line(linha.texto)
+            .doubleHeight(false).bold(false).align('left');
+          break;
+        case 'DESTAQUE':
+          encoder.bold(true).line(linha.texto).bold(false);
+          break;
+        default:
+          encoder.line(linha.texto);
+      }
+    }
+
+    return encoder.feed(3).cut().encode();
+  }
+
+  private createTransport(): PrinterTransport | null {
+    const endereco = this.config.endereco.trim();
+    if (this.config.tipo === 'NENHUMA' || !endereco) return null;
+
+    switch (this.config.tipo) {
+      case 'TCP':
+        return new TcpTransport(endereco);
+      case 'DISPOSITIVO':
+        return new DeviceTransport(endereco);
+      case 'ARQUIVO':
+        return new FileTransport(endereco);
+      default:
+        return null;
+    }
+  }
+}
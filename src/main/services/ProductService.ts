@@ -1,14 +1,30 @@
 import { PdvApiService } from './PdvApiService';
-import type { Product } from '../types/NetworkTypes';
+import type { CustomerDocument, Product, SaleLoyalty, SaleStoreCredit, UnitOfMeasure, WholesalePrice } from '../types/NetworkTypes';
 import { LogService } from './LogService';
+import { ScaleBarcodeService, itemGrossCents } from './ScaleBarcodeService';
 
+// Casas decimais aceitas na quantidade de cada unidade de venda
+export const UNIT_DECIMALS: Record<UnitOfMeasure, number> = {
+  UN: 0,
+  KG: 3,
+  L: 3,
+  M: 2
+};
+
+// Unidade desconhecida ou vazia é tratada como UN (quantidade inteira)
+export function normalizeUnit(unidade?: string | null): UnitOfMeasure {
+  const sigla = (unidade || '').trim().toUpperCase();
+  return sigla in UNIT_DECIMALS ? sigla as UnitOfMeasure : 'UN';
+}
 
 export class ProductService {
   private apiService: PdvApiService;
+  private scaleBarcodeService: ScaleBarcodeService;
   private logger: LogService;
 
-  constructor(apiService: PdvApiService) {
+  constructor(apiService: PdvApiService, scaleBarcodeService: ScaleBarcodeService) {
     this.apiService = apiService;
+    this.scaleBarcodeService = scaleBarcodeService;
     this.logger = LogService.getInstance();
   }
 
@@ -19,6 +35,19 @@ export class ProductService {
     }
 
     try {
+      // Etiqueta de balança: o PLU identifica o produto e a etiqueta traz peso ou preço
+      const etiqueta = this.scaleBarcodeService.decode(codigo.trim());
+      if (etiqueta) {
+        const produtoPlu = await this.findByPlu(etiqueta.plu);
+        if (produtoPlu) {
+          const balanca = this.scaleBarcodeService.apply(etiqueta, produtoPlu.preco);
+          this.logger.debug('PRODUCT_SERVICE', `Etiqueta de balanca ${codigo} -> PLU ${etiqueta.plu}`, balanca);
+          return { ...produtoPlu, balanca };
+        }
+
+        this.logger.warn('PRODUCT_SERVICE', `PLU ${etiqueta.plu} da etiqueta ${codigo} nao cadastrado`);
+      }
+
       const produto = await this.apiService.findProductByCode(codigo.trim());
       
       if (!produto) {
@@ -33,6 +62,15 @@ export class ProductService {
     }
   }
 
+  // PLU da balança pode vir com zeros à esquerda ("00123" = produto "123")
+  private async findByPlu(plu: string): Promise<Product | null> {
+    const produto = await this.apiService.findProductByCode(plu);
+    if (produto) return produto;
+
+    const semZeros = plu.replace(/^0+(?=\d)/, '');
+    return semZeros !== plu ? this.apiService.findProductByCode(semZeros) : null;
+  }
+
   async findAll(): Promise<Product[]> {
     try {
       return await this.apiService.getAllProducts();
@@ -51,7 +89,9 @@ export class ProductService {
     }
   }
 
-  async createSale(vendaData: { items: any[] }): Promise<any> {
+  // Todas as conferências da venda (itens, preço, balança, quantidade, estoque e pagamentos) sem registrar nada;
+  // o handler chama antes de consumir as autorizações do supervisor
+  async validateSale(vendaData: { items: any[]; valor_desconto_venda?: number; payments?: any[] }): Promise<void> {
     if (!vendaData || !vendaData.items || !Array.isArray(vendaData.items)) {
       this.logger.error('PRODUCT_SERVICE', 'Dados de venda invalidos', vendaData);
       throw new Error('Dados da venda invalidos - items eh obrigatorio');
@@ -62,30 +102,62 @@ export class ProductService {
       throw new Error('Venda deve conter pelo menos um item');
     }
 
-    try {
-      // Validar itens
-      for (const item of vendaData.items) {
-        if (!item.codigo || !item.quantidade || !item.preco_unitario) {
-          this.logger.error('PRODUCT_SERVICE', 'Item invalido na venda', item);
-          throw new Error('Item invalido - codigo, quantidade e preço sao obrigatorios');
-        }
+    for (const item of vendaData.items) {
+      if (!item.codigo || !item.quantidade || !item.preco_unitario) {
+        this.logger.error('PRODUCT_SERVICE', 'Item invalido na venda', item);
+        throw new Error('Item invalido - codigo, quantidade e preço sao obrigatorios');
+      }
 
-        // Verificar se produto existe no cache
-        const produto = await this.findByCode(item.codigo);
-        if (!produto) {
-          this.logger.error('PRODUCT_SERVICE', `Produto inexistente na venda: ${item.codigo}`);
-          throw new Error(`Produto ${item.codigo} não encontrado`);
-        }
+      // Verificar se produto existe no cache
+      const produto = await this.findByCode(item.codigo);
+      if (!produto) {
+        this.logger.error('PRODUCT_SERVICE', `Produto inexistente na venda: ${item.codigo}`);
+        throw new Error(`Produto ${item.codigo} não encontrado`);
+      }
 
-        // Verificar estoque
-        if (produto.estoque < item.quantidade) {
-          this.logger.warn('PRODUCT_SERVICE', `Estoque insuficiente para produto ${item.codigo}`)
-          throw new Error(`Estoque insuficiente para ${produto.descricao}. Disponivel: ${produto.estoque}`);
-        }
+      if (item.codigo_balanca) {
+        await this.validateScaleItem(item);
+      }
+
+      this.validatePrice(item, produto);
+
+      // Etiqueta de balança é sempre vendida em KG
+      item.unidade = item.codigo_balanca ? 'KG' : normalizeUnit(produto.unidade);
+      this.validateQuantity(item.quantidade, item.unidade, produto.descricao);
+
+      // Verificar estoque
+      if (produto.estoque < item.quantidade) {
+        this.logger.warn('PRODUCT_SERVICE', `Estoque insuficiente para produto ${item.codigo}`)
+        throw new Error(`Estoque insuficiente para ${produto.descricao}. Disponivel: ${produto.estoque}`);
       }
+    }
+
+    this.validatePayments(vendaData);
+  }
 
+  async createSale(vendaData: {
+    items: any[];
+    itens_cancelados?: any[];
+    promocoes?: any[];
+    consumidor?: CustomerDocument | null;
+    fidelidade?: SaleLoyalty | null;
+    conta_cliente?: SaleStoreCredit | null;
+    valor_desconto_venda?: number;
+    payments?: any[];
+    turno_id?: number;
+    operador_id?: number;
+    operador_codigo?: string;
+  }): Promise<any> {
+    await this.validateSale(vendaData);
+
+    try {
       // Criar venda via API
       const venda = await this.apiService.createSale(vendaData);
+
+      // Baixa no estoque do cache (devoluções na própria venda voltam ao estoque)
+      for (const item of vendaData.items) {
+        await this.apiService.getCache().adjustStock(item.codigo, -item.quantidade);
+      }
       
        this.logger.logVenda(venda.id, venda.total, vendaData.items);
       return venda;
@@ -96,6 +168,111 @@ export class ProductService {
     }
   }
 
+  private validateQuantity(quantidade: number, unidade: UnitOfMeasure, descricao: string): void {
+    const casas = UNIT_DECIMALS[unidade];
+    const fator = Math.pow(10, casas);
+
+    // Quantidade negativa é devolução (autorização conferida antes de registrar a venda)
+    if (typeof quantidade !== 'number' || isNaN(quantidade) || quantidade === 0) {
+      throw new Error(`Quantidade inválida para ${descricao}`);
+    }
+
+    if (Math.abs(Math.round(quantidade * fator) - quantidade * fator) > 1e-6) {
+      this.logger.warn('PRODUCT_SERVICE', `Quantidade fora da precisao da unidade ${unidade}`, { quantidade, descricao });
+      throw new Error(casas === 0
+        ? `${descricao} é vendido por ${unidade} e não aceita quantidade fracionada`
+        : `${descricao} (${unidade}) aceita no máximo ${casas} casas decimais`);
+    }
+  }
+
+  // Sem alteração autorizada o preço da linha é o do cadastro: faixa de atacado da quantidade ou varejo.
+  // Devolução e balança mantêm o preço da linha, que ainda precisa ser um preço do cadastro
+  private validatePrice(item: any, produto: Product): void {
+    const faixas = produto.precos_atacado || [];
+    const precosCadastro = [produto.preco, ...faixas.map(faixa => faixa.preco)].map(preco => Math.round(preco * 100));
+
+    let confere: boolean;
+    if (item.autorizacao_id) {
+      // Preço alterado: o preço original informado ao supervisor é que precisa ser do cadastro
+      confere = precosCadastro.includes(Math.round(Number(item.preco_original) * 100));
+    } else if (item.quantidade > 0 && !item.codigo_balanca) {
+      const faixa = faixas
+        .filter(f => item.quantidade >= f.quantidade_minima)
+        .reduce<WholesalePrice | null>((maior, f) => (!maior || f.quantidade_minima > maior.quantidade_minima ? f : maior), null);
+      confere = Math.round(item.preco_unitario * 100) === Math.round((faixa ? faixa.preco : produto.preco) * 100);
+    } else {
+      confere = precosCadastro.includes(Math.round(item.preco_unitario * 100));
+    }
+
+    if (!confere) {
+      this.logger.error('PRODUCT_SERVICE', `Preco divergente do cadastro na venda: ${item.codigo}`, {
+        item,
+        preco: produto.preco,
+        precos_atacado: faixas
+      });
+      throw new Error(`Preço de ${produto.descricao} não confere com o cadastro. Alteração de preço exige autorização do supervisor`);
+    }
+  }
+
+  // Linha de etiqueta de balança deve bater com o que está impresso na etiqueta
+  private async validateScaleItem(item: any): Promise<void> {
+    const produto = await this.findByCode(item.codigo_balanca);
+
+    if (!produto.balanca || produto.codigo !== item.codigo) {
+      this.logger.error('PRODUCT_SERVICE', `Etiqueta de balanca invalida na venda: ${item.codigo_balanca}`, item);
+      throw new Error(`Etiqueta de balança ${item.codigo_balanca} não corresponde ao produto ${item.codigo}`);
+    }
+
+    const quantidadeDivergente = Math.round(item.quantidade * 1000) !== Math.round(produto.balanca.quantidade * 1000);
+    const valorDivergente = item.valor_etiqueta !== undefined && item.valor_etiqueta !== null &&
+      Math.round(item.valor_etiqueta * 100) !== Math.round((produto.balanca.valor_total ?? -1) * 100);
+
+    if (quantidadeDivergente || valorDivergente) {
+      this.logger.error('PRODUCT_SERVICE', `Item divergente da etiqueta de balanca ${item.codigo_balanca}`, {
+        item,
+        etiqueta: produto.balanca
+      });
+      throw new Error(`Quantidade ou valor do item não confere com a etiqueta ${item.codigo_balanca}`);
+    }
+  }
+
+  // Pagamentos devem existir e cobrir o total da venda (comparação em centavos)
+  private validatePayments(vendaData: { items: any[]; valor_desconto_venda?: number; payments?: any[] }): void {
+    const payments = vendaData.payments || [];
+
+    if (payments.length === 0) {
+      this.logger.error('PRODUCT_SERVICE', 'Venda sem formas de pagamento');
+      throw new Error('Venda deve conter pelo menos uma forma de pagamento');
+    }
+
+    for (const payment of payments) {
+      if (!payment.tipo || !(payment.valor > 0)) {
+        this.logger.error('PRODUCT_SERVICE', 'Pagamento invalido na venda', payment);
+        throw new Error('Pagamento invalido - tipo e valor sao obrigatorios');
+      }
+    }
+
+    // Total líquido: itens menos promoções e descontos (valores já calculados pelo PromotionService e DiscountService)
+    const totalCentavos = vendaData.items.reduce((sum: number, item: any) =>
+      sum + itemGrossCents(item) - Math.round((item.valor_desconto || 0) * 100) - Math.round((item.valor_promocao || 0) * 100), 0)
+      - Math.round((vendaData.valor_desconto_venda || 0) * 100);
+    const pagoCentavos = payments.reduce((sum: number, payment: any) =>
+      sum + Math.round(payment.valor * 100), 0);
+
+    if (totalCentavos <= 0) {
+      this.logger.warn('PRODUCT_SERVICE', 'Venda com total nao positivo', { total: totalCentavos / 100 });
+      throw new Error('Total da venda deve ser maior que zero. Devoluções precisam de itens vendidos na mesma venda');
+    }
+
+    if (pagoCentavos < totalCentavos) {
+      this.logger.warn('PRODUCT_SERVICE', 'Pagamentos nao cobrem o total da venda', {
+        total: totalCentavos / 100,
+        pago: pagoCentavos / 100
+      });
+      throw new Error(`Pagamentos insuficientes. Total: ${(totalCentavos / 100).toFixed(2)} | Pago: ${(pagoCentavos / 100).toFixed(2)}`);
+    }
+  }
+
   // Método para forçar sincronização
   async forceSync(): Promise<boolean> {
     try {
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { evaluatePromotions } from './PromotionService';
+import type { Promotion } from '../types/NetworkTypes';
+
+const AGORA = new Date('2026-10-19T12:00:00');
+
+const promocao = (dados: Partial<Promotion> & Pick<Promotion, 'id' | 'tipo'>): Promotion => ({
+  nome: `Promoção ${dados.id}`,
+  produtos: [],
+  prioridade: 0,
+  inicio: null,
+  fim: null,
+  ...dados
+});
+
+const item = (codigo: string, quantidade: number, preco: number, extras: Record<string, any> = {}) => ({
+  codigo,
+  quantidade,
+  preco_unitario: preco,
+  unidade: 'UN',
+  ...extras
+});
+
+describe('evaluatePromotions', () => {
+  it('leve 3 pague 2 dá a unidade mais barata de cada grupo', () => {
+    const aplicadas = evaluatePromotions(
+      [item('A', 2, 5), item('B', 1, 3)],
+      [promocao({ id: 1, tipo: 'LEVE_PAGUE', produtos: ['A', 'B'], leve: 3, pague: 2 })],
+      AGORA
+    );
+
+    expect(aplicadas).toEqual([{
+      promocao_id: 1,
+      nome: 'Promoção 1',
+      tipo: 'LEVE_PAGUE',
+      valor_desconto: 3,
+      itens: [{ sequencia: 2, codigo: 'B', valor_desconto: 3 }]
+    }]);
+  });
+
+  it('faixa de quantidade cobra o preço da faixa atingida em todas as unidades', () => {
+    const aplicadas = evaluatePromotions(
+      [item('A', 4, 2.5), item('B', 2, 2.5)],
+      [promocao({
+        id: 2,
+        tipo: 'FAIXA_QUANTIDADE',
+        produtos: ['A', 'B'],
+        faixas: [{ quantidade_minima: 3, preco_unitario: 2.3 }, { quantidade_minima: 6, preco_unitario: 2.15 }]
+      })],
+      AGORA
+    );
+
+    expect(aplicadas[0].valor_desconto).toBe(2.1);
+    expect(aplicadas[0].itens).toEqual([
+      { sequencia: 1, codigo: 'A', valor_desconto: 1.4 },
+      { sequencia: 2, codigo: 'B', valor_desconto: 0.7 }
+    ]);
+  });
+
+  it('combo rateia o desconto pelo valor das linhas, com a sobra de centavos na última', () => {
+    const aplicadas = evaluatePromotions(
+      [item('X', 1, 10), item('Y', 1, 3.33), item('Z', 1, 3.33)],
+      [promocao({
+        id: 3,
+        tipo: 'COMBO',
+        combo: [{ codigo: 'X', quantidade: 1 }, { codigo: 'Y', quantidade: 1 }, { codigo: 'Z', quantidade: 1 }],
+        preco_combo: 15
+      })],
+      AGORA
+    );
+
+    // 16,66 avulso - 15,00 combo = 1,66 rateado 1,00 / 0,33 / 0,33
+    expect(aplicadas[0].valor_desconto).toBe(1.66);
+    expect(aplicadas[0].itens.map(linha => linha.valor_desconto)).toEqual([1, 0.33, 0.33]);
+  });
+
+  it('combo mais caro que os itens avulsos não é aplicado', () => {
+    expect(evaluatePromotions(
+      [item('X', 1, 5), item('Y', 1, 5)],
+      [promocao({ id: 4, tipo: 'COMBO', combo: [{ codigo: 'X', quantidade: 1 }, { codigo: 'Y', quantidade: 1 }], preco_combo: 12 })],
+      AGORA
+    )).toEqual([]);
+  });
+
+  it('linhas com desconto, preço alterado, balança ou devolução ficam fora', () => {
+    const leve2pague1 = promocao({ id: 5, tipo: 'LEVE_PAGUE', produtos: ['A'], leve: 2, pague: 1 });
+
+    expect(evaluatePromotions([item('A', 2, 5, { desconto: { tipo: 'VALOR', valor: 1, motivo: 'X' } })], [leve2pague1], AGORA)).toEqual([]);
+    expect(evaluatePromotions([item('A', 2, 5, { preco_original: 6 })], [leve2pague1], AGORA)).toEqual([]);
+    expect(evaluatePromotions([item('A', 2, 5, { codigo_balanca: '2000010' })], [leve2pague1], AGORA)).toEqual([]);
+    expect(evaluatePromotions([item('A', -2, 5)], [leve2pague1], AGORA)).toEqual([]);
+  });
+
+  it('só promoções vigentes, e a de maior prioridade consome os itens primeiro', () => {
+    const vencida = promocao({ id: 6, tipo: 'LEVE_PAGUE', produtos: ['A'], leve: 2, pague: 1, fim: '2026-10-18T23:59:59' });
+    const baixa = promocao({ id: 7, tipo: 'LEVE_PAGUE', produtos: ['A'], leve: 4, pague: 3, prioridade: 1 });
+    const alta = promocao({ id: 8, tipo: 'LEVE_PAGUE', produtos: ['A'], leve: 2, pague: 1, prioridade: 5 });
+
+    expect(evaluatePromotions([item('A', 2, 5)], [vencida], AGORA)).toEqual([]);
+    expect(evaluatePromotions([item('A', 4, 5)], [baixa, alta], AGORA).map(aplicada => aplicada.promocao_id)).toEqual([8]);
+  });
+});
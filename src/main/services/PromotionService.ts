@@ -0,0 +1,331 @@
+// ================================
+// PromotionService.ts - Promoções (leve X pague Y, faixas de quantidade e combos)
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import type {
+  AppliedPromotion,
+  Promotion,
+  PromotionType
+} from '../types/NetworkTypes';
+
+const PROMOTION_TYPES: PromotionType[] = ['LEVE_PAGUE', 'FAIXA_QUANTIDADE', 'COMBO'];
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Linha do carrinho que participa de promoções, com a quantidade ainda não consumida
+interface PromotionLine {
+  sequencia: number;
+  codigo: string;
+  unidade: string;
+  precoCents: number;
+  restante: number;
+}
+
+// Ficam fora: devoluções, etiquetas de balança, linhas com desconto manual ou preço alterado
+function eligibleLines(itens: any[]): PromotionLine[] {
+  return itens
+    .map((item: any, index: number) => ({ item, sequencia: item.sequencia ?? index + 1 }))
+    .filter(({ item }) =>
+      item.quantidade > 0 &&
+      !item.codigo_balanca &&
+      !item.desconto &&
+      (item.preco_original === undefined || item.preco_original === null))
+    .map(({ item, sequencia }) => ({
+      sequencia,
+      codigo: String(item.codigo),
+      unidade: (item.unidade || 'UN').toUpperCase(),
+      precoCents: toCents(item.preco_unitario),
+      restante: item.quantidade
+    }));
+}
+
+// Leve X pague Y: unidades ordenadas do maior para o menor preço, as mais baratas de cada grupo saem grátis
+function applyBuyXPayY(promocao: Promotion, linhas: PromotionLine[], descontos: Map<PromotionLine, number>): void {
+  const leve = promocao.leve!;
+  const pague = promocao.pague!;
+  const unidades: PromotionLine[] = [];
+
+  for (const linha of linhas) {
+    if (linha.unidade !== 'UN' || !promocao.produtos.includes(linha.codigo)) continue;
+    for (let i = 0; i < Math.floor(linha.restante); i++) unidades.push(linha);
+  }
+
+  unidades.sort((a, b) => b.precoCents - a.precoCents);
+  const grupos = Math.floor(unidades.length / leve);
+
+  for (let grupo = 0; grupo < grupos; grupo++) {
+    const unidadesGrupo = unidades.slice(grupo * leve, (grupo + 1) * leve);
+    unidadesGrupo.forEach((linha, posicao) => {
+      linha.restante -= 1;
+      if (posicao >= pague) {
+        descontos.set(linha, (descontos.get(linha) || 0) + linha.precoCents);
+      }
+    });
+  }
+}
+
+// Faixa de quantidade: a soma dos produtos participantes define o preço unitário de todos
+function applyQuantityTier(promocao: Promotion, linhas: PromotionLine[], descontos: Map<PromotionLine, number>): void {
+  const participantes = linhas.filter(linha => linha.restante > 0 && promocao.produtos.includes(linha.codigo));
+  const quantidade = participantes.reduce((soma, linha) => soma + linha.restante, 0);
+
+  const faixa = [...promocao.faixas!]
+    .sort((a, b) => b.quantidade_minima - a.quantidade_minima)
+    .find(f => quantidade >= f.quantidade_minima);
+  if (!faixa) return;
+
+  const precoFaixaCents = toCents(faixa.preco_unitario);
+  for (const linha of participantes) {
+    if (linha.precoCents > precoFaixaCents) {
+      descontos.set(linha, (descontos.get(linha) || 0) + Math.round(linha.restante * (linha.precoCents - precoFaixaCents)));
+    }
+    linha.restante = 0;
+  }
+}
+
+// Combo: cada conjunto completo de componentes sai pelo preço do combo, rateado pelo valor de cada linha
+function applyCombo(promocao: Promotion, linhas: PromotionLine[], descontos: Map<PromotionLine, number>): void {
+  const componentes = promocao.combo!;
+  const linhasDoCodigo = (codigo: string): PromotionLine[] =>
+    linhas.filter(linha => linha.codigo === codigo && linha.unidade === 'UN' && linha.restante >= 1);
+
+  const combos = Math.min(...componentes.map(componente =>
+    Math.floor(linhasDoCodigo(componente.codigo).reduce((soma, linha) => soma + Math.floor(linha.restante), 0) / componente.quantidade)));
+  if (!(combos > 0)) return;
+
+  // Consumo simulado antes de confirmar: combo mais caro que os itens avulsos não é aplicado
+  const consumo = new Map<PromotionLine, number>();
+  for (const componente of componentes) {
+    let falta = combos * componente.quantidade;
+    for (const linha of linhasDoCodigo(componente.codigo)) {
+      const usar = Math.min(falta, Math.floor(linha.restante) - (consumo.get(linha) || 0));
+      if (usar <= 0) continue;
+      consumo.set(linha, (consumo.get(linha) || 0) + usar);
+      falta -= usar;
+      if (falta === 0) break;
+    }
+  }
+
+  const avulsoCents = [...consumo].reduce((soma, [linha, quantidade]) => soma + linha.precoCents * quantidade, 0);
+  const descontoCents = avulsoCents - combos * toCents(promocao.preco_combo!);
+  if (descontoCents <= 0) return;
+
+  let rateadoCents = 0;
+  const entradas = [...consumo];
+  entradas.forEach(([linha, quantidade], index) => {
+    const parteCents = index === entradas.length - 1
+      ? descontoCents - rateadoCents
+      : Math.round(descontoCents * linha.precoCents * quantidade / avulsoCents);
+    rateadoCents += parteCents;
+    linha.restante -= quantidade;
+    descontos.set(linha, (descontos.get(linha) || 0) + parteCents);
+  });
+}
+
+// Avalia as promoções vigentes sobre os itens da venda (formato do payload de venda)
+export function evaluatePromotions(itens: any[], promocoes: Promotion[], agora: Date = new Date()): AppliedPromotion[] {
+  const linhas = eligibleLines(itens || []);
+  if (linhas.length === 0) return [];
+
+  const vigentes = promocoes
+    .filter(promocao =>
+      (!promocao.inicio || new Date(promocao.inicio) <= agora) &&
+      (!promocao.fim || new Date(promocao.fim) >= agora))
+    .sort((a, b) => b.prioridade - a.prioridade || a.id - b.id);
+
+  const aplicadas: AppliedPromotion[] = [];
+
+  for (const promocao of vigentes) {
+    const descontos = new Map<PromotionLine, number>();
+
+    if (promocao.tipo === 'LEVE_PAGUE') applyBuyXPayY(promocao, linhas, descontos);
+    else if (promocao.tipo === 'FAIXA_QUANTIDADE') applyQuantityTier(promocao, linhas, descontos);
+    else applyCombo(promocao, linhas, descontos);
+
+    const itensPromocao = [...descontos]
+      .filter(([, centavos]) => centavos > 0)
+      .map(([linha, centavos]) => ({ sequencia: linha.sequencia, codigo: linha.codigo, valor_desconto: fromCents(centavos) }));
+    if (itensPromocao.length === 0) continue;
+
+    aplicadas.push({
+      promocao_id: promocao.id,
+      nome: promocao.nome,
+      tipo: promocao.tipo,
+      valor_desconto: fromCents([...descontos.values()].reduce((soma, centavos) => soma + centavos, 0)),
+      itens: itensPromocao.sort((a, b) => a.sequencia - b.sequencia)
+    });
+  }
+
+  return aplicadas;
+}
+
+export class PromotionService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private promocoes: Promotion[] = [];
+
+  constructor(apiService: PdvApiService) {
+    this.apiService = apiService;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Promoções da retaguarda (regra completa em JSON, aplicada offline)
+      CREATE TABLE IF NOT EXISTS cache_promocoes (
+        id INTEGER PRIMARY KEY,
+        nome TEXT NOT NULL,
+        tipo TEXT NOT NULL, -- 'LEVE_PAGUE', 'FAIXA_QUANTIDADE', 'COMBO'
+        regra_json TEXT NOT NULL,
+        prioridade INTEGER DEFAULT 0,
+        inicio TEXT,
+        fim TEXT,
+        cached_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await this.syncPromotions();
+  }
+
+  // Atualizar promoções a partir da API (mantém o cache atual se offline)
+  async syncPromotions(): Promise<boolean> {
+    const promocoes = await this.apiService.fetchPromotions();
+
+    if (!promocoes) {
+      await this.loadFromCache();
+      this.logger.warn('PROMOTION', `API indisponivel - ${this.promocoes.length} promocoes do cache local`);
+      return false;
+    }
+
+    const validas = promocoes
+      .filter((promocao: any) => promocao.ativo !== false)
+      .map((promocao: any) => this.normalize(promocao))
+      .filter((promocao): promocao is Promotion => promocao !== null);
+
+    await this.replacePromotions(validas);
+    this.promocoes = validas;
+    this.logger.info('PROMOTION', `${validas.length} promocoes sincronizadas (${promocoes.length - validas.length} ignoradas)`);
+    return true;
+  }
+
+  // Regra incompleta não entra no cache (uma promoção errada não pode dar desconto indevido)
+  private normalize(dados: any): Promotion | null {
+    const promocao: Promotion = {
+      id: Number(dados.id),
+      nome: String(dados.nome || '').trim(),
+      tipo: dados.tipo,
+      produtos: (dados.produtos || []).map((codigo: any) => String(codigo)),
+      leve: dados.leve !== undefined ? Number(dados.leve) : undefined,
+      pague: dados.pague !== undefined ? Number(dados.pague) : undefined,
+      faixas: dados.faixas?.map((faixa: any) => ({
+        quantidade_minima: Number(faixa.quantidade_minima),
+        preco_unitario: Number(faixa.preco_unitario)
+      })),
+      combo: dados.combo?.map((componente: any) => ({
+        codigo: String(componente.codigo),
+        quantidade: Number(componente.quantidade)
+      })),
+      preco_combo: dados.preco_combo !== undefined ? Number(dados.preco_combo) : undefined,
+      prioridade: Number(dados.prioridade) || 0,
+      inicio: dados.inicio || null,
+      fim: dados.fim || null
+    };
+
+    const valida = promocao.id > 0 && promocao.nome !== '' && PROMOTION_TYPES.includes(promocao.tipo) && (
+      promocao.tipo === 'LEVE_PAGUE'
+        ? promocao.produtos.length > 0 &&
+          Number.isInteger(promocao.leve) && Number.isInteger(promocao.pague) &&
+          promocao.pague! > 0 && promocao.leve! > promocao.pague!
+        : promocao.tipo === 'FAIXA_QUANTIDADE'
+          ? promocao.produtos.length > 0 && !!promocao.faixas?.length &&
+            promocao.faixas.every(faixa => faixa.quantidade_minima > 0 && faixa.preco_unitario > 0)
+          : !!promocao.combo?.length && promocao.preco_combo! > 0 &&
+            promocao.combo.every(componente => Number.isInteger(componente.quantidade) && componente.quantidade > 0)
+    );
+
+    if (!valida) {
+      this.logger.warn('PROMOTION', `Promocao ${dados.id} ignorada: regra incompleta`, dados);
+      return null;
+    }
+
+    return promocao;
+  }
+
+  private async replacePromotions(promocoes: Promotion[]): Promise<void> {
+    await this.db.exec('BEGIN TRANSACTION');
+
+    try {
+      await this.db.run('DELETE FROM cache_promocoes');
+
+      for (const promocao of promocoes) {
+        const { id, nome, tipo, prioridade, inicio, fim, ...regra } = promocao;
+        await this.db.run(
+          'INSERT INTO cache_promocoes (id, nome, tipo, regra_json, prioridade, inicio, fim) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [id, nome, tipo, JSON.stringify(regra), prioridade, inicio, fim]
+        );
+      }
+
+      await this.db.exec('COMMIT');
+    } catch (error: any) {
+      await this.db.exec('ROLLBACK');
+      this.logger.error('PROMOTION', 'Erro ao gravar promocoes', error);
+      throw error;
+    }
+  }
+
+  private async loadFromCache(): Promise<void> {
+    const registros = await this.db.all('SELECT * FROM cache_promocoes');
+
+    this.promocoes = registros.map((registro: any) => ({
+      id: registro.id,
+      nome: registro.nome,
+      tipo: registro.tipo,
+      prioridade: registro.prioridade,
+      inicio: registro.inicio,
+      fim: registro.fim,
+      ...JSON.parse(registro.regra_json)
+    }));
+  }
+
+  // Promoções do carrinho atual (chamado a cada alteração de itens na tela)
+  evaluate(itens: any[]): AppliedPromotion[] {
+    return evaluatePromotions(itens, this.promocoes);
+  }
+
+  // Recalcula as promoções da venda; cada item recebe o total de promoção em R$ (valor_promocao)
+  applyPromotions<T extends { items: any[] }>(vendaData: T): T & { promocoes: AppliedPromotion[] } {
+    const promocoes = this.evaluate(vendaData.items);
+    const porSequencia = new Map<number, number>();
+
+    for (const promocao of promocoes) {
+      for (const item of promocao.itens) {
+        porSequencia.set(item.sequencia, (porSequencia.get(item.sequencia) || 0) + toCents(item.valor_desconto));
+      }
+    }
+
+    if (promocoes.length > 0) {
+      this.logger.info('PROMOTION', `${promocoes.length} promocoes aplicadas na venda`, promocoes.map(promocao => ({
+        id: promocao.promocao_id,
+        nome: promocao.nome,
+        valor: promocao.valor_desconto
+      })));
+    }
+
+    return {
+      ...vendaData,
+      items: vendaData.items.map((item: any, index: number) => ({
+        ...item,
+        valor_promocao: fromCents(porSequencia.get(item.sequencia ?? index + 1) || 0)
+      })),
+      promocoes
+    };
+  }
+}
@@ -0,0 +1,152 @@
+// ================================
+// ReceiptExportService.ts - Cópia do cupom em PDF ou HTML (envio por e-mail, disputas)
+// ================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserWindow } from 'electron';
+import { LogService } from './LogService';
+import { ReceiptExportFormat, ReceiptLayout, ReceiptLayoutLine } from '../types/NetworkTypes';
+
+const PX_PER_INCH = 96;
+const PDF_TIMEOUT = 15000;
+
+const escapeHtml = (texto: string): string =>
+  texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Barras do CODE128 em SVG, nas mesmas medidas da impressora
+function renderBarcode(linha: ReceiptLayoutLine, layout: ReceiptLayout): string {
+  const larguras = linha.barras || [];
+  const total = larguras.reduce((soma, largura) => soma + largura, 0);
+  let x = 0;
+
+  const barras = larguras.map((largura, indice) => {
+    const barra = indice % 2 === 0 ? `<rect x="${x}" y="0" width="${largura}" height="1"/>` : '';
+    x += largura;
+    return barra;
+  }).join('');
+
+  return `<div class="centro">`
+    + `<svg viewBox="0 0 ${total} 1" preserveAspectRatio="none" `
+    + `style="width:${total * layout.codigoBarras.moduloMm}mm;height:${layout.codigoBarras.alturaMm}mm">${barras}</svg>`
+    + `<div>${escapeHtml(linha.texto)}</div></div>`;
+}
+
+// Página com a largura da bobina: fonte monoespaçada ocupando exatamente as colunas da impressora
+export function renderReceiptHtml(layout: ReceiptLayout, titulo: string): string {
+  const fonteMm = layout.areaMm / (layout.colunas * 0.6);
+
+  const corpo = layout.linhas.map((linha) => {
+    switch (linha.estilo) {
+      case 'CODIGO_BARRAS':
+        return renderBarcode(linha, layout);
+      case 'TITULO':
+        return `<div class="titulo">${escapeHtml(linha.texto)}</div>`;
+      case 'DESTAQUE':
+        return `<div class="linha"><b>${escapeHtml(linha.texto)}</b></div>`;
+      default:
+        return `<div class="linha">${escapeHtml(linha.texto) || '&nbsp;'}</div>`;
+    }
+  }).join('\n');
+
+  const logo = layout.logo
+    ? `<div class="centro"><img src="${layout.logo.url}" style="width:${layout.logo.larguraMm}mm;image-rendering:pixelated"></div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(titulo)}</title>
+<style>
+  html, body { margin: 0; padding: 0; background: #fff; color: #000; }
+  .cupom {
+    width: ${layout.areaMm}mm;
+    padding: 4mm ${(layout.larguraMm - layout.areaMm) / 2}mm;
+    font-family: 'Courier New', Courier, monospace;
+    font-size: ${fonteMm.toFixed(3)}mm;
+    line-height: 1.5;
+  }
+  .linha { white-space: pre; overflow: hidden; }
+  .centro { text-align: center; margin: 1mm 0; }
+  .titulo {
+    text-align: center;
+    font-weight: bold;
+    white-space: pre;
+    height: 3em;
+    line-height: 1.5em;
+    transform: scaleY(2);
+    transform-origin: top;
+  }
+</style>
+</head>
+<body>
+<div class="cupom">
+${logo}
+${corpo}
+</div>
+</body>
+</html>
+`;
+}
+
+export class ReceiptExportService {
+  private pasta: string;
+  private logger: LogService;
+
+  constructor(pasta: string) {
+    this.pasta = pasta;
+    this.logger = LogService.getInstance();
+  }
+
+  // Grava a cópia na pasta configurada e devolve o caminho do arquivo
+  async export(layout: ReceiptLayout, formato: ReceiptExportFormat, nome: string): Promise<string> {
+    const html = renderReceiptHtml(layout, nome);
+    const base = nome.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'comprovante';
+    const arquivo = path.join(
+      this.pasta,
+      `${base}-${new Date().toISOString().replace(/[:.]/g, '-')}.${formato === 'PDF' ? 'pdf' : 'html'}`
+    );
+
+    await fs.promises.mkdir(this.pasta, { recursive: true });
+    await fs.promises.writeFile(arquivo, formato === 'PDF' ? await this.printToPdf(html) : html);
+
+    this.logger.info('RECEIPT_EXPORT', `Comprovante exportado em ${formato}`, { arquivo });
+    return arquivo;
+  }
+
+  // Impressão em janela invisível: a altura da página acompanha o tamanho do cupom
+  private async printToPdf(html: string): Promise<Buffer> {
+    const janela = new BrowserWindow({
+      show: false,
+      webPreferences: { offscreen: true, javascript: true }
+    });
+
+    const timeout = setTimeout(() => janela.destroy(), PDF_TIMEOUT);
+
+    try {
+      await janela.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+
+      const tamanho: { largura: number; altura: number } = await janela.webContents.executeJavaScript(
+        `(() => {
+          const cupom = document.querySelector('.cupom').getBoundingClientRect();
+          return { largura: Math.ceil(cupom.width), altura: Math.ceil(cupom.height) };
+        })()`
+      );
+
+      return await janela.webContents.printToPDF({
+        pageSize: { width: tamanho.largura / PX_PER_INCH, height: tamanho.altura / PX_PER_INCH },
+        margins: { top: 0, bottom: 0, left: 0, right: 0 },
+        printBackground: true
+      });
+    } catch (error: any) {
+      if (janela.isDestroyed()) {
+        throw new Error('Tempo esgotado ao gerar o PDF do comprovante');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      if (!janela.isDestroyed()) janela.destroy();
+    }
+  }
+}
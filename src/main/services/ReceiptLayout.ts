@@ -0,0 +1,83 @@
+// ================================
+// ReceiptLayout.ts - Cupom em texto organizado como sai na impressora
+// ================================
+
+import { ReceiptLayout, ReceiptLayoutLine } from '../types/NetworkTypes';
+import { BARCODE_HEIGHT_DOTS, BARCODE_MODULE_DOTS } from './EscPosEncoder';
+import { RECEIPT_BARCODE_PREFIX } from './SaleHistoryService';
+
+// Impressoras térmicas de 203 dpi: 8 pontos por milímetro
+export const DOTS_PER_MM = 8;
+
+// Código do cupom como impresso pelo ReceiptService (*V1234*)
+const BARCODE_LINE = new RegExp(`^\\s*\\*(${RECEIPT_BARCODE_PREFIX}\\d+)\\*\\s*$`);
+
+// CODE128: larguras de barra/espaço de cada valor (0-105) e do STOP
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232'
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = '2331112';
+
+// Mesmo código que a impressora gera com GS k (conjunto B)
+export function code128Modules(dados: string): number[] {
+  const valores = [...dados].map(caractere => {
+    const codigo = caractere.charCodeAt(0);
+    if (codigo < 32 || codigo > 127) {
+      throw new Error(`Caractere inválido para CODE128: ${caractere}`);
+    }
+    return codigo - 32;
+  });
+
+  const verificador = valores.reduce((soma, valor, indice) => soma + valor * (indice + 1), CODE128_START_B) % 103;
+  const padroes = [CODE128_START_B, ...valores, verificador].map(valor => CODE128_PATTERNS[valor]);
+
+  return [...padroes, CODE128_STOP].join('').split('').map(Number);
+}
+
+// Título em destaque, TOTAL/SUBTOTAL em negrito e o código da venda em barras
+export function buildReceiptLayout(
+  comprovante: string,
+  colunas: number,
+  logo: { url: string; larguraMm: number } | null
+): ReceiptLayout {
+  const linhas: ReceiptLayoutLine[] = [];
+  let tituloImpresso = false;
+
+  for (const linha of comprovante.replace(/\n+$/, '').split('\n')) {
+    const codigo = linha.match(BARCODE_LINE);
+
+    if (codigo) {
+      linhas.push({ estilo: 'CODIGO_BARRAS', texto: codigo[1], barras: code128Modules(codigo[1]) });
+    } else if (!tituloImpresso && linha.trim()) {
+      linhas.push({ estilo: 'TITULO', texto: linha.trim() });
+      tituloImpresso = true;
+    } else if (/^(TOTAL|SUBTOTAL)\b/.test(linha)) {
+      linhas.push({ estilo: 'DESTAQUE', texto: linha });
+    } else {
+      linhas.push({ estilo: 'TEXTO', texto: linha });
+    }
+  }
+
+  return {
+    colunas,
+    larguraMm: colunas > 32 ? 80 : 58,
+    areaMm: colunas > 32 ? 72 : 48,
+    logo,
+    codigoBarras: {
+      moduloMm: BARCODE_MODULE_DOTS / DOTS_PER_MM,
+      alturaMm: BARCODE_HEIGHT_DOTS / DOTS_PER_MM
+    },
+    linhas
+  };
+}
@@ -0,0 +1,390 @@
+// ================================
+// ReceiptService.ts - Cupom da Venda (texto)
+// ================================
+
+import { itemGrossCents } from './ScaleBarcodeService';
+import { formatCustomerDocument } from './CustomerService';
+import { receiptBarcode } from './SaleHistoryService';
+import type {
+  CashMovement,
+  CustomerDocument,
+  RefundType,
+  Sale,
+  SaleCancellation,
+  SaleHistoryRecord,
+  SaleLoyalty,
+  SaleReturn,
+  SaleStoreCredit,
+  SaleTaxes,
+  StoreCreditPayment
+} from '../types/NetworkTypes';
+
+const PAYMENT_LABELS: Record<string, string> = {
+  DINHEIRO: 'Dinheiro',
+  CARTAO_CREDITO: 'Cartão Crédito',
+  CARTAO_DEBITO: 'Cartão Débito',
+  PIX: 'PIX',
+  OUTROS: 'Outros',
+  PONTOS: 'Pontos fidelidade',
+  CREDITO_LOJA: 'Crédito na loja'
+};
+
+const REFUND_LABELS: Record<RefundType, string> = {
+  DINHEIRO: 'Dinheiro',
+  FORMA_ORIGINAL: 'Forma de pagamento original',
+  VALE_TROCA: 'Vale-troca'
+};
+
+// Dados da venda como registrada no processo principal (itens já com descontos e promoções)
+export interface ReceiptSaleData {
+  items: any[];
+  itens_cancelados?: any[];
+  promocoes?: Array<{ nome: string; valor_desconto: number }>;
+  valor_desconto_venda?: number;
+  payments?: any[];
+  consumidor?: CustomerDocument | null;
+  fidelidade?: SaleLoyalty | null;
+  conta_cliente?: SaleStoreCredit | null;
+  tributos?: SaleTaxes | null;
+  operador_codigo?: string;
+}
+
+export class ReceiptService {
+  private caixaId: string;
+  private largura: number;
+
+  constructor(caixaId: string, largura: number = 40) {
+    this.caixaId = caixaId;
+    this.largura = largura;
+  }
+
+  // Cupom em texto monoespaçado (largura em colunas da bobina)
+  buildSaleReceipt(venda: Sale, vendaData: ReceiptSaleData): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+    const quantidade = (valor: number): string => valor.toLocaleString('pt-BR', { maximumFractionDigits: 3 });
+
+    const linhas: string[] = [
+      centralizar('CUPOM DA VENDA'),
+      linha,
+      campo('Caixa:', this.caixaId),
+      campo('Venda:', String(venda.numero_venda ?? venda.id)),
+      campo('Data:', new Date(venda.data_venda).toLocaleString('pt-BR'))
+    ];
+
+    if (vendaData.operador_codigo) {
+      linhas.push(campo('Operador:', vendaData.operador_codigo));
+    }
+
+    if (vendaData.consumidor) {
+      linhas.push(campo(`${vendaData.consumidor.tipo} consumidor:`, formatCustomerDocument(vendaData.consumidor)));
+    }
+
+    linhas.push(linha, '# COD DESCRICAO', 'QTD UN x VL UNIT' + 'VL ITEM'.padStart(largura - 16), linha);
+
+    for (const item of vendaData.items) {
+      linhas.push(`${item.sequencia ?? ''} ${item.codigo} ${item.descricao || ''}`.trim().slice(0, largura));
+      linhas.push(campo(
+        `${quantidade(item.quantidade)} ${item.unidade || 'UN'} x ${moeda(item.preco_unitario)}`,
+        moeda(itemGrossCents(item) / 100)
+      ));
+
+      if (item.valor_desconto > 0) {
+        linhas.push(campo('  Desconto', `-${moeda(item.valor_desconto)}`));
+      }
+    }
+
+    for (const item of vendaData.itens_cancelados || []) {
+      linhas.push(`${item.sequencia ?? ''} ${item.codigo} CANCELADO`.trim().slice(0, largura));
+    }
+
+    linhas.push(linha, campo('SUBTOTAL', moeda(venda.subtotal)));
+
+    for (const promocao of vendaData.promocoes || []) {
+      linhas.push(campo(`Promoção ${promocao.nome}`.slice(0, largura - 12), `-${moeda(promocao.valor_desconto)}`));
+    }
+
+    if (vendaData.valor_desconto_venda && vendaData.valor_desconto_venda > 0) {
+      linhas.push(campo('Desconto na venda', `-${moeda(vendaData.valor_desconto_venda)}`));
+    }
+
+    linhas.push(campo('TOTAL R$', moeda(venda.total)), linha);
+
+    const trocoTotal = (vendaData.payments || []).reduce((soma: number, pagamento: any) => soma + (pagamento.troco || 0), 0);
+    for (const pagamento of vendaData.payments || []) {
+      linhas.push(campo(PAYMENT_LABELS[pagamento.tipo] || pagamento.tipo, moeda(pagamento.valorRecebido ?? pagamento.valor)));
+    }
+    if (trocoTotal > 0) {
+      linhas.push(campo('Troco', moeda(trocoTotal)));
+    }
+
+    // Lei 12.741/2012: tributos incidentes sobre a venda
+    if (vendaData.tributos) {
+      const tributos = vendaData.tributos;
+      linhas.push(
+        linha,
+        campo('Tributos incidentes', moeda(tributos.valor_tributos)),
+        campo('  ICMS', moeda(tributos.valor_icms)),
+        campo('  PIS', moeda(tributos.valor_pis)),
+        campo('  COFINS', moeda(tributos.valor_cofins)),
+        'Lei 12.741/2012'
+      );
+    }
+
+    if (vendaData.fidelidade) {
+      const fidelidade = vendaData.fidelidade;
+      linhas.push(linha, `Cliente: ${fidelidade.cliente_nome}`.slice(0, largura));
+      if (fidelidade.pontos_resgatados > 0) {
+        linhas.push(campo('Pontos resgatados', String(fidelidade.pontos_resgatados)));
+      }
+      linhas.push(campo('Pontos ganhos', String(fidelidade.pontos_acumulados)));
+      if (fidelidade.saldo !== undefined) {
+        linhas.push(campo('Saldo de pontos', String(fidelidade.saldo)));
+      }
+    }
+
+    if (vendaData.conta_cliente) {
+      const conta = vendaData.conta_cliente;
+      linhas.push(linha, `Conta: ${conta.cliente_nome}`.slice(0, largura));
+      linhas.push(campo('Lançado na conta', moeda(conta.valor)));
+      if (conta.saldo_devedor !== undefined) {
+        linhas.push(campo('Saldo devedor', moeda(conta.saldo_devedor)));
+      }
+      linhas.push('', '', centralizar('_'.repeat(Math.min(30, largura))), centralizar('Assinatura do cliente'));
+    }
+
+    // Código lido na devolução (número da venda)
+    linhas.push(linha, centralizar(`*${receiptBarcode(venda.numero_venda ?? venda.id)}*`));
+
+    linhas.push(linha, centralizar('Obrigado pela preferência!'), '');
+    return linhas.join('\n');
+  }
+
+  // Segunda via: o cupom gravado na venda ou, sem ele (venda trazida da API), um resumo do histórico
+  buildReprintReceipt(venda: SaleHistoryRecord, comprovante: string | null): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+    const quantidade = (valor: number): string => valor.toLocaleString('pt-BR', { maximumFractionDigits: 3 });
+
+    const linhas: string[] = [
+      centralizar('*** SEGUNDA VIA ***'),
+      centralizar(`Reimpresso em ${new Date().toLocaleString('pt-BR')}`)
+    ];
+
+    if (venda.status === 'CANCELADA') {
+      linhas.push(centralizar('*** CUPOM CANCELADO ***'));
+    }
+
+    linhas.push(linha);
+
+    if (comprovante) {
+      linhas.push(comprovante.replace(/\n+$/, ''));
+    } else {
+      linhas.push(
+        centralizar('CUPOM DA VENDA'),
+        linha,
+        campo('Caixa:', this.caixaId),
+        campo('Venda:', String(venda.numero_venda)),
+        campo('Data:', new Date(venda.data_venda).toLocaleString('pt-BR'))
+      );
+
+      if (venda.operador_codigo) {
+        linhas.push(campo('Operador:', venda.operador_codigo));
+      }
+
+      if (venda.cliente_nome) {
+        linhas.push(campo('Cliente:', venda.cliente_nome.slice(0, largura - 9)));
+      }
+
+      linhas.push(linha);
+
+      for (const item of venda.itens) {
+        linhas.push(`${item.sequencia} ${item.codigo} ${item.descricao || ''}`.trim().slice(0, largura));
+        linhas.push(campo(`${quantidade(item.quantidade)} ${item.unidade} x ${moeda(item.preco_unitario)}`, moeda(item.valor_total)));
+      }
+
+      linhas.push(linha, campo('TOTAL R$', moeda(venda.total)));
+
+      for (const pagamento of venda.pagamentos) {
+        linhas.push(campo(`  ${PAYMENT_LABELS[pagamento.tipo] || pagamento.tipo}`, moeda(pagamento.valor)));
+      }
+
+      linhas.push(linha, centralizar(`*${receiptBarcode(venda.numero_venda)}*`));
+    }
+
+    linhas.push('');
+    return linhas.join('\n');
+  }
+
+  // Comprovante da devolução (vale-troca impresso com o código para uso na próxima compra)
+  buildReturnReceipt(devolucao: SaleReturn): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+    const quantidade = (valor: number): string => valor.toLocaleString('pt-BR', { maximumFractionDigits: 3 });
+
+    const linhas: string[] = [
+      centralizar('COMPROVANTE DE DEVOLUÇÃO'),
+      linha,
+      campo('Caixa:', this.caixaId),
+      campo('Venda original:', String(devolucao.numero_venda)),
+      campo('Data:', new Date(devolucao.created_at).toLocaleString('pt-BR')),
+      linha
+    ];
+
+    for (const item of devolucao.itens) {
+      linhas.push(`${item.sequencia} ${item.codigo} ${item.descricao || ''}`.trim().slice(0, largura));
+      linhas.push(campo(`${quantidade(item.quantidade)} ${item.unidade}`, moeda(item.valor)));
+    }
+
+    linhas.push(
+      linha,
+      campo('TOTAL DEVOLVIDO R$', moeda(devolucao.valor_total)),
+      campo('Reembolso:', REFUND_LABELS[devolucao.tipo_reembolso])
+    );
+
+    for (const reembolso of devolucao.reembolsos) {
+      linhas.push(campo(`  ${PAYMENT_LABELS[reembolso.tipo] || reembolso.tipo}`, moeda(reembolso.valor)));
+    }
+
+    if (devolucao.vale_troca) {
+      linhas.push(linha, centralizar('VALE-TROCA'), centralizar(devolucao.vale_troca), centralizar(`R$ ${moeda(devolucao.valor_total)}`));
+    }
+
+    linhas.push(
+      linha,
+      campo('Operador:', devolucao.operador),
+      campo('Supervisor:', devolucao.supervisor),
+      `Ref: ${devolucao.referencia}`.slice(0, largura)
+    );
+
+    if (!devolucao.sincronizado) {
+      linhas.push(centralizar('(aguardando sincronização)'));
+    }
+
+    linhas.push('');
+    return linhas.join('\n');
+  }
+
+  // Comprovante do cancelamento de cupom (via do caixa, assinada pelo supervisor)
+  buildCancellationReceipt(cancelamento: SaleCancellation): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+
+    const linhas: string[] = [
+      centralizar('CANCELAMENTO DE CUPOM'),
+      linha,
+      campo('Caixa:', this.caixaId),
+      campo('Venda:', String(cancelamento.numero_venda)),
+      campo('Data:', new Date(cancelamento.created_at).toLocaleString('pt-BR')),
+      linha,
+      campo('TOTAL CANCELADO R$', moeda(cancelamento.total)),
+      `Motivo: ${cancelamento.motivo}`.slice(0, largura),
+      linha,
+      campo('Operador:', cancelamento.operador),
+      campo('Supervisor:', cancelamento.supervisor),
+      '', '', centralizar('_'.repeat(Math.min(30, largura))), centralizar('Assinatura do supervisor')
+    ];
+
+    if (!cancelamento.sincronizado) {
+      linhas.push(centralizar('(aguardando sincronização)'));
+    }
+
+    linhas.push('');
+    return linhas.join('\n');
+  }
+
+  // Comprovante de sangria/suprimento para conferência e assinatura do supervisor
+  buildMovementReceipt(movimento: CashMovement): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+
+    const linhas: string[] = [
+      centralizar(`COMPROVANTE DE ${movimento.tipo}`),
+      linha,
+      campo('Caixa:', this.caixaId),
+      campo('Turno:', String(movimento.turno_id)),
+      campo('Movimento:', String(movimento.id)),
+      campo('Data:', new Date(movimento.created_at).toLocaleString('pt-BR')),
+      linha,
+      campo('VALOR R$', moeda(movimento.valor)),
+      `Motivo: ${movimento.motivo}`.slice(0, largura),
+      linha,
+      campo('Operador:', movimento.operador),
+      campo('Supervisor:', movimento.supervisor),
+      '', '', centralizar('_'.repeat(Math.min(30, largura))), centralizar('Assinatura do supervisor')
+    ];
+
+    if (!movimento.sincronizado) {
+      linhas.push(centralizar('(aguardando sincronização)'));
+    }
+
+    linhas.push('');
+    return linhas.join('\n');
+  }
+
+  // Comprovante do recebimento de conta do cliente
+  buildAccountPaymentReceipt(pagamento: StoreCreditPayment): string {
+    const largura = this.largura;
+    const linha = '-'.repeat(largura);
+    const centralizar = (texto: string): string =>
+      ' '.repeat(Math.max(0, Math.floor((largura - texto.length) / 2))) + texto;
+    const campo = (rotulo: string, valor: string): string =>
+      rotulo + valor.padStart(Math.max(1, largura - rotulo.length));
+    const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+
+    const linhas: string[] = [
+      centralizar('RECEBIMENTO DE CONTA'),
+      linha,
+      campo('Caixa:', this.caixaId),
+      campo('Turno:', String(pagamento.turno_id)),
+      campo('Data:', new Date(pagamento.created_at).toLocaleString('pt-BR')),
+      campo('Operador:', pagamento.operador),
+      linha,
+      `Cliente: ${pagamento.cliente_nome}`.slice(0, largura),
+      campo('VALOR PAGO R$', moeda(pagamento.valor)),
+      campo(PAYMENT_LABELS[pagamento.tipo] || pagamento.tipo, moeda(pagamento.valor_recebido))
+    ];
+
+    if (pagamento.troco > 0) {
+      linhas.push(campo('Troco', moeda(pagamento.troco)));
+    }
+
+    linhas.push(
+      linha,
+      campo('Saldo devedor', moeda(pagamento.saldo_devedor)),
+      `Ref: ${pagamento.referencia}`.slice(0, largura)
+    );
+
+    if (!pagamento.sincronizado) {
+      linhas.push(centralizar('(aguardando sincronização)'));
+    }
+
+    linhas.push('');
+    return linhas.join('\n');
+  }
+}
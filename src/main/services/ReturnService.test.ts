@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildRefunds, cashRefundCents } from './ReturnService';
+import type { SaleHistoryRecord, SalePayment } from '../types/NetworkTypes';
+
+const venda = (pagamentos: SalePayment[], clienteId: number | null = null): SaleHistoryRecord => ({
+  id: 1,
+  numero_venda: 1,
+  turno_id: 1,
+  data_venda: '2026-10-19T10:00:00.000Z',
+  total: pagamentos.reduce((soma, pagamento) => soma + pagamento.valor, 0),
+  itens: [],
+  pagamentos,
+  cliente_id: clienteId,
+  cliente_nome: null,
+  operador_codigo: '001',
+  sincronizado: true,
+  referencia: null,
+  status: 'FINALIZADA',
+  fidelidade: null,
+  venda_id_servidor: null
+});
+
+describe('buildRefunds', () => {
+  it('dinheiro devolve o total em dinheiro', () => {
+    expect(buildRefunds(venda([{ tipo: 'PIX', valor: 30 }]), 'DINHEIRO', 1250))
+      .toEqual([{ tipo: 'DINHEIRO', valor: 12.5 }]);
+  });
+
+  it('forma original rateia pelos pagamentos com a sobra de centavos no último', () => {
+    const reembolsos = buildRefunds(
+      venda([{ tipo: 'DINHEIRO', valor: 10 }, { tipo: 'PIX', valor: 10 }, { tipo: 'CARTAO_DEBITO', valor: 10 }]),
+      'FORMA_ORIGINAL',
+      1000
+    );
+
+    expect(reembolsos).toEqual([
+      { tipo: 'DINHEIRO', valor: 3.33 },
+      { tipo: 'PIX', valor: 3.33 },
+      { tipo: 'CARTAO_DEBITO', valor: 3.34 }
+    ]);
+    expect(reembolsos.reduce((soma, reembolso) => soma + Math.round(reembolso.valor * 100), 0)).toBe(1000);
+  });
+
+  it('forma original junta pagamentos da mesma forma e ignora os zerados', () => {
+    expect(buildRefunds(
+      venda([{ tipo: 'DINHEIRO', valor: 5 }, { tipo: 'PIX', valor: 0 }, { tipo: 'DINHEIRO', valor: 15 }]),
+      'FORMA_ORIGINAL',
+      800
+    )).toEqual([{ tipo: 'DINHEIRO', valor: 8 }]);
+  });
+
+  it('forma original recusa venda paga com pontos, sem pagamentos ou no crédito sem cliente', () => {
+    expect(() => buildRefunds(venda([{ tipo: 'PONTOS', valor: 5 }, { tipo: 'DINHEIRO', valor: 5 }]), 'FORMA_ORIGINAL', 500))
+      .toThrow('pontos');
+    expect(() => buildRefunds(venda([]), 'FORMA_ORIGINAL', 500)).toThrow('sem pagamentos');
+    expect(() => buildRefunds(venda([{ tipo: 'CREDITO_LOJA', valor: 5 }]), 'FORMA_ORIGINAL', 500))
+      .toThrow('não identificado');
+    expect(buildRefunds(venda([{ tipo: 'CREDITO_LOJA', valor: 5 }], 7), 'FORMA_ORIGINAL', 500))
+      .toEqual([{ tipo: 'CREDITO_LOJA', valor: 5 }]);
+  });
+});
+
+describe('cashRefundCents', () => {
+  it('soma só a parte em dinheiro do reembolso', () => {
+    expect(cashRefundCents([
+      { tipo: 'DINHEIRO', valor: 3.33 },
+      { tipo: 'PIX', valor: 3.33 },
+      { tipo: 'DINHEIRO', valor: 0.01 }
+    ])).toBe(334);
+    expect(cashRefundCents([{ tipo: 'CARTAO_CREDITO', valor: 10 }])).toBe(0);
+  });
+});
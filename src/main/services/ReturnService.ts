@@ -0,0 +1,287 @@
+// ================================
+// ReturnService.ts - Devoluções e Trocas
+// ================================
+
+import * as crypto from 'crypto';
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LocalCacheService } from './LocalCacheService';
+import { LogService } from './LogService';
+import { UNIT_DECIMALS, normalizeUnit } from './ProductService';
+import type {
+  Operator,
+  RefundType,
+  SaleHistoryRecord,
+  SalePayment,
+  SaleReturn,
+  SaleReturnItem,
+  SaleReturnRequestItem,
+  Shift
+} from '../types/NetworkTypes';
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Vale-troca fica fora até existir o resgate no pagamento da venda
+const REFUND_TYPES: RefundType[] = ['DINHEIRO', 'FORMA_ORIGINAL'];
+
+// Reembolso por forma. Forma original: rateio pelos pagamentos da venda (sobra de centavos no último)
+export function buildRefunds(venda: SaleHistoryRecord, tipoReembolso: RefundType, totalCents: number): SalePayment[] {
+  if (tipoReembolso === 'VALE_TROCA') return [];
+  if (tipoReembolso === 'DINHEIRO') return [{ tipo: 'DINHEIRO', valor: fromCents(totalCents) }];
+
+  const pagamentos = venda.pagamentos.filter(pagamento => toCents(pagamento.valor) > 0);
+  const pagoCents = pagamentos.reduce((soma, pagamento) => soma + toCents(pagamento.valor), 0);
+  if (pagoCents <= 0) {
+    throw new Error('Venda sem pagamentos registrados. Escolha a devolução em dinheiro');
+  }
+
+  if (pagamentos.some(pagamento => pagamento.tipo === 'PONTOS')) {
+    throw new Error('Venda paga com pontos: escolha dinheiro para a devolução');
+  }
+
+  if (pagamentos.some(pagamento => pagamento.tipo === 'CREDITO_LOJA') && !venda.cliente_id) {
+    throw new Error('Cliente da venda no crédito da loja não identificado. Escolha a devolução em dinheiro');
+  }
+
+  const porForma = new Map<SalePayment['tipo'], number>();
+  let rateadoCents = 0;
+
+  pagamentos.forEach((pagamento, index) => {
+    const parte = index === pagamentos.length - 1
+      ? totalCents - rateadoCents
+      : Math.round(totalCents * toCents(pagamento.valor) / pagoCents);
+    rateadoCents += parte;
+    porForma.set(pagamento.tipo, (porForma.get(pagamento.tipo) || 0) + parte);
+  });
+
+  return Array.from(porForma.entries())
+    .filter(([, cents]) => cents > 0)
+    .map(([tipo, cents]) => ({ tipo, valor: fromCents(cents) }));
+}
+
+// Parte do reembolso paga em dinheiro (sai da gaveta)
+export function cashRefundCents(reembolsos: SalePayment[]): number {
+  return reembolsos
+    .filter(reembolso => reembolso.tipo === 'DINHEIRO')
+    .reduce((soma, reembolso) => soma + toCents(reembolso.valor), 0);
+}
+
+export class ReturnService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private caixaId: string;
+
+  constructor(apiService: PdvApiService, caixaId: string) {
+    this.apiService = apiService;
+    this.caixaId = caixaId;
+    this.logger = LogService.getInstance();
+  }
+
+  private get cache(): LocalCacheService {
+    return this.apiService.getCache();
+  }
+
+  private get db(): Database {
+    return this.cache.getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Devoluções (documento próprio ligado à venda original)
+      CREATE TABLE IF NOT EXISTS devolucoes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        referencia TEXT NOT NULL UNIQUE,
+        venda_id INTEGER NOT NULL,
+        numero_venda INTEGER NOT NULL,
+        turno_id INTEGER NOT NULL,
+        tipo_reembolso TEXT NOT NULL, -- 'DINHEIRO', 'FORMA_ORIGINAL', 'VALE_TROCA'
+        itens_json TEXT NOT NULL,
+        valor_total REAL NOT NULL,
+        reembolsos_json TEXT NOT NULL,
+        vale_troca TEXT,
+        operador TEXT NOT NULL,
+        supervisor TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        sincronizado BOOLEAN DEFAULT false
+      );
+
+      -- Vales-troca emitidos nas devoluções
+      CREATE TABLE IF NOT EXISTS vales_troca (
+        codigo TEXT PRIMARY KEY,
+        devolucao_referencia TEXT NOT NULL,
+        valor REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'ATIVO',
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_devolucoes_venda ON devolucoes(venda_id);
+    `);
+  }
+
+  // Valor de cada linha proporcional ao líquido pago na venda; limitado ao que ainda não foi devolvido
+  buildReturnItems(venda: SaleHistoryRecord, itens: SaleReturnRequestItem[]): SaleReturnItem[] {
+    if (venda.status === 'CANCELADA') {
+      throw new Error(`Venda ${venda.numero_venda} foi cancelada e não aceita devolução`);
+    }
+
+    if (!Array.isArray(itens) || itens.length === 0) {
+      throw new Error('Selecione ao menos um item para devolver');
+    }
+
+    return itens.map(solicitado => {
+      const item = venda.itens.find(linha => linha.sequencia === solicitado.sequencia);
+      if (!item) {
+        throw new Error(`Item ${solicitado.sequencia} não pertence à venda ${venda.numero_venda}`);
+      }
+
+      const unidade = normalizeUnit(item.unidade);
+      const fator = Math.pow(10, UNIT_DECIMALS[unidade]);
+      const quantidade = solicitado.quantidade;
+
+      if (typeof quantidade !== 'number' || isNaN(quantidade) || quantidade <= 0 ||
+        Math.abs(Math.round(quantidade * fator) - quantidade * fator) > 1e-6) {
+        throw new Error(`Quantidade inválida para ${item.descricao || item.codigo}`);
+      }
+
+      const disponivel = Math.round((item.quantidade - item.quantidade_devolvida) * 1000) / 1000;
+      if (item.quantidade <= 0 || quantidade > disponivel + 1e-9) {
+        throw new Error(`${item.descricao || item.codigo}: quantidade disponível para devolução é ${Math.max(0, disponivel)}`);
+      }
+
+      // Devolução total da linha leva o saldo exato em centavos
+      const jaDevolvidoCents = Math.round(toCents(item.valor_total) * item.quantidade_devolvida / item.quantidade);
+      const valorCents = Math.abs(quantidade - disponivel) < 1e-9
+        ? toCents(item.valor_total) - jaDevolvidoCents
+        : Math.round(toCents(item.valor_total) * quantidade / item.quantidade);
+
+      return {
+        sequencia: item.sequencia,
+        codigo: item.codigo,
+        descricao: item.descricao,
+        quantidade,
+        unidade,
+        valor: fromCents(valorCents)
+      };
+    });
+  }
+
+  // Reembolsos da devolução por forma; o handler confere o dinheiro em caixa antes de registrar
+  buildRefunds(venda: SaleHistoryRecord, itens: SaleReturnItem[], tipoReembolso: RefundType): SalePayment[] {
+    if (!REFUND_TYPES.includes(tipoReembolso)) {
+      throw new Error(`Tipo de reembolso inválido: ${tipoReembolso}`);
+    }
+
+    const totalCents = itens.reduce((soma, item) => soma + toCents(item.valor), 0);
+    if (totalCents <= 0) {
+      throw new Error('Valor da devolução deve ser maior que zero');
+    }
+
+    return buildRefunds(venda, tipoReembolso, totalCents);
+  }
+
+  // Registra a devolução, devolve o estoque ao cache e envia (ou enfileira) o documento
+  async registerReturn(
+    venda: SaleHistoryRecord,
+    itens: SaleReturnItem[],
+    tipoReembolso: RefundType,
+    turno: Shift,
+    operador: Operator,
+    supervisor: { codigo: string; autorizacaoId: number }
+  ): Promise<SaleReturn> {
+    const reembolsos = this.buildRefunds(venda, itens, tipoReembolso);
+    const referencia = crypto.randomUUID();
+    const valeTroca = tipoReembolso === 'VALE_TROCA' ? this.generateVoucherCode() : null;
+    const createdAt = new Date().toISOString();
+    const valorTotal = fromCents(itens.reduce((soma, item) => soma + toCents(item.valor), 0));
+
+    const sincronizado = await this.apiService.sendOrQueue('DEVOLUCAO', '/devolucoes', {
+      caixaId: this.caixaId,
+      turnoId: turno.id,
+      referencia,
+      vendaId: venda.id,
+      numeroVenda: venda.numero_venda,
+      tipoReembolso,
+      itens: itens.map(item => ({
+        sequencia: item.sequencia,
+        codigo: item.codigo,
+        quantidade: item.quantidade,
+        valor: item.valor
+      })),
+      valorTotal,
+      reembolsos,
+      valeTroca,
+      operadorId: operador.id,
+      operadorCodigo: operador.codigo,
+      supervisorCodigo: supervisor.codigo,
+      autorizacaoId: supervisor.autorizacaoId,
+      dataHora: createdAt
+    });
+
+    await this.db.run(`
+      INSERT INTO devolucoes (
+        referencia, venda_id, numero_venda, turno_id, tipo_reembolso, itens_json, valor_total,
+        reembolsos_json, vale_troca, operador, supervisor, created_at, sincronizado
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      referencia,
+      venda.id,
+      venda.numero_venda,
+      turno.id,
+      tipoReembolso,
+      JSON.stringify(itens),
+      valorTotal,
+      JSON.stringify(reembolsos),
+      valeTroca,
+      operador.codigo,
+      supervisor.codigo,
+      createdAt,
+      sincronizado
+    ]);
+
+    if (valeTroca) {
+      await this.db.run(`
+        INSERT INTO vales_troca (codigo, devolucao_referencia, valor, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [valeTroca, referencia, valorTotal, createdAt]);
+    }
+
+    for (const item of itens) {
+      await this.cache.adjustStock(item.codigo, item.quantidade);
+    }
+
+    // Parte paga no crédito da loja volta abatendo a conta do cliente
+    const estornoConta = reembolsos.find(reembolso => reembolso.tipo === 'CREDITO_LOJA');
+    if (estornoConta && venda.cliente_id) {
+      await this.cache.addStoreCreditMovement(venda.cliente_id, referencia, 'ESTORNO', -estornoConta.valor, sincronizado);
+    }
+
+    this.logger.info('RETURN', `Devolução da venda ${venda.numero_venda} registrada`, {
+      referencia,
+      tipo_reembolso: tipoReembolso,
+      valor: valorTotal,
+      supervisor: supervisor.codigo,
+      sincronizado
+    });
+
+    return {
+      referencia,
+      venda_id: venda.id,
+      numero_venda: venda.numero_venda,
+      turno_id: turno.id,
+      tipo_reembolso: tipoReembolso,
+      itens,
+      valor_total: valorTotal,
+      reembolsos,
+      vale_troca: valeTroca,
+      operador: operador.codigo,
+      supervisor: supervisor.codigo,
+      created_at: createdAt,
+      sincronizado
+    };
+  }
+
+  private generateVoucherCode(): string {
+    return `VT${Date.now().toString(36).toUpperCase()}${crypto.randomInt(100, 1000)}`;
+  }
+}
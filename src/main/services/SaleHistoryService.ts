@@ -0,0 +1,514 @@
+// ================================
+// SaleHistoryService.ts - Histórico Local de Vendas
+// ================================
+
+import * as crypto from 'crypto';
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LocalCacheService } from './LocalCacheService';
+import { LogService } from './LogService';
+import { itemGrossCents } from './ScaleBarcodeService';
+import type {
+  Operator,
+  Sale,
+  SaleCancellation,
+  SaleHistoryFilter,
+  SaleHistoryItem,
+  SaleHistoryRecord,
+  SaleLoyalty,
+  SalePayment,
+  SaleReturnItem,
+  Shift
+} from '../types/NetworkTypes';
+
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Código de barras impresso no cupom: "V" + número da venda
+export const RECEIPT_BARCODE_PREFIX = 'V';
+
+export function receiptBarcode(numeroVenda: number): string {
+  return `${RECEIPT_BARCODE_PREFIX}${numeroVenda}`;
+}
+
+// Valor líquido de cada linha em centavos: descontos e promoções da linha e o desconto na venda
+// rateado pelo valor (a última linha absorve a diferença de arredondamento)
+export function netLineCents(items: any[], descontoVenda: number): number[] {
+  const liquidos = items.map(item =>
+    itemGrossCents(item) - toCents(item.valor_desconto) - toCents(item.valor_promocao));
+  const baseCents = liquidos.reduce((soma, valor) => soma + valor, 0);
+  const descontoCents = toCents(descontoVenda);
+  let rateadoCents = 0;
+
+  return liquidos.map((liquido, index) => {
+    const rateio = index === items.length - 1
+      ? descontoCents - rateadoCents
+      : baseCents > 0 ? Math.round(descontoCents * liquido / baseCents) : 0;
+    rateadoCents += rateio;
+    return liquido - rateio;
+  });
+}
+
+// Limite de vendas devolvidas por consulta na tela de histórico
+const SEARCH_LIMIT = 200;
+
+export class SaleHistoryService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private retencaoDias: number;
+
+  constructor(apiService: PdvApiService, retencaoDias: number) {
+    this.apiService = apiService;
+    this.retencaoDias = retencaoDias;
+    this.logger = LogService.getInstance();
+  }
+
+  private get cache(): LocalCacheService {
+    return this.apiService.getCache();
+  }
+
+  private get db(): Database {
+    return this.cache.getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(`
+      -- Vendas finalizadas no caixa (devoluções funcionam offline a partir daqui)
+      CREATE TABLE IF NOT EXISTS historico_vendas (
+        id INTEGER PRIMARY KEY, -- Sale.id (da API ou provisório da venda offline)
+        numero_venda INTEGER NOT NULL,
+        turno_id INTEGER,
+        data_venda TEXT NOT NULL,
+        total REAL NOT NULL,
+        itens_json TEXT NOT NULL,
+        pagamentos_json TEXT NOT NULL,
+        cliente_id INTEGER,
+        operador_codigo TEXT,
+        sincronizado BOOLEAN DEFAULT false,
+        referencia TEXT,
+        status TEXT NOT NULL DEFAULT 'FINALIZADA', -- 'FINALIZADA', 'CANCELADA'
+        cancelada_em TEXT,
+        cliente_nome TEXT,
+        comprovante TEXT, -- cupom impresso na venda (reimpressão)
+        fidelidade_json TEXT, -- pontos acumulados/resgatados (estornados no cancelamento)
+        venda_id_servidor INTEGER -- id da API quando a venda offline é sincronizada
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_historico_vendas_numero ON historico_vendas(numero_venda);
+    `);
+
+    // Históricos criados antes do cancelamento de cupom
+    const colunas = await this.db.all('PRAGMA table_info(historico_vendas)');
+    if (!colunas.some((coluna: any) => coluna.name === 'status')) {
+      await this.db.exec(`
+        ALTER TABLE historico_vendas ADD COLUMN referencia TEXT;
+        ALTER TABLE historico_vendas ADD COLUMN status TEXT NOT NULL DEFAULT 'FINALIZADA';
+        ALTER TABLE historico_vendas ADD COLUMN cancelada_em TEXT;
+      `);
+    }
+
+    // Históricos criados antes da consulta e reimpressão
+    if (!colunas.some((coluna: any) => coluna.name === 'comprovante')) {
+      await this.db.exec(`
+        ALTER TABLE historico_vendas ADD COLUMN cliente_nome TEXT;
+        ALTER TABLE historico_vendas ADD COLUMN comprovante TEXT;
+      `);
+    }
+
+    // Históricos criados antes do estorno de pontos no cancelamento
+    if (!colunas.some((coluna: any) => coluna.name === 'fidelidade_json')) {
+      await this.db.exec('ALTER TABLE historico_vendas ADD COLUMN fidelidade_json TEXT');
+    }
+
+    // Históricos criados antes do id da API nas vendas offline
+    if (!colunas.some((coluna: any) => coluna.name === 'venda_id_servidor')) {
+      await this.db.exec('ALTER TABLE historico_vendas ADD COLUMN venda_id_servidor INTEGER');
+    }
+
+    await this.db.exec('CREATE INDEX IF NOT EXISTS idx_historico_vendas_data ON historico_vendas(data_venda)');
+    await this.purgeExpired();
+  }
+
+  // Vendas além do prazo configurado saem do histórico (a fila de sincronização é separada)
+  async purgeExpired(): Promise<number> {
+    if (this.retencaoDias <= 0) return 0;
+
+    const limite = new Date(Date.now() - this.retencaoDias * 24 * 60 * 60 * 1000).toISOString();
+    const resultado = await this.db.run('DELETE FROM historico_vendas WHERE data_venda < ?', [limite]);
+    const removidas = resultado.changes || 0;
+
+    if (removidas > 0) {
+      this.logger.info('SALE_HISTORY', `${removidas} venda(s) com mais de ${this.retencaoDias} dias removidas do histórico`);
+    }
+
+    return removidas;
+  }
+
+  // Guarda a venda recém-registrada com o valor líquido de cada linha
+  async record(
+    venda: Sale,
+    vendaData: {
+      items: any[];
+      valor_desconto_venda?: number;
+      turno_id?: number;
+      cliente_id?: number | null;
+      operador_codigo?: string;
+      fidelidade?: SaleLoyalty | null;
+    }
+  ): Promise<void> {
+    const itens = this.toHistoryItems(vendaData.items, vendaData.valor_desconto_venda || 0);
+    const cliente = vendaData.cliente_id ? await this.cache.findCustomer('id', vendaData.cliente_id) : null;
+
+    await this.db.run(`
+      INSERT OR REPLACE INTO historico_vendas (
+        id, numero_venda, turno_id, data_venda, total, itens_json, pagamentos_json,
+        cliente_id, operador_codigo, sincronizado, referencia, cliente_nome, comprovante, fidelidade_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      venda.id,
+      venda.numero_venda ?? venda.id,
+      vendaData.turno_id ?? null,
+      this.normalizeDate(venda.data_venda),
+      venda.total,
+      JSON.stringify(itens),
+      JSON.stringify(venda.pagamentos || []),
+      vendaData.cliente_id ?? null,
+      vendaData.operador_codigo ?? null,
+      venda.sincronizado !== false,
+      venda.referencia ?? null,
+      cliente?.nome ?? null,
+      venda.comprovante ?? null,
+      vendaData.fidelidade ? JSON.stringify(vendaData.fidelidade) : null
+    ]);
+  }
+
+  // Busca pelo número da venda ou pelo código de barras do cupom; fora do histórico tenta a API
+  async find(termo: string): Promise<SaleHistoryRecord | null> {
+    const numero = this.parseSaleNumber(termo);
+
+    const registro = await this.db.get(`
+      SELECT * FROM historico_vendas
+      WHERE numero_venda = ? OR id = ?
+      ORDER BY data_venda DESC
+      LIMIT 1
+    `, [numero, numero]);
+
+    if (registro) return this.toRecord(registro);
+
+    const vendaApi = await this.apiService.fetchSale(numero);
+    if (!vendaApi) return null;
+
+    const venda = this.fromApi(vendaApi);
+    await this.db.run(`
+      INSERT OR REPLACE INTO historico_vendas (
+        id, numero_venda, turno_id, data_venda, total, itens_json, pagamentos_json,
+        cliente_id, operador_codigo, sincronizado, referencia, status, cliente_nome, fidelidade_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, true, ?, ?, ?, ?)
+    `, [
+      venda.id,
+      venda.numero_venda,
+      venda.turno_id,
+      venda.data_venda,
+      venda.total,
+      JSON.stringify(venda.itens),
+      JSON.stringify(venda.pagamentos),
+      venda.cliente_id,
+      venda.operador_codigo,
+      venda.referencia,
+      venda.status,
+      venda.cliente_nome,
+      venda.fidelidade ? JSON.stringify(venda.fidelidade) : null
+    ]);
+
+    this.logger.info('SALE_HISTORY', `Venda ${venda.numero_venda} obtida da API para o histórico local`);
+    return venda;
+  }
+
+  async findById(id: number): Promise<SaleHistoryRecord | null> {
+    const registro = await this.db.get('SELECT * FROM historico_vendas WHERE id = ?', [id]);
+    return registro ? this.toRecord(registro) : null;
+  }
+
+  // Consulta da tela de histórico; produto filtrado nos itens já lidos (código exato ou parte da descrição)
+  async search(filtros: SaleHistoryFilter): Promise<SaleHistoryRecord[]> {
+    const condicoes: string[] = [];
+    const parametros: any[] = [];
+
+    if (filtros.data_inicio) {
+      condicoes.push('data_venda >= ?');
+      parametros.push(this.parseFilterDate(filtros.data_inicio, 0).toISOString());
+    }
+
+    if (filtros.data_fim) {
+      condicoes.push('data_venda < ?');
+      parametros.push(this.parseFilterDate(filtros.data_fim, 1).toISOString());
+    }
+
+    if (typeof filtros.valor_min === 'number' && !isNaN(filtros.valor_min)) {
+      condicoes.push('total >= ?');
+      parametros.push(filtros.valor_min);
+    }
+
+    if (typeof filtros.valor_max === 'number' && !isNaN(filtros.valor_max)) {
+      condicoes.push('total <= ?');
+      parametros.push(filtros.valor_max);
+    }
+
+    if (filtros.numero && filtros.numero.trim()) {
+      condicoes.push('numero_venda = ?');
+      parametros.push(this.parseSaleNumber(filtros.numero));
+    }
+
+    const produto = (filtros.produto || '').trim().toUpperCase();
+    if (produto) {
+      // Pré-filtro grosseiro no JSON; a conferência exata é feita nos itens
+      condicoes.push('UPPER(itens_json) LIKE ?');
+      parametros.push(`%${produto}%`);
+    }
+
+    const registros = await this.db.all(`
+      SELECT * FROM historico_vendas
+      ${condicoes.length > 0 ? `WHERE ${condicoes.join(' AND ')}` : ''}
+      ORDER BY data_venda DESC
+      LIMIT ?
+    `, [...parametros, SEARCH_LIMIT]);
+
+    const vendas = registros.map(registro => this.toRecord(registro));
+    if (!produto) return vendas;
+
+    return vendas.filter(venda => venda.itens.some(item =>
+      item.codigo.toUpperCase() === produto || item.descricao.toUpperCase().includes(produto)));
+  }
+
+  // Cupom gravado na venda (null para vendas trazidas da API)
+  async getReceipt(id: number): Promise<string | null> {
+    const registro = await this.db.get('SELECT comprovante FROM historico_vendas WHERE id = ?', [id]);
+    return registro?.comprovante ?? null;
+  }
+
+  // Cancelamento de cupom do turno: venda na fila só sai da fila; já sincronizada gera cancelamento na API
+  async cancelSale(
+    venda: SaleHistoryRecord,
+    turno: Shift,
+    operador: Operator,
+    supervisor: { codigo: string; autorizacaoId: number },
+    motivo: string
+  ): Promise<SaleCancellation> {
+    if (venda.status === 'CANCELADA') {
+      throw new Error(`Venda ${venda.numero_venda} já está cancelada`);
+    }
+
+    if (venda.turno_id !== turno.id) {
+      throw new Error('Só é possível cancelar cupons do turno atual');
+    }
+
+    if (venda.itens.some(item => item.quantidade_devolvida > 0)) {
+      throw new Error('Venda com devolução registrada não pode ser cancelada');
+    }
+
+    if (!motivo || !motivo.trim()) {
+      throw new Error('Informe o motivo do cancelamento');
+    }
+
+    const createdAt = new Date().toISOString();
+    const pendente = venda.referencia ? await this.cache.cancelPendingSale(venda.referencia) : false;
+    let sincronizado = false;
+
+    if (!pendente) {
+      const referencia = crypto.randomUUID();
+      // Venda offline já sincronizada é conhecida na API pelo id que a API atribuiu
+      const vendaId = venda.venda_id_servidor ?? venda.id;
+      sincronizado = await this.apiService.sendOrQueue('CANCELAMENTO_VENDA', `/vendas/${vendaId}/cancelamento`, {
+        caixaId: turno.caixa_id,
+        turnoId: turno.id,
+        referencia,
+        vendaId,
+        numeroVenda: venda.numero_venda,
+        referenciaVenda: venda.referencia,
+        motivo: motivo.trim(),
+        operadorId: operador.id,
+        operadorCodigo: operador.codigo,
+        supervisorCodigo: supervisor.codigo,
+        autorizacaoId: supervisor.autorizacaoId,
+        dataHora: createdAt
+      });
+
+      // Compra no crédito da loja já lançada na conta é estornada
+      const contaCliente = venda.pagamentos.find(pagamento => pagamento.tipo === 'CREDITO_LOJA');
+      if (contaCliente && venda.cliente_id) {
+        await this.cache.addStoreCreditMovement(venda.cliente_id, referencia, 'ESTORNO', -contaCliente.valor, sincronizado);
+      }
+
+      // Pontos da venda voltam: acúmulo sai do saldo e resgate é devolvido ao cliente
+      if (venda.fidelidade) {
+        const movimentos: Array<{ tipo: 'ACUMULO' | 'RESGATE'; pontos: number }> = [];
+        if (venda.fidelidade.pontos_acumulados > 0) {
+          movimentos.push({ tipo: 'ACUMULO', pontos: -venda.fidelidade.pontos_acumulados });
+        }
+        if (venda.fidelidade.pontos_resgatados > 0) {
+          movimentos.push({ tipo: 'RESGATE', pontos: venda.fidelidade.pontos_resgatados });
+        }
+        if (movimentos.length > 0) {
+          await this.cache.addLoyaltyPoints(venda.fidelidade.cliente_id, referencia, movimentos, sincronizado);
+        }
+      }
+    }
+
+    // Mercadoria do cupom volta ao estoque do cache
+    for (const item of venda.itens) {
+      await this.cache.adjustStock(item.codigo, item.quantidade);
+    }
+
+    await this.db.run(`
+      UPDATE historico_vendas SET status = 'CANCELADA', cancelada_em = ? WHERE id = ?
+    `, [createdAt, venda.id]);
+
+    this.logger.info('SALE_HISTORY', `Cupom ${venda.numero_venda} cancelado`, {
+      motivo: motivo.trim(),
+      supervisor: supervisor.codigo,
+      pendente,
+      sincronizado
+    });
+
+    return {
+      venda_id: venda.id,
+      numero_venda: venda.numero_venda,
+      turno_id: turno.id,
+      total: venda.total,
+      motivo: motivo.trim(),
+      operador: operador.codigo,
+      supervisor: supervisor.codigo,
+      created_at: createdAt,
+      pendente,
+      sincronizado: pendente || sincronizado
+    };
+  }
+
+  // Soma as quantidades devolvidas nas linhas da venda original
+  async addReturnedQuantities(vendaId: number, itens: SaleReturnItem[]): Promise<void> {
+    const venda = await this.findById(vendaId);
+    if (!venda) return;
+
+    const atualizados = venda.itens.map(item => {
+      const devolvido = itens
+        .filter(devolucao => devolucao.sequencia === item.sequencia)
+        .reduce((soma, devolucao) => soma + devolucao.quantidade, 0);
+
+      return devolvido > 0
+        ? { ...item, quantidade_devolvida: Math.round((item.quantidade_devolvida + devolvido) * 1000) / 1000 }
+        : item;
+    });
+
+    await this.db.run('UPDATE historico_vendas SET itens_json = ? WHERE id = ?', [JSON.stringify(atualizados), vendaId]);
+  }
+
+  // Datas gravadas em ISO (UTC) para que a ordenação e os filtros comparem texto
+  private normalizeDate(data: string): string {
+    const convertida = new Date(data);
+    return isNaN(convertida.getTime()) ? data : convertida.toISOString();
+  }
+
+  private parseFilterDate(data: string, diasAdicionais: number): Date {
+    const [ano, mes, dia] = data.split('-').map(Number);
+    const convertida = new Date(ano, (mes || 1) - 1, (dia || 1) + diasAdicionais);
+
+    if (!ano || isNaN(convertida.getTime())) {
+      throw new Error(`Data inválida: ${data}`);
+    }
+
+    return convertida;
+  }
+
+  private parseSaleNumber(termo: string): number {
+    const codigo = String(termo || '').trim().replace(/^\*|\*$/g, '').toUpperCase();
+    const semPrefixo = codigo.startsWith(RECEIPT_BARCODE_PREFIX) ? codigo.slice(RECEIPT_BARCODE_PREFIX.length) : codigo;
+
+    if (!/^\d+$/.test(semPrefixo)) {
+      throw new Error('Informe o número da venda ou leia o código de barras do cupom');
+    }
+
+    return Number(semPrefixo);
+  }
+
+  // Desconto na venda rateado pelas linhas (sobra de centavos na última)
+  private toHistoryItems(items: any[], descontoVenda: number): SaleHistoryItem[] {
+    const liquidos = netLineCents(items, descontoVenda);
+
+    return items.map((item, index) => ({
+      sequencia: item.sequencia ?? index + 1,
+      codigo: item.codigo,
+      descricao: item.descricao || '',
+      quantidade: item.quantidade,
+      unidade: item.unidade || 'UN',
+      preco_unitario: item.preco_unitario,
+      valor_total: fromCents(liquidos[index]),
+      quantidade_devolvida: 0,
+      ...(item.valor_etiqueta !== undefined && item.valor_etiqueta !== null ? { valor_etiqueta: item.valor_etiqueta } : {}),
+      ...(item.tributos ? { tributos: item.tributos } : {})
+    }));
+  }
+
+  // Venda no formato enviado à API (POST /vendas)
+  private fromApi(venda: any): SaleHistoryRecord {
+    const itens = (venda.items || venda.itens || []).map((item: any) => ({
+      sequencia: item.sequencia,
+      codigo: item.codigo,
+      descricao: item.descricao || '',
+      quantidade: item.quantidade,
+      unidade: item.unidade || 'UN',
+      preco_unitario: item.precoUnitario ?? item.preco_unitario,
+      valor_desconto: item.desconto ?? item.valor_desconto ?? 0,
+      valor_promocao: item.descontoPromocao ?? item.valor_promocao ?? 0,
+      valor_etiqueta: item.valorEtiqueta ?? item.valor_etiqueta
+    }));
+    const devolvidas: Record<number, number> = {};
+    for (const item of venda.items || venda.itens || []) {
+      devolvidas[item.sequencia] = item.quantidadeDevolvida ?? item.quantidade_devolvida ?? 0;
+    }
+
+    return {
+      id: venda.id,
+      numero_venda: venda.numero_venda ?? venda.numeroVenda ?? venda.id,
+      turno_id: venda.turnoId ?? venda.turno_id ?? null,
+      data_venda: this.normalizeDate(venda.data_venda ?? venda.dataVenda),
+      total: venda.total,
+      itens: this.toHistoryItems(itens, venda.descontoVenda?.valorDesconto ?? 0)
+        .map(item => ({ ...item, quantidade_devolvida: devolvidas[item.sequencia] || 0 })),
+      pagamentos: (venda.pagamentos || []) as SalePayment[],
+      cliente_id: venda.contaCliente?.clienteId ?? venda.fidelidade?.clienteId ?? null,
+      cliente_nome: venda.clienteNome ?? venda.contaCliente?.clienteNome ?? venda.fidelidade?.clienteNome ?? null,
+      operador_codigo: venda.operadorCodigo ?? null,
+      sincronizado: true,
+      referencia: venda.referencia ?? null,
+      status: venda.status === 'CANCELADA' ? 'CANCELADA' : 'FINALIZADA',
+      fidelidade: venda.fidelidade ? {
+        cliente_id: venda.fidelidade.clienteId,
+        cliente_nome: venda.fidelidade.clienteNome ?? '',
+        referencia: venda.fidelidade.referencia,
+        pontos_acumulados: venda.fidelidade.pontosAcumulados || 0,
+        pontos_resgatados: venda.fidelidade.pontosResgatados || 0
+      } : null,
+      venda_id_servidor: null
+    };
+  }
+
+  private toRecord(registro: any): SaleHistoryRecord {
+    return {
+      id: registro.id,
+      numero_venda: registro.numero_venda,
+      turno_id: registro.turno_id,
+      data_venda: registro.data_venda,
+      total: registro.total,
+      itens: JSON.parse(registro.itens_json),
+      pagamentos: JSON.parse(registro.pagamentos_json),
+      cliente_id: registro.cliente_id,
+      cliente_nome: registro.cliente_nome ?? null,
+      operador_codigo: registro.operador_codigo,
+      sincronizado: Boolean(registro.sincronizado),
+      referencia: registro.referencia,
+      status: registro.status,
+      fidelidade: registro.fidelidade_json ? JSON.parse(registro.fidelidade_json) : null,
+      venda_id_servidor: registro.venda_id_servidor ?? null
+    };
+  }
+}
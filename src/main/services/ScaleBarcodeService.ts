@@ -0,0 +1,101 @@
+// ================================
+// ScaleBarcodeService.ts - Etiquetas de Balança (EAN-13 de peso variável)
+// ================================
+
+import type { ScaleBarcode, ScaleBarcodeMode } from '../types/NetworkTypes';
+
+export interface ScaleBarcodeConfig {
+  prefixos: string[];
+  modo: ScaleBarcodeMode;
+  digitosPlu: number;
+}
+
+// Etiqueta lida, antes de conhecer o preço do produto (valor em R$ ou KG conforme o modo)
+export interface ScaleLabel {
+  codigo_barras: string;
+  plu: string;
+  modo: ScaleBarcodeMode;
+  valor: number;
+}
+
+// Os 5 dígitos antes do verificador trazem o valor: centavos (PRECO) ou gramas (PESO)
+const VALUE_DIGITS = 5;
+
+// Valor bruto da linha em centavos: etiqueta com preço embutido vale o preço impresso
+export function itemGrossCents(item: { quantidade: number; preco_unitario: number; valor_etiqueta?: number | null }): number {
+  if (item.valor_etiqueta !== undefined && item.valor_etiqueta !== null) {
+    return Math.round(item.valor_etiqueta * 100);
+  }
+
+  return Math.round(item.quantidade * item.preco_unitario * 100);
+}
+
+export class ScaleBarcodeService {
+  private config: ScaleBarcodeConfig;
+
+  constructor(config: ScaleBarcodeConfig) {
+    const prefixoMaior = Math.max(0, ...config.prefixos.map(prefixo => prefixo.length));
+    if (prefixoMaior + config.digitosPlu > 12 - VALUE_DIGITS) {
+      throw new Error(`Configuração de balança inválida: prefixo (${prefixoMaior}) + PLU (${config.digitosPlu}) excede 7 dígitos`);
+    }
+
+    this.config = config;
+  }
+
+  // Dígito verificador EAN-13 (pesos 1 e 3 alternados)
+  static isValidEan13(codigo: string): boolean {
+    if (!/^\d{13}$/.test(codigo)) return false;
+
+    const soma = codigo
+      .slice(0, 12)
+      .split('')
+      .reduce((total, digito, index) => total + Number(digito) * (index % 2 === 0 ? 1 : 3), 0);
+
+    return (10 - (soma % 10)) % 10 === Number(codigo[12]);
+  }
+
+  // null quando o código não é uma etiqueta de balança válida
+  decode(codigo: string): ScaleLabel | null {
+    const prefixo = this.config.prefixos.find(p => codigo.startsWith(p));
+    if (!prefixo || !ScaleBarcodeService.isValidEan13(codigo)) return null;
+
+    const plu = codigo.substr(prefixo.length, this.config.digitosPlu);
+    const valorBruto = parseInt(codigo.substr(12 - VALUE_DIGITS, VALUE_DIGITS), 10);
+
+    return {
+      codigo_barras: codigo,
+      plu,
+      modo: this.config.modo,
+      valor: this.config.modo === 'PRECO' ? valorBruto / 100 : valorBruto / 1000
+    };
+  }
+
+  // Quantidade em KG (3 casas) a partir do preço por KG do produto
+  apply(etiqueta: ScaleLabel, precoKg: number): ScaleBarcode {
+    if (!(etiqueta.valor > 0)) {
+      throw new Error(`Etiqueta de balança ${etiqueta.codigo_barras} sem ${etiqueta.modo === 'PRECO' ? 'valor' : 'peso'}`);
+    }
+
+    if (etiqueta.modo === 'PESO') {
+      return {
+        codigo_barras: etiqueta.codigo_barras,
+        plu: etiqueta.plu,
+        modo: 'PESO',
+        quantidade: etiqueta.valor,
+        valor_total: null
+      };
+    }
+
+    if (!(precoKg > 0)) {
+      throw new Error(`Produto do PLU ${etiqueta.plu} sem preço por KG - não é possível calcular o peso`);
+    }
+
+    return {
+      codigo_barras: etiqueta.codigo_barras,
+      plu: etiqueta.plu,
+      modo: 'PRECO',
+      quantidade: Math.round((etiqueta.valor / precoKg) * 1000) / 1000,
+      valor_total: etiqueta.valor
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { cashKeptCents, expectedCashCents } from './ShiftService';
+
+describe('cashKeptCents', () => {
+  it('soma o recebido menos o troco só dos pagamentos em dinheiro', () => {
+    expect(cashKeptCents([
+      { tipo: 'DINHEIRO', valor_recebido: 50, troco: 12.35 },
+      { tipo: 'PIX', valor_recebido: 20, troco: 0 },
+      { tipo: 'DINHEIRO', valor_recebido: 10.1, troco: 0.2 }
+    ])).toBe(4755);
+  });
+
+  it('não acumula erro de ponto flutuante', () => {
+    const pagamentos = Array.from({ length: 10 }, () => ({ tipo: 'DINHEIRO', valor_recebido: 0.1, troco: 0 }));
+    expect(cashKeptCents(pagamentos)).toBe(100);
+  });
+
+  it('sem pagamentos em dinheiro é zero', () => {
+    expect(cashKeptCents([])).toBe(0);
+    expect(cashKeptCents([{ tipo: 'CARTAO_CREDITO', valor_recebido: 30, troco: 0 }])).toBe(0);
+  });
+});
+
+describe('expectedCashCents', () => {
+  it('fundo + vendas + recebimentos + suprimentos - sangrias - devoluções em dinheiro', () => {
+    expect(expectedCashCents({
+      fundo: 10000,
+      vendas: 4755,
+      recebimentos: 2000,
+      suprimentos: 5000,
+      sangrias: 8000,
+      devolucoes: 1250
+    })).toBe(12505);
+  });
+
+  it('turno sem movimento espera o fundo de troco', () => {
+    expect(expectedCashCents({ fundo: 15000, vendas: 0, recebimentos: 0, suprimentos: 0, sangrias: 0, devolucoes: 0 }))
+      .toBe(15000);
+  });
+});
@@ -0,0 +1,636 @@
+// ================================
+// ShiftService.ts - Abertura e Fechamento de Caixa
+// ================================
+
+import { Database } from 'sqlite';
+import { PdvApiService } from './PdvApiService';
+import { LogService } from './LogService';
+import type {
+  CashCount,
+  CashMovement,
+  CashMovementType,
+  DrawerOpening,
+  DrawerOpeningReason,
+  Operator,
+  PaymentType,
+  SalePayment,
+  SaleReturn,
+  Shift,
+  ShiftReport,
+  StoreCreditPayment
+} from '../types/NetworkTypes';
+
+// Cédulas e moedas aceitas na contagem cega do fechamento
+export const CASH_DENOMINATIONS: number[] = [
+  200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05
+];
+
+// Cálculos de caixa sempre em centavos para evitar erros de ponto flutuante
+const toCents = (value: number): number => Math.round((value || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+// Dinheiro que ficou na gaveta por pagamentos em dinheiro: recebido menos troco devolvido
+export function cashKeptCents(pagamentos: Array<{ tipo: string; valor_recebido: number; troco: number }>): number {
+  return pagamentos
+    .filter(pagamento => pagamento.tipo === 'DINHEIRO')
+    .reduce((soma, pagamento) => soma + toCents(pagamento.valor_recebido) - toCents(pagamento.troco), 0);
+}
+
+// Dinheiro esperado na gaveta no fechamento (valores em centavos)
+export function expectedCashCents(valores: {
+  fundo: number;
+  vendas: number;
+  recebimentos: number;
+  suprimentos: number;
+  sangrias: number;
+  devolucoes: number;
+}): number {
+  return valores.fundo + valores.vendas + valores.recebimentos + valores.suprimentos - valores.sangrias - valores.devolucoes;
+}
+
+export class ShiftService {
+  private apiService: PdvApiService;
+  private logger: LogService;
+  private caixaId: string;
+
+  constructor(apiService: PdvApiService, caixaId: string) {
+    this.apiService = apiService;
+    this.caixaId = caixaId;
+    this.logger = LogService.getInstance();
+  }
+
+  private get db(): Database {
+    return this.apiService.getCache().getDatabase();
+  }
+
+  async initialize(): Promise<void> {
+    await this.createShiftSchema();
+
+    const turno = await this.getOpenShift();
+    if (turno) {
+      this.logger.info('SHIFT', `Turno ${turno.id} em aberto desde ${turno.aberto_em} (${turno.operador})`);
+    } else {
+      this.logger.info('SHIFT', 'Nenhum turno aberto - aguardando abertura de caixa');
+    }
+  }
+
+  private async createShiftSchema(): Promise<void> {
+    await this.db.exec(`
+      -- Turnos de caixa
+      CREATE TABLE IF NOT EXISTS turnos_caixa (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        caixa_id TEXT NOT NULL,
+        operador TEXT NOT NULL,
+        fundo_troco REAL NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'ABERTO', -- 'ABERTO', 'FECHADO'
+        aberto_em TEXT NOT NULL,
+        fechado_em TEXT,
+        contagem_json TEXT,
+        valor_contado REAL,
+        valor_esperado REAL,
+        diferenca REAL,
+        observacao TEXT
+      );
+
+      -- Pagamentos recebidos em cada turno (base do valor esperado)
+      CREATE TABLE IF NOT EXISTS turno_pagamentos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL REFERENCES turnos_caixa(id),
+        venda_id INTEGER NOT NULL,
+        tipo TEXT NOT NULL,
+        valor REAL NOT NULL,
+        valor_recebido REAL NOT NULL DEFAULT 0,
+        troco REAL NOT NULL DEFAULT 0,
+        cancelado BOOLEAN DEFAULT false,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Sangrias e suprimentos do turno
+      CREATE TABLE IF NOT EXISTS movimentos_caixa (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL REFERENCES turnos_caixa(id),
+        tipo TEXT NOT NULL, -- 'SANGRIA', 'SUPRIMENTO'
+        valor REAL NOT NULL,
+        motivo TEXT NOT NULL,
+        operador TEXT NOT NULL, -- código do operador logado
+        supervisor TEXT NOT NULL, -- código do supervisor que autorizou
+        autorizacao_id INTEGER, -- auditoria_autorizacoes
+        created_at TEXT NOT NULL,
+        sincronizado BOOLEAN DEFAULT false
+      );
+
+      -- Recebimentos de conta de clientes (crédito na loja) no turno
+      CREATE TABLE IF NOT EXISTS turno_recebimentos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL REFERENCES turnos_caixa(id),
+        referencia TEXT NOT NULL,
+        cliente_id INTEGER NOT NULL,
+        cliente_nome TEXT NOT NULL,
+        tipo TEXT NOT NULL,
+        valor REAL NOT NULL,
+        valor_recebido REAL NOT NULL,
+        troco REAL NOT NULL DEFAULT 0,
+        saldo_devedor REAL NOT NULL,
+        operador TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        sincronizado BOOLEAN DEFAULT false
+      );
+
+      -- Reembolsos das devoluções do turno (vale-troca não sai da gaveta)
+      CREATE TABLE IF NOT EXISTS turno_devolucoes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL REFERENCES turnos_caixa(id),
+        referencia TEXT NOT NULL,
+        tipo TEXT NOT NULL, -- forma de pagamento ou 'VALE_TROCA'
+        valor REAL NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Aberturas da gaveta de dinheiro (auditoria; sem venda aparecem no fechamento)
+      CREATE TABLE IF NOT EXISTS aberturas_gaveta (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turno_id INTEGER NOT NULL REFERENCES turnos_caixa(id),
+        motivo TEXT NOT NULL, -- 'VENDA', 'RECEBIMENTO_CONTA', 'DEVOLUCAO', 'CANCELAMENTO', 'SANGRIA', 'SUPRIMENTO', 'SEM_VENDA'
+        referencia TEXT,
+        observacao TEXT,
+        operador TEXT NOT NULL,
+        autorizado_por TEXT,
+        aberta BOOLEAN NOT NULL DEFAULT true,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_aberturas_gaveta_turno ON aberturas_gaveta(turno_id);
+      CREATE INDEX IF NOT EXISTS idx_movimentos_caixa_turno ON movimentos_caixa(turno_id);
+      CREATE INDEX IF NOT EXISTS idx_turno_devolucoes_turno ON turno_devolucoes(turno_id);
+      CREATE INDEX IF NOT EXISTS idx_turno_recebimentos_turno ON turno_recebimentos(turno_id);
+      CREATE INDEX IF NOT EXISTS idx_turnos_caixa_status ON turnos_caixa(caixa_id, status);
+      CREATE INDEX IF NOT EXISTS idx_turno_pagamentos_turno ON turno_pagamentos(turno_id);
+    `);
+
+    // Turnos criados antes do cancelamento de cupom
+    const colunas = await this.db.all('PRAGMA table_info(turno_pagamentos)');
+    if (!colunas.some((coluna: any) => coluna.name === 'cancelado')) {
+      await this.db.exec('ALTER TABLE turno_pagamentos ADD COLUMN cancelado BOOLEAN DEFAULT false');
+    }
+
+    // Movimentos registrados antes da autorização do supervisor por PIN/crachá
+    const colunasMovimentos = await this.db.all('PRAGMA table_info(movimentos_caixa)');
+    if (!colunasMovimentos.some((coluna: any) => coluna.name === 'autorizacao_id')) {
+      await this.db.exec('ALTER TABLE movimentos_caixa ADD COLUMN autorizacao_id INTEGER');
+    }
+  }
+
+  async getOpenShift(): Promise<Shift | null> {
+    const turno = await this.db.get(`
+      SELECT id, caixa_id, operador, fundo_troco, status, aberto_em
+      FROM turnos_caixa
+      WHERE caixa_id = ? AND status = 'ABERTO'
+      ORDER BY id DESC
+      LIMIT 1
+    `, [this.caixaId]);
+
+    return turno || null;
+  }
+
+  async requireOpenShift(): Promise<Shift> {
+    const turno = await this.getOpenShift();
+
+    if (!turno) {
+      this.logger.warn('SHIFT', 'Operacao bloqueada - caixa fechado');
+      throw new Error('Caixa fechado. Faça a abertura do caixa antes de registrar vendas');
+    }
+
+    return turno;
+  }
+
+  async openShift(operador: string, fundoTroco: number): Promise<Shift> {
+    if (!operador || typeof operador !== 'string' || !operador.trim()) {
+      throw new Error('Operador é obrigatório para abrir o caixa');
+    }
+
+    if (typeof fundoTroco !== 'number' || isNaN(fundoTroco) || fundoTroco < 0) {
+      throw new Error('Fundo de troco inválido');
+    }
+
+    const turnoAberto = await this.getOpenShift();
+    if (turnoAberto) {
+      throw new Error(`Já existe um caixa aberto por ${turnoAberto.operador} desde ${turnoAberto.aberto_em}`);
+    }
+
+    const result = await this.db.run(`
+      INSERT INTO turnos_caixa (caixa_id, operador, fundo_troco, status, aberto_em)
+      VALUES (?, ?, ?, 'ABERTO', ?)
+    `, [this.caixaId, operador.trim(), fromCents(toCents(fundoTroco)), new Date().toISOString()]);
+
+    const turno = await this.getShiftById(result.lastID!);
+    this.logger.info('SHIFT', `Caixa aberto - turno ${turno.id}`, {
+      operador: turno.operador,
+      fundo_troco: turno.fundo_troco
+    });
+
+    return turno;
+  }
+
+  // Registrar os pagamentos de uma venda no turno aberto
+  async registerSale(turnoId: number, vendaId: number, pagamentos: SalePayment[]): Promise<void> {
+    for (const pagamento of pagamentos) {
+      await this.db.run(`
+        INSERT INTO turno_pagamentos (turno_id, venda_id, tipo, valor, valor_recebido, troco)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        turnoId,
+        vendaId,
+        pagamento.tipo,
+        pagamento.valor,
+        pagamento.valorRecebido ?? pagamento.valor,
+        pagamento.troco ?? 0
+      ]);
+    }
+  }
+
+  // Cupom cancelado sai dos totais do turno (dinheiro da venda volta ao cliente)
+  async cancelSale(turnoId: number, vendaId: number): Promise<void> {
+    await this.db.run(`
+      UPDATE turno_pagamentos SET cancelado = true
+      WHERE turno_id = ? AND venda_id = ?
+    `, [turnoId, vendaId]);
+  }
+
+  // Recebimento de conta entra no turno (dinheiro soma ao valor esperado da gaveta)
+  async registerAccountPayment(pagamento: StoreCreditPayment): Promise<void> {
+    await this.db.run(`
+      INSERT INTO turno_recebimentos (
+        turno_id, referencia, cliente_id, cliente_nome, tipo, valor, valor_recebido, troco,
+        saldo_devedor, operador, created_at, sincronizado
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      pagamento.turno_id,
+      pagamento.referencia,
+      pagamento.cliente_id,
+      pagamento.cliente_nome,
+      pagamento.tipo,
+      pagamento.valor,
+      pagamento.valor_recebido,
+      pagamento.troco,
+      pagamento.saldo_devedor,
+      pagamento.operador,
+      pagamento.created_at,
+      pagamento.sincronizado
+    ]);
+  }
+
+  async listAccountPayments(): Promise<StoreCreditPayment[]> {
+    const turno = await this.getOpenShift();
+    if (!turno) return [];
+
+    const recebimentos: StoreCreditPayment[] = await this.db.all(`
+      SELECT turno_id, referencia, cliente_id, cliente_nome, tipo, valor, valor_recebido, troco,
+             saldo_devedor, operador, created_at, sincronizado
+      FROM turno_recebimentos
+      WHERE turno_id = ?
+      ORDER BY created_at DESC, id DESC
+    `, [turno.id]);
+
+    return recebimentos.map(r => ({ ...r, sincronizado: Boolean(r.sincronizado) }));
+  }
+
+  // Dinheiro devolvido ao cliente não pode passar do que há na gaveta (sem revelar o valor esperado)
+  async requireCashAvailable(valor: number): Promise<void> {
+    const turno = await this.requireOpenShift();
+    const resumo = await this.summarizeShift(turno);
+
+    if (toCents(valor) > toCents(resumo.valor_esperado)) {
+      throw new Error('Dinheiro em caixa insuficiente para devolver ao cliente');
+    }
+  }
+
+  async registerReturn(devolucao: SaleReturn): Promise<void> {
+    const reembolsos = devolucao.vale_troca
+      ? [{ tipo: 'VALE_TROCA', valor: devolucao.valor_total }]
+      : devolucao.reembolsos;
+
+    for (const reembolso of reembolsos) {
+      await this.db.run(`
+        INSERT INTO turno_devolucoes (turno_id, referencia, tipo, valor)
+        VALUES (?, ?, ?, ?)
+      `, [devolucao.turno_id, devolucao.referencia, reembolso.tipo, reembolso.valor]);
+    }
+  }
+
+  // Sangria/suprimento: exige motivo e autorização (PIN/crachá) de um supervisor diferente do operador logado.
+  // Conferido antes de consumir a autorização
+  async validateMovement(
+    tipo: CashMovementType,
+    valor: number,
+    motivo: string,
+    operador: Operator,
+    supervisor: { codigo: string; autorizacaoId: number }
+  ): Promise<Shift> {
+    const turno = await this.getOpenShift();
+    if (!turno) {
+      throw new Error('Caixa fechado. Abra o caixa antes de registrar sangria ou suprimento');
+    }
+
+    if (tipo !== 'SANGRIA' && tipo !== 'SUPRIMENTO') {
+      throw new Error(`Tipo de movimento inválido: ${tipo}`);
+    }
+
+    const valorCents = toCents(valor);
+    if (typeof valor !== 'number' || isNaN(valor) || valorCents <= 0) {
+      throw new Error('Valor do movimento deve ser maior que zero');
+    }
+
+    if (!motivo || !motivo.trim()) {
+      throw new Error('Informe o motivo do movimento');
+    }
+
+    if (!supervisor?.codigo || !supervisor.autorizacaoId) {
+      throw new Error('Movimento de caixa exige autorização do supervisor');
+    }
+
+    if (supervisor.codigo === operador.codigo) {
+      throw new Error('O supervisor deve ser diferente do operador do caixa');
+    }
+
+    // Não revelar o valor esperado ao operador (contagem cega)
+    if (tipo === 'SANGRIA') {
+      const resumo = await this.summarizeShift(turno);
+      if (valorCents > toCents(resumo.valor_esperado)) {
+        throw new Error('Valor da sangria maior que o dinheiro disponível em caixa');
+      }
+    }
+
+    return turno;
+  }
+
+  async registerMovement(
+    tipo: CashMovementType,
+    valor: number,
+    motivo: string,
+    operador: Operator,
+    supervisor: { codigo: string; autorizacaoId: number }
+  ): Promise<CashMovement> {
+    const turno = await this.validateMovement(tipo, valor, motivo, operador, supervisor);
+    const valorCents = toCents(valor);
+
+    const createdAt = new Date().toISOString();
+    const result = await this.db.run(`
+      INSERT INTO movimentos_caixa (turno_id, tipo, valor, motivo, operador, supervisor, autorizacao_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [turno.id, tipo, fromCents(valorCents), motivo.trim(), operador.codigo, supervisor.codigo, supervisor.autorizacaoId, createdAt]);
+
+    const movimentoId = result.lastID!;
+    const sincronizado = await this.apiService.sendOrQueue('MOVIMENTO_CAIXA', '/caixa/movimentos', {
+      caixaId: this.caixaId,
+      turnoId: turno.id,
+      movimentoId,
+      tipo,
+      valor: fromCents(valorCents),
+      motivo: motivo.trim(),
+      operadorId: operador.id,
+      operadorCodigo: operador.codigo,
+      supervisorCodigo: supervisor.codigo,
+      autorizacaoId: supervisor.autorizacaoId,
+      dataHora: createdAt
+    });
+
+    if (sincronizado) {
+      await this.db.run('UPDATE movimentos_caixa SET sincronizado = true WHERE id = ?', [movimentoId]);
+    }
+
+    const registro = await this.db.get('SELECT * FROM movimentos_caixa WHERE id = ?', [movimentoId]);
+    const movimento: CashMovement = { ...registro, sincronizado: Boolean(registro.sincronizado) };
+
+    this.logger.info('SHIFT', `${tipo} registrada no turno ${turno.id}`, {
+      valor: movimento.valor,
+      motivo: movimento.motivo,
+      supervisor: movimento.supervisor,
+      sincronizado
+    });
+
+    return movimento;
+  }
+
+  async listMovements(): Promise<CashMovement[]> {
+    const turno = await this.getOpenShift();
+    if (!turno) return [];
+
+    const movimentos: CashMovement[] = await this.db.all(`
+      SELECT * FROM movimentos_caixa
+      WHERE turno_id = ?
+      ORDER BY created_at DESC, id DESC
+    `, [turno.id]);
+
+    return movimentos.map(m => ({ ...m, sincronizado: Boolean(m.sincronizado) }));
+  }
+
+  async registerDrawerOpening(abertura: {
+    turnoId: number;
+    motivo: DrawerOpeningReason;
+    referencia?: string | null;
+    observacao?: string | null;
+    operador: string;
+    autorizadoPor?: string | null;
+    aberta: boolean;
+  }): Promise<DrawerOpening> {
+    const createdAt = new Date().toISOString();
+    const result = await this.db.run(`
+      INSERT INTO aberturas_gaveta (turno_id, motivo, referencia, observacao, operador, autorizado_por, aberta, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      abertura.turnoId,
+      abertura.motivo,
+      abertura.referencia ?? null,
+      abertura.observacao ?? null,
+      abertura.operador,
+      abertura.autorizadoPor ?? null,
+      abertura.aberta,
+      createdAt
+    ]);
+
+    this.logger.info('DRAWER', `Gaveta ${abertura.aberta ? 'aberta' : 'não abriu'} (${abertura.motivo})`, {
+      turno_id: abertura.turnoId,
+      referencia: abertura.referencia,
+      observacao: abertura.observacao,
+      operador: abertura.operador,
+      autorizado_por: abertura.autorizadoPor
+    });
+
+    const registro = await this.db.get('SELECT * FROM aberturas_gaveta WHERE id = ?', [result.lastID]);
+    return { ...registro, aberta: Boolean(registro.aberta) };
+  }
+
+  // Fechamento com contagem cega: o operador informa apenas as quantidades
+  async closeShift(contagem: CashCount, observacao?: string): Promise<ShiftReport> {
+    const turno = await this.getOpenShift();
+    if (!turno) {
+      throw new Error('Não há caixa aberto para fechar');
+    }
+
+    const valorContadoCents = this.countCash(contagem);
+    const resumo = await this.summarizeShift(turno);
+    const diferencaCents = valorContadoCents - toCents(resumo.valor_esperado);
+
+    await this.db.run(`
+      UPDATE turnos_caixa
+      SET status = 'FECHADO', fechado_em = ?, contagem_json = ?,
+          valor_contado = ?, valor_esperado = ?, diferenca = ?, observacao = ?
+      WHERE id = ?
+    `, [
+      new Date().toISOString(),
+      JSON.stringify(contagem),
+      fromCents(valorContadoCents),
+      resumo.valor_esperado,
+      fromCents(diferencaCents),
+      observacao || null,
+      turno.id
+    ]);
+
+    const report: ShiftReport = {
+      ...resumo,
+      turno: await this.getShiftById(turno.id),
+      valor_contado: fromCents(valorContadoCents),
+      diferenca: fromCents(diferencaCents),
+      contagem
+    };
+
+    const level = diferencaCents === 0 ? 'info' : 'warn';
+    this.logger[level]('SHIFT', `Caixa fechado - turno ${turno.id}`, {
+      operador: turno.operador,
+      esperado: report.valor_esperado,
+      contado: report.valor_contado,
+      diferenca: report.diferenca
+    });
+
+    return report;
+  }
+
+  private countCash(contagem: CashCount): number {
+    if (!contagem || typeof contagem !== 'object') {
+      throw new Error('Contagem de caixa é obrigatória');
+    }
+
+    let totalCents = 0;
+
+    for (const [denominacao, quantidade] of Object.entries(contagem)) {
+      const valorFace = Number(denominacao);
+
+      if (!CASH_DENOMINATIONS.includes(valorFace)) {
+        throw new Error(`Cédula/moeda inválida na contagem: ${denominacao}`);
+      }
+
+      if (!Number.isInteger(quantidade) || quantidade < 0) {
+        throw new Error(`Quantidade inválida para ${denominacao}: ${quantidade}`);
+      }
+
+      totalCents += toCents(valorFace) * quantidade;
+    }
+
+    return totalCents;
+  }
+
+  private async summarizeShift(turno: Shift): Promise<Omit<ShiftReport, 'turno' | 'valor_contado' | 'diferenca' | 'contagem'>> {
+    const registros: Array<{
+      venda_id: number; tipo: PaymentType; valor: number; valor_recebido: number; troco: number; cancelado: number
+    }> = await this.db.all(`
+        SELECT venda_id, tipo, valor, valor_recebido, troco, cancelado
+        FROM turno_pagamentos
+        WHERE turno_id = ?
+      `, [turno.id]);
+
+    const pagamentos = registros.filter(p => !p.cancelado);
+    const cancelados = registros.filter(p => p.cancelado);
+
+    const totaisCents: Partial<Record<PaymentType, number>> = {};
+    let faturamentoCents = 0;
+    const dinheiroCents = cashKeptCents(pagamentos);
+
+    for (const pagamento of pagamentos) {
+      const valorCents = toCents(pagamento.valor);
+      totaisCents[pagamento.tipo] = (totaisCents[pagamento.tipo] || 0) + valorCents;
+      faturamentoCents += valorCents;
+    }
+
+    const totaisPorForma: Partial<Record<PaymentType, number>> = {};
+    for (const [tipo, cents] of Object.entries(totaisCents)) {
+      totaisPorForma[tipo as PaymentType] = fromCents(cents as number);
+    }
+
+    const movimentos: Array<{ tipo: CashMovementType; total: number }> = await this.db.all(`
+      SELECT tipo, SUM(valor) as total
+      FROM movimentos_caixa
+      WHERE turno_id = ?
+      GROUP BY tipo
+    `, [turno.id]);
+
+    const recebimentos: Array<{ tipo: PaymentType; valor: number; valor_recebido: number; troco: number }> =
+      await this.db.all(`
+        SELECT tipo, valor, valor_recebido, troco
+        FROM turno_recebimentos
+        WHERE turno_id = ?
+      `, [turno.id]);
+
+    const recebimentosCents = recebimentos.reduce((soma, recebimento) => soma + toCents(recebimento.valor), 0);
+    const dinheiroRecebimentosCents = cashKeptCents(recebimentos);
+
+    const devolucoes: Array<{ tipo: string; total: number }> = await this.db.all(`
+      SELECT tipo, SUM(valor) as total
+      FROM turno_devolucoes
+      WHERE turno_id = ?
+      GROUP BY tipo
+    `, [turno.id]);
+
+    const devolucoesCents = devolucoes.reduce((soma, devolucao) => soma + toCents(devolucao.total), 0);
+    const dinheiroDevolucoesCents = toCents(devolucoes.find(d => d.tipo === 'DINHEIRO')?.total || 0);
+
+    const aberturas: DrawerOpening[] = (await this.db.all(`
+      SELECT * FROM aberturas_gaveta
+      WHERE turno_id = ? AND aberta = true
+      ORDER BY created_at, id
+    `, [turno.id])).map((abertura: any) => ({ ...abertura, aberta: true }));
+
+    const sangriasCents = toCents(movimentos.find(m => m.tipo === 'SANGRIA')?.total || 0);
+    const suprimentosCents = toCents(movimentos.find(m => m.tipo === 'SUPRIMENTO')?.total || 0);
+    const fundoCents = toCents(turno.fundo_troco);
+
+    return {
+      total_vendas: new Set(pagamentos.map(p => p.venda_id)).size,
+      vendas_canceladas: new Set(cancelados.map(p => p.venda_id)).size,
+      aberturas_gaveta: aberturas.length,
+      aberturas_sem_venda: aberturas.filter(abertura => abertura.motivo === 'SEM_VENDA'),
+      faturamento: fromCents(faturamentoCents),
+      totais_por_forma: totaisPorForma,
+      dinheiro_vendas: fromCents(dinheiroCents),
+      recebimentos_conta: fromCents(recebimentosCents),
+      dinheiro_recebimentos: fromCents(dinheiroRecebimentosCents),
+      total_devolucoes: fromCents(devolucoesCents),
+      dinheiro_devolucoes: fromCents(dinheiroDevolucoesCents),
+      total_sangrias: fromCents(sangriasCents),
+      total_suprimentos: fromCents(suprimentosCents),
+      fundo_troco: fromCents(fundoCents),
+      valor_esperado: fromCents(expectedCashCents({
+        fundo: fundoCents,
+        vendas: dinheiroCents,
+        recebimentos: dinheiroRecebimentosCents,
+        suprimentos: suprimentosCents,
+        sangrias: sangriasCents,
+        devolucoes: dinheiroDevolucoesCents
+      }))
+    };
+  }
+
+  private async getShiftById(id: number): Promise<Shift> {
+    const turno = await this.db.get(`
+      SELECT id, caixa_id, operador, fundo_troco, status, aberto_em, fechado_em,
+             valor_contado, valor_esperado, diferenca, observacao
+      FROM turnos_caixa
+      WHERE id = ?
+    `, [id]);
+
+    if (!turno) {
+      throw new Error(`Turno ${id} não encontrado`);
+    }
+
+    return turno;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { TaxService, roundCents, sumSaleTaxes } from './TaxService';
+import type { PdvApiService } from './PdvApiService';
+import type { Product } from '../types/NetworkTypes';
+
+const padrao = { ncm: '00000000', cfop: '5102', icms: '102', aliquotaIcms: 0, pisCofins: '07' };
+const taxService = new TaxService(null as unknown as PdvApiService, padrao);
+
+const produto = (fiscal: Partial<Product>): Product => ({
+  id: 1,
+  codigo: '789',
+  descricao: 'Produto',
+  preco: 10.05,
+  estoque: 10,
+  ativo: true,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+  ncm: '19059090',
+  cfop: '5102',
+  ...fiscal
+});
+
+describe('roundCents', () => {
+  it('arredonda meio centavo para cima sem o erro binário', () => {
+    expect(roundCents(1005 * 18 / 100)).toBe(181);
+    expect(roundCents(1.005 * 100)).toBe(101);
+    expect(roundCents(16.4999)).toBe(16);
+  });
+
+  it('é simétrico nos valores negativos (devoluções)', () => {
+    expect(roundCents(-180.5)).toBe(-181);
+    expect(roundCents(-1005 * 18 / 100)).toBe(-181);
+  });
+});
+
+describe('TaxService.calculateLine', () => {
+  it('ICMS, PIS e COFINS por alíquota sobre o líquido, cada um arredondado no centavo', () => {
+    const tributos = taxService.calculateLine(produto({
+      cst_icms: '00', aliquota_icms: 18,
+      cst_pis: '01', aliquota_pis: 1.65,
+      cst_cofins: '01', aliquota_cofins: 7.6
+    }), 1, 10.05);
+
+    expect(tributos.base_icms).toBe(10.05);
+    expect(tributos.valor_icms).toBe(1.81);
+    expect(tributos.valor_pis).toBe(0.17);
+    expect(tributos.valor_cofins).toBe(0.76);
+    expect(tributos.valor_tributos).toBe(2.74);
+  });
+
+  it('PIS/COFINS CST 03 é por quantidade vendida', () => {
+    const tributos = taxService.calculateLine(produto({
+      cst_icms: '00', aliquota_icms: 0,
+      cst_pis: '03', aliquota_pis: 0.1234,
+      cst_cofins: '03', aliquota_cofins: 0.5
+    }), 3, 12);
+
+    expect(tributos.tipo_aliquota_pis).toBe('VALOR');
+    expect(tributos.base_pis).toBe(3);
+    expect(tributos.valor_pis).toBe(0.37);
+    expect(tributos.valor_cofins).toBe(1.5);
+    expect(tributos.valor_icms).toBe(0);
+  });
+
+  it('CSOSN sem ICMS próprio e CST de PIS/COFINS isento não destacam imposto', () => {
+    const tributos = taxService.calculateLine(produto({
+      cst_icms: '102', aliquota_icms: 18,
+      cst_pis: '06', aliquota_pis: 1.65,
+      cst_cofins: '06', aliquota_cofins: 7.6
+    }), 1, 50);
+
+    expect(tributos.base_icms).toBe(0);
+    expect(tributos.aliquota_icms).toBe(0);
+    expect(tributos.valor_tributos).toBe(0);
+  });
+
+  it('produto sem cadastro fiscal usa a tributação padrão do caixa', () => {
+    const tributos = taxService.calculateLine(null, 1, 20);
+
+    expect(tributos.ncm).toBe('00000000');
+    expect(tributos.cst_icms).toBe('102');
+    expect(tributos.cst_pis).toBe('07');
+    expect(tributos.valor_tributos).toBe(0);
+  });
+});
+
+describe('sumSaleTaxes', () => {
+  it('soma as linhas já arredondadas em centavos', () => {
+    const linha = taxService.calculateLine(produto({
+      cst_icms: '00', aliquota_icms: 18,
+      cst_pis: '01', aliquota_pis: 1.65,
+      cst_cofins: '01', aliquota_cofins: 7.6
+    }), 1, 0.1);
+
+    expect(sumSaleTaxes([linha, linha, linha])).toEqual({
+      base_icms: 0.3,
+      valor_icms: 0.06,
+      valor_pis: 0,
+      valor_cofins: 0.03,
+      valor_tributos: 0.09
+    });
+  });
+});
@@ -0,0 +1,139 @@
+// ================================
+// TaxService.ts - Tributos por linha e por venda (ICMS, PIS e COFINS)
+// ================================
+
+import { PdvApiService } from './PdvApiService';
+import { netLineCents } from './SaleHistoryService';
+import type { LineTaxes, Product, SaleTaxes, TaxRateType } from '../types/NetworkTypes';
+
+// Tributação do caixa para produtos sem CST/CSOSN no cadastro
+export interface TaxDefaults {
+  ncm: string;
+  cfop: string;
+  icms: string;
+  aliquotaIcms: number;
+  pisCofins: string;
+}
+
+// Situações com ICMS próprio destacado: CST 00 e CSOSN 900 com alíquota
+const ICMS_TAXED = ['00', '900'];
+
+// Centavos arredondados meio para cima, simétrico nas devoluções; toFixed descarta o erro binário
+// (1005 x 18% = 180,9 e não 180,89999...)
+export function roundCents(centavos: number): number {
+  const arredondado = Math.round(Number(Math.abs(centavos).toFixed(6)));
+  return centavos < 0 ? -arredondado : arredondado;
+}
+
+interface Contribution {
+  tipo: TaxRateType;
+  base: number;
+  aliquota: number;
+  valorCents: number;
+}
+
+// PIS/COFINS pelo CST: 01/02 por alíquota, 03 por quantidade, 04 a 09 sem tributo, 49 a 99 conforme o cadastro
+function contribution(
+  cst: string,
+  tipoCadastro: TaxRateType,
+  aliquota: number,
+  quantidade: number,
+  liquidoCents: number
+): Contribution {
+  const codigo = Number(cst);
+  const tipo: TaxRateType = codigo === 3 ? 'VALOR' : codigo === 1 || codigo === 2 ? 'PERCENTUAL' : tipoCadastro;
+
+  if ((codigo >= 4 && codigo <= 9) || aliquota <= 0) {
+    return { tipo, base: 0, aliquota: 0, valorCents: 0 };
+  }
+
+  if (tipo === 'VALOR') {
+    return { tipo, base: quantidade, aliquota, valorCents: roundCents(quantidade * aliquota * 100) };
+  }
+
+  return { tipo, base: liquidoCents / 100, aliquota, valorCents: roundCents(liquidoCents * aliquota / 100) };
+}
+
+// Totais da venda somados em centavos a partir das linhas já arredondadas
+export function sumSaleTaxes(linhas: LineTaxes[]): SaleTaxes {
+  const soma = (valor: (linha: LineTaxes) => number): number =>
+    linhas.reduce((total, linha) => total + Math.round(valor(linha) * 100), 0) / 100;
+
+  return {
+    base_icms: soma(linha => linha.base_icms),
+    valor_icms: soma(linha => linha.valor_icms),
+    valor_pis: soma(linha => linha.valor_pis),
+    valor_cofins: soma(linha => linha.valor_cofins),
+    valor_tributos: soma(linha => linha.valor_tributos)
+  };
+}
+
+export class TaxService {
+  private apiService: PdvApiService;
+  private padrao: TaxDefaults;
+
+  constructor(apiService: PdvApiService, padrao: TaxDefaults) {
+    this.apiService = apiService;
+    this.padrao = padrao;
+  }
+
+  // Tributos da linha sobre o valor líquido; produto sem CST/CSOSN usa a tributação padrão
+  calculateLine(produto: Product | null, quantidade: number, valorLiquido: number): LineTaxes {
+    const liquidoCents = Math.round(valorLiquido * 100);
+
+    const cstIcms = produto?.cst_icms || this.padrao.icms;
+    const aliquotaIcms = produto?.cst_icms ? produto.aliquota_icms || 0 : this.padrao.aliquotaIcms;
+    const icmsTributado = ICMS_TAXED.includes(cstIcms) && aliquotaIcms > 0;
+    const valorIcmsCents = icmsTributado ? roundCents(liquidoCents * aliquotaIcms / 100) : 0;
+
+    const pis = contribution(
+      produto?.cst_pis || this.padrao.pisCofins,
+      produto?.tipo_aliquota_pis || 'PERCENTUAL',
+      produto?.cst_pis ? produto.aliquota_pis || 0 : 0,
+      quantidade,
+      liquidoCents
+    );
+    const cofins = contribution(
+      produto?.cst_cofins || this.padrao.pisCofins,
+      produto?.tipo_aliquota_cofins || 'PERCENTUAL',
+      produto?.cst_cofins ? produto.aliquota_cofins || 0 : 0,
+      quantidade,
+      liquidoCents
+    );
+
+    return {
+      ncm: produto?.ncm || this.padrao.ncm,
+      cest: produto?.cest || null,
+      cfop: produto?.cfop || this.padrao.cfop,
+      origem: produto?.origem ?? 0,
+      cst_icms: cstIcms,
+      base_icms: icmsTributado ? liquidoCents / 100 : 0,
+      aliquota_icms: icmsTributado ? aliquotaIcms : 0,
+      valor_icms: valorIcmsCents / 100,
+      cst_pis: produto?.cst_pis || this.padrao.pisCofins,
+      tipo_aliquota_pis: pis.tipo,
+      base_pis: pis.base,
+      aliquota_pis: pis.aliquota,
+      valor_pis: pis.valorCents / 100,
+      cst_cofins: produto?.cst_cofins || this.padrao.pisCofins,
+      tipo_aliquota_cofins: cofins.tipo,
+      base_cofins: cofins.base,
+      aliquota_cofins: cofins.aliquota,
+      valor_cofins: cofins.valorCents / 100,
+      valor_tributos: (valorIcmsCents + pis.valorCents + cofins.valorCents) / 100
+    };
+  }
+
+  // Cada linha da venda com o rateio do desconto na venda, e os totais para o cupom
+  async calculateSale(items: any[], descontoVenda: number): Promise<{ itens: LineTaxes[]; totais: SaleTaxes }> {
+    const liquidos = netLineCents(items, descontoVenda);
+    const itens: LineTaxes[] = [];
+
+    for (const [index, item] of items.entries()) {
+      const produto = await this.apiService.getCache().findProductByCode(item.codigo);
+      itens.push(this.calculateLine(produto, item.quantidade, liquidos[index] / 100));
+    }
+
+    return { itens, totais: sumSaleTaxes(itens) };
+  }
+}
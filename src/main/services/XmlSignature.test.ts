@@ -0,0 +1,51 @@
+import * as crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { validateXML } from 'xmllint-wasm';
+import { signXmlElement } from './XmlSignature';
+
+const NFE_NAMESPACE = 'http://www.portalfiscal.inf.br/nfe';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const certificado = {
+  chavePrivada: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  certificado: 'MIIB',
+  titular: 'TESTE',
+  validoAte: new Date('2099-12-31')
+};
+
+// Forma canônica calculada pelo libxml2, independente da montagem feita no XmlSignature
+const libxmlC14n = async (xml: string): Promise<string> => {
+  const resultado = await validateXML({ xml: [{ fileName: 'doc.xml', contents: xml }], normalization: 'c14n' });
+  // O xmllint termina a saída com uma quebra de linha que não faz parte do documento
+  return resultado.normalized.replace(/\n$/, '');
+};
+
+const sha1 = (texto: string): string => crypto.createHash('sha1').update(texto, 'utf8').digest('base64');
+
+describe('signXmlElement', () => {
+  // Elemento como o NfceXmlBuilder escreve: aspas literais no texto, & e < escapados
+  const elemento = '<infNFe Id="NFe3526" versao="4.00"><det nItem="1"><xProd>Biscoito "Maria" &amp; Cia &lt;200g&gt;</xProd></det></infNFe>';
+
+  it('digest confere com o C14N do libxml2 do elemento com o namespace herdado', async () => {
+    const canonico = await libxmlC14n(
+      `<infNFe Id="NFe3526" versao="4.00" xmlns="${NFE_NAMESPACE}"><det nItem="1">`
+      + '<xProd>Biscoito &quot;Maria&quot; &amp; Cia &lt;200g></xProd></det></infNFe>'
+    );
+
+    const { digestValue } = signXmlElement(elemento, NFE_NAMESPACE, 'NFe3526', certificado);
+
+    expect(digestValue).toBe(sha1(canonico));
+  });
+
+  it('assinatura do SignedInfo canônico confere com a chave pública', async () => {
+    const { digestValue, assinatura } = signXmlElement(elemento, NFE_NAMESPACE, 'NFe3526', certificado);
+
+    const signedInfo = assinatura.match(/<SignedInfo>.*<\/SignedInfo>/)![0];
+    const signatureValue = assinatura.match(/<SignatureValue>(.*)<\/SignatureValue>/)![1];
+    const canonico = await libxmlC14n(signedInfo.replace('<SignedInfo>', '<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">'));
+
+    expect(assinatura).toContain('<Reference URI="#NFe3526">');
+    expect(assinatura).toContain(`<DigestValue>${digestValue}</DigestValue>`);
+    expect(crypto.createVerify('RSA-SHA1').update(canonico, 'utf8').verify(publicKey, signatureValue, 'base64')).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+// ================================
+// XmlSignature.ts - Assinatura XMLDSig com certificado A1 (.pfx)
+// ================================
+
+import * as crypto from 'crypto';
+import forge from 'node-forge';
+
+const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+const C14N_ALGORITHM = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+
+export interface A1Certificate {
+  chavePrivada: string; // PEM
+  certificado: string; // DER em base64 (X509Certificate)
+  titular: string;
+  validoAte: Date;
+}
+
+// Chave privada e certificado do titular dentro do PKCS#12
+export function loadA1Certificate(pfx: Buffer, senha: string): A1Certificate {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(pfx.toString('binary')), senha);
+  } catch {
+    throw new Error('Certificado A1 inválido ou senha incorreta');
+  }
+
+  const oids = forge.pki.oids;
+  const chaves = [
+    ...(p12.getBags({ bagType: oids.pkcs8ShroudedKeyBag })[oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: oids.keyBag })[oids.keyBag] || [])
+  ];
+  const chave = chaves.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!chave) {
+    throw new Error('Certificado A1 sem chave privada');
+  }
+
+  // Certificado do titular: o que tem a mesma chave pública (os demais são da cadeia)
+  const certificados = (p12.getBags({ bagType: oids.certBag })[oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => Boolean(cert));
+  const certificado = certificados.find(cert =>
+    (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(chave.n)
+  );
+  if (!certificado) {
+    throw new Error('Certificado do titular não encontrado no arquivo A1');
+  }
+
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificado)).getBytes();
+
+  return {
+    chavePrivada: forge.pki.privateKeyToPem(chave),
+    certificado: Buffer.from(der, 'binary').toString('base64'),
+    titular: String(certificado.subject.getField('CN')?.value || ''),
+    validoAte: certificado.validity.notAfter
+  };
+}
+
+// Forma canônica de um elemento escrito sem espaços e com atributos em ordem:
+// só falta declarar o namespace herdado do elemento pai
+const canonicalize = (elemento: string, namespace: string): string =>
+  elemento.replace(/^<([\w:]+)/, `<$1 xmlns="${namespace}"`);
+
+// Assinatura envelopada (RSA-SHA1, C14N) do elemento com o Id informado, como exige o leiaute da NF-e
+export function signXmlElement(
+  elemento: string,
+  namespace: string,
+  id: string,
+  certificado: A1Certificate
+): { digestValue: string; assinatura: string } {
+  const digestValue = crypto.createHash('sha1').update(canonicalize(elemento, namespace), 'utf8').digest('base64');
+
+  const signedInfo = '<SignedInfo>'
+    + `<CanonicalizationMethod Algorithm="${C14N_ALGORITHM}"></CanonicalizationMethod>`
+    + `<SignatureMethod Algorithm="${XMLDSIG_NAMESPACE}rsa-sha1"></SignatureMethod>`
+    + `<Reference URI="#${id}">`
+    + '<Transforms>'
+    + `<Transform Algorithm="${XMLDSIG_NAMESPACE}enveloped-signature"></Transform>`
+    + `<Transform Algorithm="${C14N_ALGORITHM}"></Transform>`
+    + '</Transforms>'
+    + `<DigestMethod Algorithm="${XMLDSIG_NAMESPACE}sha1"></DigestMethod>`
+    + `<DigestValue>${digestValue}</DigestValue>`
+    + '</Reference>'
+    + '</SignedInfo>';
+
+  const signatureValue = crypto.createSign('RSA-SHA1')
+    .update(canonicalize(signedInfo, XMLDSIG_NAMESPACE), 'utf8')
+    .sign(certificado.chavePrivada, 'base64');
+
+  const assinatura = `<Signature xmlns="${XMLDSIG_NAMESPACE}">`
+    + signedInfo
+    + `<SignatureValue>${signatureValue}</SignatureValue>`
+    + `<KeyInfo><X509Data><X509Certificate>${certificado.certificado}</X509Certificate></X509Data></KeyInfo>`
+    + '</Signature>';
+
+  return { digestValue, assinatura };
+}
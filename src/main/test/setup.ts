@@ -0,0 +1,18 @@
+// ================================
+// setup.ts - Ambiente dos testes unitários (Node, fora do Electron)
+// ================================
+
+import * as os from 'os';
+import { vi } from 'vitest';
+
+// Os serviços importam o Electron e o sqlite3 (compilado para o Electron); os testes cobrem só cálculos puros
+vi.mock('electron', () => ({
+  app: {
+    getPath: () => os.tmpdir(),
+    isPackaged: false
+  }
+}));
+
+vi.mock('sqlite3', () => ({
+  Database: class {}
+}));
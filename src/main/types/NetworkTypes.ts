@@ -76,16 +76,87 @@ export interface Product {
   estoque: number;
   estoque_minimo?: number;
   categoria_id?: number;
-  unidade?: string;
+  unidade?: UnitOfMeasure | string;
   ativo: boolean;
   created_at: string;
   updated_at: string;
   caixa_origem?: string;
   sincronizado?: boolean;
+  balanca?: ScaleBarcode; // preenchido quando o código lido é etiqueta de balança
+  precos_atacado?: WholesalePrice[]; // faixas de atacarejo, da menor para a maior quantidade
+  // Dados fiscais (sem CST/CSOSN vale a tributação padrão do caixa)
+  ncm?: string | null;
+  cest?: string | null;
+  cfop?: string | null;
+  origem?: number | null; // 0 nacional ... 8 (tabela A do CST)
+  cst_icms?: string | null; // CST (2 dígitos) ou CSOSN (3 dígitos, Simples Nacional)
+  aliquota_icms?: number | null; // %
+  cst_pis?: string | null;
+  aliquota_pis?: number | null;
+  tipo_aliquota_pis?: TaxRateType | null;
+  cst_cofins?: string | null;
+  aliquota_cofins?: number | null;
+  tipo_aliquota_cofins?: TaxRateType | null;
+}
+
+// Alíquota de PIS/COFINS: percentual sobre o valor ou reais por unidade vendida
+export type TaxRateType = 'PERCENTUAL' | 'VALOR';
+
+// Tributos de uma linha sobre o valor líquido (valores arredondados no centavo)
+export interface LineTaxes {
+  ncm: string;
+  cest: string | null;
+  cfop: string;
+  origem: number;
+  cst_icms: string;
+  base_icms: number;
+  aliquota_icms: number;
+  valor_icms: number;
+  cst_pis: string;
+  tipo_aliquota_pis: TaxRateType;
+  base_pis: number; // R$ (PERCENTUAL) ou quantidade (VALOR)
+  aliquota_pis: number; // % (PERCENTUAL) ou R$ por unidade (VALOR)
+  valor_pis: number;
+  cst_cofins: string;
+  tipo_aliquota_cofins: TaxRateType;
+  base_cofins: number;
+  aliquota_cofins: number;
+  valor_cofins: number;
+  valor_tributos: number; // ICMS + PIS + COFINS
+}
+
+// Totais da venda: soma das linhas já arredondadas (como nos totais da NFC-e)
+export interface SaleTaxes {
+  base_icms: number;
+  valor_icms: number;
+  valor_pis: number;
+  valor_cofins: number;
+  valor_tributos: number;
+}
+
+// Preço de atacado: vale para a linha a partir da quantidade mínima
+export interface WholesalePrice {
+  quantidade_minima: number;
+  preco: number;
+}
+
+// Unidade de venda: UN inteira; KG, L e M aceitam frações
+export type UnitOfMeasure = 'UN' | 'KG' | 'L' | 'M';
+
+// Etiqueta de balança (EAN-13 de peso variável, prefixo 2)
+export type ScaleBarcodeMode = 'PRECO' | 'PESO';
+
+export interface ScaleBarcode {
+  codigo_barras: string;
+  plu: string;
+  modo: ScaleBarcodeMode;
+  quantidade: number; // KG, 3 casas
+  valor_total: number | null; // preço embutido na etiqueta (modo PRECO)
 }
 
 export interface Sale {
   id: number;
+  referencia?: string; // gerada no caixa; liga a venda à fila de sincronização
   numero_venda: number;
   subtotal: number;
   desconto?: number;
@@ -96,6 +167,47 @@ export interface Sale {
   caixa_id?: string;
   sincronizado?: boolean;
   items?: SaleItem[];
+  pagamentos?: SalePayment[];
+  comprovante?: string; // cupom em texto para impressão
+  fidelidade?: SaleLoyalty | null;
+  conta_cliente?: SaleStoreCredit | null;
+  tributos?: SaleTaxes | null;
+  nfce?: NfceDocument | null;
+}
+
+// NFC-e (modelo 65) gerada no caixa; em contingência off-line fica guardada até a transmissão
+// PENDENTE: aguardando envio | ENVIADA: entregue ao servidor | ERRO_VALIDACAO: reprovada nos XSD, não enviada
+export type NfceStatus = 'PENDENTE' | 'ENVIADA' | 'ERRO_VALIDACAO' | 'CANCELADA' | 'INUTILIZADA';
+
+export interface NfceDocument {
+  id: number;
+  venda_id: number;
+  serie: number;
+  numero: number;
+  chave: string;
+  tipo_emissao: 1 | 9;
+  ambiente: 1 | 2;
+  valor_total: number;
+  status: NfceStatus;
+  erros_validacao: string[];
+  created_at: string;
+  enviada_em: string | null;
+}
+
+// CPF/CNPJ do consumidor na nota (somente dígitos; CNPJ pode ser alfanumérico)
+export interface CustomerDocument {
+  tipo: 'CPF' | 'CNPJ';
+  numero: string;
+}
+
+export type PaymentType = 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS' | 'PONTOS' | 'CREDITO_LOJA';
+
+// Forma de pagamento efetivamente recebida na venda (uma venda pode ter várias)
+export interface SalePayment {
+  tipo: PaymentType;
+  valor: number;
+  valorRecebido?: number;
+  troco?: number;
 }
 
 export interface SaleItem {
@@ -109,6 +221,428 @@ export interface SaleItem {
   subtotal: number;
 }
 
+// Cliente do programa de fidelidade (cache local sincronizado da API)
+export interface Customer {
+  id: number;
+  nome: string;
+  cpf: string | null;
+  telefone: string | null;
+  pontos: number; // saldo atual, já somando os movimentos ainda não sincronizados
+  pontos_pendentes: number; // parte do saldo que ainda não chegou à API
+  valor_disponivel: number; // saldo em R$ para resgate como forma de pagamento
+  limite_credito: number; // crédito na loja (fiado); 0 = cliente sem conta
+  saldo_devedor: number; // em aberto na conta, já somando os movimentos ainda não sincronizados
+  credito_disponivel: number;
+}
+
+// Regras do programa: pontos ganhos por real pago e valor de cada ponto no resgate
+export interface LoyaltyRules {
+  pontos_por_real: number;
+  valor_ponto: number;
+}
+
+// Pontos da venda; a referência liga a venda da fila offline aos movimentos de pontos
+export interface SaleLoyalty {
+  cliente_id: number;
+  cliente_nome: string;
+  referencia: string;
+  pontos_acumulados: number;
+  pontos_resgatados: number;
+  saldo?: number; // saldo do cliente após a venda
+}
+
+// Compra na conta do cliente (forma de pagamento CREDITO_LOJA)
+export interface SaleStoreCredit {
+  cliente_id: number;
+  cliente_nome: string;
+  referencia: string;
+  valor: number;
+  saldo_devedor?: number; // saldo em aberto após a venda
+}
+
+// Recebimento de conta do cliente no caixa (abate o saldo devedor)
+export interface StoreCreditPayment {
+  referencia: string;
+  cliente_id: number;
+  cliente_nome: string;
+  turno_id: number;
+  tipo: PaymentType;
+  valor: number;
+  valor_recebido: number;
+  troco: number;
+  saldo_devedor: number; // saldo em aberto após o recebimento
+  operador: string;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface StoreCreditPaymentResult {
+  pagamento: StoreCreditPayment;
+  comprovante: string;
+}
+
+// Venda finalizada guardada no caixa (base das devoluções, inclusive offline)
+export interface SaleHistoryItem {
+  sequencia: number;
+  codigo: string;
+  descricao: string;
+  quantidade: number;
+  unidade: string;
+  preco_unitario: number;
+  valor_total: number; // líquido de descontos, promoções e rateio do desconto na venda
+  quantidade_devolvida: number;
+  valor_etiqueta?: number; // etiqueta de balança com preço embutido (valor bruto da linha)
+  tributos?: LineTaxes; // ausente em vendas trazidas da API
+}
+
+export interface SaleHistoryRecord {
+  id: number;
+  numero_venda: number;
+  turno_id: number | null;
+  data_venda: string;
+  total: number;
+  itens: SaleHistoryItem[];
+  pagamentos: SalePayment[];
+  cliente_id: number | null;
+  cliente_nome: string | null;
+  operador_codigo: string | null;
+  sincronizado: boolean;
+  referencia: string | null;
+  status: 'FINALIZADA' | 'CANCELADA';
+  fidelidade: SaleLoyalty | null; // pontos da venda (estornados no cancelamento)
+  venda_id_servidor: number | null; // id da API para a venda offline já sincronizada
+}
+
+// Filtros da consulta ao histórico local (datas em AAAA-MM-DD, horário local)
+export interface SaleHistoryFilter {
+  data_inicio?: string;
+  data_fim?: string;
+  valor_min?: number;
+  valor_max?: number;
+  numero?: string;
+  produto?: string; // código ou parte da descrição
+}
+
+// Cancelamento de cupom já finalizado no turno (autorizado pelo supervisor)
+export interface SaleCancellation {
+  venda_id: number;
+  numero_venda: number;
+  turno_id: number;
+  total: number;
+  motivo: string;
+  operador: string;
+  supervisor: string;
+  created_at: string;
+  pendente: boolean; // venda ainda na fila: só foi retirada de vendas_pendentes
+  sincronizado: boolean;
+}
+
+export interface SaleCancellationResult {
+  cancelamento: SaleCancellation;
+  comprovante: string;
+}
+
+// Devolução/troca: documento próprio ligado à venda original
+export type RefundType = 'DINHEIRO' | 'FORMA_ORIGINAL' | 'VALE_TROCA';
+
+export interface SaleReturnRequestItem {
+  sequencia: number;
+  quantidade: number;
+}
+
+export interface SaleReturnItem {
+  sequencia: number;
+  codigo: string;
+  descricao: string;
+  quantidade: number;
+  unidade: string;
+  valor: number;
+}
+
+export interface SaleReturn {
+  referencia: string;
+  venda_id: number;
+  numero_venda: number;
+  turno_id: number;
+  tipo_reembolso: RefundType;
+  itens: SaleReturnItem[];
+  valor_total: number;
+  reembolsos: SalePayment[]; // como o valor voltou ao cliente (vazio no vale-troca)
+  vale_troca: string | null;
+  operador: string;
+  supervisor: string;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface SaleReturnResult {
+  devolucao: SaleReturn;
+  comprovante: string;
+}
+
+// Operadores e permissões
+export type OperatorRole = 'OPERADOR' | 'SUPERVISOR' | 'GERENTE';
+
+export type Permission =
+  | 'product:read'
+  | 'sale:create'
+  | 'sale:cancel'
+  | 'item:remove'
+  | 'shift:open'
+  | 'shift:close'
+  | 'cash:movement'
+  | 'price:change'
+  | 'discount:override'
+  | 'item:return'
+  | 'cache:sync'
+  | 'drawer:open'
+  | 'cash:authorize'
+  | 'sale:return'
+  | 'sale:history'
+  | 'receipt:export'
+  | 'nfce:manage'
+  | 'logs:export';
+
+export interface Operator {
+  id: number;
+  codigo: string;
+  nome: string;
+  perfil: OperatorRole;
+  ativo: boolean;
+}
+
+export interface OperatorSession {
+  operador: Operator;
+  permissoes: Permission[];
+  login_em: string;
+}
+
+// Descontos (por item ou no subtotal da venda)
+export type DiscountType = 'PERCENTUAL' | 'VALOR';
+
+export interface Discount {
+  tipo: DiscountType;
+  valor: number; // percentual (0-100) ou valor em R$, conforme o tipo
+  motivo: string; // código do motivo
+  autorizacaoId?: number; // exigida acima do limite do perfil do operador
+}
+
+export interface DiscountReason {
+  codigo: string;
+  descricao: string;
+}
+
+export interface DiscountRules {
+  motivos: DiscountReason[];
+  limite_percentual: number; // limite do operador logado
+  limites: Record<OperatorRole, number>;
+}
+
+// Promoções cadastradas na retaguarda (sincronizadas e aplicadas também offline)
+export type PromotionType = 'LEVE_PAGUE' | 'FAIXA_QUANTIDADE' | 'COMBO';
+
+export interface PromotionTier {
+  quantidade_minima: number;
+  preco_unitario: number;
+}
+
+export interface PromotionComboItem {
+  codigo: string;
+  quantidade: number;
+}
+
+export interface Promotion {
+  id: number;
+  nome: string;
+  tipo: PromotionType;
+  produtos: string[]; // LEVE_PAGUE e FAIXA_QUANTIDADE: códigos cujas quantidades somam entre si
+  leve?: number;
+  pague?: number;
+  faixas?: PromotionTier[];
+  combo?: PromotionComboItem[];
+  preco_combo?: number;
+  prioridade: number; // maior prioridade consome os itens primeiro
+  inicio: string | null;
+  fim: string | null;
+}
+
+// Promoção aplicada ao carrinho, com o desconto rateado pelas linhas (sequência no cupom)
+export interface AppliedPromotion {
+  promocao_id: number;
+  nome: string;
+  tipo: PromotionType;
+  valor_desconto: number;
+  itens: Array<{ sequencia: number; codigo: string; valor_desconto: number }>;
+}
+
+// Autorização de supervisor para uma única ação restrita
+export type OverrideAction = 'ITEM_REMOVE' | 'SALE_CANCEL' | 'PRICE_CHANGE' | 'DISCOUNT' | 'ITEM_RETURN' | 'DRAWER_OPEN' | 'CASH_MOVEMENT';
+
+export type OverrideMethod = 'PIN' | 'CRACHA';
+
+export interface OverrideCredentials {
+  codigo?: string;
+  pin?: string;
+  cracha?: string;
+}
+
+export interface OverrideAuthorization {
+  id: number;
+  acao: OverrideAction;
+  metodo: OverrideMethod;
+  operador_id: number;
+  operador_codigo: string;
+  supervisor_id: number;
+  supervisor_codigo: string;
+  supervisor_nome: string;
+  detalhes: Record<string, any>;
+  created_at: string;
+  usada_em: string | null; // operação registrada com esta autorização (não vale de novo)
+  usada_referencia: string | null;
+}
+
+// Turno de caixa (abertura/fechamento)
+export type ShiftStatus = 'ABERTO' | 'FECHADO';
+
+export interface Shift {
+  id: number;
+  caixa_id: string;
+  operador: string; // código do operador que abriu o caixa
+  fundo_troco: number;
+  status: ShiftStatus;
+  aberto_em: string;
+  fechado_em?: string | null;
+  valor_contado?: number | null;
+  valor_esperado?: number | null;
+  diferenca?: number | null;
+  observacao?: string | null;
+}
+
+// Contagem cega: quantidade informada por cédula/moeda (chave = valor de face)
+export type CashCount = Record<string, number>;
+
+export interface ShiftReport {
+  turno: Shift;
+  total_vendas: number;
+  faturamento: number;
+  totais_por_forma: Partial<Record<PaymentType, number>>;
+  dinheiro_vendas: number;
+  recebimentos_conta: number; // contas de clientes recebidas no turno (todas as formas)
+  dinheiro_recebimentos: number; // parte em dinheiro que ficou na gaveta
+  total_devolucoes: number; // devoluções do turno (todas as formas de reembolso)
+  dinheiro_devolucoes: number; // devolvido em dinheiro, sai da gaveta
+  vendas_canceladas: number; // cupons cancelados depois de finalizados (fora dos totais)
+  aberturas_gaveta: number;
+  aberturas_sem_venda: DrawerOpening[]; // aberturas sem venda ou movimento que as explique
+  total_sangrias: number;
+  total_suprimentos: number;
+  fundo_troco: number;
+  valor_esperado: number;
+  valor_contado: number;
+  diferenca: number;
+  contagem: CashCount;
+  vendas_espera_expiradas?: number;
+}
+
+// Sangria (retirada) e suprimento (reforço) de dinheiro na gaveta
+export type CashMovementType = 'SANGRIA' | 'SUPRIMENTO';
+
+export interface CashMovement {
+  id: number;
+  turno_id: number;
+  tipo: CashMovementType;
+  valor: number;
+  motivo: string;
+  operador: string; // código do operador logado
+  supervisor: string; // código do supervisor que autorizou
+  autorizacao_id: number | null;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface CashMovementResult {
+  movimento: CashMovement;
+  comprovante: string;
+}
+
+// Abertura da gaveta (pulso ESC/POS na porta da impressora); SEM_VENDA exige permissão própria
+export type DrawerOpeningReason =
+  | 'VENDA'
+  | 'RECEBIMENTO_CONTA'
+  | 'DEVOLUCAO'
+  | 'CANCELAMENTO'
+  | 'SANGRIA'
+  | 'SUPRIMENTO'
+  | 'SEM_VENDA';
+
+export interface DrawerOpening {
+  id: number;
+  turno_id: number;
+  motivo: DrawerOpeningReason;
+  referencia: string | null; // venda, movimento ou documento que abriu a gaveta
+  observacao: string | null; // justificativa da abertura sem venda
+  operador: string;
+  autorizado_por: string | null;
+  aberta: boolean; // false quando o pulso não chegou à impressora
+  created_at: string;
+}
+
+// Cupom como sai na impressora (mesmas regras do ESC/POS), para prévia na tela e exportação
+export type ReceiptLineStyle = 'TITULO' | 'DESTAQUE' | 'TEXTO' | 'CODIGO_BARRAS';
+
+export interface ReceiptLayoutLine {
+  estilo: ReceiptLineStyle;
+  texto: string;
+  barras?: number[]; // CODE128: larguras (em módulos) alternando barra e espaço, começando pela barra
+}
+
+export interface ReceiptLayout {
+  colunas: number;
+  larguraMm: number; // bobina de 80mm ou 58mm
+  areaMm: number; // largura útil da cabeça de impressão
+  logo: { url: string; larguraMm: number } | null; // .bmp em data URL
+  codigoBarras: { moduloMm: number; alturaMm: number };
+  linhas: ReceiptLayoutLine[];
+}
+
+export type ReceiptExportFormat = 'PDF' | 'HTML';
+
+// Venda em andamento mantida no processo principal (restaurada após queda ou reinício)
+export interface CartState {
+  turno_id: number;
+  operador_id: number;
+  operador_nome: string;
+  itens: Record<string, any>[];
+  desconto_venda: Discount | null;
+  pagamentos: Record<string, any>[];
+  documento_consumidor: string | null;
+  cliente: Customer | null;
+  versao: number;
+  iniciado_em: string;
+  atualizado_em: string;
+}
+
+// Venda em espera: carrinho estacionado no turno para atender outro cliente
+export type ParkedSaleStatus = 'EM_ESPERA' | 'RECUPERADA' | 'EXPIRADA';
+
+export interface ParkedSale {
+  id: number;
+  turno_id: number;
+  operador_id: number;
+  operador_nome: string;
+  quantidade_itens: number;
+  total: number;
+  status: ParkedSaleStatus;
+  created_at: string;
+  recuperada_em?: string | null;
+}
+
+// Carrinho completo, como estava na tela (itens no formato do renderer)
+export interface ParkedSaleCart extends ParkedSale {
+  itens: Record<string, any>[];
+  desconto_venda: Discount | null;
+}
+
 export interface Category {
   id: number;
   nome: string;
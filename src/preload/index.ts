@@ -11,7 +11,114 @@ const api = {
   
   // Vendas
   sale: {
-    create: (vendaData: any) => ipcRenderer.invoke('sale:create', vendaData)
+    create: (vendaData: any) => ipcRenderer.invoke('sale:create', vendaData),
+    void: (dados: { vendaId: number; motivo: string; autorizacaoId: number }) => ipcRenderer.invoke('sale:void', dados)
+  },
+  
+  // Descontos
+  discount: {
+    getRules: () => ipcRenderer.invoke('discount:getRules')
+  },
+
+  // Promoções (avaliadas no processo principal a partir do cache)
+  promotion: {
+    evaluate: (items: any[]) => ipcRenderer.invoke('promotion:evaluate', items)
+  },
+  
+  // Clientes da fidelidade (busca por CPF ou telefone no cache local)
+  customer: {
+    find: (termo: string) => ipcRenderer.invoke('customer:find', termo)
+  },
+
+  // Conta do cliente no crédito da loja (recebimentos no caixa)
+  customerAccount: {
+    pay: (dados: { clienteId: number; tipo: string; valor: number; valorRecebido?: number }) =>
+      ipcRenderer.invoke('customerAccount:pay', dados),
+    list: () => ipcRenderer.invoke('customerAccount:list')
+  },
+
+  // Histórico local de vendas finalizadas (consulta e segunda via)
+  saleHistory: {
+    search: (filtros: {
+      data_inicio?: string;
+      data_fim?: string;
+      valor_min?: number;
+      valor_max?: number;
+      numero?: string;
+      produto?: string;
+    }) => ipcRenderer.invoke('saleHistory:search', filtros),
+    reprint: (vendaId: number) => ipcRenderer.invoke('saleHistory:reprint', vendaId),
+    receipt: (vendaId: number) => ipcRenderer.invoke('saleHistory:receipt', vendaId)
+  },
+
+  // Prévia do cupom (layout da impressora) e cópia em PDF/HTML
+  receipt: {
+    preview: (comprovante: string) => ipcRenderer.invoke('receipt:preview', comprovante),
+    export: (dados: { comprovante: string; formato: 'PDF' | 'HTML'; nome: string }) => ipcRenderer.invoke('receipt:export', dados)
+  },
+
+  // NFC-e em contingência ainda não recebidas pelo servidor
+  nfce: {
+    pending: () => ipcRenderer.invoke('nfce:pending'),
+    validate: (chave: string) => ipcRenderer.invoke('nfce:validate', chave)
+  },
+
+  // Devoluções e trocas de vendas anteriores
+  saleReturn: {
+    findSale: (termo: string) => ipcRenderer.invoke('saleReturn:findSale', termo),
+    create: (dados: { vendaId: number; itens: Array<{ sequencia: number; quantidade: number }>; tipoReembolso: string; autorizacaoId: number }) =>
+      ipcRenderer.invoke('saleReturn:create', dados)
+  },
+  
+  // Operador (login por PIN)
+  auth: {
+    login: (dados: { codigo: string; pin: string }) => ipcRenderer.invoke('auth:login', dados),
+    logout: () => ipcRenderer.invoke('auth:logout'),
+    getSession: () => ipcRenderer.invoke('auth:getSession')
+  },
+
+  // Autorização de supervisor (PIN ou crachá)
+  override: {
+    authorize: (dados: { acao: string; credenciais: { codigo?: string; pin?: string; cracha?: string }; detalhes?: Record<string, any> }) =>
+      ipcRenderer.invoke('override:authorize', dados)
+  },
+
+  // Sangria e suprimento
+  cashMovement: {
+    create: (dados: { tipo: 'SANGRIA' | 'SUPRIMENTO'; valor: number; motivo: string; autorizacaoId: number }) =>
+      ipcRenderer.invoke('cashMovement:create', dados),
+    list: () => ipcRenderer.invoke('cashMovement:list')
+  },
+
+  // Gaveta de dinheiro (abertura sem venda)
+  drawer: {
+    open: (dados: { motivo: string; autorizacaoId?: number }) => ipcRenderer.invoke('drawer:open', dados)
+  },
+
+  // Venda em andamento (gravada a cada alteração)
+  cart: {
+    get: () => ipcRenderer.invoke('cart:get'),
+    save: (dados: { itens: any[]; desconto_venda?: any; pagamentos?: any[]; documento_consumidor?: string | null; cliente?: any }) =>
+      ipcRenderer.invoke('cart:save', dados)
+  },
+
+  // Vendas em espera
+  parkedSale: {
+    park: (dados: { itens: any[]; desconto_venda?: any }) => ipcRenderer.invoke('parkedSale:park', dados),
+    list: () => ipcRenderer.invoke('parkedSale:list'),
+    recall: (id: number) => ipcRenderer.invoke('parkedSale:recall', id)
+  },
+  
+  // Turno de caixa
+  shift: {
+    getCurrent: () => ipcRenderer.invoke('shift:getCurrent'),
+    open: (dados: { fundo_troco: number }) => ipcRenderer.invoke('shift:open', dados),
+    close: (dados: { contagem: Record<string, number>; observacao?: string }) => ipcRenderer.invoke('shift:close', dados)
+  },
+  
+  // Configurações de operação da tela do PDV
+  config: {
+    getPdv: () => ipcRenderer.invoke('config:getPdv')
   },
   
   cache: {
@@ -0,0 +1,190 @@
+// src/renderer/src/components/CancelItemModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Item } from '../types';
+
+// Casas decimais aceitas por unidade (UN inteira)
+const CASAS_QUANTIDADE: Record<string, number> = { UN: 0, KG: 3, L: 3, M: 2 };
+
+interface CancelItemModalProps {
+  items: Item[];
+  sequenciaInicial: number; // número do item no cupom (índice + 1)
+  onConfirm: (sequencia: number, quantidade: number) => void;
+  onCancel: () => void;
+}
+
+const CancelItemModal: React.FC<CancelItemModalProps> = ({
+  items,
+  sequenciaInicial,
+  onConfirm,
+  onCancel
+}) => {
+  const [sequencia, setSequencia] = useState<string>(String(sequenciaInicial));
+  const [quantidade, setQuantidade] = useState<string>(String(items[sequenciaInicial - 1]?.qtde ?? ''));
+  const [error, setError] = useState<string>('');
+
+  const sequenciaInputRef = useRef<HTMLInputElement>(null);
+  const quantidadeInputRef = useRef<HTMLInputElement>(null);
+
+  const item: Item | undefined = items[(parseInt(sequencia, 10) || 0) - 1];
+
+  useEffect(() => {
+    setTimeout(() => {
+      sequenciaInputRef.current?.focus();
+      sequenciaInputRef.current?.select();
+    }, 50);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleSequenciaChange = (value: string): void => {
+    const limpo = value.replace(/\D/g, '');
+    setSequencia(limpo);
+    setError('');
+
+    // Sugere cancelar a quantidade total da linha digitada
+    const linha = items[(parseInt(limpo, 10) || 0) - 1];
+    setQuantidade(linha ? String(linha.qtde) : '');
+  };
+
+  const handleSubmit = (): void => {
+    const numero = parseInt(sequencia, 10);
+
+    if (!item) {
+      setError(`Item ${sequencia || '?'} não existe nesta venda`);
+      sequenciaInputRef.current?.focus();
+      return;
+    }
+
+    if (item.cancelado) {
+      setError(`Item ${numero} já está cancelado`);
+      sequenciaInputRef.current?.focus();
+      return;
+    }
+
+    // Etiqueta de balança e devolução só são canceladas inteiras
+    if (item.codigoBalanca || item.qtde < 0) {
+      onConfirm(numero, item.qtde);
+      return;
+    }
+
+    const casas = CASAS_QUANTIDADE[(item.unidade || 'UN').toUpperCase()] ?? 0;
+    const fator = Math.pow(10, casas);
+    const qtde = parseFloat(quantidade.replace(',', '.')) || 0;
+
+    if (Math.round(qtde * fator) / fator !== qtde) {
+      setError(casas === 0 ? 'Quantidade deve ser inteira' : `Quantidade aceita no máximo ${casas} casas decimais`);
+      quantidadeInputRef.current?.focus();
+      return;
+    }
+
+    if (qtde <= 0 || qtde > item.qtde) {
+      setError(`Quantidade deve estar entre ${casas === 0 ? 1 : 1 / fator} e ${item.qtde}`);
+      quantidadeInputRef.current?.focus();
+      return;
+    }
+
+    onConfirm(numero, qtde);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Cancelar Item</h3>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Item nº</label>
+            <input
+              ref={sequenciaInputRef}
+              type="text"
+              inputMode="numeric"
+              value={sequencia}
+              onChange={(e) => handleSequenciaChange(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  quantidadeInputRef.current?.focus();
+                  quantidadeInputRef.current?.select();
+                }
+              }}
+              className="w-full p-2 border border-gray-300 rounded text-center text-xl font-bold"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quantidade</label>
+            <input
+              ref={quantidadeInputRef}
+              type="text"
+              inputMode="decimal"
+              value={quantidade}
+              disabled={!!item?.codigoBalanca || (item?.qtde ?? 0) < 0}
+              onChange={(e) => setQuantidade(e.target.value.replace(/[^0-9,.]/g, ''))}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              className="w-full p-2 border border-gray-300 rounded text-center text-xl font-bold"
+            />
+          </div>
+        </div>
+
+        <div className="bg-gray-50 p-3 rounded text-sm mb-4 min-h-[64px]">
+          {item ? (
+            <>
+              <div className={`font-semibold ${item.cancelado ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                {item.descricao}
+              </div>
+              <div className="text-gray-600">
+                {item.qtde} {item.unidade || 'UN'} x {formatCurrency(item.vlrUnit)} = {formatCurrency(item.total)}
+              </div>
+            </>
+          ) : (
+            <div className="text-gray-500">Digite o número do item</div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Voltar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+          >
+            Continuar (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelItemModal;
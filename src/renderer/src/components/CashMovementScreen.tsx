@@ -0,0 +1,260 @@
+// src/renderer/src/components/CashMovementScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { CashMovement, CashMovementResult, Shift } from '../types';
+
+interface CashMovementScreenProps {
+  turno: Shift;
+  loading: boolean;
+  atalhosBloqueados?: boolean; // autorização do supervisor aberta sobre a tela
+  onSubmit: (
+    tipo: CashMovement['tipo'],
+    valor: number,
+    motivo: string
+  ) => Promise<CashMovementResult>;
+  onLoadMovements: () => Promise<CashMovement[]>;
+  onCancel: () => void;
+}
+
+// Aceita "150,00", "1.500,50" ou "150.5"
+const parseMoneyValue = (value: string): number => {
+  let cleanValue = value.replace(/[^\d,.]/g, '');
+  if (cleanValue.includes(',')) {
+    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
+  }
+  const parsed = parseFloat(cleanValue);
+  return isNaN(parsed) || parsed < 0 ? 0 : Math.round(parsed * 100) / 100;
+};
+
+const CashMovementScreen: React.FC<CashMovementScreenProps> = ({
+  turno,
+  loading,
+  atalhosBloqueados = false,
+  onSubmit,
+  onLoadMovements,
+  onCancel
+}) => {
+  const [tipo, setTipo] = useState<CashMovement['tipo']>('SANGRIA');
+  const [valor, setValor] = useState<string>('');
+  const [motivo, setMotivo] = useState<string>('');
+  const [movimentos, setMovimentos] = useState<CashMovement[]>([]);
+  const [comprovante, setComprovante] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const valorInputRef = useRef<HTMLInputElement>(null);
+  const motivoInputRef = useRef<HTMLInputElement>(null);
+
+  const carregarMovimentos = async (): Promise<void> => {
+    try {
+      setMovimentos(await onLoadMovements());
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  useEffect(() => {
+    carregarMovimentos();
+    setTimeout(() => valorInputRef.current?.focus(), 100);
+  }, []);
+
+  // F6 Sangria | F7 Suprimento | ESC Voltar
+  useEffect(() => {
+    if (atalhosBloqueados) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      } else if (e.key === 'F6') {
+        e.preventDefault();
+        setTipo('SANGRIA');
+      } else if (e.key === 'F7') {
+        e.preventDefault();
+        setTipo('SUPRIMENTO');
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel, atalhosBloqueados]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    const valorNumerico = parseMoneyValue(valor);
+
+    if (valorNumerico <= 0) {
+      setError('Informe um valor maior que zero');
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (!motivo.trim()) {
+      setError('Informe o motivo');
+      motivoInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      setError('');
+      const resultado = await onSubmit(tipo, valorNumerico, motivo.trim());
+      setComprovante(resultado.comprovante);
+      setValor('');
+      setMotivo('');
+      await carregarMovimentos();
+      valorInputRef.current?.focus();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const focusOnEnter = (next: React.RefObject<HTMLInputElement | null>) =>
+    (e: React.KeyboardEvent<HTMLInputElement>): void => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        next.current?.focus();
+      }
+    };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-400 px-3 py-2 rounded"
+          >
+            <ArrowLeft size={20} />
+            <span>Voltar (ESC)</span>
+          </button>
+          <h1 className="text-xl font-bold">Sangria / Suprimento</h1>
+        </div>
+        <div className="text-sm">
+          Turno {turno.id} | {turno.operador}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
+        <div className="flex flex-1 p-6 gap-6 overflow-hidden">
+          {/* Formulário */}
+          <div className="flex-1 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { value: 'SANGRIA' as const, label: 'Sangria', key: 'F6', icon: '📤' },
+                { value: 'SUPRIMENTO' as const, label: 'Suprimento', key: 'F7', icon: '📥' }
+              ].map((opcao) => (
+                <button
+                  key={opcao.value}
+                  onClick={() => setTipo(opcao.value)}
+                  className={`p-4 rounded-lg text-center font-medium transition-colors border-2 ${
+                    tipo === opcao.value
+                      ? 'bg-blue-500 text-white border-blue-600'
+                      : 'bg-white border-gray-300 hover:bg-gray-100 hover:border-gray-400'
+                  }`}
+                >
+                  <div className="text-2xl mb-1">{opcao.icon}</div>
+                  <div className="text-xl font-semibold">{opcao.label}</div>
+                  <div className="text-xs opacity-75 mt-1">({opcao.key})</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Valor</label>
+                <input
+                  ref={valorInputRef}
+                  type="text"
+                  value={valor}
+                  onChange={(e) => setValor(e.target.value.replace(/[^0-9,.]/g, ''))}
+                  onKeyPress={focusOnEnter(motivoInputRef)}
+                  className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold"
+                  placeholder="0,00"
+                  disabled={loading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Motivo</label>
+                <input
+                  ref={motivoInputRef}
+                  type="text"
+                  value={motivo}
+                  onChange={(e) => setMotivo(e.target.value)}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSubmit();
+                    }
+                  }}
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                  placeholder={tipo === 'SANGRIA' ? 'Ex.: recolhimento ao cofre' : 'Ex.: reforço de troco'}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                ❌ {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={loading}
+              className={`w-full py-3 rounded-lg text-lg font-semibold ${
+                loading ? 'bg-gray-300 text-gray-500' : 'bg-green-500 text-white hover:bg-green-600'
+              }`}
+            >
+              Confirmar {tipo === 'SANGRIA' ? 'Sangria' : 'Suprimento'} (Enter)
+            </button>
+          </div>
+
+          {/* Comprovante e movimentos do turno */}
+          <div className="w-1/3 space-y-4 flex flex-col overflow-hidden">
+            {comprovante && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="text-lg font-semibold mb-2">Comprovante</h3>
+                <pre className="bg-white border p-3 text-xs font-mono whitespace-pre">{comprovante}</pre>
+              </div>
+            )}
+
+            <div className="bg-gray-50 p-4 rounded-lg flex-1 overflow-y-auto">
+              <h3 className="text-lg font-semibold mb-4">Movimentos do Turno</h3>
+              {movimentos.length === 0 ? (
+                <div className="text-center text-gray-500 py-8">Nenhum movimento registrado</div>
+              ) : (
+                <div className="space-y-2">
+                  {movimentos.map((movimento) => (
+                    <div key={movimento.id} className="bg-white p-3 rounded border text-sm">
+                      <div className="flex justify-between font-semibold">
+                        <span className={movimento.tipo === 'SANGRIA' ? 'text-red-600' : 'text-green-600'}>
+                          {movimento.tipo}
+                        </span>
+                        <span>{formatCurrency(movimento.valor)}</span>
+                      </div>
+                      <div className="text-gray-600">{movimento.motivo}</div>
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span>
+                          {new Date(movimento.created_at).toLocaleTimeString('pt-BR')} | Sup.: {movimento.supervisor}
+                        </span>
+                        <span>{movimento.sincronizado ? '✅' : '⏳'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashMovementScreen;
@@ -0,0 +1,164 @@
+// src/renderer/src/components/CustomerDocumentModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { IdCard } from 'lucide-react';
+
+interface CustomerDocumentModalProps {
+  documentoAtual: string | null;
+  onConfirm: (documento: string | null) => void;
+  onCancel: () => void;
+}
+
+// Mesma regra do processo principal: só dígitos (CNPJ alfanumérico mantém as letras)
+const normalizarDocumento = (valor: string): string => valor.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+// Dígito verificador módulo 11 (pesos da direita para a esquerda, de 2 até o peso máximo)
+const digitoMod11 = (base: string, pesoMaximo: number): number => {
+  let peso = 2;
+  let soma = 0;
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    soma += (base.charCodeAt(i) - 48) * peso;
+    peso = peso === pesoMaximo ? 2 : peso + 1;
+  }
+
+  const resto = soma % 11;
+  return resto < 2 ? 0 : 11 - resto;
+};
+
+// Mensagem de erro ou null quando o documento é válido
+const validarDocumento = (documento: string): string | null => {
+  if (documento.length === 11) {
+    const valido = /^\d{11}$/.test(documento) && !/^(\d)\1{10}$/.test(documento) &&
+      documento.endsWith(`${digitoMod11(documento.slice(0, 9), 11)}${digitoMod11(documento.slice(0, 10), 11)}`);
+    return valido ? null : 'CPF inválido';
+  }
+
+  if (documento.length === 14) {
+    const valido = /^[0-9A-Z]{12}\d{2}$/.test(documento) && !/^(\d)\1{13}$/.test(documento) &&
+      documento.endsWith(`${digitoMod11(documento.slice(0, 12), 9)}${digitoMod11(documento.slice(0, 13), 9)}`);
+    return valido ? null : 'CNPJ inválido';
+  }
+
+  return 'Informe um CPF (11 dígitos) ou CNPJ (14 posições)';
+};
+
+export const formatarDocumento = (documento: string): string => {
+  if (documento.length === 11) {
+    return `${documento.slice(0, 3)}.${documento.slice(3, 6)}.${documento.slice(6, 9)}-${documento.slice(9)}`;
+  }
+
+  if (documento.length === 14) {
+    return `${documento.slice(0, 2)}.${documento.slice(2, 5)}.${documento.slice(5, 8)}/${documento.slice(8, 12)}-${documento.slice(12)}`;
+  }
+
+  return documento;
+};
+
+const CustomerDocumentModal: React.FC<CustomerDocumentModalProps> = ({
+  documentoAtual,
+  onConfirm,
+  onCancel
+}) => {
+  const [documento, setDocumento] = useState<string>(documentoAtual ? formatarDocumento(documentoAtual) : '');
+  const [error, setError] = useState<string>('');
+
+  const documentoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => {
+      documentoInputRef.current?.focus();
+      documentoInputRef.current?.select();
+    }, 50);
+  }, []);
+
+  // ESC fecha sem alterar
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleSubmit = (): void => {
+    const numero = normalizarDocumento(documento);
+
+    // Campo vazio retira o documento da venda
+    if (!numero) {
+      onConfirm(null);
+      return;
+    }
+
+    const erro = validarDocumento(numero);
+    if (erro) {
+      setError(erro);
+      documentoInputRef.current?.focus();
+      documentoInputRef.current?.select();
+      return;
+    }
+
+    onConfirm(numero);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <IdCard size={20} className="text-blue-600" />
+          <h3 className="text-lg font-semibold">CPF/CNPJ na Nota</h3>
+        </div>
+
+        <input
+          ref={documentoInputRef}
+          type="text"
+          value={documento}
+          maxLength={18}
+          onChange={(e) => {
+            setDocumento(e.target.value.toUpperCase().replace(/[^0-9A-Z./-]/g, ''));
+            setError('');
+          }}
+          onBlur={() => setDocumento((atual) => formatarDocumento(normalizarDocumento(atual)))}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold mb-3"
+          placeholder="000.000.000-00"
+        />
+
+        <div className="text-xs text-gray-500 mb-4">
+          Deixe em branco e confirme para retirar o documento da venda.
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Cancelar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            Confirmar (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDocumentModal;
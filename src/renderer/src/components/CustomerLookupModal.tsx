@@ -0,0 +1,189 @@
+// src/renderer/src/components/CustomerLookupModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Star } from 'lucide-react';
+import { Customer } from '../types';
+import { formatarDocumento } from './CustomerDocumentModal';
+
+interface CustomerLookupModalProps {
+  clienteAtual: Customer | null;
+  onSearch: (termo: string) => Promise<Customer | null>;
+  onConfirm: (cliente: Customer | null) => void;
+  onCancel: () => void;
+}
+
+const formatarTelefone = (telefone: string): string => {
+  if (telefone.length === 11) {
+    return `(${telefone.slice(0, 2)}) ${telefone.slice(2, 7)}-${telefone.slice(7)}`;
+  }
+
+  if (telefone.length === 10) {
+    return `(${telefone.slice(0, 2)}) ${telefone.slice(2, 6)}-${telefone.slice(6)}`;
+  }
+
+  return telefone;
+};
+
+const formatarMoeda = (valor: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(valor);
+
+const CustomerLookupModal: React.FC<CustomerLookupModalProps> = ({
+  clienteAtual,
+  onSearch,
+  onConfirm,
+  onCancel
+}) => {
+  const [termo, setTermo] = useState<string>('');
+  const [cliente, setCliente] = useState<Customer | null>(clienteAtual);
+  const [buscando, setBuscando] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const termoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => termoInputRef.current?.focus(), 50);
+  }, []);
+
+  // ESC fecha sem alterar o cliente da venda
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const buscar = async (): Promise<void> => {
+    setBuscando(true);
+    setError('');
+
+    try {
+      const encontrado = await onSearch(termo);
+      setCliente(encontrado);
+
+      if (!encontrado) {
+        setError('Cliente não cadastrado no programa de fidelidade');
+      }
+    } catch (err: any) {
+      setCliente(null);
+      setError(err.message || 'Erro ao buscar cliente');
+    } finally {
+      setBuscando(false);
+      termoInputRef.current?.focus();
+      termoInputRef.current?.select();
+    }
+  };
+
+  // Enter busca o termo digitado; com o campo vazio confirma o cliente exibido
+  const handleSubmit = (): void => {
+    if (buscando) return;
+
+    if (termo.trim()) {
+      buscar();
+    } else if (cliente) {
+      onConfirm(cliente);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <Star size={20} className="text-yellow-500" />
+          <h3 className="text-lg font-semibold">Cliente Fidelidade</h3>
+        </div>
+
+        <input
+          ref={termoInputRef}
+          type="text"
+          value={termo}
+          maxLength={15}
+          onChange={(e) => {
+            setTermo(e.target.value.replace(/[^0-9().\s-]/g, ''));
+            setError('');
+          }}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold mb-3"
+          placeholder="CPF ou telefone"
+          disabled={buscando}
+        />
+
+        {cliente && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-4 text-sm">
+            <div className="text-lg font-semibold text-gray-800">{cliente.nome}</div>
+            <div className="text-gray-600">
+              {cliente.cpf && <span>CPF {formatarDocumento(cliente.cpf)}</span>}
+              {cliente.cpf && cliente.telefone && <span> | </span>}
+              {cliente.telefone && <span>{formatarTelefone(cliente.telefone)}</span>}
+            </div>
+            <div className="flex justify-between mt-2">
+              <span>Saldo: <strong>{cliente.pontos.toLocaleString('pt-BR')} pontos</strong></span>
+              <span className="text-green-700">
+                {formatarMoeda(cliente.valor_disponivel)}
+              </span>
+            </div>
+            {cliente.pontos_pendentes !== 0 && (
+              <div className="text-xs text-gray-500 mt-1">
+                {cliente.pontos_pendentes.toLocaleString('pt-BR')} pontos aguardando sincronização
+              </div>
+            )}
+            {cliente.limite_credito > 0 && (
+              <div className="flex justify-between mt-2 pt-2 border-t border-yellow-200">
+                <span>Crédito na loja: <strong>{formatarMoeda(cliente.credito_disponivel)}</strong></span>
+                <span className="text-red-600">Devendo {formatarMoeda(cliente.saldo_devedor)}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500 mb-4">
+          Digite o CPF ou o telefone com DDD e tecle Enter. Com o campo vazio, Enter confirma o cliente.
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          {clienteAtual && (
+            <button
+              onClick={() => onConfirm(null)}
+              className="px-4 py-2 bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors mr-auto"
+            >
+              Retirar cliente
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Cancelar (ESC)
+          </button>
+          <button
+            onClick={() => cliente && onConfirm(cliente)}
+            disabled={!cliente || buscando}
+            className={`px-4 py-2 rounded transition-colors ${
+              cliente && !buscando
+                ? 'bg-blue-500 text-white hover:bg-blue-600'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            Confirmar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerLookupModal;
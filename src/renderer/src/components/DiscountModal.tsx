@@ -0,0 +1,218 @@
+// src/renderer/src/components/DiscountModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Percent } from 'lucide-react';
+import { Discount, DiscountRules } from '../types';
+
+interface DiscountModalProps {
+  titulo: string;
+  descricao: string;
+  base: number; // valor sobre o qual o desconto incide
+  descontoAtual?: Discount | null;
+  regras: DiscountRules;
+  onConfirm: (desconto: Discount | null, percentual: number) => void;
+  onCancel: () => void;
+}
+
+// Aceita "10", "10,5" ou "1.500,50"
+const parseNumberValue = (value: string): number => {
+  let cleanValue = value.replace(/[^\d,.]/g, '');
+  if (cleanValue.includes(',')) {
+    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
+  }
+  const parsed = parseFloat(cleanValue);
+  return isNaN(parsed) || parsed < 0 ? 0 : Math.round(parsed * 100) / 100;
+};
+
+const DiscountModal: React.FC<DiscountModalProps> = ({
+  titulo,
+  descricao,
+  base,
+  descontoAtual,
+  regras,
+  onConfirm,
+  onCancel
+}) => {
+  const [tipo, setTipo] = useState<Discount['tipo']>(descontoAtual?.tipo || 'PERCENTUAL');
+  const [valor, setValor] = useState<string>(descontoAtual ? String(descontoAtual.valor).replace('.', ',') : '');
+  const [motivo, setMotivo] = useState<string>(descontoAtual?.motivo || regras.motivos[0]?.codigo || '');
+  const [error, setError] = useState<string>('');
+
+  const valorInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => {
+      valorInputRef.current?.focus();
+      valorInputRef.current?.select();
+    }, 50);
+  }, []);
+
+  // F6 Percentual | F7 Valor | ESC cancela
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      } else if (e.key === 'F6') {
+        e.preventDefault();
+        setTipo('PERCENTUAL');
+      } else if (e.key === 'F7') {
+        e.preventDefault();
+        setTipo('VALOR');
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Mesmo cálculo do processo principal (centavos, limitado à base)
+  const baseCents = Math.round(base * 100);
+  const valorNumerico = parseNumberValue(valor);
+  const descontoCents = Math.min(
+    tipo === 'PERCENTUAL' ? Math.round(baseCents * valorNumerico / 100) : Math.round(valorNumerico * 100),
+    baseCents
+  );
+  const percentual = baseCents > 0 ? (descontoCents / baseCents) * 100 : 0;
+  const exigeSupervisor = percentual > regras.limite_percentual + 0.01;
+
+  const handleSubmit = (): void => {
+    // Valor zero remove o desconto atual
+    if (valorNumerico === 0) {
+      onConfirm(null, 0);
+      return;
+    }
+
+    if (tipo === 'PERCENTUAL' && valorNumerico > 100) {
+      setError('Percentual não pode passar de 100%');
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (tipo === 'VALOR' && valorNumerico > base) {
+      setError(`Desconto não pode passar de ${formatCurrency(base)}`);
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (!motivo) {
+      setError('Selecione o motivo do desconto');
+      return;
+    }
+
+    onConfirm({ tipo, valor: valorNumerico, motivo }, Math.round(percentual * 100) / 100);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <Percent size={20} className="text-blue-600" />
+          <h3 className="text-lg font-semibold">{titulo}</h3>
+        </div>
+
+        <div className="text-sm text-gray-600 mb-4">
+          <div className="font-semibold text-gray-800">{descricao}</div>
+          <div>Base: {formatCurrency(base)}</div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {[
+            { value: 'PERCENTUAL' as const, label: 'Percentual (%)', key: 'F6' },
+            { value: 'VALOR' as const, label: 'Valor (R$)', key: 'F7' }
+          ].map((opcao) => (
+            <button
+              key={opcao.value}
+              onClick={() => setTipo(opcao.value)}
+              className={`p-2 rounded text-sm font-medium border-2 ${
+                tipo === opcao.value
+                  ? 'bg-blue-500 text-white border-blue-600'
+                  : 'bg-white border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {opcao.label} ({opcao.key})
+            </button>
+          ))}
+        </div>
+
+        <input
+          ref={valorInputRef}
+          type="text"
+          value={valor}
+          onChange={(e) => {
+            setValor(e.target.value.replace(/[^0-9,.]/g, ''));
+            setError('');
+          }}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold mb-3"
+          placeholder={tipo === 'PERCENTUAL' ? '0%' : '0,00'}
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+        <select
+          value={motivo}
+          onChange={(e) => setMotivo(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded mb-4"
+        >
+          {regras.motivos.map((opcao) => (
+            <option key={opcao.codigo} value={opcao.codigo}>
+              {opcao.descricao}
+            </option>
+          ))}
+        </select>
+
+        <div className="bg-gray-50 p-3 rounded text-sm mb-4 space-y-1">
+          <div className="flex justify-between">
+            <span>Desconto:</span>
+            <span className="font-semibold text-green-600">
+              - {formatCurrency(descontoCents / 100)} ({percentual.toFixed(2)}%)
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Valor final:</span>
+            <span className="font-semibold">{formatCurrency((baseCents - descontoCents) / 100)}</span>
+          </div>
+          {exigeSupervisor && (
+            <div className="text-orange-600 text-xs">
+              Acima do seu limite ({regras.limite_percentual}%) - requer autorização do supervisor
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Cancelar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            {valorNumerico === 0 && descontoAtual ? 'Remover Desconto' : 'Aplicar (Enter)'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiscountModal;
@@ -0,0 +1,116 @@
+// src/renderer/src/components/DrawerOpenModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Inbox } from 'lucide-react';
+
+interface DrawerOpenModalProps {
+  loading: boolean;
+  precisaAutorizacao: boolean; // operador sem permissão: supervisor confirma em seguida
+  atalhosBloqueados?: boolean; // autorização do supervisor aberta sobre o modal
+  onConfirm: (motivo: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const DrawerOpenModal: React.FC<DrawerOpenModalProps> = ({
+  loading,
+  precisaAutorizacao,
+  atalhosBloqueados = false,
+  onConfirm,
+  onClose
+}) => {
+  const [motivo, setMotivo] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const motivoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => motivoInputRef.current?.focus(), 50);
+  }, []);
+
+  // ESC fecha o modal
+  useEffect(() => {
+    if (atalhosBloqueados) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, atalhosBloqueados]);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!motivo.trim()) {
+      setError('Informe o motivo da abertura');
+      motivoInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      setError('');
+      await onConfirm(motivo.trim());
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <Inbox size={20} className="text-orange-600" />
+          <h3 className="text-lg font-semibold">Abrir Gaveta sem Venda</h3>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-3">
+          A abertura fica registrada e aparece no fechamento do caixa.
+          {precisaAutorizacao && ' É necessária a autorização do supervisor.'}
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-2">Motivo</label>
+        <input
+          ref={motivoInputRef}
+          type="text"
+          value={motivo}
+          maxLength={120}
+          onChange={(e) => setMotivo(e.target.value)}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          className="w-full p-3 border border-gray-300 rounded-lg mb-3"
+          placeholder="Ex.: troco para outro caixa"
+          disabled={loading}
+        />
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Voltar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 transition-colors disabled:bg-gray-300"
+          >
+            Abrir Gaveta (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DrawerOpenModal;
@@ -11,15 +11,18 @@ interface ApiStatus {
     ultima_sync: string | null;
   };
   pending_sales: number;
+  pending_operations?: number;
+  failed_operations?: number;
   last_health_check?: string;
 }
 
 interface HeaderProps {
   isConnected: boolean;
   isListening?: boolean;
+  operador?: string;
 }
 
-const Header: React.FC<HeaderProps> = ({ isConnected, isListening = false }) => {
+const Header: React.FC<HeaderProps> = ({ isConnected, isListening = false, operador }) => {
   const [apiStatus, setApiStatus] = useState<ApiStatus | null>(null);
 
   // Formatação de data
@@ -124,6 +127,9 @@ const Header: React.FC<HeaderProps> = ({ isConnected, isListening = false }) =>
 
   const connectionStatus = getConnectionStatus();
 
+  // Vendas e demais operações (sangria, suprimento...) aguardando sincronização
+  const totalPendente = (apiStatus?.pending_sales ?? 0) + (apiStatus?.pending_operations ?? 0);
+
   return (
     <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
       <div className="flex items-center space-x-4">
@@ -141,9 +147,16 @@ const Header: React.FC<HeaderProps> = ({ isConnected, isListening = false }) =>
         )}
 
         {/* Vendas pendentes */}
-        {(apiStatus?.pending_sales ?? 0) > 0 && (
+        {totalPendente > 0 && (
           <span className="bg-red-500 text-white px-2 py-1 rounded text-xs animate-pulse">
-            ⏳ {apiStatus?.pending_sales ?? 0} pendente{(apiStatus?.pending_sales ?? 0) > 1 ? 's' : ''}
+            ⏳ {totalPendente} pendente{totalPendente > 1 ? 's' : ''}
+          </span>
+        )}
+
+        {/* Operações recusadas no envio (nova tentativa automática) */}
+        {(apiStatus?.failed_operations ?? 0) > 0 && (
+          <span className="bg-yellow-500 text-white px-2 py-1 rounded text-xs">
+            ⚠️ {apiStatus!.failed_operations} com erro de envio
           </span>
         )}
 
@@ -155,6 +168,11 @@ const Header: React.FC<HeaderProps> = ({ isConnected, isListening = false }) =>
       </div>
 
       <div className="flex items-center space-x-4">
+        {/* Operador autenticado */}
+        {operador && (
+          <span className="text-sm">👤 {operador}</span>
+        )}
+
         {/* Última sincronização */}
         {apiStatus?.cache?.ultima_sync && (
           <span className="text-xs opacity-75">
@@ -0,0 +1,116 @@
+// src/renderer/src/components/LoginScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { KeyRound } from 'lucide-react';
+
+interface LoginScreenProps {
+  loading: boolean;
+  onLogin: (codigo: string, pin: string) => Promise<void>;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ loading, onLogin }) => {
+  const [codigo, setCodigo] = useState<string>('');
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const codigoInputRef = useRef<HTMLInputElement>(null);
+  const pinInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => codigoInputRef.current?.focus(), 100);
+  }, []);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!codigo.trim()) {
+      setError('Informe o código do operador');
+      codigoInputRef.current?.focus();
+      return;
+    }
+
+    if (!pin) {
+      setError('Informe o PIN');
+      pinInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      setError('');
+      await onLogin(codigo.trim(), pin);
+    } catch (error: any) {
+      setError(error.message);
+      setPin('');
+      pinInputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex items-center space-x-3">
+        <KeyRound size={22} />
+        <h1 className="text-xl font-bold">Identificação do Operador</h1>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex items-center justify-center h-[calc(100vh-120px)]">
+        <div className="w-full max-w-md space-y-6">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Código do Operador</label>
+            <input
+              id="login-codigo-input"
+              ref={codigoInputRef}
+              type="text"
+              value={codigo}
+              onChange={(e) => setCodigo(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  pinInputRef.current?.focus();
+                }
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center text-lg font-mono"
+              placeholder="Código ou crachá"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block text-sm font-medium text-gray-700 mb-2">PIN</label>
+            <input
+              id="login-pin-input"
+              ref={pinInputRef}
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl tracking-widest"
+              placeholder="••••"
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+              ❌ {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className={`w-full py-3 rounded-lg text-lg font-semibold ${
+              loading ? 'bg-gray-300 text-gray-500' : 'bg-blue-500 text-white hover:bg-blue-600'
+            }`}
+          >
+            Entrar (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
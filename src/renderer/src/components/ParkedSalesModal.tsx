@@ -0,0 +1,122 @@
+// src/renderer/src/components/ParkedSalesModal.tsx
+import React, { useState, useEffect } from 'react';
+import { PauseCircle } from 'lucide-react';
+import { ParkedSale } from '../types';
+
+interface ParkedSalesModalProps {
+  vendas: ParkedSale[];
+  loading: boolean;
+  onRecall: (id: number) => void;
+  onCancel: () => void;
+}
+
+const ParkedSalesModal: React.FC<ParkedSalesModalProps> = ({
+  vendas,
+  loading,
+  onRecall,
+  onCancel
+}) => {
+  const [selecionada, setSelecionada] = useState<number>(0);
+
+  // ↑↓ seleciona | Enter recupera | ESC fecha
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setSelecionada((atual) => Math.max(0, atual - 1));
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setSelecionada((atual) => Math.min(vendas.length - 1, atual + 1));
+      } else if (e.key === 'Enter' && vendas[selecionada] && !loading) {
+        e.preventDefault();
+        onRecall(vendas[selecionada].id);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [vendas, selecionada, loading, onRecall, onCancel]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const formatHora = (data: string): string => {
+    return new Date(data).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <PauseCircle size={20} className="text-orange-500" />
+          <h3 className="text-lg font-semibold">Vendas em Espera</h3>
+        </div>
+
+        {vendas.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Nenhuma venda em espera neste turno</div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded mb-4">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="text-left p-2">Nº</th>
+                  <th className="text-left p-2">Hora</th>
+                  <th className="text-left p-2">Operador</th>
+                  <th className="text-center p-2">Itens</th>
+                  <th className="text-right p-2">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vendas.map((venda, index) => (
+                  <tr
+                    key={venda.id}
+                    onClick={() => setSelecionada(index)}
+                    onDoubleClick={() => onRecall(venda.id)}
+                    className={`border-t border-gray-200 cursor-pointer ${
+                      index === selecionada ? 'bg-blue-100' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="p-2 font-medium">{venda.id}</td>
+                    <td className="p-2">{formatHora(venda.created_at)}</td>
+                    <td className="p-2 truncate">{venda.operador_nome}</td>
+                    <td className="p-2 text-center">{venda.quantidade_itens}</td>
+                    <td className="p-2 text-right font-semibold">{formatCurrency(venda.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500 mb-4">
+          Vendas não recuperadas expiram no fechamento do caixa.
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Voltar (ESC)
+          </button>
+          <button
+            onClick={() => vendas[selecionada] && onRecall(vendas[selecionada].id)}
+            disabled={loading || vendas.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-400"
+          >
+            {loading ? 'Recuperando...' : 'Recuperar (Enter)'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParkedSalesModal;
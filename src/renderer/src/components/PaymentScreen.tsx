@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ArrowLeft, Check, X } from 'lucide-react';
 import { usePaymentShortcuts } from '../hooks/useShortcuts';
+import { formatarDocumento } from './CustomerDocumentModal';
 
 interface Item {
   id: number;
@@ -10,20 +11,41 @@ interface Item {
   vlrUnit: number;
   total: number;
   produto_id?: number;
+  unidade?: string;
 }
 
 interface Payment {
   id: number;
-  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS';
+  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS' | 'PONTOS' | 'CREDITO_LOJA';
   valor: number;
   timestamp: string;
   troco?: number; // valor do troco para dinheiro
   valorRecebido?: number; // valor total recebido quando há troco
 }
 
+interface ClienteFidelidade {
+  id: number;
+  nome: string;
+  pontos: number;
+  valor_disponivel: number; // saldo em R$ para resgate
+  limite_credito: number; // crédito na loja; 0 = sem conta
+  credito_disponivel: number;
+}
+
 interface PaymentScreenProps {
   items: Item[];
   totalVenda: number;
+  subtotalVenda?: number; // antes dos descontos
+  descontoItens?: number;
+  descontoPromocoes?: number;
+  descontoVenda?: number;
+  pagamentosIniciais?: Payment[]; // restaurados da venda em andamento
+  documentoConsumidor?: string | null; // CPF/CNPJ na nota, editável até finalizar
+  onEditDocument?: () => void;
+  atalhosBloqueados?: boolean; // modal aberto sobre a tela (ex.: CPF/CNPJ)
+  clienteFidelidade?: ClienteFidelidade | null; // habilita o pagamento com pontos e no crédito da loja
+  onEditCustomer?: () => void;
+  onPaymentsChange?: (payments: Payment[]) => void;
   onPaymentComplete: (payments: Payment[]) => void;
   onCancel: () => void;
   isConnected: boolean;
@@ -99,11 +121,22 @@ const parseMoneyValue = (value: string): number => {
 const PaymentScreen: React.FC<PaymentScreenProps> = ({
   items,
   totalVenda,
+  subtotalVenda = totalVenda,
+  descontoItens = 0,
+  descontoPromocoes = 0,
+  descontoVenda = 0,
+  pagamentosIniciais = [],
+  documentoConsumidor = null,
+  onEditDocument,
+  atalhosBloqueados = false,
+  clienteFidelidade = null,
+  onEditCustomer,
+  onPaymentsChange,
   onPaymentComplete,
   onCancel,
   isConnected
 }) => {
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [payments, setPayments] = useState<Payment[]>(pagamentosIniciais);
   const [currentPaymentType, setCurrentPaymentType] = useState<Payment['tipo']>('DINHEIRO');
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   
@@ -115,7 +148,24 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
   
   const paymentValueInputRef = useRef<HTMLInputElement>(null);
   const receivedValueInputRef = useRef<HTMLInputElement>(null);
-  const quantidadeItens: number = items.reduce((sum: number, item: Item) => sum + item.qtde, 0);
+  // Itens fracionados (KG, L, M) contam como um volume por linha
+  const quantidadeItens: number = items.reduce((sum: number, item: Item) =>
+    sum + (!item.unidade || item.unidade === 'UN' ? item.qtde : 1), 0);
+
+  // Cada pagamento incluído/removido entra na venda em andamento gravada no disco
+  useEffect(() => {
+    onPaymentsChange?.(payments);
+  }, [payments]);
+
+  // Pontos e crédito na loja pertencem ao cliente identificado: trocar ou retirar o cliente descarta esses pagamentos
+  const clienteId = clienteFidelidade?.id ?? null;
+  const clienteAnterior = useRef<number | null>(clienteId);
+  useEffect(() => {
+    if (clienteAnterior.current === clienteId) return;
+    clienteAnterior.current = clienteId;
+    const doCliente = (p: Payment): boolean => p.tipo === 'PONTOS' || p.tipo === 'CREDITO_LOJA';
+    setPayments(atual => atual.some(doCliente) ? atual.filter(p => !doCliente(p)) : atual);
+  }, [clienteId]);
 
   // Arredondar total da venda para evitar problemas
   const totalVendaRounded = roundMoney(totalVenda);
@@ -132,6 +182,24 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
   // Verificar se pagamento está completo
   const isComplete = isLessOrEqual(restante, 0);
 
+  // Saldo de pontos (em R$) ainda não usado nos pagamentos lançados
+  const pontosDisponiveis = clienteFidelidade
+    ? Math.max(0, subtractMoney(
+        clienteFidelidade.valor_disponivel,
+        payments.filter(p => p.tipo === 'PONTOS').reduce((sum, p) => addMoney(sum, p.valor), 0)
+      ))
+    : 0;
+  const aceitaPontos = !!clienteFidelidade && clienteFidelidade.valor_disponivel > 0;
+
+  // Limite de crédito na loja ainda não usado nos pagamentos lançados
+  const creditoDisponivel = clienteFidelidade
+    ? Math.max(0, subtractMoney(
+        clienteFidelidade.credito_disponivel,
+        payments.filter(p => p.tipo === 'CREDITO_LOJA').reduce((sum, p) => addMoney(sum, p.valor), 0)
+      ))
+    : 0;
+  const aceitaCreditoLoja = !!clienteFidelidade && clienteFidelidade.limite_credito > 0;
+
   // CONFIGURAR ATALHOS ESPECÍFICOS PARA TELA DE PAGAMENTO
   const { getShortcutsList } = usePaymentShortcuts({
     addPayment: () => {
@@ -186,9 +254,31 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
       if (!showPaymentModal) {
         openPaymentModal('OUTROS');
       }
+    },
+    editDocument: () => {
+      if (!showPaymentModal && !showConfirmModal) {
+        onEditDocument?.();
+      }
+    },
+    selectPontos: () => {
+      if (aceitaPontos && !showPaymentModal) {
+        setCurrentPaymentType('PONTOS');
+        openPaymentModal('PONTOS');
+      }
+    },
+    editCustomer: () => {
+      if (!showPaymentModal && !showConfirmModal) {
+        onEditCustomer?.();
+      }
+    },
+    selectCreditoLoja: () => {
+      if (aceitaCreditoLoja && !showPaymentModal) {
+        setCurrentPaymentType('CREDITO_LOJA');
+        openPaymentModal('CREDITO_LOJA');
+      }
     }
   }, {
-    enabled: true,
+    enabled: !atalhosBloqueados,
     ignoreInputs: true,
     allowedInputs: ['payment-modal-value-input', 'payment-modal-received-input']
   });
@@ -201,8 +291,13 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
 
   // FUNÇÕES PARA MODAL DE PAGAMENTO
   const openPaymentModal = (tipo: Payment['tipo']) => {
+    // Pontos e crédito na loja: sugere o restante limitado ao saldo do cliente
+    const valorSugerido = tipo === 'PONTOS'
+      ? Math.min(restante, pontosDisponiveis)
+      : tipo === 'CREDITO_LOJA' ? Math.min(restante, creditoDisponivel) : restante;
+
     setModalPaymentType(tipo);
-    setModalPaymentValue(restante.toFixed(2).replace('.', ','));
+    setModalPaymentValue(valorSugerido.toFixed(2).replace('.', ','));
     
     if (tipo === 'DINHEIRO') {
       setModalReceivedValue(restante.toFixed(2).replace('.', ','));
@@ -262,6 +357,16 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
       return;
     }
 
+    if (modalPaymentType === 'PONTOS' && isGreaterThan(valor, pontosDisponiveis)) {
+      alert(`Saldo de pontos insuficiente. Disponível: ${formatCurrency(pontosDisponiveis)}`);
+      return;
+    }
+
+    if (modalPaymentType === 'CREDITO_LOJA' && isGreaterThan(valor, creditoDisponivel)) {
+      alert(`Limite de crédito insuficiente. Disponível: ${formatCurrency(creditoDisponivel)}`);
+      return;
+    }
+
     let valorPagamento = valor;
     let trocoCalculado = 0;
     let valorRecebido = valor;
@@ -347,7 +452,9 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
       'CARTAO_CREDITO': 'Cartão de Crédito',
       'CARTAO_DEBITO': 'Cartão de Débito',
       'PIX': 'PIX',
-      'OUTROS': 'Outros'
+      'OUTROS': 'Outros',
+      'PONTOS': 'Pontos Fidelidade',
+      'CREDITO_LOJA': 'Crédito na Loja'
     };
     return labels[tipo];
   };
@@ -358,7 +465,9 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
       'CARTAO_CREDITO': 'bg-blue-100 text-blue-800',
       'CARTAO_DEBITO': 'bg-purple-100 text-purple-800',
       'PIX': 'bg-orange-100 text-orange-800',
-      'OUTROS': 'bg-gray-100 text-gray-800'
+      'OUTROS': 'bg-gray-100 text-gray-800',
+      'PONTOS': 'bg-yellow-100 text-yellow-800',
+      'CREDITO_LOJA': 'bg-red-100 text-red-800'
     };
     return colors[tipo];
   };
@@ -392,13 +501,17 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
               <h3 className="text-lg font-semibold mb-4">Selecionar Forma de Pagamento</h3>
               
               {/* Seleção de Forma de Pagamento */}
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+              <div className={`grid grid-cols-2 ${
+                aceitaPontos && aceitaCreditoLoja ? 'md:grid-cols-7' : aceitaPontos || aceitaCreditoLoja ? 'md:grid-cols-6' : 'md:grid-cols-5'
+              } gap-3 mb-4`}>
                 {[
                   { tipo: 'DINHEIRO' as const, label: 'Dinheiro', key: 'F6', icon: '💵' },
                   { tipo: 'CARTAO_CREDITO' as const, label: 'Cartão Créd.', key: 'F7', icon: '💳' },
                   { tipo: 'CARTAO_DEBITO' as const, label: 'Cartão Déb.', key: 'F8', icon: '💳' },
                   { tipo: 'PIX' as const, label: 'PIX', key: 'F9', icon: '📱' },
-                  { tipo: 'OUTROS' as const, label: 'Outros', key: 'F10', icon: '📄' }
+                  { tipo: 'OUTROS' as const, label: 'Outros', key: 'F10', icon: '📄' },
+                  ...(aceitaPontos ? [{ tipo: 'PONTOS' as const, label: 'Pontos', key: 'F11', icon: '⭐' }] : []),
+                  ...(aceitaCreditoLoja ? [{ tipo: 'CREDITO_LOJA' as const, label: 'Crédito Loja', key: 'F5', icon: '📒' }] : [])
                 ].map(({ tipo, label, key, icon }) => (
                   <button
                     key={tipo}
@@ -482,6 +595,52 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
                   <span>Itens:</span>
                   <span>{quantidadeItens}</span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span>CPF/CNPJ:</span>
+                  <button
+                    onClick={onEditDocument}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {documentoConsumidor ? formatarDocumento(documentoConsumidor) : 'Informar'} (Ctrl+D)
+                  </button>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span>Cliente:</span>
+                  <button
+                    onClick={onEditCustomer}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {clienteFidelidade
+                      ? `${clienteFidelidade.nome} (${clienteFidelidade.pontos.toLocaleString('pt-BR')} pts)`
+                      : 'Identificar'} (Ctrl+F)
+                  </button>
+                </div>
+                {(descontoItens > 0 || descontoPromocoes > 0 || descontoVenda > 0) && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Subtotal:</span>
+                      <span>{formatCurrency(subtotalVenda)}</span>
+                    </div>
+                    {descontoItens > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Desconto nos itens:</span>
+                        <span>- {formatCurrency(descontoItens)}</span>
+                      </div>
+                    )}
+                    {descontoPromocoes > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Promoções:</span>
+                        <span>- {formatCurrency(descontoPromocoes)}</span>
+                      </div>
+                    )}
+                    {descontoVenda > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Desconto na venda:</span>
+                        <span>- {formatCurrency(descontoVenda)}</span>
+                      </div>
+                    )}
+                  </>
+                )}
                 <div className="flex justify-between font-semibold text-lg">
                   <span>Total:</span>
                   <span className='text-2xl'>{formatCurrency(totalVenda)}</span>
@@ -521,7 +680,7 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
         <div className="bg-gray-100 p-4 border-t">
           <div className="flex justify-between items-center">
             <div className="text-sm text-gray-600">
-              <span><strong>F6-F10</strong> Selecionar Forma + <strong>Enter</strong> Informar Valor | <strong>ESC</strong> Cancelar</span>
+              <span><strong>{aceitaPontos ? 'F6-F11' : 'F6-F10'}{aceitaCreditoLoja ? ', F5' : ''}</strong> Selecionar Forma + <strong>Enter</strong> Informar Valor | <strong>ESC</strong> Cancelar</span>
             </div>
             <div className="flex space-x-3">
               <button
@@ -654,6 +813,18 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({
                 <div className="text-center text-sm text-gray-600">
                   Restante da venda: <span className="font-medium">{formatCurrency(restante)}</span>
                 </div>
+
+                {modalPaymentType === 'PONTOS' && (
+                  <div className="text-center text-sm text-yellow-700">
+                    Saldo de pontos disponível: <span className="font-medium">{formatCurrency(pontosDisponiveis)}</span>
+                  </div>
+                )}
+
+                {modalPaymentType === 'CREDITO_LOJA' && (
+                  <div className="text-center text-sm text-red-700">
+                    Limite disponível na conta: <span className="font-medium">{formatCurrency(creditoDisponivel)}</span>
+                  </div>
+                )}
               </div>
             )}
 
@@ -26,7 +26,9 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
       'CARTAO_CREDITO': 'Cartão Crédito',
       'CARTAO_DEBITO': 'Cartão Débito',
       'PIX': 'PIX',
-      'OUTROS': 'Outros'
+      'OUTROS': 'Outros',
+      'PONTOS': 'Pontos',
+      'CREDITO_LOJA': 'Crédito Loja'
     };
     return labels[tipo];
   };
@@ -37,7 +39,9 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
       'CARTAO_CREDITO': '💳',
       'CARTAO_DEBITO': '💳',
       'PIX': '📱',
-      'OUTROS': '📄'
+      'OUTROS': '📄',
+      'PONTOS': '⭐',
+      'CREDITO_LOJA': '📒'
     };
     return icons[tipo];
   };
@@ -0,0 +1,119 @@
+// src/renderer/src/components/PriceChangeModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Item } from '../types';
+
+interface PriceChangeModalProps {
+  item: Item;
+  onConfirm: (novoPreco: number) => void;
+  onCancel: () => void;
+}
+
+// Aceita "15,90", "1.500,50" ou "15.9"
+const parseMoneyValue = (value: string): number => {
+  let cleanValue = value.replace(/[^\d,.]/g, '');
+  if (cleanValue.includes(',')) {
+    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
+  }
+  const parsed = parseFloat(cleanValue);
+  return isNaN(parsed) || parsed < 0 ? 0 : Math.round(parsed * 100) / 100;
+};
+
+const PriceChangeModal: React.FC<PriceChangeModalProps> = ({ item, onConfirm, onCancel }) => {
+  const [valor, setValor] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const valorInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => valorInputRef.current?.focus(), 50);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleSubmit = (): void => {
+    const novoPreco = parseMoneyValue(valor);
+
+    if (novoPreco <= 0) {
+      setError('Informe um preço maior que zero');
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (Math.round(novoPreco * 100) === Math.round(item.vlrUnit * 100)) {
+      setError('O novo preço é igual ao atual');
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    onConfirm(novoPreco);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Alterar Preço</h3>
+
+        <div className="text-sm text-gray-600 mb-4 space-y-1">
+          <div className="font-semibold text-gray-800">{item.descricao}</div>
+          <div>Código: {item.codigo}</div>
+          <div>Preço atual: {formatCurrency(item.vlrUnit)}</div>
+        </div>
+
+        <input
+          ref={valorInputRef}
+          type="text"
+          value={valor}
+          onChange={(e) => setValor(e.target.value.replace(/[^0-9,.]/g, ''))}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold mb-4"
+          placeholder="0,00"
+        />
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Cancelar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            Continuar (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceChangeModal;
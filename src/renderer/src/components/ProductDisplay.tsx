@@ -8,6 +8,10 @@ interface Item {
   vlrUnit: number;
   total: number;
   produto_id?: number;
+  unidade?: string;
+  precoOriginal?: number;
+  precoVarejo?: number;
+  precosAtacado?: { quantidade_minima: number; preco: number }[];
 }
 
 interface ProductDisplayProps {
@@ -15,20 +19,56 @@ interface ProductDisplayProps {
 }
 
 const ProductDisplay: React.FC<ProductDisplayProps> = ({ items }) => {
+  const ultimo = items.length > 0 ? items[items.length - 1] : null;
+
   // Produto em destaque (último item ou mensagem padrão)
-  const produtoDestaque: string = items.length > 0 
-    ? items[items.length - 1].descricao.toUpperCase()
+  const produtoDestaque: string = ultimo
+    ? ultimo.descricao.toUpperCase()
     : 'CAIXA LIVRE...';
 
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Varejo e atacado lado a lado para o cliente entender a troca de preço
+  const faixas = ultimo?.precoVarejo !== undefined && ultimo.precoOriginal === undefined
+    ? [...(ultimo.precosAtacado || [])].sort((a, b) => a.quantidade_minima - b.quantidade_minima)
+    : [];
+
   return (
     <div className="bg-white p-6 border-t border-gray-200">
       <div className="text-center">
         <h2 className="text-4xl font-bold text-blue-600 tracking-wide">
           {produtoDestaque}
         </h2>
+
+        {ultimo && faixas.length > 0 && (
+          <div className="flex justify-center gap-3 mt-3 text-lg">
+            <span
+              className={`px-3 py-1 rounded ${
+                ultimo.vlrUnit === ultimo.precoVarejo ? 'bg-blue-100 text-blue-700 font-semibold' : 'text-gray-500'
+              }`}
+            >
+              Varejo {formatCurrency(ultimo.precoVarejo!)}
+            </span>
+            {faixas.map((faixa) => (
+              <span
+                key={faixa.quantidade_minima}
+                className={`px-3 py-1 rounded ${
+                  ultimo.vlrUnit === faixa.preco ? 'bg-green-100 text-green-700 font-semibold' : 'text-gray-500'
+                }`}
+              >
+                Atacado a partir de {faixa.quantidade_minima.toLocaleString('pt-BR')} {ultimo.unidade || 'UN'}: {formatCurrency(faixa.preco)}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default ProductDisplay;
\ No newline at end of file
+export default ProductDisplay;
@@ -3,7 +3,7 @@ import React, { RefObject } from 'react';
 
 interface ProductFormProps {
   codigoAtual: string;
-  quantidadeAtual: number;
+  quantidadeAtual: string; // texto digitado (aceita "1,5" para KG, L e M)
   loading: boolean;
   isConnected: boolean;
   isListening?: boolean;
@@ -16,6 +16,7 @@ interface ProductFormProps {
   onQuantidadeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onQuantidadeKeyPress: (e: React.KeyboardEvent<HTMLInputElement>) => void;
   quantidadeProduto: number;
+  unidadeProduto?: string;
   codigoInputRef?: RefObject<HTMLInputElement | null>;
 }
 
@@ -34,6 +35,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
   onQuantidadeChange,
   onQuantidadeKeyPress,
   quantidadeProduto,
+  unidadeProduto = 'UN',
   codigoInputRef
 }) => {
   // Função para formatação de moeda
@@ -77,14 +79,14 @@ const ProductForm: React.FC<ProductFormProps> = ({
           Quantidade
         </label>
         <input
-          type="number"
+          type="text"
+          inputMode="decimal"
           value={quantidadeAtual}
           onChange={onQuantidadeChange}
           onKeyPress={onQuantidadeKeyPress}
           className={`w-full p-3 border rounded-lg text-center text-2xl ${
             loading ? 'bg-gray-200' : 'border-gray-300'
           }`}
-          min="1"
           disabled={loading}
         />
       </div>
@@ -97,7 +99,9 @@ const ProductForm: React.FC<ProductFormProps> = ({
         </div>
         <div className="flex justify-between items-center text-lg">
           <span className="font-semibold text-2xl">{formatCurrency(valorUnitarioAtual)}</span>
-          <span className="font-semibold">x {quantidadeProduto}</span>
+          <span className="font-semibold">
+            x {quantidadeProduto.toLocaleString('pt-BR', { maximumFractionDigits: 3 })} {unidadeProduto}
+          </span>
           <span className="font-semibold text-2xl">{formatCurrency(subtotal)}</span>
         </div>
       </div>
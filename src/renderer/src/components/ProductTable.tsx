@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { AppliedPromotion } from '../types';
 
 interface Item {
   id: number;
@@ -8,14 +9,38 @@ interface Item {
   vlrUnit: number;
   total: number;
   produto_id?: number;
+  cancelado?: boolean;
+  desconto?: { tipo: 'PERCENTUAL' | 'VALOR'; valor: number; motivo: string };
+  valorDesconto?: number;
+  unidade?: string;
+  precoOriginal?: number;
+  precoVarejo?: number;
 }
 
 interface ProductTableProps {
   items: Item[];
   isConnected: boolean;
+  selectedIndex?: number | null; // linha selecionada pelas setas (cancelamento/alteração)
+  descontoVenda?: { tipo: 'PERCENTUAL' | 'VALOR'; valor: number; motivo: string } | null;
+  valorDescontoVenda?: number;
+  promocoes?: AppliedPromotion[];
 }
 
-const ProductTable: React.FC<ProductTableProps> = ({ items, isConnected }) => {
+const ProductTable: React.FC<ProductTableProps> = ({
+  items,
+  isConnected,
+  selectedIndex = null,
+  descontoVenda = null,
+  valorDescontoVenda = 0,
+  promocoes = []
+}) => {
+  const selectedRowRef = useRef<HTMLTableRowElement>(null);
+
+  // Manter a linha selecionada visível ao navegar com as setas
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
   // Função para formatação de moeda
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat('pt-BR', {
@@ -49,15 +74,61 @@ const ProductTable: React.FC<ProductTableProps> = ({ items, isConnected }) => {
           <table className="w-full table-fixed">
             <tbody>
               {items.map((item: Item, index: number) => (
-                <tr key={item.id} className="border-b border-gray-200 hover:bg-gray-100">
+                <tr
+                  key={item.id}
+                  ref={index === selectedIndex ? selectedRowRef : undefined}
+                  className={`border-b border-gray-200 ${
+                    index === selectedIndex ? 'bg-blue-100 ring-2 ring-inset ring-blue-400' : 'hover:bg-gray-100'
+                  } ${item.cancelado ? 'line-through text-gray-400' : ''}`}
+                >
                   <td className="p-3 text-sm font-medium w-1/12">{index + 1}</td>
                   <td className="p-3 text-sm w-1/6 truncate" title={item.codigo}>{item.codigo}</td>
-                  <td className="p-3 text-sm truncate w-1/3" title={item.descricao}>{item.descricao}</td>
-                  <td className="p-3 text-sm text-center w-1/6">{item.qtde}</td>
+                  <td className="p-3 text-sm truncate w-1/3" title={item.descricao}>
+                    {item.descricao}
+                    {item.cancelado && (
+                      <span className="ml-2 text-xs font-semibold text-red-500 no-underline">CANCELADO</span>
+                    )}
+                    {item.precoVarejo !== undefined && item.precoOriginal === undefined && item.vlrUnit < item.precoVarejo && (
+                      <span className="ml-2 text-xs font-semibold text-green-600">ATACADO</span>
+                    )}
+                    {item.qtde < 0 && (
+                      <span className="ml-2 text-xs font-semibold text-orange-600">DEVOLUÇÃO</span>
+                    )}
+                    {!!item.valorDesconto && (
+                      <div className="text-xs text-green-600">
+                        Desc. {item.desconto?.tipo === 'PERCENTUAL' ? `${item.desconto.valor}%` : ''} -{formatCurrency(item.valorDesconto)}
+                        {item.desconto?.motivo && ` (${item.desconto.motivo})`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3 text-sm text-center w-1/6">
+                    {item.qtde.toLocaleString('pt-BR', { maximumFractionDigits: 3 })} {item.unidade || 'UN'}
+                  </td>
                   <td className="p-3 text-sm text-right w-1/6">{formatCurrency(item.vlrUnit)}</td>
                   <td className="p-3 text-sm text-right font-medium w-1/6">{formatCurrency(item.total)}</td>
                 </tr>
               ))}
+              {/* Promoções aplicadas (uma linha por promoção, com os itens participantes) */}
+              {promocoes.map((promocao) => (
+                <tr key={promocao.promocao_id} className="border-b border-gray-200 bg-green-50 text-green-700">
+                  <td className="p-3 text-sm w-1/12"></td>
+                  <td colSpan={4} className="p-3 text-sm font-medium">
+                    PROMOÇÃO {promocao.nome}
+                    <span className="ml-2 text-xs font-normal">(itens {promocao.itens.map(item => item.sequencia).join(', ')})</span>
+                  </td>
+                  <td className="p-3 text-sm text-right font-medium w-1/6">-{formatCurrency(promocao.valor_desconto)}</td>
+                </tr>
+              ))}
+              {/* Desconto no subtotal da venda */}
+              {descontoVenda && valorDescontoVenda > 0 && (
+                <tr className="border-b border-gray-200 bg-green-50 text-green-700">
+                  <td className="p-3 text-sm w-1/12"></td>
+                  <td colSpan={4} className="p-3 text-sm font-medium">
+                    DESCONTO NA VENDA {descontoVenda.tipo === 'PERCENTUAL' ? `${descontoVenda.valor}%` : ''} ({descontoVenda.motivo})
+                  </td>
+                  <td className="p-3 text-sm text-right font-medium w-1/6">-{formatCurrency(valorDescontoVenda)}</td>
+                </tr>
+              )}
               {/* Espaço extra para quando há poucos itens */}
               {items.length === 0 && (
                 <tr>
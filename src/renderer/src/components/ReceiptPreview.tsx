@@ -0,0 +1,87 @@
+// src/renderer/src/components/ReceiptPreview.tsx
+import React from 'react';
+import { ReceiptLayout, ReceiptLayoutLine } from '../types';
+
+interface ReceiptPreviewProps {
+  layout: ReceiptLayout;
+}
+
+// Barras do CODE128 nas medidas da impressora (larguras alternando barra e espaço)
+const CodigoBarras: React.FC<{ linha: ReceiptLayoutLine; layout: ReceiptLayout }> = ({ linha, layout }) => {
+  const larguras = linha.barras || [];
+  const total = larguras.reduce((soma, largura) => soma + largura, 0);
+  let x = 0;
+
+  return (
+    <div className="text-center my-1">
+      <svg
+        viewBox={`0 0 ${total} 1`}
+        preserveAspectRatio="none"
+        style={{
+          width: `${total * layout.codigoBarras.moduloMm}mm`,
+          height: `${layout.codigoBarras.alturaMm}mm`,
+          display: 'inline-block'
+        }}
+      >
+        {larguras.map((largura, indice) => {
+          const inicio = x;
+          x += largura;
+          return indice % 2 === 0 ? <rect key={indice} x={inicio} y={0} width={largura} height={1} /> : null;
+        })}
+      </svg>
+      <div>{linha.texto}</div>
+    </div>
+  );
+};
+
+// Cupom como sai na bobina: mesmas linhas, destaques e código de barras da impressão ESC/POS
+const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({ layout }) => {
+  const fonteMm = layout.areaMm / (layout.colunas * 0.6);
+
+  return (
+    <div
+      className="bg-white border shadow-sm mx-auto text-black"
+      style={{
+        width: `${layout.areaMm}mm`,
+        padding: `4mm ${(layout.larguraMm - layout.areaMm) / 2}mm`,
+        fontFamily: "'Courier New', Courier, monospace",
+        fontSize: `${fonteMm}mm`,
+        lineHeight: 1.5,
+        boxSizing: 'content-box'
+      }}
+    >
+      {layout.logo && (
+        <div className="text-center my-1">
+          <img
+            src={layout.logo.url}
+            alt="Logo"
+            style={{ width: `${layout.logo.larguraMm}mm`, imageRendering: 'pixelated', display: 'inline-block' }}
+          />
+        </div>
+      )}
+
+      {layout.linhas.map((linha, indice) => {
+        switch (linha.estilo) {
+          case 'CODIGO_BARRAS':
+            return <CodigoBarras key={indice} linha={linha} layout={layout} />;
+          case 'TITULO':
+            return (
+              <div
+                key={indice}
+                className="text-center font-bold whitespace-pre"
+                style={{ height: '3em', transform: 'scaleY(2)', transformOrigin: 'top' }}
+              >
+                {linha.texto}
+              </div>
+            );
+          case 'DESTAQUE':
+            return <div key={indice} className="whitespace-pre overflow-hidden font-bold">{linha.texto}</div>;
+          default:
+            return <div key={indice} className="whitespace-pre overflow-hidden">{linha.texto || ' '}</div>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default ReceiptPreview;
@@ -0,0 +1,308 @@
+// src/renderer/src/components/ReturnScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Undo2 } from 'lucide-react';
+import { RefundType, SaleHistoryRecord, SaleReturnResult, Shift } from '../types';
+
+interface ReturnScreenProps {
+  turno: Shift;
+  loading: boolean;
+  atalhosBloqueados?: boolean; // autorização do supervisor aberta sobre a tela
+  onFindSale: (termo: string) => Promise<SaleHistoryRecord | null>;
+  onSubmit: (
+    venda: SaleHistoryRecord,
+    itens: Array<{ sequencia: number; quantidade: number }>,
+    tipoReembolso: RefundType
+  ) => Promise<SaleReturnResult>;
+  onCancel: () => void;
+}
+
+const REEMBOLSOS: Array<{ value: RefundType; label: string; key: string; icon: string }> = [
+  { value: 'DINHEIRO', label: 'Dinheiro', key: 'F6', icon: '💵' },
+  { value: 'FORMA_ORIGINAL', label: 'Forma Original', key: 'F7', icon: '💳' }
+];
+
+const parseQuantidade = (valor: string): number => {
+  const numero = parseFloat(valor.replace(',', '.'));
+  return isNaN(numero) || numero < 0 ? 0 : numero;
+};
+
+const ReturnScreen: React.FC<ReturnScreenProps> = ({
+  turno,
+  loading,
+  atalhosBloqueados = false,
+  onFindSale,
+  onSubmit,
+  onCancel
+}) => {
+  const [termo, setTermo] = useState<string>('');
+  const [venda, setVenda] = useState<SaleHistoryRecord | null>(null);
+  const [quantidades, setQuantidades] = useState<Record<number, string>>({});
+  const [tipoReembolso, setTipoReembolso] = useState<RefundType>('DINHEIRO');
+  const [comprovante, setComprovante] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const termoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => termoInputRef.current?.focus(), 100);
+  }, []);
+
+  // F6/F7 tipo de reembolso | ESC Voltar
+  useEffect(() => {
+    if (atalhosBloqueados) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+        return;
+      }
+
+      const reembolso = REEMBOLSOS.find(r => r.key === e.key);
+      if (reembolso) {
+        e.preventDefault();
+        setTipoReembolso(reembolso.value);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel, atalhosBloqueados]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const buscarVenda = async (): Promise<void> => {
+    if (!termo.trim()) return;
+
+    try {
+      setError('');
+      setComprovante('');
+      const encontrada = await onFindSale(termo);
+      setVenda(encontrada);
+      setQuantidades({});
+
+      if (!encontrada) {
+        setError('Venda não encontrada no histórico do caixa');
+      }
+    } catch (error: any) {
+      setVenda(null);
+      setError(error.message);
+    } finally {
+      termoInputRef.current?.select();
+    }
+  };
+
+  const disponivel = (item: SaleHistoryRecord['itens'][number]): number =>
+    Math.max(0, Math.round((item.quantidade - item.quantidade_devolvida) * 1000) / 1000);
+
+  // Prévia do valor da linha (o valor final é calculado no registro da devolução)
+  const valorDevolucao = (item: SaleHistoryRecord['itens'][number]): number => {
+    const quantidade = Math.min(parseQuantidade(quantidades[item.sequencia] || ''), disponivel(item));
+    return item.quantidade > 0 ? Math.round(item.valor_total * 100 * quantidade / item.quantidade) / 100 : 0;
+  };
+
+  const itensSelecionados = venda
+    ? venda.itens
+        .map(item => ({ sequencia: item.sequencia, quantidade: parseQuantidade(quantidades[item.sequencia] || '') }))
+        .filter(item => item.quantidade > 0)
+    : [];
+  const totalDevolucao = venda
+    ? venda.itens.reduce((soma, item) => soma + Math.round(valorDevolucao(item) * 100), 0) / 100
+    : 0;
+
+  const devolverTudo = (): void => {
+    if (!venda) return;
+    setQuantidades(Object.fromEntries(
+      venda.itens.filter(item => disponivel(item) > 0).map(item => [item.sequencia, String(disponivel(item))])
+    ));
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!venda) {
+      setError('Localize a venda original');
+      termoInputRef.current?.focus();
+      return;
+    }
+
+    if (itensSelecionados.length === 0) {
+      setError('Informe a quantidade a devolver em ao menos um item');
+      return;
+    }
+
+    try {
+      setError('');
+      const resultado = await onSubmit(venda, itensSelecionados, tipoReembolso);
+      setComprovante(resultado.comprovante);
+      setVenda(null);
+      setQuantidades({});
+      setTermo('');
+      termoInputRef.current?.focus();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-400 px-3 py-2 rounded"
+          >
+            <ArrowLeft size={20} />
+            <span>Voltar (ESC)</span>
+          </button>
+          <h1 className="text-xl font-bold">Devolução / Troca</h1>
+        </div>
+        <div className="text-sm">
+          Turno {turno.id} | {turno.operador}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
+        <div className="flex flex-1 p-6 gap-6 overflow-hidden">
+          {/* Venda original e itens */}
+          <div className="flex-1 space-y-4 flex flex-col overflow-hidden">
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Número da venda ou código do cupom</label>
+              <input
+                ref={termoInputRef}
+                type="text"
+                value={termo}
+                onChange={(e) => setTermo(e.target.value)}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    buscarVenda();
+                  }
+                }}
+                className="w-full p-3 border border-gray-300 rounded-lg text-center text-xl font-bold"
+                placeholder="Ex.: 1234 ou V1234"
+                disabled={loading}
+              />
+            </div>
+
+            {venda && (
+              <div className="bg-gray-50 p-4 rounded-lg flex-1 overflow-y-auto">
+                <div className="flex justify-between items-center mb-3">
+                  <div>
+                    <div className="font-semibold">Venda {venda.numero_venda}</div>
+                    <div className="text-sm text-gray-600">
+                      {new Date(venda.data_venda).toLocaleString('pt-BR')} | Total {formatCurrency(venda.total)}
+                      {!venda.sincronizado && ' | ⏳ não sincronizada'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={devolverTudo}
+                    className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
+                  >
+                    Devolver tudo
+                  </button>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2">#</th>
+                      <th>Produto</th>
+                      <th className="text-right">Vendido</th>
+                      <th className="text-right">Disponível</th>
+                      <th className="text-right">Devolver</th>
+                      <th className="text-right">Valor</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {venda.itens.map((item) => (
+                      <tr key={item.sequencia} className="border-b">
+                        <td className="py-2">{item.sequencia}</td>
+                        <td>{item.codigo} {item.descricao}</td>
+                        <td className="text-right">{item.quantidade.toLocaleString('pt-BR')} {item.unidade}</td>
+                        <td className="text-right">{disponivel(item).toLocaleString('pt-BR')}</td>
+                        <td className="text-right">
+                          <input
+                            type="text"
+                            value={quantidades[item.sequencia] || ''}
+                            onChange={(e) => setQuantidades({
+                              ...quantidades,
+                              [item.sequencia]: e.target.value.replace(/[^0-9,.]/g, '')
+                            })}
+                            className="w-20 p-1 border border-gray-300 rounded text-right"
+                            placeholder="0"
+                            disabled={loading || disponivel(item) <= 0}
+                          />
+                        </td>
+                        <td className="text-right">{formatCurrency(valorDevolucao(item))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Reembolso e comprovante */}
+          <div className="w-1/3 space-y-4 flex flex-col overflow-y-auto">
+            <div className="grid grid-cols-2 gap-2">
+              {REEMBOLSOS.map((reembolso) => (
+                <button
+                  key={reembolso.value}
+                  onClick={() => setTipoReembolso(reembolso.value)}
+                  className={`p-3 rounded-lg text-center font-medium transition-colors border-2 ${
+                    tipoReembolso === reembolso.value
+                      ? 'bg-blue-500 text-white border-blue-600'
+                      : 'bg-white border-gray-300 hover:bg-gray-100 hover:border-gray-400'
+                  }`}
+                >
+                  <div className="text-xl mb-1">{reembolso.icon}</div>
+                  <div className="text-sm font-semibold">{reembolso.label}</div>
+                  <div className="text-xs opacity-75 mt-1">({reembolso.key})</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="flex justify-between text-xl font-bold">
+                <span>Total a devolver:</span>
+                <span className="text-red-600">{formatCurrency(totalDevolucao)}</span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                ❌ {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={loading || itensSelecionados.length === 0}
+              className={`w-full py-3 rounded-lg text-lg font-semibold flex items-center justify-center space-x-2 ${
+                loading || itensSelecionados.length === 0
+                  ? 'bg-gray-300 text-gray-500'
+                  : 'bg-green-500 text-white hover:bg-green-600'
+              }`}
+            >
+              <Undo2 size={20} />
+              <span>Confirmar Devolução</span>
+            </button>
+
+            {comprovante && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="text-lg font-semibold mb-2">Comprovante</h3>
+                <pre className="bg-white border p-3 text-xs font-mono whitespace-pre">{comprovante}</pre>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReturnScreen;
@@ -0,0 +1,471 @@
+// src/renderer/src/components/SalesHistoryScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, FileDown, Printer, Search } from 'lucide-react';
+import { Payment, ReceiptExportFormat, ReceiptLayout, SaleHistoryFilter, SaleHistoryRecord } from '../types';
+import ReceiptPreview from './ReceiptPreview';
+
+interface SalesHistoryScreenProps {
+  onSearch: (filtros: SaleHistoryFilter) => Promise<SaleHistoryRecord[]>;
+  onReprint: (vendaId: number) => Promise<string>;
+  onGetReceipt: (vendaId: number) => Promise<string>;
+  onPreview: (comprovante: string) => Promise<ReceiptLayout>;
+  onExport: (comprovante: string, formato: ReceiptExportFormat, nome: string) => Promise<string>;
+  onCancel: () => void;
+}
+
+// Data local no formato do input (AAAA-MM-DD)
+const hoje = (): string => {
+  const data = new Date();
+  const mes = String(data.getMonth() + 1).padStart(2, '0');
+  const dia = String(data.getDate()).padStart(2, '0');
+  return `${data.getFullYear()}-${mes}-${dia}`;
+};
+
+const parseValor = (valor: string): number | undefined => {
+  const numero = parseFloat(valor.replace(',', '.'));
+  return isNaN(numero) ? undefined : numero;
+};
+
+const SalesHistoryScreen: React.FC<SalesHistoryScreenProps> = ({
+  onSearch,
+  onReprint,
+  onGetReceipt,
+  onPreview,
+  onExport,
+  onCancel
+}) => {
+  const [dataInicio, setDataInicio] = useState<string>(hoje());
+  const [dataFim, setDataFim] = useState<string>(hoje());
+  const [valorMin, setValorMin] = useState<string>('');
+  const [valorMax, setValorMax] = useState<string>('');
+  const [numero, setNumero] = useState<string>('');
+  const [produto, setProduto] = useState<string>('');
+  const [vendas, setVendas] = useState<SaleHistoryRecord[]>([]);
+  const [selecionada, setSelecionada] = useState<SaleHistoryRecord | null>(null);
+  const [comprovante, setComprovante] = useState<string>('');
+  const [previa, setPrevia] = useState<ReceiptLayout | null>(null);
+  const [segundaVia, setSegundaVia] = useState<boolean>(false);
+  const [arquivoExportado, setArquivoExportado] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const numeroInputRef = useRef<HTMLInputElement>(null);
+
+  // Vendas do dia ao abrir a tela
+  useEffect(() => {
+    buscar();
+    setTimeout(() => numeroInputRef.current?.focus(), 100);
+  }, []);
+
+  // Cupom original da venda selecionada, montado como a impressora
+  useEffect(() => {
+    if (!selecionada) return;
+
+    let ativo = true;
+    const carregar = async (): Promise<void> => {
+      try {
+        const texto = await onGetReceipt(selecionada.id);
+        const layout = await onPreview(texto);
+        if (!ativo) return;
+        setComprovante(texto);
+        setPrevia(layout);
+      } catch (error: any) {
+        if (ativo) setError(error.message);
+      }
+    };
+
+    carregar();
+    return () => {
+      ativo = false;
+    };
+  }, [selecionada]);
+
+  // ESC Voltar | ↑↓ Selecionar venda | F7 PDF | F8 HTML | F9 Reimprimir
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+        return;
+      }
+
+      if (e.key === 'F9') {
+        e.preventDefault();
+        reimprimir();
+        return;
+      }
+
+      if (e.key === 'F7' || e.key === 'F8') {
+        e.preventDefault();
+        exportar(e.key === 'F7' ? 'PDF' : 'HTML');
+        return;
+      }
+
+      if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && vendas.length > 0) {
+        e.preventDefault();
+        const atual = selecionada ? vendas.findIndex(venda => venda.id === selecionada.id) : -1;
+        const proxima = e.key === 'ArrowDown'
+          ? Math.min(vendas.length - 1, atual + 1)
+          : Math.max(0, atual - 1);
+        selecionar(vendas[proxima]);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel, vendas, selecionada, comprovante]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const getPaymentTypeLabel = (tipo: Payment['tipo']): string => {
+    const labels = {
+      'DINHEIRO': 'Dinheiro',
+      'CARTAO_CREDITO': 'Cartão de Crédito',
+      'CARTAO_DEBITO': 'Cartão de Débito',
+      'PIX': 'PIX',
+      'OUTROS': 'Outros',
+      'PONTOS': 'Pontos Fidelidade',
+      'CREDITO_LOJA': 'Crédito na Loja'
+    };
+    return labels[tipo];
+  };
+
+  const selecionar = (venda: SaleHistoryRecord): void => {
+    setSelecionada(venda);
+    setComprovante('');
+    setPrevia(null);
+    setSegundaVia(false);
+    setArquivoExportado('');
+  };
+
+  const buscar = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      setError('');
+      const encontradas = await onSearch({
+        data_inicio: dataInicio || undefined,
+        data_fim: dataFim || undefined,
+        valor_min: parseValor(valorMin),
+        valor_max: parseValor(valorMax),
+        numero: numero.trim() || undefined,
+        produto: produto.trim() || undefined
+      });
+      setVendas(encontradas);
+      setSelecionada(encontradas[0] || null);
+      setComprovante('');
+      setPrevia(null);
+      setSegundaVia(false);
+      setArquivoExportado('');
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const limparFiltros = (): void => {
+    setDataInicio('');
+    setDataFim('');
+    setValorMin('');
+    setValorMax('');
+    setNumero('');
+    setProduto('');
+  };
+
+  const reimprimir = async (): Promise<void> => {
+    if (!selecionada) return;
+
+    setLoading(true);
+    try {
+      setError('');
+      const texto = await onReprint(selecionada.id);
+      setComprovante(texto);
+      setPrevia(await onPreview(texto));
+      setSegundaVia(true);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Cópia do cupom exibido (original ou segunda via) para envio ao cliente ou suporte
+  const exportar = async (formato: ReceiptExportFormat): Promise<void> => {
+    if (!selecionada || !comprovante) return;
+
+    setLoading(true);
+    try {
+      setError('');
+      setArquivoExportado(await onExport(comprovante, formato, `venda-${selecionada.numero_venda}`));
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Enter em qualquer filtro dispara a busca
+  const handleFiltroKeyPress = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      buscar();
+    }
+  };
+
+  const totalListado = vendas
+    .filter(venda => venda.status !== 'CANCELADA')
+    .reduce((soma, venda) => soma + Math.round(venda.total * 100), 0) / 100;
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-400 px-3 py-2 rounded"
+          >
+            <ArrowLeft size={20} />
+            <span>Voltar (ESC)</span>
+          </button>
+          <h1 className="text-xl font-bold">Histórico de Vendas</h1>
+        </div>
+        <div className="text-sm">
+          {vendas.length} venda(s) | {formatCurrency(totalListado)}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
+        {/* Filtros */}
+        <div className="p-4 border-b grid grid-cols-7 gap-3 items-end text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1">De</label>
+            <input
+              type="date"
+              value={dataInicio}
+              onChange={(e) => setDataInicio(e.target.value)}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Até</label>
+            <input
+              type="date"
+              value={dataFim}
+              onChange={(e) => setDataFim(e.target.value)}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Valor mín.</label>
+            <input
+              type="text"
+              value={valorMin}
+              onChange={(e) => setValorMin(e.target.value.replace(/[^0-9,.]/g, ''))}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded text-right"
+              placeholder="0,00"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Valor máx.</label>
+            <input
+              type="text"
+              value={valorMax}
+              onChange={(e) => setValorMax(e.target.value.replace(/[^0-9,.]/g, ''))}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded text-right"
+              placeholder="0,00"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Número / cupom</label>
+            <input
+              ref={numeroInputRef}
+              type="text"
+              value={numero}
+              onChange={(e) => setNumero(e.target.value)}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded"
+              placeholder="1234 ou V1234"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Produto</label>
+            <input
+              type="text"
+              value={produto}
+              onChange={(e) => setProduto(e.target.value)}
+              onKeyPress={handleFiltroKeyPress}
+              className="w-full p-2 border border-gray-300 rounded"
+              placeholder="Código ou descrição"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={buscar}
+              disabled={loading}
+              className="flex-1 flex items-center justify-center space-x-1 p-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              <Search size={16} />
+              <span>Buscar</span>
+            </button>
+            <button
+              onClick={limparFiltros}
+              className="p-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+            >
+              Limpar
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex flex-1 p-4 gap-6 overflow-hidden">
+          {/* Vendas encontradas */}
+          <div className="flex-1 overflow-y-auto">
+            {vendas.length === 0 ? (
+              <div className="text-center text-gray-500 py-8">
+                {loading ? 'Buscando...' : 'Nenhuma venda encontrada com os filtros informados'}
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2">Venda</th>
+                    <th>Data</th>
+                    <th>Cliente</th>
+                    <th>Operador</th>
+                    <th className="text-right">Itens</th>
+                    <th className="text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {vendas.map((venda) => (
+                    <tr
+                      key={venda.id}
+                      onClick={() => selecionar(venda)}
+                      className={`border-b cursor-pointer ${
+                        selecionada?.id === venda.id ? 'bg-blue-100' : 'hover:bg-gray-50'
+                      } ${venda.status === 'CANCELADA' ? 'text-gray-400 line-through' : ''}`}
+                    >
+                      <td className="py-2 font-semibold">
+                        {venda.numero_venda}
+                        {!venda.sincronizado && <span title="Não sincronizada"> ⏳</span>}
+                      </td>
+                      <td>{new Date(venda.data_venda).toLocaleString('pt-BR')}</td>
+                      <td>{venda.cliente_nome || '-'}</td>
+                      <td>{venda.operador_codigo || '-'}</td>
+                      <td className="text-right">{venda.itens.length}</td>
+                      <td className="text-right">{formatCurrency(venda.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Detalhe da venda selecionada */}
+          <div className="w-2/5 space-y-4 flex flex-col overflow-y-auto">
+            {selecionada ? (
+              <>
+                <div className="bg-gray-50 p-4 rounded-lg text-sm space-y-1">
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>Venda {selecionada.numero_venda}</span>
+                    <span>{formatCurrency(selecionada.total)}</span>
+                  </div>
+                  {selecionada.status === 'CANCELADA' && (
+                    <div className="text-red-600 font-semibold">Cupom cancelado</div>
+                  )}
+                  <div>Data: {new Date(selecionada.data_venda).toLocaleString('pt-BR')}</div>
+                  <div>Operador: {selecionada.operador_codigo || '-'}</div>
+                  <div>Cliente: {selecionada.cliente_nome || (selecionada.cliente_id ? `#${selecionada.cliente_id}` : '-')}</div>
+                  {!selecionada.sincronizado && <div className="text-orange-600">⏳ Não sincronizada</div>}
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {selecionada.itens.map((item) => (
+                        <tr key={item.sequencia} className="border-b">
+                          <td className="py-1">{item.sequencia}</td>
+                          <td>{item.codigo} {item.descricao}</td>
+                          <td className="text-right whitespace-nowrap">
+                            {item.quantidade.toLocaleString('pt-BR')} {item.unidade}
+                            {item.quantidade_devolvida > 0 && (
+                              <span className="text-red-600"> (dev. {item.quantidade_devolvida.toLocaleString('pt-BR')})</span>
+                            )}
+                          </td>
+                          <td className="text-right">{formatCurrency(item.valor_total)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="mt-3 space-y-1 text-sm">
+                    {selecionada.pagamentos.map((pagamento, index) => (
+                      <div key={index} className="flex justify-between text-gray-600">
+                        <span>{getPaymentTypeLabel(pagamento.tipo)}</span>
+                        <span>{formatCurrency(pagamento.valor)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  onClick={reimprimir}
+                  disabled={loading}
+                  className="w-full py-3 rounded-lg text-lg font-semibold flex items-center justify-center space-x-2 bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-300"
+                >
+                  <Printer size={20} />
+                  <span>Reimprimir (F9)</span>
+                </button>
+
+                <div className="flex gap-3">
+                  {(['PDF', 'HTML'] as ReceiptExportFormat[]).map((formato) => (
+                    <button
+                      key={formato}
+                      onClick={() => exportar(formato)}
+                      disabled={loading || !comprovante}
+                      className="flex-1 py-2 rounded-lg font-semibold flex items-center justify-center space-x-2 bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:text-gray-400"
+                    >
+                      <FileDown size={18} />
+                      <span>Exportar {formato} ({formato === 'PDF' ? 'F7' : 'F8'})</span>
+                    </button>
+                  ))}
+                </div>
+
+                {arquivoExportado && (
+                  <div className="bg-green-100 border border-green-400 text-green-700 px-3 py-2 rounded text-sm break-all">
+                    ✅ Comprovante salvo em {arquivoExportado}
+                  </div>
+                )}
+
+                {previa && (
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <h3 className="text-lg font-semibold mb-2">{segundaVia ? 'Segunda via' : 'Cupom'}</h3>
+                    <ReceiptPreview layout={previa} />
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center text-gray-500 py-8">Selecione uma venda para ver o detalhe</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SalesHistoryScreen;
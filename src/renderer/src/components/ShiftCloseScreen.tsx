@@ -0,0 +1,279 @@
+// src/renderer/src/components/ShiftCloseScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Lock } from 'lucide-react';
+import { CashCount, Payment, Shift, ShiftReport } from '../types';
+
+interface ShiftCloseScreenProps {
+  turno: Shift;
+  loading: boolean;
+  onClose: (contagem: CashCount, observacao?: string) => Promise<ShiftReport>;
+  onFinish: () => void;
+  onCancel: () => void;
+}
+
+// Mesmas cédulas/moedas aceitas pelo ShiftService no processo principal
+const DENOMINACOES: number[] = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05];
+
+const ShiftCloseScreen: React.FC<ShiftCloseScreenProps> = ({
+  turno,
+  loading,
+  onClose,
+  onFinish,
+  onCancel
+}) => {
+  const [quantidades, setQuantidades] = useState<Record<string, string>>({});
+  const [observacao, setObservacao] = useState<string>('');
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const firstInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => firstInputRef.current?.focus(), 100);
+  }, []);
+
+  // ESC volta ao PDV antes do fechamento; Enter conclui após o relatório
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape' && !report) {
+        e.preventDefault();
+        onCancel();
+      } else if (e.key === 'Enter' && report) {
+        e.preventDefault();
+        onFinish();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [report, onCancel, onFinish]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const getPaymentTypeLabel = (tipo: Payment['tipo']): string => {
+    const labels = {
+      'DINHEIRO': 'Dinheiro',
+      'CARTAO_CREDITO': 'Cartão de Crédito',
+      'CARTAO_DEBITO': 'Cartão de Débito',
+      'PIX': 'PIX',
+      'OUTROS': 'Outros',
+      'PONTOS': 'Pontos Fidelidade',
+      'CREDITO_LOJA': 'Crédito na Loja'
+    };
+    return labels[tipo];
+  };
+
+  const buildContagem = (): CashCount => {
+    const contagem: CashCount = {};
+    for (const denominacao of DENOMINACOES) {
+      const quantidade = parseInt(quantidades[String(denominacao)] || '0', 10) || 0;
+      if (quantidade > 0) {
+        contagem[String(denominacao)] = quantidade;
+      }
+    }
+    return contagem;
+  };
+
+  const totalContadoCents = Object.entries(buildContagem())
+    .reduce((sum, [denominacao, quantidade]) => sum + Math.round(Number(denominacao) * 100) * quantidade, 0);
+
+  const handleQuantidadeChange = (denominacao: number, value: string): void => {
+    setQuantidades({
+      ...quantidades,
+      [String(denominacao)]: value.replace(/\D/g, '')
+    });
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    try {
+      setError('');
+      const relatorio = await onClose(buildContagem(), observacao.trim() || undefined);
+      setReport(relatorio);
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  // Relatório de fechamento (exibido só depois da contagem cega)
+  if (report) {
+    const diferencaClass = report.diferenca === 0
+      ? 'text-green-600'
+      : report.diferenca > 0 ? 'text-blue-600' : 'text-red-600';
+
+    return (
+      <div className="min-h-screen bg-gray-100 p-4">
+        <div className="bg-blue-600 text-white p-4 rounded-t-lg flex items-center space-x-3">
+          <Lock size={22} />
+          <h1 className="text-xl font-bold">Caixa Fechado - Turno {report.turno.id}</h1>
+        </div>
+
+        <div className="bg-white rounded-b-lg shadow-lg flex justify-center p-6 h-[calc(100vh-120px)] overflow-y-auto">
+          <div className="w-full max-w-lg space-y-4">
+            <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between"><span>Operador:</span><span>{report.turno.operador}</span></div>
+              <div className="flex justify-between"><span>Vendas:</span><span>{report.total_vendas}</span></div>
+              {report.vendas_canceladas > 0 && (
+                <div className="flex justify-between text-red-600"><span>Cupons cancelados:</span><span>{report.vendas_canceladas}</span></div>
+              )}
+              <div className="flex justify-between font-semibold"><span>Faturamento:</span><span>{formatCurrency(report.faturamento)}</span></div>
+              {Object.entries(report.totais_por_forma).map(([tipo, valor]) => (
+                <div key={tipo} className="flex justify-between ml-4 text-gray-600">
+                  <span>{getPaymentTypeLabel(tipo as Payment['tipo'])}:</span>
+                  <span>{formatCurrency(valor as number)}</span>
+                </div>
+              ))}
+              {report.recebimentos_conta > 0 && (
+                <div className="flex justify-between"><span>Recebimentos de conta:</span><span>{formatCurrency(report.recebimentos_conta)}</span></div>
+              )}
+              {report.total_devolucoes > 0 && (
+                <div className="flex justify-between text-red-600"><span>Devoluções:</span><span>- {formatCurrency(report.total_devolucoes)}</span></div>
+              )}
+              {!!report.vendas_espera_expiradas && (
+                <div className="flex justify-between text-orange-600">
+                  <span>Vendas em espera expiradas:</span><span>{report.vendas_espera_expiradas}</span>
+                </div>
+              )}
+              {report.aberturas_gaveta > 0 && (
+                <div className="flex justify-between"><span>Aberturas da gaveta:</span><span>{report.aberturas_gaveta}</span></div>
+              )}
+            </div>
+
+            {report.aberturas_sem_venda.length > 0 && (
+              <div className="bg-orange-50 border border-orange-300 p-4 rounded-lg space-y-1 text-sm">
+                <div className="font-semibold text-orange-700">
+                  Gaveta aberta sem venda ({report.aberturas_sem_venda.length})
+                </div>
+                {report.aberturas_sem_venda.map((abertura) => (
+                  <div key={abertura.id} className="flex justify-between text-gray-700">
+                    <span>
+                      {new Date(abertura.created_at).toLocaleTimeString('pt-BR')} - {abertura.observacao || 'sem motivo'}
+                    </span>
+                    <span className="text-gray-500">
+                      {abertura.operador}{abertura.autorizado_por && ` (aut. ${abertura.autorizado_por})`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+              <div className="flex justify-between"><span>Fundo de troco:</span><span>{formatCurrency(report.fundo_troco)}</span></div>
+              <div className="flex justify-between"><span>Dinheiro das vendas:</span><span>{formatCurrency(report.dinheiro_vendas)}</span></div>
+              {report.dinheiro_recebimentos > 0 && (
+                <div className="flex justify-between"><span>Dinheiro de contas recebidas:</span><span>{formatCurrency(report.dinheiro_recebimentos)}</span></div>
+              )}
+              <div className="flex justify-between"><span>Suprimentos:</span><span>{formatCurrency(report.total_suprimentos)}</span></div>
+              <div className="flex justify-between"><span>Sangrias:</span><span>- {formatCurrency(report.total_sangrias)}</span></div>
+              {report.dinheiro_devolucoes > 0 && (
+                <div className="flex justify-between"><span>Devoluções em dinheiro:</span><span>- {formatCurrency(report.dinheiro_devolucoes)}</span></div>
+              )}
+              <div className="flex justify-between font-semibold text-lg"><span>Esperado:</span><span>{formatCurrency(report.valor_esperado)}</span></div>
+              <div className="flex justify-between font-semibold text-lg"><span>Contado:</span><span>{formatCurrency(report.valor_contado)}</span></div>
+              <div className={`flex justify-between font-bold text-2xl ${diferencaClass}`}>
+                <span>{report.diferenca < 0 ? 'Falta:' : report.diferenca > 0 ? 'Sobra:' : 'Diferença:'}</span>
+                <span>{formatCurrency(Math.abs(report.diferenca))}</span>
+              </div>
+            </div>
+
+            <button
+              onClick={onFinish}
+              className="w-full py-3 rounded-lg text-lg font-semibold bg-blue-500 text-white hover:bg-blue-600"
+            >
+              Concluir (Enter)
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-400 px-3 py-2 rounded"
+          >
+            <ArrowLeft size={20} />
+            <span>Voltar (ESC)</span>
+          </button>
+          <h1 className="text-xl font-bold">Fechamento de Caixa</h1>
+        </div>
+        <div className="text-sm">
+          Turno {turno.id} | {turno.operador}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
+        <div className="flex flex-1 p-6 gap-6 overflow-hidden">
+          {/* Contagem por cédula/moeda */}
+          <div className="flex-1 bg-gray-50 p-4 rounded-lg overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">Contagem de Dinheiro</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {DENOMINACOES.map((denominacao, index) => (
+                <div key={denominacao} className="flex items-center justify-between bg-white p-2 rounded border">
+                  <span className="font-medium w-24">{formatCurrency(denominacao)}</span>
+                  <input
+                    ref={index === 0 ? firstInputRef : undefined}
+                    type="text"
+                    inputMode="numeric"
+                    value={quantidades[String(denominacao)] || ''}
+                    onChange={(e) => handleQuantidadeChange(denominacao, e.target.value)}
+                    className="w-20 p-2 border border-gray-300 rounded text-center"
+                    placeholder="0"
+                    disabled={loading}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Total contado e confirmação */}
+          <div className="w-1/3 space-y-4">
+            <div className="bg-blue-50 border-2 border-blue-200 p-4 rounded-lg text-center">
+              <h3 className="text-lg font-bold text-gray-800 mb-1">TOTAL CONTADO</h3>
+              <div className="text-4xl font-bold text-blue-600">
+                {formatCurrency(totalContadoCents / 100)}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Observação</label>
+              <textarea
+                value={observacao}
+                onChange={(e) => setObservacao(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded"
+                rows={3}
+                disabled={loading}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                ❌ {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={loading}
+              className={`w-full py-3 rounded-lg text-lg font-semibold ${
+                loading ? 'bg-gray-300 text-gray-500' : 'bg-red-500 text-white hover:bg-red-600'
+              }`}
+            >
+              Fechar Caixa
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftCloseScreen;
@@ -0,0 +1,107 @@
+// src/renderer/src/components/ShiftOpenScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { LockOpen } from 'lucide-react';
+
+interface ShiftOpenScreenProps {
+  operador: string;
+  loading: boolean;
+  onOpen: (fundoTroco: number) => Promise<void>;
+}
+
+// Aceita "150,00", "1.500,50" ou "150.5"
+const parseMoneyValue = (value: string): number => {
+  let cleanValue = value.replace(/[^\d,.]/g, '');
+  if (cleanValue.includes(',')) {
+    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
+  }
+  const parsed = parseFloat(cleanValue);
+  return isNaN(parsed) || parsed < 0 ? 0 : Math.round(parsed * 100) / 100;
+};
+
+const ShiftOpenScreen: React.FC<ShiftOpenScreenProps> = ({ operador, loading, onOpen }) => {
+  const [fundoTroco, setFundoTroco] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const fundoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => fundoInputRef.current?.focus(), 100);
+  }, []);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    try {
+      setError('');
+      await onOpen(parseMoneyValue(fundoTroco));
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex items-center space-x-3">
+        <LockOpen size={22} />
+        <h1 className="text-xl font-bold">Abertura de Caixa</h1>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex items-center justify-center h-[calc(100vh-120px)]">
+        <div className="w-full max-w-md space-y-6">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Operador</label>
+            <div className="w-full p-3 border border-gray-200 rounded-lg text-center text-lg bg-white">
+              {operador}
+            </div>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Fundo de Troco</label>
+            <input
+              id="shift-fundo-input"
+              ref={fundoInputRef}
+              type="text"
+              value={fundoTroco}
+              onChange={(e) => setFundoTroco(e.target.value.replace(/[^0-9,.]/g, ''))}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold"
+              placeholder="0,00"
+              disabled={loading}
+            />
+            <div className="text-center text-sm text-gray-600 mt-2">
+              {formatCurrency(parseMoneyValue(fundoTroco))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+              ❌ {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className={`w-full py-3 rounded-lg text-lg font-semibold ${
+              loading ? 'bg-gray-300 text-gray-500' : 'bg-green-500 text-white hover:bg-green-600'
+            }`}
+          >
+            Abrir Caixa (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftOpenScreen;
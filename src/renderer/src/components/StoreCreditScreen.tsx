@@ -0,0 +1,367 @@
+// src/renderer/src/components/StoreCreditScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { Customer, Payment, Shift, StoreCreditPayment, StoreCreditPaymentResult } from '../types';
+
+interface StoreCreditScreenProps {
+  turno: Shift;
+  loading: boolean;
+  onSearchCustomer: (termo: string) => Promise<Customer | null>;
+  onSubmit: (
+    clienteId: number,
+    tipo: Payment['tipo'],
+    valor: number,
+    valorRecebido?: number
+  ) => Promise<StoreCreditPaymentResult>;
+  onLoadPayments: () => Promise<StoreCreditPayment[]>;
+  onCancel: () => void;
+}
+
+type FormaRecebimento = 'DINHEIRO' | 'CARTAO_DEBITO' | 'CARTAO_CREDITO' | 'PIX';
+
+const FORMAS: Array<{ value: FormaRecebimento; label: string; key: string; icon: string }> = [
+  { value: 'DINHEIRO', label: 'Dinheiro', key: 'F6', icon: '💵' },
+  { value: 'CARTAO_CREDITO', label: 'Cartão Créd.', key: 'F7', icon: '💳' },
+  { value: 'CARTAO_DEBITO', label: 'Cartão Déb.', key: 'F8', icon: '💳' },
+  { value: 'PIX', label: 'PIX', key: 'F9', icon: '📱' }
+];
+
+// Aceita "150,00", "1.500,50" ou "150.5"
+const parseMoneyValue = (value: string): number => {
+  let cleanValue = value.replace(/[^\d,.]/g, '');
+  if (cleanValue.includes(',')) {
+    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
+  }
+  const parsed = parseFloat(cleanValue);
+  return isNaN(parsed) || parsed < 0 ? 0 : Math.round(parsed * 100) / 100;
+};
+
+const StoreCreditScreen: React.FC<StoreCreditScreenProps> = ({
+  turno,
+  loading,
+  onSearchCustomer,
+  onSubmit,
+  onLoadPayments,
+  onCancel
+}) => {
+  const [termo, setTermo] = useState<string>('');
+  const [cliente, setCliente] = useState<Customer | null>(null);
+  const [tipo, setTipo] = useState<FormaRecebimento>('DINHEIRO');
+  const [valor, setValor] = useState<string>('');
+  const [valorRecebido, setValorRecebido] = useState<string>('');
+  const [recebimentos, setRecebimentos] = useState<StoreCreditPayment[]>([]);
+  const [comprovante, setComprovante] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const termoInputRef = useRef<HTMLInputElement>(null);
+  const valorInputRef = useRef<HTMLInputElement>(null);
+  const recebidoInputRef = useRef<HTMLInputElement>(null);
+
+  const carregarRecebimentos = async (): Promise<void> => {
+    try {
+      setRecebimentos(await onLoadPayments());
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  useEffect(() => {
+    carregarRecebimentos();
+    setTimeout(() => termoInputRef.current?.focus(), 100);
+  }, []);
+
+  // F6-F9 forma de recebimento | ESC Voltar
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+        return;
+      }
+
+      const forma = FORMAS.find(f => f.key === e.key);
+      if (forma) {
+        e.preventDefault();
+        setTipo(forma.value);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const buscarCliente = async (): Promise<void> => {
+    if (!termo.trim()) return;
+
+    try {
+      setError('');
+      const encontrado = await onSearchCustomer(termo);
+      setCliente(encontrado);
+
+      if (!encontrado) {
+        setError('Cliente não cadastrado');
+        termoInputRef.current?.select();
+        return;
+      }
+
+      if (encontrado.saldo_devedor <= 0) {
+        setError('Cliente sem saldo devedor');
+        termoInputRef.current?.select();
+        return;
+      }
+
+      // Sugere a quitação total da conta
+      setValor(encontrado.saldo_devedor.toFixed(2).replace('.', ','));
+      setTimeout(() => {
+        valorInputRef.current?.focus();
+        valorInputRef.current?.select();
+      }, 50);
+    } catch (error: any) {
+      setCliente(null);
+      setError(error.message);
+      termoInputRef.current?.select();
+    }
+  };
+
+  const valorNumerico = parseMoneyValue(valor);
+  const recebidoNumerico = tipo === 'DINHEIRO' && valorRecebido ? parseMoneyValue(valorRecebido) : valorNumerico;
+  const troco = Math.max(0, Math.round((recebidoNumerico - valorNumerico) * 100) / 100);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!cliente) {
+      setError('Identifique o cliente');
+      termoInputRef.current?.focus();
+      return;
+    }
+
+    if (valorNumerico <= 0) {
+      setError('Informe um valor maior que zero');
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (valorNumerico > cliente.saldo_devedor) {
+      setError(`Valor maior que o saldo devedor (${formatCurrency(cliente.saldo_devedor)})`);
+      valorInputRef.current?.focus();
+      return;
+    }
+
+    if (recebidoNumerico < valorNumerico) {
+      setError('Valor recebido menor que o valor do pagamento');
+      recebidoInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      setError('');
+      const resultado = await onSubmit(
+        cliente.id,
+        tipo,
+        valorNumerico,
+        tipo === 'DINHEIRO' ? recebidoNumerico : undefined
+      );
+      setComprovante(resultado.comprovante);
+      setCliente({
+        ...cliente,
+        saldo_devedor: resultado.pagamento.saldo_devedor,
+        credito_disponivel: Math.max(0, cliente.limite_credito - resultado.pagamento.saldo_devedor)
+      });
+      setTermo('');
+      setValor('');
+      setValorRecebido('');
+      await carregarRecebimentos();
+      termoInputRef.current?.focus();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="bg-blue-600 text-white p-4 rounded-t-lg flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-400 px-3 py-2 rounded"
+          >
+            <ArrowLeft size={20} />
+            <span>Voltar (ESC)</span>
+          </button>
+          <h1 className="text-xl font-bold">Recebimento de Conta</h1>
+        </div>
+        <div className="text-sm">
+          Turno {turno.id} | {turno.operador}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
+        <div className="flex flex-1 p-6 gap-6 overflow-hidden">
+          {/* Formulário */}
+          <div className="flex-1 space-y-4 overflow-y-auto">
+            <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+              <label className="block text-sm font-medium text-gray-700">Cliente (CPF ou telefone)</label>
+              <input
+                ref={termoInputRef}
+                type="text"
+                value={termo}
+                maxLength={15}
+                onChange={(e) => setTermo(e.target.value.replace(/[^0-9().\s-]/g, ''))}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    buscarCliente();
+                  }
+                }}
+                className="w-full p-3 border border-gray-300 rounded-lg text-center text-xl font-bold"
+                placeholder="CPF ou telefone"
+                disabled={loading}
+              />
+
+              {cliente && (
+                <div className="bg-white border rounded p-3 text-sm space-y-1">
+                  <div className="text-lg font-semibold text-gray-800">{cliente.nome}</div>
+                  <div className="flex justify-between"><span>Limite de crédito:</span><span>{formatCurrency(cliente.limite_credito)}</span></div>
+                  <div className="flex justify-between font-semibold text-red-600">
+                    <span>Saldo devedor:</span><span>{formatCurrency(cliente.saldo_devedor)}</span>
+                  </div>
+                  <div className="flex justify-between text-green-700">
+                    <span>Crédito disponível:</span><span>{formatCurrency(cliente.credito_disponivel)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              {FORMAS.map((forma) => (
+                <button
+                  key={forma.value}
+                  onClick={() => setTipo(forma.value)}
+                  className={`p-3 rounded-lg text-center font-medium transition-colors border-2 ${
+                    tipo === forma.value
+                      ? 'bg-blue-500 text-white border-blue-600'
+                      : 'bg-white border-gray-300 hover:bg-gray-100 hover:border-gray-400'
+                  }`}
+                >
+                  <div className="text-xl mb-1">{forma.icon}</div>
+                  <div className="font-semibold">{forma.label}</div>
+                  <div className="text-xs opacity-75 mt-1">({forma.key})</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Valor do pagamento</label>
+                <input
+                  ref={valorInputRef}
+                  type="text"
+                  value={valor}
+                  onChange={(e) => setValor(e.target.value.replace(/[^0-9,.]/g, ''))}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      if (tipo === 'DINHEIRO') {
+                        recebidoInputRef.current?.focus();
+                      } else {
+                        handleSubmit();
+                      }
+                    }
+                  }}
+                  className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl font-bold"
+                  placeholder="0,00"
+                  disabled={loading || !cliente}
+                />
+              </div>
+              {tipo === 'DINHEIRO' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Valor recebido</label>
+                  <input
+                    ref={recebidoInputRef}
+                    type="text"
+                    value={valorRecebido}
+                    onChange={(e) => setValorRecebido(e.target.value.replace(/[^0-9,.]/g, ''))}
+                    onKeyPress={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleSubmit();
+                      }
+                    }}
+                    className="w-full p-3 border border-gray-300 rounded-lg text-center text-xl"
+                    placeholder={valor || '0,00'}
+                    disabled={loading || !cliente}
+                  />
+                  {troco > 0 && (
+                    <div className="text-center text-green-600 font-semibold mt-2">
+                      Troco: {formatCurrency(troco)}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                ❌ {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={loading || !cliente}
+              className={`w-full py-3 rounded-lg text-lg font-semibold ${
+                loading || !cliente ? 'bg-gray-300 text-gray-500' : 'bg-green-500 text-white hover:bg-green-600'
+              }`}
+            >
+              Confirmar Recebimento (Enter)
+            </button>
+          </div>
+
+          {/* Comprovante e recebimentos do turno */}
+          <div className="w-1/3 space-y-4 flex flex-col overflow-hidden">
+            {comprovante && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="text-lg font-semibold mb-2">Comprovante</h3>
+                <pre className="bg-white border p-3 text-xs font-mono whitespace-pre">{comprovante}</pre>
+              </div>
+            )}
+
+            <div className="bg-gray-50 p-4 rounded-lg flex-1 overflow-y-auto">
+              <h3 className="text-lg font-semibold mb-4">Recebimentos do Turno</h3>
+              {recebimentos.length === 0 ? (
+                <div className="text-center text-gray-500 py-8">Nenhum recebimento registrado</div>
+              ) : (
+                <div className="space-y-2">
+                  {recebimentos.map((recebimento) => (
+                    <div key={recebimento.referencia} className="bg-white p-3 rounded border text-sm">
+                      <div className="flex justify-between font-semibold">
+                        <span className="truncate mr-2">{recebimento.cliente_nome}</span>
+                        <span className="text-green-600">{formatCurrency(recebimento.valor)}</span>
+                      </div>
+                      <div className="flex justify-between text-gray-600">
+                        <span>{FORMAS.find(f => f.value === recebimento.tipo)?.label || recebimento.tipo}</span>
+                        <span>Saldo: {formatCurrency(recebimento.saldo_devedor)}</span>
+                      </div>
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span>{new Date(recebimento.created_at).toLocaleTimeString('pt-BR')}</span>
+                        <span>{recebimento.sincronizado ? '✅' : '⏳'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreCreditScreen;
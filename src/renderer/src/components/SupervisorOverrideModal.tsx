@@ -0,0 +1,224 @@
+// src/renderer/src/components/SupervisorOverrideModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { OverrideCredentials } from '../types';
+
+interface SupervisorOverrideModalProps {
+  titulo: string;
+  mensagem: string;
+  loading: boolean;
+  crachaLido?: { codigo: string; lidoEm: number } | null; // leitura do BarcodeService com o modal aberto
+  onAuthorize: (credenciais: OverrideCredentials) => Promise<void>;
+  onCancel: () => void;
+}
+
+type Metodo = 'PIN' | 'CRACHA';
+
+const SupervisorOverrideModal: React.FC<SupervisorOverrideModalProps> = ({
+  titulo,
+  mensagem,
+  loading,
+  crachaLido,
+  onAuthorize,
+  onCancel
+}) => {
+  const [metodo, setMetodo] = useState<Metodo>('PIN');
+  const [codigo, setCodigo] = useState<string>('');
+  const [pin, setPin] = useState<string>('');
+  const [cracha, setCracha] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const codigoInputRef = useRef<HTMLInputElement>(null);
+  const pinInputRef = useRef<HTMLInputElement>(null);
+  const crachaInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => {
+      if (metodo === 'PIN') {
+        codigoInputRef.current?.focus();
+      } else {
+        crachaInputRef.current?.focus();
+      }
+    }, 50);
+  }, [metodo]);
+
+  // F6 PIN | F7 Crachá | ESC cancela
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      } else if (e.key === 'F6') {
+        e.preventDefault();
+        setMetodo('PIN');
+      } else if (e.key === 'F7') {
+        e.preventDefault();
+        setMetodo('CRACHA');
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const autorizar = async (credenciais: OverrideCredentials): Promise<void> => {
+    try {
+      setError('');
+      await onAuthorize(credenciais);
+    } catch (error: any) {
+      setError(error.message);
+      setPin('');
+      setCracha('');
+      if (metodo === 'PIN') {
+        pinInputRef.current?.focus();
+      } else {
+        crachaInputRef.current?.focus();
+      }
+    }
+  };
+
+  // Crachá lido pelo leitor serial/USB enquanto o modal está aberto
+  useEffect(() => {
+    if (crachaLido?.codigo) {
+      setMetodo('CRACHA');
+      autorizar({ cracha: crachaLido.codigo });
+    }
+  }, [crachaLido]);
+
+  const handleSubmit = (): void => {
+    if (metodo === 'CRACHA') {
+      if (!cracha.trim()) {
+        setError('Passe o crachá do supervisor');
+        crachaInputRef.current?.focus();
+        return;
+      }
+      autorizar({ cracha: cracha.trim() });
+      return;
+    }
+
+    if (!codigo.trim()) {
+      setError('Informe o código do supervisor');
+      codigoInputRef.current?.focus();
+      return;
+    }
+
+    if (!pin) {
+      setError('Informe o PIN do supervisor');
+      pinInputRef.current?.focus();
+      return;
+    }
+
+    autorizar({ codigo: codigo.trim(), pin });
+  };
+
+  const submitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <ShieldCheck size={22} className="text-blue-600" />
+          <h3 className="text-lg font-semibold">{titulo}</h3>
+        </div>
+
+        <div className="text-gray-600 mb-4 whitespace-pre-line font-mono text-sm">
+          {mensagem}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {[
+            { value: 'PIN' as const, label: 'Código + PIN', key: 'F6' },
+            { value: 'CRACHA' as const, label: 'Crachá', key: 'F7' }
+          ].map((opcao) => (
+            <button
+              key={opcao.value}
+              onClick={() => setMetodo(opcao.value)}
+              className={`p-2 rounded text-sm font-medium border-2 ${
+                metodo === opcao.value
+                  ? 'bg-blue-500 text-white border-blue-600'
+                  : 'bg-white border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {opcao.label} ({opcao.key})
+            </button>
+          ))}
+        </div>
+
+        {metodo === 'PIN' ? (
+          <div className="space-y-3 mb-4">
+            <input
+              ref={codigoInputRef}
+              type="text"
+              value={codigo}
+              onChange={(e) => setCodigo(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  pinInputRef.current?.focus();
+                }
+              }}
+              className="w-full p-2 border border-gray-300 rounded text-center font-mono"
+              placeholder="Código do supervisor"
+              disabled={loading}
+            />
+            <input
+              ref={pinInputRef}
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              onKeyPress={submitOnEnter}
+              className="w-full p-2 border border-gray-300 rounded text-center text-xl tracking-widest"
+              placeholder="PIN"
+              disabled={loading}
+            />
+          </div>
+        ) : (
+          <div className="mb-4">
+            <input
+              ref={crachaInputRef}
+              type="password"
+              value={cracha}
+              onChange={(e) => setCracha(e.target.value)}
+              onKeyPress={submitOnEnter}
+              className="w-full p-2 border border-gray-300 rounded text-center font-mono"
+              placeholder="Passe o crachá no leitor"
+              disabled={loading}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            Cancelar (ESC)
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className={`px-4 py-2 rounded transition-colors ${
+              loading ? 'bg-gray-300 text-gray-500' : 'bg-blue-500 text-white hover:bg-blue-600'
+            }`}
+          >
+            Autorizar (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupervisorOverrideModal;
@@ -0,0 +1,215 @@
+// src/renderer/src/components/VoidSaleModal.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import { Ban } from 'lucide-react';
+import { SaleCancellationResult, SaleHistoryRecord, Shift } from '../types';
+
+interface VoidSaleModalProps {
+  turno: Shift;
+  loading: boolean;
+  atalhosBloqueados?: boolean; // autorização do supervisor aberta sobre o modal
+  onFindSale: (termo: string) => Promise<SaleHistoryRecord | null>;
+  onConfirm: (venda: SaleHistoryRecord, motivo: string) => Promise<SaleCancellationResult>;
+  onClose: () => void;
+}
+
+const VoidSaleModal: React.FC<VoidSaleModalProps> = ({
+  turno,
+  loading,
+  atalhosBloqueados = false,
+  onFindSale,
+  onConfirm,
+  onClose
+}) => {
+  const [termo, setTermo] = useState<string>('');
+  const [venda, setVenda] = useState<SaleHistoryRecord | null>(null);
+  const [motivo, setMotivo] = useState<string>('');
+  const [comprovante, setComprovante] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const termoInputRef = useRef<HTMLInputElement>(null);
+  const motivoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => termoInputRef.current?.focus(), 50);
+  }, []);
+
+  // ESC fecha o modal
+  useEffect(() => {
+    if (atalhosBloqueados) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, atalhosBloqueados]);
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Só cupons finalizados no turno atual podem ser cancelados
+  const validarVenda = (encontrada: SaleHistoryRecord): string | null => {
+    if (encontrada.status === 'CANCELADA') return `Venda ${encontrada.numero_venda} já está cancelada`;
+    if (encontrada.turno_id !== turno.id) return 'Só é possível cancelar cupons do turno atual';
+    if (encontrada.itens.some(item => item.quantidade_devolvida > 0)) {
+      return 'Venda com devolução registrada não pode ser cancelada';
+    }
+    return null;
+  };
+
+  const buscarVenda = async (): Promise<void> => {
+    if (!termo.trim()) return;
+
+    try {
+      setError('');
+      setComprovante('');
+      const encontrada = await onFindSale(termo);
+
+      if (!encontrada) {
+        setVenda(null);
+        setError('Venda não encontrada no histórico do caixa');
+        termoInputRef.current?.select();
+        return;
+      }
+
+      const erro = validarVenda(encontrada);
+      if (erro) {
+        setVenda(null);
+        setError(erro);
+        termoInputRef.current?.select();
+        return;
+      }
+
+      setVenda(encontrada);
+      setTimeout(() => motivoInputRef.current?.focus(), 50);
+    } catch (error: any) {
+      setVenda(null);
+      setError(error.message);
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!venda) return;
+
+    if (!motivo.trim()) {
+      setError('Informe o motivo do cancelamento');
+      motivoInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      setError('');
+      const resultado = await onConfirm(venda, motivo.trim());
+      setComprovante(resultado.comprovante);
+      setVenda(null);
+      setMotivo('');
+      setTermo('');
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center space-x-2 mb-4 text-gray-800">
+          <Ban size={20} className="text-red-600" />
+          <h3 className="text-lg font-semibold">Cancelar Cupom</h3>
+        </div>
+
+        {comprovante ? (
+          <pre className="bg-gray-50 border p-3 text-xs font-mono whitespace-pre mb-4">{comprovante}</pre>
+        ) : (
+          <>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Número da venda ou código do cupom</label>
+            <input
+              ref={termoInputRef}
+              type="text"
+              value={termo}
+              onChange={(e) => {
+                setTermo(e.target.value);
+                setVenda(null);
+              }}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  buscarVenda();
+                }
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center text-xl font-bold mb-3"
+              placeholder="Ex.: 1234 ou V1234"
+              disabled={loading}
+            />
+
+            {venda && (
+              <>
+                <div className="bg-gray-50 p-3 rounded-lg mb-3 text-sm">
+                  <div className="flex justify-between font-semibold">
+                    <span>Venda {venda.numero_venda}</span>
+                    <span className="text-red-600">{formatCurrency(venda.total)}</span>
+                  </div>
+                  <div className="text-gray-600">
+                    {new Date(venda.data_venda).toLocaleString('pt-BR')} | {venda.itens.length} item(ns)
+                    {!venda.sincronizado && ' | ⏳ não sincronizada'}
+                  </div>
+                </div>
+
+                <label className="block text-sm font-medium text-gray-700 mb-2">Motivo</label>
+                <input
+                  ref={motivoInputRef}
+                  type="text"
+                  value={motivo}
+                  maxLength={120}
+                  onChange={(e) => setMotivo(e.target.value)}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSubmit();
+                    }
+                  }}
+                  className="w-full p-3 border border-gray-300 rounded-lg mb-3"
+                  placeholder="Ex.: cliente desistiu da compra"
+                  disabled={loading}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            {comprovante ? 'Fechar (ESC)' : 'Voltar (ESC)'}
+          </button>
+          {!comprovante && (
+            <button
+              onClick={venda ? handleSubmit : buscarVenda}
+              disabled={loading}
+              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:bg-gray-300"
+            >
+              {venda ? 'Cancelar Cupom (Enter)' : 'Buscar (Enter)'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoidSaleModal;
@@ -1,6 +1,40 @@
 // src/renderer/src/hooks/useElectronAPI.tsx - ATUALIZADO COM syncCache
 
 import { useEffect, useState } from "react";
+import {
+  AppliedPromotion,
+  CartState,
+  CashCount,
+  CashMovement,
+  CashMovementResult,
+  Customer,
+  DrawerOpening,
+  Discount,
+  DiscountRules,
+  NfceDocument,
+  OperatorSession,
+  OverrideAction,
+  OverrideAuthorization,
+  OverrideCredentials,
+  ParkedSale,
+  ParkedSaleCart,
+  PdvConfig,
+  ReceiptExportFormat,
+  ReceiptLayout,
+  RefundType,
+  SaleCancellationResult,
+  SaleHistoryFilter,
+  SaleHistoryRecord,
+  SaleLoyalty,
+  SaleReturnResult,
+  SaleStoreCredit,
+  ScaleBarcode,
+  Shift,
+  ShiftReport,
+  StoreCreditPayment,
+  StoreCreditPaymentResult,
+  WholesalePrice
+} from "../types";
 
 // Interfaces TypeScript
 interface Product {
@@ -12,6 +46,9 @@ interface Product {
   ativo: boolean;
   created_at: string;
   updated_at: string;
+  unidade?: string;
+  balanca?: ScaleBarcode;
+  precos_atacado?: WholesalePrice[];
 }
 
 interface Item {
@@ -22,13 +59,26 @@ interface Item {
   vlrUnit: number;
   total: number;
   produto_id?: number;
+  precoOriginal?: number;
+  autorizacaoId?: number;
+  cancelado?: boolean;
+  autorizacaoCancelamentoId?: number;
+  desconto?: Discount;
+  valorDesconto?: number;
+  unidade?: string;
+  codigoBalanca?: string;
+  valorEtiqueta?: number;
+  autorizacaoDevolucaoId?: number;
+  precoVarejo?: number;
 }
 
 interface Payment {
   id: number;
-  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS';
+  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS' | 'PONTOS' | 'CREDITO_LOJA';
   valor: number;
   timestamp: string;
+  troco?: number;
+  valorRecebido?: number;
 }
 
 interface Sale {
@@ -37,6 +87,8 @@ interface Sale {
   data_venda: string;
   items: any[];
   payments?: Payment[];
+  fidelidade?: SaleLoyalty | null;
+  conta_cliente?: SaleStoreCredit | null;
 }
 
 interface SaleData {
@@ -61,6 +113,25 @@ interface ApiStatus {
 
 type ShortcutKey = 'F1' | 'F2' | 'F3' | 'F4' | 'F5' | 'ESC';
 
+// Itens ativos no formato do payload de venda (nº do item no cupom considera as linhas canceladas)
+const mapSaleItems = (items: Item[]) => items
+  .map((item, index) => ({ item, sequencia: index + 1 }))
+  .filter(({ item }) => !item.cancelado)
+  .map(({ item, sequencia }) => ({
+    sequencia,
+    codigo: item.codigo,
+    quantidade: item.qtde,
+    unidade: item.unidade || 'UN',
+    preco_unitario: item.vlrUnit,
+    codigo_balanca: item.codigoBalanca,
+    valor_etiqueta: item.valorEtiqueta,
+    preco_original: item.precoOriginal,
+    preco_varejo: item.precoVarejo,
+    autorizacao_id: item.autorizacaoId,
+    autorizacao_devolucao_id: item.autorizacaoDevolucaoId,
+    desconto: item.desconto
+  }));
+
 export const useElectronAPI = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [apiStatus, setApiStatus] = useState<ApiStatus | null>(null);
@@ -136,15 +207,25 @@ export const useElectronAPI = () => {
     return response.data || [];
   };
 
-  const createSale = async (items: Item[], payments?: Payment[]): Promise<Sale> => {
-    console.log('🛒 Criando venda via API...', { items, payments });
+  const createSale = async (
+    items: Item[],
+    payments?: Payment[],
+    descontoVenda?: Discount | null,
+    documentoConsumidor?: string | null,
+    clienteId?: number | null
+  ): Promise<Sale> => {
+    console.log('🛒 Criando venda via API...', { items, payments, descontoVenda });
+    
+    // Nº do item no cupom considera também as linhas canceladas
+    const itensAtivos = items.filter(item => !item.cancelado);
+    const sequencia = (item: Item): number => items.indexOf(item) + 1;
     
     // Fallback garantido para modo web
     const fallbackSale = (): Sale => ({
       id: Date.now(),
-      total: items.reduce((sum, item) => sum + item.total, 0),
+      total: itensAtivos.reduce((sum, item) => sum + item.total, 0),
       data_venda: new Date().toISOString(),
-      items: items.map(item => ({
+      items: itensAtivos.map(item => ({
         codigo: item.codigo,
         quantidade: item.qtde,
         preco_unitario: item.vlrUnit
@@ -170,14 +251,25 @@ export const useElectronAPI = () => {
 
     try {
       const vendaData = {
-        items: items.map(item => ({
+        items: mapSaleItems(items),
+        itens_cancelados: items.filter(item => item.cancelado).map(item => ({
+          sequencia: sequencia(item),
           codigo: item.codigo,
           quantidade: item.qtde,
-          preco_unitario: item.vlrUnit
+          unidade: item.unidade || 'UN',
+          preco_unitario: item.vlrUnit,
+          autorizacao_id: item.autorizacaoCancelamentoId
+        })),
+        payments: (payments || []).map(payment => ({
+          tipo: payment.tipo,
+          valor: payment.valor,
+          valorRecebido: payment.valorRecebido ?? payment.valor,
+          troco: payment.troco ?? 0
         })),
-        payments: payments || [],
-        total: items.reduce((sum, item) => sum + item.total, 0),
-        subtotal: items.reduce((sum, item) => sum + item.total, 0),
+        desconto_venda: descontoVenda || null,
+        documento_consumidor: documentoConsumidor || null,
+        cliente_id: clienteId || null,
+        subtotal: itensAtivos.reduce((sum, item) => sum + item.total, 0),
         forma_pagamento: payments && payments.length > 0 ? 
           getMainPaymentMethod(payments) : 'DINHEIRO'
       };
@@ -254,6 +346,482 @@ export const useElectronAPI = () => {
     }
   };
 
+  // Sessão do operador logado (null = ninguém logado)
+  const getSession = async (): Promise<OperatorSession | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.auth) {
+      return null;
+    }
+
+    const response = await (window as any).electronAPI.auth.getSession();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  };
+
+  const login = async (codigo: string, pin: string): Promise<OperatorSession> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.auth) {
+      throw new Error('Login disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.auth.login({ codigo, pin });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const logout = async (): Promise<void> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.auth) {
+      return;
+    }
+
+    await (window as any).electronAPI.auth.logout();
+  };
+
+  // Configurações de operação (tecla de repetir item)
+  const getPdvConfig = async (): Promise<PdvConfig | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.config) {
+      return null;
+    }
+
+    const response = await (window as any).electronAPI.config.getPdv();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Promoções do carrinho (mesma regra aplicada pelo processo principal ao registrar a venda)
+  const evaluatePromotions = async (items: Item[]): Promise<AppliedPromotion[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.promotion) {
+      return [];
+    }
+
+    const response = await (window as any).electronAPI.promotion.evaluate(mapSaleItems(items));
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  };
+
+  // Motivos de desconto e limite do operador logado
+  const getDiscountRules = async (): Promise<DiscountRules | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.discount) {
+      return null;
+    }
+
+    const response = await (window as any).electronAPI.discount.getRules();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Autorização de supervisor para uma única ação restrita
+  const authorizeOverride = async (
+    acao: OverrideAction,
+    credenciais: OverrideCredentials,
+    detalhes?: Record<string, any>
+  ): Promise<OverrideAuthorization> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.override) {
+      throw new Error('Autorização de supervisor disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.override.authorize({ acao, credenciais, detalhes });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Cliente da fidelidade pelo CPF ou telefone (null quando não cadastrado)
+  const findCustomer = async (termo: string): Promise<Customer | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.customer) {
+      throw new Error('Programa de fidelidade disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.customer.find(termo);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  };
+
+  // Venda em andamento guardada no processo principal
+  const getCart = async (): Promise<CartState | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.cart) {
+      return null;
+    }
+
+    const response = await (window as any).electronAPI.cart.get();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  };
+
+  const saveCart = async (
+    items: Item[],
+    descontoVenda: Discount | null,
+    payments: Payment[],
+    documentoConsumidor: string | null = null,
+    cliente: Customer | null = null
+  ): Promise<void> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.cart) {
+      return;
+    }
+
+    const response = await (window as any).electronAPI.cart.save({
+      itens: items,
+      desconto_venda: descontoVenda,
+      pagamentos: payments,
+      documento_consumidor: documentoConsumidor,
+      cliente
+    });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+  };
+
+  // Vendas em espera (carrinhos estacionados no turno)
+  const parkSale = async (items: Item[], descontoVenda?: Discount | null): Promise<ParkedSale> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.parkedSale) {
+      throw new Error('Venda em espera disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.parkedSale.park({
+      itens: items,
+      desconto_venda: descontoVenda || null
+    });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const listParkedSales = async (): Promise<ParkedSale[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.parkedSale) {
+      return [];
+    }
+
+    const response = await (window as any).electronAPI.parkedSale.list();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  };
+
+  const recallParkedSale = async (id: number): Promise<ParkedSaleCart> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.parkedSale) {
+      throw new Error('Venda em espera disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.parkedSale.recall(id);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Turno de caixa atual (null = caixa fechado)
+  const getCurrentShift = async (): Promise<Shift | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.shift) {
+      return null;
+    }
+
+    const response = await (window as any).electronAPI.shift.getCurrent();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  };
+
+  const openShift = async (fundoTroco: number): Promise<Shift> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.shift) {
+      throw new Error('Abertura de caixa disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.shift.open({ fundo_troco: fundoTroco });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const closeShift = async (contagem: CashCount, observacao?: string): Promise<ShiftReport> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.shift) {
+      throw new Error('Fechamento de caixa disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.shift.close({ contagem, observacao });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const createCashMovement = async (
+    tipo: CashMovement['tipo'],
+    valor: number,
+    motivo: string,
+    autorizacaoId: number
+  ): Promise<CashMovementResult> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.cashMovement) {
+      throw new Error('Sangria/suprimento disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.cashMovement.create({ tipo, valor, motivo, autorizacaoId });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const listCashMovements = async (): Promise<CashMovement[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.cashMovement) {
+      return [];
+    }
+
+    const response = await (window as any).electronAPI.cashMovement.list();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  };
+
+  // Abertura da gaveta sem venda (operador sem permissão envia a autorização do supervisor)
+  const openCashDrawer = async (motivo: string, autorizacaoId?: number): Promise<DrawerOpening> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.drawer) {
+      throw new Error('Gaveta de dinheiro disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.drawer.open({ motivo, autorizacaoId });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Recebimento de conta do cliente (crédito na loja) no turno aberto
+  const payCustomerAccount = async (
+    clienteId: number,
+    tipo: Payment['tipo'],
+    valor: number,
+    valorRecebido?: number
+  ): Promise<StoreCreditPaymentResult> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.customerAccount) {
+      throw new Error('Recebimento de conta disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.customerAccount.pay({ clienteId, tipo, valor, valorRecebido });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const listCustomerAccountPayments = async (): Promise<StoreCreditPayment[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.customerAccount) {
+      return [];
+    }
+
+    const response = await (window as any).electronAPI.customerAccount.list();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  };
+
+  // Venda original da devolução pelo número ou código de barras do cupom
+  const searchSaleHistory = async (filtros: SaleHistoryFilter): Promise<SaleHistoryRecord[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.saleHistory) {
+      throw new Error('Histórico de vendas disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.saleHistory.search(filtros);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  };
+
+  const reprintSale = async (vendaId: number): Promise<string> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.saleHistory) {
+      throw new Error('Reimpressão disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.saleHistory.reprint(vendaId);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Cupom de uma venda do histórico sem imprimir
+  const getSaleReceipt = async (vendaId: number): Promise<string> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.saleHistory) {
+      throw new Error('Histórico de vendas disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.saleHistory.receipt(vendaId);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Cupom montado pelas mesmas regras da impressora
+  const previewReceipt = async (comprovante: string): Promise<ReceiptLayout> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.receipt) {
+      throw new Error('Prévia do cupom disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.receipt.preview(comprovante);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // Cópia do comprovante em PDF ou HTML; devolve o caminho do arquivo gravado
+  const exportReceipt = async (comprovante: string, formato: ReceiptExportFormat, nome: string): Promise<string> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.receipt) {
+      throw new Error('Exportação de comprovante disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.receipt.export({ comprovante, formato, nome });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  // NFC-e em contingência ainda não recebidas pelo servidor
+  const getPendingNfce = async (): Promise<NfceDocument[]> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.nfce) {
+      throw new Error('NFC-e disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.nfce.pending();
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const validateNfce = async (chave: string): Promise<NfceDocument> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.nfce) {
+      throw new Error('NFC-e disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.nfce.validate(chave);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const findSaleForReturn = async (termo: string): Promise<SaleHistoryRecord | null> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.saleReturn) {
+      throw new Error('Devolução disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.saleReturn.findSale(termo);
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  };
+
+  const createSaleReturn = async (
+    vendaId: number,
+    itens: Array<{ sequencia: number; quantidade: number }>,
+    tipoReembolso: RefundType,
+    autorizacaoId: number
+  ): Promise<SaleReturnResult> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.saleReturn) {
+      throw new Error('Devolução disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.saleReturn.create({ vendaId, itens, tipoReembolso, autorizacaoId });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
+  const voidSale = async (vendaId: number, motivo: string, autorizacaoId: number): Promise<SaleCancellationResult> => {
+    if (typeof window === 'undefined' || !(window as any).electronAPI?.sale?.void) {
+      throw new Error('Cancelamento de cupom disponível apenas no aplicativo');
+    }
+
+    const response = await (window as any).electronAPI.sale.void({ vendaId, motivo, autorizacaoId });
+
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  };
+
   const onBarcodeScanned = (callback: (codigo: string) => void) => {
     if (typeof window !== 'undefined' && (window as any).electronAPI) {
       return (window as any).electronAPI.barcode.onScanned(callback);
@@ -283,6 +851,37 @@ export const useElectronAPI = () => {
     createSale,
     syncCache, // ✅ NOVO: função de sincronização de cache
     getApiStatus,
+    getSession,
+    login,
+    logout,
+    authorizeOverride,
+    getDiscountRules,
+    evaluatePromotions,
+    getPdvConfig,
+    getCart,
+    saveCart,
+    findCustomer,
+    parkSale,
+    listParkedSales,
+    recallParkedSale,
+    getCurrentShift,
+    openShift,
+    closeShift,
+    createCashMovement,
+    listCashMovements,
+    openCashDrawer,
+    payCustomerAccount,
+    listCustomerAccountPayments,
+    searchSaleHistory,
+    reprintSale,
+    getSaleReceipt,
+    previewReceipt,
+    exportReceipt,
+    getPendingNfce,
+    validateNfce,
+    findSaleForReturn,
+    createSaleReturn,
+    voidSale,
     onBarcodeScanned,
     onShortcut,
     onNotification
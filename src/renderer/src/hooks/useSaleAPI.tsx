@@ -1,4 +1,5 @@
 import { useCallback } from 'react';
+import { Payment } from '../types';
 
 export interface Item {
   codigo: string;
@@ -15,7 +16,7 @@ export interface Sale {
 }
 
 export function useSaleAPI() {
-  const create = useCallback(async (items: Item[]): Promise<Sale> => {
+  const create = useCallback(async (items: Item[], payments: Payment[] = []): Promise<Sale> => {
     const fallback = (): Sale => ({
       id: Date.now(),
       total: items.reduce((sum, i) => sum + i.total, 0),
@@ -32,6 +33,12 @@ export function useSaleAPI() {
         quantidade: i.qtde,
         preco_unitario: i.vlrUnit,
       })),
+      payments: payments.map(p => ({
+        tipo: p.tipo,
+        valor: p.valor,
+        valorRecebido: p.valorRecebido ?? p.valor,
+        troco: p.troco ?? 0,
+      })),
     });
 
     return response.success ? response.data : fallback();
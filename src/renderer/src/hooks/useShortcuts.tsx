@@ -188,6 +188,10 @@ export function usePaymentShortcuts(actions: {
   selectCartaoDebito: () => void;
   selectPix: () => void;
   selectOutros: () => void;
+  editDocument?: () => void;
+  selectPontos?: () => void;
+  editCustomer?: () => void;
+  selectCreditoLoja?: () => void;
 }, options: Omit<UseShortcutsOptions, 'context'> = {}) {
 
   const shortcuts: ShortcutConfig[] = [
@@ -225,7 +229,29 @@ export function usePaymentShortcuts(actions: {
       key: 'F10',
       action: actions.selectOutros,
       description: 'Selecionar Outros'
-    }
+    },
+    ...(actions.editDocument ? [{
+      key: 'd',
+      ctrlKey: true,
+      action: actions.editDocument,
+      description: 'CPF/CNPJ na nota'
+    }] : []),
+    ...(actions.selectPontos ? [{
+      key: 'F11',
+      action: actions.selectPontos,
+      description: 'Pagar com pontos'
+    }] : []),
+    ...(actions.editCustomer ? [{
+      key: 'f',
+      ctrlKey: true,
+      action: actions.editCustomer,
+      description: 'Cliente fidelidade'
+    }] : []),
+    ...(actions.selectCreditoLoja ? [{
+      key: 'F5',
+      action: actions.selectCreditoLoja,
+      description: 'Crédito na loja'
+    }] : [])
   ];
 
   return useShortcuts(shortcuts, {
@@ -7,14 +7,128 @@ import ProductForm from '../components/ProductForm';
 import ProductDisplay from '../components/ProductDisplay';
 
 // Importar tipos
-import { Item, ShortcutKey, Payment, AppScreen } from '../types';
+import {
+  AppliedPromotion,
+  Item,
+  ShortcutKey,
+  Payment,
+  AppScreen,
+  CartState,
+  Customer,
+  Discount,
+  DiscountRules,
+  OperatorSession,
+  ParkedSale,
+  OverrideAction,
+  OverrideAuthorization,
+  OverrideCredentials,
+  Shift,
+  CashCount,
+  ShiftReport,
+  CashMovement,
+  CashMovementResult,
+  StoreCreditPaymentResult,
+  RefundType,
+  SaleCancellationResult,
+  SaleHistoryRecord,
+  SaleReturnResult,
+  WholesalePrice
+} from '../types';
 import { useElectronAPI } from '../hooks/useElectronAPI';
 import PaymentScreen from '../components/PaymentScreen';
+import LoginScreen from '../components/LoginScreen';
+import ShiftOpenScreen from '../components/ShiftOpenScreen';
+import ShiftCloseScreen from '../components/ShiftCloseScreen';
+import CashMovementScreen from '../components/CashMovementScreen';
+import StoreCreditScreen from '../components/StoreCreditScreen';
+import ReturnScreen from '../components/ReturnScreen';
+import SupervisorOverrideModal from '../components/SupervisorOverrideModal';
+import PriceChangeModal from '../components/PriceChangeModal';
+import CancelItemModal from '../components/CancelItemModal';
+import DiscountModal from '../components/DiscountModal';
+import ParkedSalesModal from '../components/ParkedSalesModal';
+import CustomerDocumentModal, { formatarDocumento } from '../components/CustomerDocumentModal';
+import CustomerLookupModal from '../components/CustomerLookupModal';
+import VoidSaleModal from '../components/VoidSaleModal';
+import DrawerOpenModal from '../components/DrawerOpenModal';
+import SalesHistoryScreen from '../components/SalesHistoryScreen';
+
+// Ação restrita aguardando autorização do supervisor
+interface OverrideRequest {
+  acao: OverrideAction;
+  titulo: string;
+  mensagem: string;
+  detalhes: Record<string, any>;
+  onAuthorized: (autorizacao: OverrideAuthorization) => void;
+  onCancelled?: () => void;
+}
+
+// Desconto em centavos, limitado à base (mesma regra do DiscountService)
+const calcularDescontoCents = (baseCents: number, desconto?: Discount | null): number => {
+  if (!desconto || !(desconto.valor > 0) || baseCents <= 0) return 0;
+
+  const centavos = desconto.tipo === 'PERCENTUAL'
+    ? Math.round(baseCents * desconto.valor / 100)
+    : Math.round(desconto.valor * 100);
+
+  return Math.min(centavos, baseCents);
+};
+
+// Casas decimais da quantidade por unidade de venda (UN e desconhecidas: inteira)
+const CASAS_QUANTIDADE: Record<string, number> = { UN: 0, KG: 3, L: 3, M: 2 };
+
+const normalizarUnidade = (unidade?: string): string => {
+  const sigla = (unidade || '').trim().toUpperCase();
+  return sigla in CASAS_QUANTIDADE ? sigla : 'UN';
+};
+
+const arredondarQuantidade = (quantidade: number, unidade: string): number => {
+  const fator = Math.pow(10, CASAS_QUANTIDADE[unidade]);
+  return Math.round(quantidade * fator) / fator;
+};
+
+// Aceita "1,5" ou "1.5"; vazio ou inválido = 0
+const parseQuantidade = (texto: string): number => {
+  const valor = parseFloat(texto.replace(',', '.'));
+  return isNaN(valor) ? 0 : valor;
+};
+
+// Valor bruto da linha: preço impresso na etiqueta de balança ou quantidade x preço
+const valorBrutoCents = (item: Item): number =>
+  item.valorEtiqueta !== undefined ? Math.round(item.valorEtiqueta * 100) : Math.round(item.qtde * item.vlrUnit * 100);
+
+// Preço da linha pela quantidade: a maior faixa de atacado atingida, senão o varejo
+const precoPorQuantidade = (item: Item): number => {
+  // Preço alterado pelo supervisor, etiqueta de balança e devolução mantêm o preço da linha
+  if (item.precoVarejo === undefined || item.precoOriginal !== undefined || item.codigoBalanca || item.qtde <= 0) {
+    return item.vlrUnit;
+  }
+
+  const faixa = (item.precosAtacado || [])
+    .filter(f => item.qtde >= f.quantidade_minima)
+    .reduce<WholesalePrice | null>((maior, f) => (!maior || f.quantidade_minima > maior.quantidade_minima ? f : maior), null);
+
+  return faixa ? faixa.preco : item.precoVarejo;
+};
+
+// Recalcula o total da linha (preço pela quantidade, valor bruto - desconto);
+// o desconto fica limitado ao bruto menos a promoção da linha
+const recalcularItem = (item: Item, promocaoCents: number = 0): Item => {
+  const atual: Item = { ...item, vlrUnit: precoPorQuantidade(item) };
+  const brutoCents = valorBrutoCents(atual);
+  const descontoCents = calcularDescontoCents(Math.max(brutoCents - promocaoCents, 0), atual.desconto);
+
+  return {
+    ...atual,
+    valorDesconto: descontoCents / 100,
+    total: (brutoCents - descontoCents) / 100
+  };
+};
 
 const PDVInterface: React.FC = () => {
   const [items, setItems] = useState<Item[]>([]);
   const [codigoAtual, setCodigoAtual] = useState<string>('');
-  const [quantidadeAtual, setQuantidadeAtual] = useState<number>(1);
+  const [quantidadeAtual, setQuantidadeAtual] = useState<string>('1');
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
@@ -23,11 +137,55 @@ const PDVInterface: React.FC = () => {
   const [valorUnitario, setValorUnitario] = useState<number>(0);
 
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('PDV');
+  const [sessao, setSessao] = useState<OperatorSession | null>(null);
+  const [turno, setTurno] = useState<Shift | null>(null);
 
   // Estados para modais customizados
   const [showConfirmModal, setShowConfirmModal] = useState<boolean>(false);
   const [confirmMessage, setConfirmMessage] = useState<string>('');
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+  const [pendingCancelAction, setPendingCancelAction] = useState<(() => void) | null>(null);
+
+  // Autorização de supervisor (substitui a confirmação simples nas ações restritas)
+  const [overrideRequest, setOverrideRequest] = useState<OverrideRequest | null>(null);
+  const [crachaLido, setCrachaLido] = useState<{ codigo: string; lidoEm: number } | null>(null);
+  const [itemAlteracaoPreco, setItemAlteracaoPreco] = useState<Item | null>(null);
+
+  // Linha selecionada com as setas (null = último item) e cancelamento por nº do item
+  const [linhaSelecionada, setLinhaSelecionada] = useState<number | null>(null);
+  const [sequenciaCancelamento, setSequenciaCancelamento] = useState<number | null>(null);
+
+  // Descontos: regras do operador logado, desconto no subtotal e modal aberto (item ou venda)
+  const [regrasDesconto, setRegrasDesconto] = useState<DiscountRules | null>(null);
+  const [descontoVenda, setDescontoVenda] = useState<Discount | null>(null);
+  const [descontoAlvo, setDescontoAlvo] = useState<{ escopo: 'ITEM' | 'VENDA'; linha?: number } | null>(null);
+
+  // CPF/CNPJ na nota (editável até finalizar o pagamento) e modal de captura
+  const [documentoConsumidor, setDocumentoConsumidor] = useState<string | null>(null);
+  const [editandoDocumento, setEditandoDocumento] = useState<boolean>(false);
+
+  // Cliente da fidelidade (acumula pontos e habilita o pagamento com pontos) e modal de busca
+  const [clienteFidelidade, setClienteFidelidade] = useState<Customer | null>(null);
+  const [buscandoCliente, setBuscandoCliente] = useState<boolean>(false);
+
+  // Promoções aplicadas aos itens atuais (reavaliadas a cada alteração do carrinho)
+  const [promocoesAplicadas, setPromocoesAplicadas] = useState<AppliedPromotion[]>([]);
+
+  // Venda em andamento: pagamentos já incluídos e controle da restauração após queda
+  const [pagamentos, setPagamentos] = useState<Payment[]>([]);
+  const [carrinhoCarregado, setCarrinhoCarregado] = useState<boolean>(false);
+
+  // Lista de vendas em espera do turno (null = lista fechada)
+  const [vendasEmEspera, setVendasEmEspera] = useState<ParkedSale[] | null>(null);
+
+  // Cancelamento de cupom já finalizado no turno
+  const [cancelandoCupom, setCancelandoCupom] = useState<boolean>(false);
+
+  // Abertura da gaveta sem venda
+  const [abrindoGaveta, setAbrindoGaveta] = useState<boolean>(false);
+
+  // Tecla de repetir o último item (configurável no .env.pdv)
+  const [teclaRepetirItem, setTeclaRepetirItem] = useState<string>('+');
 
   // Ref para o input do código
   const codigoInputRef = useRef<HTMLInputElement>(null);
@@ -38,14 +196,74 @@ const PDVInterface: React.FC = () => {
     findProductByCode, 
     createSale, 
     syncCache,
+    getSession,
+    login,
+    logout,
+    authorizeOverride,
+    getDiscountRules,
+    evaluatePromotions,
+    getPdvConfig,
+    getCart,
+    saveCart,
+    findCustomer,
+    parkSale,
+    listParkedSales,
+    recallParkedSale,
+    getCurrentShift,
+    openShift,
+    closeShift,
+    createCashMovement,
+    listCashMovements,
+    payCustomerAccount,
+    listCustomerAccountPayments,
+    searchSaleHistory,
+    reprintSale,
+    getSaleReceipt,
+    previewReceipt,
+    exportReceipt,
+    findSaleForReturn,
+    createSaleReturn,
+    voidSale,
+    openCashDrawer,
     onBarcodeScanned, 
     onShortcut, 
     onNotification 
   } = useElectronAPI();
 
   // Cálculos derivados
-  const totalGeral: number = items.reduce((sum: number, item: Item) => sum + item.total, 0);
-  const quantidadeItens: number = items.reduce((sum: number, item: Item) => sum + item.qtde, 0);
+  // Itens cancelados continuam na lista (cupom), mas ficam fora dos totais e do pagamento
+  const itensAtivos: Item[] = items.filter((item: Item) => !item.cancelado);
+  const subtotalItensCents: number = itensAtivos.reduce((sum: number, item: Item) => sum + Math.round(item.total * 100), 0);
+  const descontoPromocoesCents: number = promocoesAplicadas.reduce((sum: number, promocao: AppliedPromotion) =>
+    sum + Math.round(promocao.valor_desconto * 100), 0);
+  // Promoção de uma linha (sequência = posição na lista, como no evaluatePromotions)
+  const promocaoLinhaCents = (linha: number): number =>
+    promocoesAplicadas.reduce((sum: number, promocao: AppliedPromotion) =>
+      sum + promocao.itens
+        .filter(item => item.sequencia === linha + 1)
+        .reduce((soma, item) => soma + Math.round(item.valor_desconto * 100), 0), 0);
+  // Desconto na venda incide sobre o subtotal já com as promoções
+  const baseDescontoVendaCents: number = subtotalItensCents - descontoPromocoesCents;
+  const valorDescontoVenda: number = calcularDescontoCents(baseDescontoVendaCents, descontoVenda) / 100;
+  const totalGeral: number = (baseDescontoVendaCents / 100) - valorDescontoVenda;
+  const subtotalBruto: number = itensAtivos.reduce((sum: number, item: Item) => sum + item.total + (item.valorDesconto || 0), 0);
+  const descontoItens: number = itensAtivos.reduce((sum: number, item: Item) => sum + (item.valorDesconto || 0), 0);
+  // Itens fracionados (KG, L, M) contam como um volume por linha
+  const quantidadeItens: number = itensAtivos.reduce((sum: number, item: Item) =>
+    sum + (normalizarUnidade(item.unidade) === 'UN' ? item.qtde : 1), 0);
+
+  // Algum modal sobre a tela PDV (bloqueia atalhos e leitura de código de barras)
+  const modalAberto: boolean =
+    showConfirmModal ||
+    overrideRequest !== null ||
+    itemAlteracaoPreco !== null ||
+    sequenciaCancelamento !== null ||
+    descontoAlvo !== null ||
+    vendasEmEspera !== null ||
+    editandoDocumento ||
+    buscandoCliente ||
+    cancelandoCupom ||
+    abrindoGaveta;
 
   // Função para focar no input de código de forma robusta
   const focusCodigoInput = (delay: number = 100): void => {
@@ -85,9 +303,10 @@ const PDVInterface: React.FC = () => {
   };
 
   // Modal de confirmação customizado
-  const showCustomConfirm = (message: string, onConfirm: () => void): void => {
+  const showCustomConfirm = (message: string, onConfirm: () => void, onCancel?: () => void): void => {
     setConfirmMessage(message);
     setPendingAction(() => onConfirm);
+    setPendingCancelAction(onCancel ? () => onCancel : null);
     setShowConfirmModal(true);
   };
 
@@ -96,9 +315,12 @@ const PDVInterface: React.FC = () => {
     
     if (confirmed && pendingAction) {
       pendingAction();
+    } else if (!confirmed && pendingCancelAction) {
+      pendingCancelAction();
     }
     
     setPendingAction(null);
+    setPendingCancelAction(null);
     setConfirmMessage('');
     
     if (currentScreen === 'PDV') {
@@ -106,6 +328,40 @@ const PDVInterface: React.FC = () => {
     }
   };
 
+  // Modal de autorização do supervisor: vale apenas para a ação solicitada
+  const requestSupervisorOverride = (
+    acao: OverrideAction,
+    titulo: string,
+    mensagem: string,
+    detalhes: Record<string, any>,
+    onAuthorized: (autorizacao: OverrideAuthorization) => void,
+    onCancelled?: () => void
+  ): void => {
+    setCrachaLido(null);
+    setOverrideRequest({ acao, titulo, mensagem, detalhes, onAuthorized, onCancelled });
+  };
+
+  const handleOverrideAuthorize = async (credenciais: OverrideCredentials): Promise<void> => {
+    if (!overrideRequest) return;
+
+    setLoading(true);
+    try {
+      const autorizacao = await authorizeOverride(overrideRequest.acao, credenciais, overrideRequest.detalhes);
+      setOverrideRequest(null);
+      setCrachaLido(null);
+      overrideRequest.onAuthorized(autorizacao);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOverrideCancel = (): void => {
+    overrideRequest?.onCancelled?.();
+    setOverrideRequest(null);
+    setCrachaLido(null);
+    focusCodigoInput(50);
+  };
+
   // Função para mostrar notificações
   const showNotification = (message: string, type: 'success' | 'error' = 'success'): void => {
     if (type === 'success') {
@@ -147,7 +403,7 @@ const PDVInterface: React.FC = () => {
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent): void => {
       // Ignorar se modal estiver aberto ou não estiver na tela PDV
-      if (showConfirmModal || currentScreen !== 'PDV') return;
+      if (modalAberto || currentScreen !== 'PDV') return;
       
       // Ignorar se o foco estiver em um input específico (exceto o código)
       const activeElement = document.activeElement as HTMLElement;
@@ -166,7 +422,29 @@ const PDVInterface: React.FC = () => {
       // Se há input ativo (que não seja o código), só processar ESC
       if (isInputActive && !isCodigoInput && e.key !== 'Escape') return;
 
+      if (e.key === teclaRepetirItem && !e.ctrlKey && !e.altKey) {
+        e.preventDefault();
+        repetirUltimoItem();
+        return;
+      }
+
       switch (e.key) {
+        case 'ArrowUp':
+          if (items.length > 0) {
+            e.preventDefault();
+            setLinhaSelecionada((atual) => Math.max(0, (atual ?? items.length) - 1));
+          }
+          break;
+
+        case 'ArrowDown':
+          if (items.length > 0) {
+            e.preventDefault();
+            setLinhaSelecionada((atual) =>
+              atual === null || atual >= items.length - 1 ? null : atual + 1
+            );
+          }
+          break;
+
         case 'F1':
           e.preventDefault();
           console.log('🔥 F1 - Adicionar item');
@@ -181,14 +459,24 @@ const PDVInterface: React.FC = () => {
 
         case 'F3':
           e.preventDefault();
-          console.log('🔥 F3 - Cancelar item');
-          cancelarItem();
+          if (e.ctrlKey) {
+            console.log('🔥 Ctrl+F3 - Devolução/troca');
+            irParaDevolucao();
+          } else {
+            console.log('🔥 F3 - Cancelar item');
+            cancelarItem();
+          }
           break;
 
         case 'F4':
           e.preventDefault();
-          console.log('🔥 F4 - Cancelar venda');
-          cancelarVenda();
+          if (e.ctrlKey) {
+            console.log('🔥 Ctrl+F4 - Cancelar cupom finalizado');
+            abrirCancelamentoCupom();
+          } else {
+            console.log('🔥 F4 - Cancelar venda');
+            cancelarVenda();
+          }
           break;
 
         case 'F5':
@@ -214,6 +502,91 @@ const PDVInterface: React.FC = () => {
           focusCodigoInput();
           break;
 
+        case 'F7':
+          e.preventDefault();
+          console.log('🔥 F7 - Alterar preço');
+          alterarPreco();
+          break;
+
+        case 'F8':
+          e.preventDefault();
+          if (e.ctrlKey) {
+            console.log('🔥 Ctrl+F8 - Recebimento de conta');
+            irParaContaCliente();
+          } else {
+            console.log('🔥 F8 - Sangria/Suprimento');
+            irParaMovimentoCaixa();
+          }
+          break;
+
+        case 'F9':
+          e.preventDefault();
+          if (e.ctrlKey) {
+            console.log('🔥 Ctrl+F9 - Desconto na venda');
+            abrirDescontoVenda();
+          } else {
+            console.log('🔥 F9 - Desconto no item');
+            abrirDescontoItem();
+          }
+          break;
+
+        case 'd':
+        case 'D':
+          if (e.ctrlKey) {
+            e.preventDefault();
+            console.log('🔥 Ctrl+D - CPF/CNPJ na nota');
+            setEditandoDocumento(true);
+          }
+          break;
+
+        case 'f':
+        case 'F':
+          if (e.ctrlKey) {
+            e.preventDefault();
+            console.log('🔥 Ctrl+F - Cliente fidelidade');
+            setBuscandoCliente(true);
+          }
+          break;
+
+        case 'h':
+        case 'H':
+          if (e.ctrlKey) {
+            e.preventDefault();
+            console.log('🔥 Ctrl+H - Histórico de vendas');
+            setCurrentScreen('HISTORICO');
+          }
+          break;
+
+        case 'g':
+        case 'G':
+          if (e.ctrlKey) {
+            e.preventDefault();
+            console.log('🔥 Ctrl+G - Abrir gaveta sem venda');
+            abrirGaveta();
+          }
+          break;
+
+        case 'F10':
+          e.preventDefault();
+          console.log('🔥 F10 - Fechar caixa');
+          irParaFechamentoCaixa();
+          break;
+
+        case 'F11':
+          e.preventDefault();
+          console.log('🔥 F11 - Trocar operador');
+          trocarOperador();
+          break;
+
+        case 'e':
+        case 'E':
+          if (e.ctrlKey) {
+            e.preventDefault();
+            console.log('🔥 Ctrl+E - Venda em espera');
+            vendaEmEspera();
+          }
+          break;
+
         case 'Delete':
           if (e.ctrlKey) {
             e.preventDefault();
@@ -242,13 +615,174 @@ const PDVInterface: React.FC = () => {
         document.removeEventListener('keydown', handleKeyPress);
       };
     }
-  }, [currentScreen, showConfirmModal, codigoAtual, quantidadeAtual, items]);
+  }, [currentScreen, modalAberto, codigoAtual, quantidadeAtual, items, descontoVenda, regrasDesconto, teclaRepetirItem]);
+
+  // Consultar turno aberto (sem turno, apenas abertura de caixa)
+  const verificarTurno = async (): Promise<void> => {
+    try {
+      const turnoAtual = await getCurrentShift();
+      setTurno(turnoAtual);
+      setCurrentScreen(turnoAtual ? 'PDV' : 'SHIFT_OPEN');
+
+      if (turnoAtual) {
+        await verificarVendaEmAndamento();
+      }
+    } catch (error: any) {
+      console.error('Erro ao consultar turno:', error);
+      showNotification(`Erro ao consultar turno: ${error.message}`, 'error');
+    }
+  };
+
+  // Venda interrompida (queda, reinício): oferecer restauração exatamente como estava
+  const verificarVendaEmAndamento = async (): Promise<void> => {
+    if (carrinhoCarregado) return;
+
+    const carrinho = await getCart();
+    if (!carrinho) {
+      setCarrinhoCarregado(true);
+      return;
+    }
+
+    const ativos = carrinho.itens.filter(item => !item.cancelado);
+    const totalPago = carrinho.pagamentos.reduce((soma, pagamento) => soma + pagamento.valor, 0);
+
+    showCustomConfirm(
+      `Venda não finalizada encontrada\n` +
+      `Iniciada em ${new Date(carrinho.iniciado_em).toLocaleString('pt-BR')} por ${carrinho.operador_nome}\n` +
+      `Itens: ${ativos.length} | Pagamentos: ${carrinho.pagamentos.length} (${formatCurrency(totalPago)})\n\n` +
+      `Confirmar restaura a venda. Cancelar descarta (exige supervisor).`,
+      () => restaurarVendaEmAndamento(carrinho),
+      () => descartarVendaEmAndamento(carrinho)
+    );
+  };
+
+  const restaurarVendaEmAndamento = (carrinho: CartState): void => {
+    setItems(carrinho.itens);
+    setDescontoVenda(carrinho.desconto_venda);
+    setPagamentos(carrinho.pagamentos);
+    setDocumentoConsumidor(carrinho.documento_consumidor || null);
+    setClienteFidelidade(carrinho.cliente || null);
+    setLinhaSelecionada(null);
+    setCarrinhoCarregado(true);
+
+    // Pagamentos já incluídos: volta direto para a tela de pagamento
+    if (carrinho.pagamentos.length > 0) {
+      setCurrentScreen('PAYMENT');
+    }
+
+    showNotification(`Venda restaurada (${carrinho.itens.length} itens)`, 'success');
+  };
+
+  // Descartar equivale a cancelar a venda; sem autorização, a venda é restaurada
+  const descartarVendaEmAndamento = (carrinho: CartState): void => {
+    const ativos = carrinho.itens.filter(item => !item.cancelado);
+
+    if (ativos.length === 0 && carrinho.pagamentos.length === 0) {
+      setCarrinhoCarregado(true);
+      saveCart([], null, []).catch((error: any) => console.error('Erro ao descartar venda em andamento:', error));
+      return;
+    }
+
+    requestSupervisorOverride(
+      'SALE_CANCEL',
+      'Descartar Venda Não Finalizada',
+      `Itens: ${ativos.length} | Pagamentos: ${carrinho.pagamentos.length}`,
+      { origem: 'RESTAURACAO', itens: ativos.length, pagamentos: carrinho.pagamentos.length },
+      () => {
+        setCarrinhoCarregado(true);
+        saveCart([], null, []).catch((error: any) => console.error('Erro ao descartar venda em andamento:', error));
+        showNotification('Venda não finalizada descartada', 'success');
+      },
+      () => restaurarVendaEmAndamento(carrinho)
+    );
+  };
+
+  // Promoções reavaliadas a cada alteração dos itens (regras do cache, funciona offline)
+  useEffect(() => {
+    if (itensAtivos.length === 0) {
+      setPromocoesAplicadas([]);
+      return;
+    }
+
+    let descartada = false;
+    evaluatePromotions(items)
+      .then((promocoes) => {
+        if (!descartada) setPromocoesAplicadas(promocoes);
+      })
+      .catch((error: any) => {
+        console.error('Erro ao avaliar promoções:', error);
+        if (!descartada) setPromocoesAplicadas([]);
+      });
+
+    return () => {
+      descartada = true;
+    };
+  }, [items]);
+
+  // Cada alteração do carrinho (itens, desconto, pagamentos) é gravada no processo principal
+  useEffect(() => {
+    if (!carrinhoCarregado) return;
+
+    saveCart(items, descontoVenda, pagamentos, documentoConsumidor, clienteFidelidade).catch((error: any) => {
+      console.error('Erro ao gravar venda em andamento:', error);
+      showNotification(`Erro ao gravar venda em andamento: ${error.message}`, 'error');
+    });
+  }, [items, descontoVenda, pagamentos, documentoConsumidor, clienteFidelidade, carrinhoCarregado]);
+
+  // Ao conectar: sem operador autenticado, apenas a tela de login
+  useEffect(() => {
+    if (!isConnected) return;
+
+    getSession()
+      .then((sessaoAtual) => {
+        setSessao(sessaoAtual);
+        if (!sessaoAtual) {
+          setCurrentScreen('LOGIN');
+          return;
+        }
+        return verificarTurno();
+      })
+      .catch((error: any) => {
+        console.error('Erro ao consultar sessão:', error);
+        setCurrentScreen('LOGIN');
+      });
+  }, [isConnected]);
+
+  // Configuração do PDV (tecla de repetir item)
+  useEffect(() => {
+    getPdvConfig()
+      .then((config) => {
+        if (config?.tecla_repetir_item) setTeclaRepetirItem(config.tecla_repetir_item);
+      })
+      .catch((error: any) => console.error('Erro ao carregar configuração do PDV:', error));
+  }, []);
+
+  // Regras de desconto (limite e motivos) dependem do operador logado
+  useEffect(() => {
+    if (!sessao) {
+      setRegrasDesconto(null);
+      return;
+    }
+
+    getDiscountRules()
+      .then(setRegrasDesconto)
+      .catch((error: any) => {
+        console.error('Erro ao carregar regras de desconto:', error);
+        setRegrasDesconto(null);
+      });
+  }, [sessao]);
 
   // Listener para código de barras e notificações
   useEffect(() => {
     // Código de barras
-    onBarcodeScanned((codigo: string) => {
-      if (currentScreen === 'PDV') {
+    const removeBarcodeListener = onBarcodeScanned((codigo: string) => {
+      // Com o modal de supervisor aberto, a leitura é o crachá de autorização
+      if (overrideRequest) {
+        setCrachaLido({ codigo, lidoEm: Date.now() });
+        return;
+      }
+
+      if (currentScreen === 'PDV' && !modalAberto) {
         console.log('📷 Código escaneado:', codigo);
         setCodigoAtual(codigo);
         setTimeout(() => {
@@ -264,12 +798,13 @@ const PDVInterface: React.FC = () => {
     });
 
     return () => {
+      removeBarcodeListener();
       removeNotificationListener();
     };
-  }, [onBarcodeScanned, onNotification, currentScreen]);
+  }, [onBarcodeScanned, onNotification, currentScreen, overrideRequest, modalAberto]);
 
   // Função para adicionar item por código
-  const addItemByCodigo = async (codigo: string, quantidade: number = quantidadeAtual): Promise<void> => {
+  const addItemByCodigo = async (codigo: string, quantidade: number = parseQuantidade(quantidadeAtual)): Promise<void> => {
     if (!codigo.trim()) return;
 
     setLoading(true);
@@ -282,28 +817,106 @@ const PDVInterface: React.FC = () => {
         throw new Error(`Produto com código "${codigo}" não encontrado`);
       }
 
-      const itemExistente = items.find(item => item.codigo === codigo);
+      // Etiqueta de balança: peso da etiqueta, sem somar com outras linhas do mesmo produto
+      if (produto.balanca) {
+        if (quantidade < 0) {
+          throw new Error('Devolução de item pesado não é permitida pela etiqueta de balança');
+        }
+
+        const novoItem: Item = recalcularItem({
+          id: Date.now(),
+          codigo: produto.codigo,
+          descricao: produto.descricao,
+          qtde: produto.balanca.quantidade,
+          vlrUnit: produto.preco,
+          total: 0,
+          produto_id: produto.id,
+          unidade: 'KG',
+          codigoBalanca: produto.balanca.codigo_barras,
+          valorEtiqueta: produto.balanca.valor_total ?? undefined
+        });
+        setItems([...items, novoItem]);
+        setValorUnitario(novoItem.vlrUnit);
+        setSubtotal(novoItem.total);
+        setQuantidadeProduto(novoItem.qtde);
+
+        limparCampos();
+        setLinhaSelecionada(null);
+        showNotification(`${produto.descricao}: ${novoItem.qtde.toFixed(3)} KG adicionado`, 'success');
+        focusCodigoInput(100);
+        return;
+      }
+
+      // Quantidade conforme a unidade: UN só inteira, demais com casas limitadas
+      const unidade = normalizarUnidade(produto.unidade);
+      if (!quantidade || isNaN(quantidade)) {
+        throw new Error('Quantidade deve ser diferente de zero');
+      }
+      if (arredondarQuantidade(quantidade, unidade) !== quantidade) {
+        throw new Error(CASAS_QUANTIDADE[unidade] === 0
+          ? `${produto.descricao} é vendido por ${unidade} e não aceita quantidade fracionada`
+          : `${produto.descricao} (${unidade}) aceita no máximo ${CASAS_QUANTIDADE[unidade]} casas decimais`);
+      }
+
+      // Quantidade negativa: devolução em linha própria, com autorização do supervisor
+      if (quantidade < 0) {
+        limparCampos();
+        requestSupervisorOverride(
+          'ITEM_RETURN',
+          'Devolução de Item',
+          `${produto.descricao}\nDevolver ${Math.abs(quantidade)} ${unidade} x ${formatCurrency(produto.preco)} = ${formatCurrency(Math.abs(quantidade) * produto.preco)}`,
+          { codigo: produto.codigo, quantidade },
+          (autorizacao: OverrideAuthorization) => {
+            setItems((atuais: Item[]) => [...atuais, recalcularItem({
+              id: Date.now(),
+              codigo: produto.codigo,
+              descricao: produto.descricao,
+              qtde: quantidade,
+              vlrUnit: produto.preco,
+              total: 0,
+              produto_id: produto.id,
+              unidade,
+              autorizacaoDevolucaoId: autorizacao.id
+            })]);
+            setLinhaSelecionada(null);
+            showNotification(`Devolução de "${produto.descricao}" autorizada por ${autorizacao.supervisor_nome}`, 'success');
+            focusCodigoInput(100);
+          },
+          () => focusCodigoInput(100)
+        );
+        return;
+      }
+
+      const itemExistente = items.find(item =>
+        item.codigo === codigo && !item.cancelado && !item.codigoBalanca && item.qtde > 0);
       
+      let mensagem = `Produto "${produto.descricao}" adicionado com sucesso!`;
+
       if (itemExistente) {
-        setItems(items.map(item => 
-          item.codigo === codigo 
-            ? { 
-                ...item, 
-                qtde: item.qtde + quantidade,
-                total: (item.qtde + quantidade) * item.vlrUnit
-              }
-            : item
-        ));
+        // A linha pode atingir (ou sair de) uma faixa de atacado com a nova quantidade
+        const atualizado = recalcularItem({ ...itemExistente, qtde: arredondarQuantidade(itemExistente.qtde + quantidade, unidade) });
+        setItems(items.map(item => item.id === itemExistente.id ? atualizado : item));
+        setValorUnitario(atualizado.vlrUnit);
+        setSubtotal(atualizado.total);
+        setQuantidadeProduto(atualizado.qtde);
+
+        if (atualizado.vlrUnit < itemExistente.vlrUnit) {
+          mensagem = `${produto.descricao}: preço de atacado ${formatCurrency(atualizado.vlrUnit)} aplicado`;
+        }
       } else {
-        const novoItem: Item = {
+        const novoItem: Item = recalcularItem({
           id: Date.now(),
           codigo: produto.codigo,
           descricao: produto.descricao,
           qtde: quantidade,
           vlrUnit: produto.preco,
-          total: quantidade * produto.preco,
-          produto_id: produto.id
-        };
+          total: 0,
+          produto_id: produto.id,
+          unidade,
+          ...(produto.precos_atacado?.length
+            ? { precoVarejo: produto.preco, precosAtacado: produto.precos_atacado }
+            : {})
+        });
         setItems([...items, novoItem]);
         setValorUnitario(novoItem.vlrUnit);
         setSubtotal(novoItem.total);
@@ -311,7 +924,8 @@ const PDVInterface: React.FC = () => {
       }
 
       limparCampos();
-      showNotification(`Produto "${produto.descricao}" adicionado com sucesso!`, 'success');
+      setLinhaSelecionada(null);
+      showNotification(mensagem, 'success');
       focusCodigoInput(100);
       
     } catch (error: any) {
@@ -325,17 +939,24 @@ const PDVInterface: React.FC = () => {
 
   // Ir para tela de pagamento
   const irParaTelaPagamento = (): void => {
-    if (items.length === 0) {
+    if (itensAtivos.length === 0) {
       showNotification('Não há itens para finalizar a venda!', 'error');
       focusCodigoInput();
       return;
     }
 
+    if (totalGeral <= 0) {
+      showNotification('Total da venda deve ser maior que zero (devoluções excedem os itens)', 'error');
+      focusCodigoInput();
+      return;
+    }
+
     setCurrentScreen('PAYMENT');
   };
 
   // Voltar da tela de pagamento
   const voltarTelaPrincipal = (): void => {
+    setPagamentos([]);
     setCurrentScreen('PDV');
     focusCodigoInput(200);
   };
@@ -344,9 +965,13 @@ const PDVInterface: React.FC = () => {
   const finalizarVendaComPagamentos = async (payments: Payment[]): Promise<void> => {
     setLoading(true);
     try {
-      const venda = await createSale(items);
+      const venda = await createSale(items, payments, descontoVenda, documentoConsumidor, clienteFidelidade?.id);
       
       setItems([]);
+      setDescontoVenda(null);
+      setDocumentoConsumidor(null);
+      setClienteFidelidade(null);
+      setPagamentos([]);
       limparCampos();
       setSubtotal(0);
       setValorUnitario(0);
@@ -360,13 +985,18 @@ const PDVInterface: React.FC = () => {
           'CARTAO_CREDITO': 'Cartão Crédito',
           'CARTAO_DEBITO': 'Cartão Débito',
           'PIX': 'PIX',
-          'OUTROS': 'Outros'
+          'OUTROS': 'Outros',
+          'PONTOS': 'Pontos',
+          'CREDITO_LOJA': 'Crédito Loja'
         };
         return `${tipos[p.tipo]}: R$ ${p.valor.toFixed(2)}`;
       }).join(', ');
+      const pontos = venda.fidelidade
+        ? ` | +${venda.fidelidade.pontos_acumulados} pontos${venda.fidelidade.saldo !== undefined ? ` (saldo ${venda.fidelidade.saldo})` : ''}`
+        : '';
 
       showNotification(
-        `Venda finalizada! ID: ${venda.id} | ${formasPagamento}`, 
+        `Venda finalizada! ID: ${venda.id} | ${formasPagamento}${pontos}`, 
         'success'
       );
       
@@ -379,85 +1009,752 @@ const PDVInterface: React.FC = () => {
     }
   };
 
-  // Funções de ação
-  const addItem = (): void => {
-    addItemByCodigo(codigoAtual, quantidadeAtual);
+  // Login do operador
+  const handleLogin = async (codigo: string, pin: string): Promise<void> => {
+    setLoading(true);
+    try {
+      const novaSessao = await login(codigo, pin);
+      setSessao(novaSessao);
+      await verificarTurno();
+      showNotification(`Operador ${novaSessao.operador.nome} autenticado`, 'success');
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const cancelarItem = (): void => {
+  // Troca de operador só é permitida sem venda em andamento
+  const trocarOperador = async (): Promise<void> => {
     if (items.length > 0) {
-      const ultimoItem = items[items.length - 1];
-      
-      showCustomConfirm(
-        `Deseja remover o item "${ultimoItem.descricao}"?`,
-        () => {
-          setItems(items.slice(0, -1));
-          setValorUnitario(0);
-          setSubtotal(0);
-          setQuantidadeProduto(1);
-          showNotification('Item removido com sucesso!', 'success');
-          focusCodigoInput();
-        }
-      );
-    } else {
-      showNotification('Não há itens para cancelar!', 'error');
+      showNotification('Finalize ou cancele a venda em andamento antes de trocar de operador', 'error');
       focusCodigoInput();
+      return;
     }
+
+    await logout();
+    setSessao(null);
+    setCurrentScreen('LOGIN');
   };
 
-  const cancelarVenda = (): void => {
-    if (items.length > 0) {
-      const formatCurrency = (value: number): string => {
-        return new Intl.NumberFormat('pt-BR', {
-          style: 'currency',
-          currency: 'BRL'
-        }).format(value);
-      };
+  // Abertura de caixa
+  const handleAbrirCaixa = async (fundoTroco: number): Promise<void> => {
+    setLoading(true);
+    try {
+      const novoTurno = await openShift(fundoTroco);
+      setTurno(novoTurno);
+      setCurrentScreen('PDV');
+      showNotification(`Caixa aberto por ${novoTurno.operador}`, 'success');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      showCustomConfirm(
-        `Deseja cancelar toda a venda? Total: ${formatCurrency(totalGeral)}`,
-        () => {
-          setItems([]);
-          setValorUnitario(0);
-          setSubtotal(0);
-          setQuantidadeProduto(1);
-          showNotification('Venda cancelada com sucesso!', 'success');
-          focusCodigoInput();
-        }
-      );
-    } else {
-      showNotification('Não há venda em andamento!', 'error');
+  // Sangria/suprimento (fora de uma venda em andamento)
+  const irParaMovimentoCaixa = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
+    }
+
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes da sangria/suprimento', 'error');
       focusCodigoInput();
+      return;
     }
+
+    setCurrentScreen('CASH_MOVEMENT');
   };
 
-  const limparCampos = (): void => {
-    setCodigoAtual('');
-    setQuantidadeAtual(1);
+  // Sangria/suprimento confirmados pelo supervisor (PIN ou crachá) para o tipo e valor informados
+  const handleMovimentoCaixa = (
+    tipo: CashMovement['tipo'],
+    valor: number,
+    motivo: string
+  ): Promise<CashMovementResult> => {
+    return new Promise((resolve, reject) => {
+      requestSupervisorOverride(
+        'CASH_MOVEMENT',
+        tipo === 'SANGRIA' ? 'Sangria' : 'Suprimento',
+        `Autorizar ${tipo === 'SANGRIA' ? 'sangria' : 'suprimento'} de ${formatCurrency(valor)}\nMotivo: ${motivo}`,
+        { tipo, valor },
+        async (autorizacao) => {
+          setLoading(true);
+          try {
+            resolve(await createCashMovement(tipo, valor, motivo, autorizacao.id));
+          } catch (error) {
+            reject(error);
+          } finally {
+            setLoading(false);
+          }
+        },
+        () => reject(new Error('Movimento não autorizado'))
+      );
+    });
   };
 
-  // Auto-foco inicial
-  useEffect(() => {
-    if (currentScreen === 'PDV') {
-      focusCodigoInput(500);
+  // Recebimento de conta do cliente (fora de uma venda em andamento)
+  const irParaContaCliente = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
     }
-  }, [currentScreen]);
 
-  // Handlers para o formulário
-  const handleCodigoChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    setCodigoAtual(e.target.value);
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes do recebimento de conta', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setCurrentScreen('CONTA_CLIENTE');
   };
 
-  const handleCodigoKeyPress = (e: React.KeyboardEvent<HTMLInputElement>): void => {
-    if (e.key === 'Enter') {
-      e.preventDefault();
-      addItem();
+  const handleRecebimentoConta = async (
+    clienteId: number,
+    tipo: Payment['tipo'],
+    valor: number,
+    valorRecebido?: number
+  ): Promise<StoreCreditPaymentResult> => {
+    setLoading(true);
+    try {
+      return await payCustomerAccount(clienteId, tipo, valor, valorRecebido);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleQuantidadeChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    const value = parseInt(e.target.value) || 1;
-    setQuantidadeAtual(Math.max(1, value));
+  // Devolução/troca de venda anterior (fora de uma venda em andamento)
+  const irParaDevolucao = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
+    }
+
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes da devolução', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setCurrentScreen('DEVOLUCAO');
+  };
+
+  // Cada devolução exige autorização do supervisor para a venda original
+  const handleDevolucao = (
+    venda: SaleHistoryRecord,
+    itens: Array<{ sequencia: number; quantidade: number }>,
+    tipoReembolso: RefundType
+  ): Promise<SaleReturnResult> => {
+    return new Promise((resolve, reject) => {
+      requestSupervisorOverride(
+        'ITEM_RETURN',
+        'Devolução de Venda',
+        `Autorizar devolução de ${itens.length} item(ns) da venda ${venda.numero_venda}`,
+        { venda_id: venda.id },
+        async (autorizacao) => {
+          setLoading(true);
+          try {
+            resolve(await createSaleReturn(venda.id, itens, tipoReembolso, autorizacao.id));
+          } catch (error) {
+            reject(error);
+          } finally {
+            setLoading(false);
+          }
+        },
+        () => reject(new Error('Devolução não autorizada'))
+      );
+    });
+  };
+
+  // Cancelamento de cupom já finalizado (fora de uma venda em andamento)
+  const abrirCancelamentoCupom = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
+    }
+
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes de cancelar um cupom', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setCancelandoCupom(true);
+  };
+
+  const fecharCancelamentoCupom = (): void => {
+    setCancelandoCupom(false);
+    focusCodigoInput(50);
+  };
+
+  // Cancelamento exige autorização do supervisor para a venda escolhida
+  const handleCancelamentoCupom = (venda: SaleHistoryRecord, motivo: string): Promise<SaleCancellationResult> => {
+    return new Promise((resolve, reject) => {
+      requestSupervisorOverride(
+        'SALE_CANCEL',
+        'Cancelamento de Cupom',
+        `Autorizar cancelamento da venda ${venda.numero_venda} (${formatCurrency(venda.total)})`,
+        { venda_id: venda.id },
+        async (autorizacao) => {
+          setLoading(true);
+          try {
+            const resultado = await voidSale(venda.id, motivo, autorizacao.id);
+            showNotification(`Cupom ${venda.numero_venda} cancelado`);
+            resolve(resultado);
+          } catch (error) {
+            reject(error);
+          } finally {
+            setLoading(false);
+          }
+        },
+        () => reject(new Error('Cancelamento não autorizado'))
+      );
+    });
+  };
+
+  // Gaveta sem venda: fora de uma venda em andamento
+  const abrirGaveta = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
+    }
+
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes de abrir a gaveta', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setAbrindoGaveta(true);
+  };
+
+  const fecharAbrirGaveta = (): void => {
+    setAbrindoGaveta(false);
+    focusCodigoInput(50);
+  };
+
+  // Operador sem a permissão precisa da autorização do supervisor para o motivo informado
+  const handleAbrirGaveta = async (motivo: string): Promise<void> => {
+    const abrir = async (autorizacaoId?: number): Promise<void> => {
+      setLoading(true);
+      try {
+        await openCashDrawer(motivo, autorizacaoId);
+        showNotification('Gaveta aberta');
+        fecharAbrirGaveta();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (sessao?.permissoes.includes('drawer:open')) {
+      await abrir();
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      requestSupervisorOverride(
+        'DRAWER_OPEN',
+        'Abertura da Gaveta',
+        `Autorizar abertura da gaveta sem venda: ${motivo}`,
+        { motivo },
+        (autorizacao) => abrir(autorizacao.id).then(resolve, reject),
+        () => reject(new Error('Abertura da gaveta não autorizada'))
+      );
+    });
+  };
+
+  // Fechamento só é permitido sem venda em andamento
+  const irParaFechamentoCaixa = (): void => {
+    if (!turno) {
+      showNotification('Não há caixa aberto!', 'error');
+      return;
+    }
+
+    if (items.length > 0) {
+      showNotification('Finalize ou cancele a venda em andamento antes de fechar o caixa', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setCurrentScreen('SHIFT_CLOSE');
+  };
+
+  const handleFecharCaixa = async (contagem: CashCount, observacao?: string): Promise<ShiftReport> => {
+    setLoading(true);
+    try {
+      return await closeShift(contagem, observacao);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Após conferir o relatório, o PDV volta para a abertura de caixa
+  const concluirFechamentoCaixa = (): void => {
+    setTurno(null);
+    setCurrentScreen('SHIFT_OPEN');
+  };
+
+  // Funções de ação
+  const addItem = (): void => {
+    // "6*código" ou "6x código" no campo de código multiplica só esta leitura
+    const multiplicador = codigoAtual.trim().match(/^(-?\d+(?:[.,]\d+)?)\s*[*xX]\s*(.+)$/);
+    if (multiplicador) {
+      addItemByCodigo(multiplicador[2], parseQuantidade(multiplicador[1]));
+      return;
+    }
+
+    addItemByCodigo(codigoAtual, parseQuantidade(quantidadeAtual));
+  };
+
+  // Repete o último item lançado com a quantidade do campo
+  const repetirUltimoItem = (): void => {
+    const ultimo = [...itensAtivos].reverse().find((item: Item) => item.qtde > 0);
+
+    if (!ultimo) {
+      showNotification('Não há item para repetir!', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (ultimo.codigoBalanca) {
+      showNotification('Item de balança não pode ser repetido: leia a nova etiqueta', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    addItemByCodigo(ultimo.codigo);
+  };
+
+  // Índice da linha alvo: a selecionada com as setas ou o último item não cancelado
+  const getLinhaAlvo = (): number | null => {
+    if (linhaSelecionada !== null && items[linhaSelecionada]) {
+      return linhaSelecionada;
+    }
+
+    for (let index = items.length - 1; index >= 0; index--) {
+      if (!items[index].cancelado) return index;
+    }
+
+    return null;
+  };
+
+  const cancelarItem = (): void => {
+    const linha = getLinhaAlvo();
+
+    if (linha === null) {
+      showNotification('Não há itens para cancelar!', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setSequenciaCancelamento(linha + 1);
+  };
+
+  // Cancela a linha inteira ou parte da quantidade; a linha original fica riscada no cupom
+  const confirmarCancelamentoItem = (sequencia: number, quantidade: number): void => {
+    const item = items[sequencia - 1];
+    setSequenciaCancelamento(null);
+    if (!item) return;
+
+    const parcial = quantidade < item.qtde;
+
+    requestSupervisorOverride(
+      'ITEM_REMOVE',
+      parcial ? 'Reduzir Quantidade' : 'Cancelar Item',
+      parcial
+        ? `Item ${sequencia}: ${item.descricao}\nCancelar ${quantidade} de ${item.qtde} unidades`
+        : `Item ${sequencia}: ${item.descricao}\nCancelar ${item.qtde} x ${formatCurrency(item.vlrUnit)} = ${formatCurrency(item.total)}`,
+      {
+        sequencia,
+        codigo: item.codigo,
+        descricao: item.descricao,
+        quantidade_cancelada: quantidade,
+        quantidade_original: item.qtde,
+        total: item.total
+      },
+      (autorizacao) => {
+        setItems((atuais) => {
+          const atualizados = atuais.map(atual =>
+            atual.id === item.id
+              ? { ...atual, cancelado: true, autorizacaoCancelamentoId: autorizacao.id }
+              : atual
+          );
+
+          if (!parcial) return atualizados;
+
+          // Quantidade restante volta como nova linha (mesmo preço)
+          const restante = arredondarQuantidade(item.qtde - quantidade, normalizarUnidade(item.unidade));
+          return [
+            ...atualizados,
+            recalcularItem({
+              ...item,
+              id: Date.now(),
+              qtde: restante,
+              cancelado: false,
+              autorizacaoCancelamentoId: undefined
+            })
+          ];
+        });
+        setLinhaSelecionada(null);
+        setValorUnitario(0);
+        setSubtotal(0);
+        setQuantidadeProduto(1);
+        showNotification(
+          parcial ? `Quantidade do item ${sequencia} reduzida` : `Item ${sequencia} cancelado`,
+          'success'
+        );
+        focusCodigoInput();
+      }
+    );
+  };
+
+  const fecharCancelamentoItem = (): void => {
+    setSequenciaCancelamento(null);
+    focusCodigoInput(50);
+  };
+
+  const cancelarVenda = (): void => {
+    // Todos os itens já foram cancelados (cada um com autorização): apenas descarta o cupom
+    if (items.length > 0 && itensAtivos.length === 0) {
+      setItems([]);
+      setDescontoVenda(null);
+      setDocumentoConsumidor(null);
+      setClienteFidelidade(null);
+      setLinhaSelecionada(null);
+      showNotification('Venda sem itens ativos descartada', 'success');
+      focusCodigoInput();
+      return;
+    }
+
+    if (items.length > 0) {
+      requestSupervisorOverride(
+        'SALE_CANCEL',
+        'Cancelar Venda',
+        `Cancelar toda a venda?\nItens: ${itensAtivos.length} | Total: ${formatCurrency(totalGeral)}`,
+        { itens: itensAtivos.length, total: totalGeral },
+        () => {
+          setItems([]);
+          setDescontoVenda(null);
+          setDocumentoConsumidor(null);
+          setClienteFidelidade(null);
+          setLinhaSelecionada(null);
+          setValorUnitario(0);
+          setSubtotal(0);
+          setQuantidadeProduto(1);
+          showNotification('Venda cancelada com sucesso!', 'success');
+          focusCodigoInput();
+        }
+      );
+    } else {
+      showNotification('Não há venda em andamento!', 'error');
+      focusCodigoInput();
+    }
+  };
+
+  // Ctrl+E (F12 é o atalho global dos logs): com itens estaciona a venda atual; sem itens abre a lista para recuperar
+  const vendaEmEspera = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      if (items.length > 0) {
+        const venda = await parkSale(items, descontoVenda);
+
+        setItems([]);
+        setDescontoVenda(null);
+        setDocumentoConsumidor(null);
+        setClienteFidelidade(null);
+        setLinhaSelecionada(null);
+        limparCampos();
+        setValorUnitario(0);
+        setSubtotal(0);
+        setQuantidadeProduto(1);
+
+        showNotification(`Venda em espera nº ${venda.id} (${formatCurrency(venda.total)})`, 'success');
+        focusCodigoInput();
+      } else {
+        setVendasEmEspera(await listParkedSales());
+      }
+    } catch (error: any) {
+      showNotification(error.message, 'error');
+      focusCodigoInput();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recuperarVendaEmEspera = async (id: number): Promise<void> => {
+    if (items.length > 0) {
+      showNotification('Finalize ou coloque em espera a venda atual antes de recuperar outra', 'error');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const venda = await recallParkedSale(id);
+
+      setItems(venda.itens);
+      setDescontoVenda(venda.desconto_venda);
+      setLinhaSelecionada(null);
+      setVendasEmEspera(null);
+
+      const ultimo = venda.itens[venda.itens.length - 1];
+      setValorUnitario(ultimo?.vlrUnit || 0);
+      setSubtotal(ultimo?.total || 0);
+
+      showNotification(`Venda em espera nº ${venda.id} recuperada`, 'success');
+      focusCodigoInput();
+    } catch (error: any) {
+      showNotification(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fecharVendasEmEspera = (): void => {
+    setVendasEmEspera(null);
+    focusCodigoInput(50);
+  };
+
+  // CPF/CNPJ na nota (já validado no modal; o processo principal valida de novo ao registrar)
+  const confirmarDocumento = (documento: string | null): void => {
+    setDocumentoConsumidor(documento);
+    setEditandoDocumento(false);
+    showNotification(
+      documento ? `CPF/CNPJ ${formatarDocumento(documento)} na nota` : 'Documento retirado da venda',
+      'success'
+    );
+    if (currentScreen === 'PDV') {
+      focusCodigoInput(50);
+    }
+  };
+
+  const fecharDocumento = (): void => {
+    setEditandoDocumento(false);
+    if (currentScreen === 'PDV') {
+      focusCodigoInput(50);
+    }
+  };
+
+  // Cliente da fidelidade (saldo conferido de novo no processo principal ao registrar a venda)
+  const confirmarCliente = (cliente: Customer | null): void => {
+    setClienteFidelidade(cliente);
+    setBuscandoCliente(false);
+    showNotification(
+      cliente ? `Cliente ${cliente.nome} identificado (${cliente.pontos} pontos)` : 'Cliente retirado da venda',
+      'success'
+    );
+    if (currentScreen === 'PDV') {
+      focusCodigoInput(50);
+    }
+  };
+
+  const fecharCliente = (): void => {
+    setBuscandoCliente(false);
+    if (currentScreen === 'PDV') {
+      focusCodigoInput(50);
+    }
+  };
+
+  // Alteração de preço da linha selecionada (exige autorização do supervisor)
+  const alterarPreco = (): void => {
+    const linha = getLinhaAlvo();
+
+    if (linha === null) {
+      showNotification('Não há itens para alterar o preço!', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (items[linha].cancelado) {
+      showNotification(`Item ${linha + 1} está cancelado`, 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (items[linha].qtde < 0) {
+      showNotification(`Item ${linha + 1} é uma devolução e não pode ter o preço alterado`, 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    setItemAlteracaoPreco(items[linha]);
+  };
+
+  // Desconto na linha selecionada (ou no último item)
+  const abrirDescontoItem = (): void => {
+    const linha = getLinhaAlvo();
+
+    if (linha === null) {
+      showNotification('Não há itens para aplicar desconto!', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (items[linha].cancelado) {
+      showNotification(`Item ${linha + 1} está cancelado`, 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (items[linha].qtde < 0) {
+      showNotification(`Item ${linha + 1} é uma devolução e não aceita desconto`, 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (!regrasDesconto) {
+      showNotification('Regras de desconto não carregadas', 'error');
+      return;
+    }
+
+    setDescontoAlvo({ escopo: 'ITEM', linha });
+  };
+
+  // Desconto no subtotal (incide sobre os itens já com desconto)
+  const abrirDescontoVenda = (): void => {
+    if (itensAtivos.length === 0) {
+      showNotification('Não há itens para aplicar desconto!', 'error');
+      focusCodigoInput();
+      return;
+    }
+
+    if (!regrasDesconto) {
+      showNotification('Regras de desconto não carregadas', 'error');
+      return;
+    }
+
+    setDescontoAlvo({ escopo: 'VENDA' });
+  };
+
+  const confirmarDesconto = (desconto: Discount | null, percentual: number): void => {
+    const alvo = descontoAlvo;
+    setDescontoAlvo(null);
+    if (!alvo) return;
+
+    const item = alvo.escopo === 'ITEM' && alvo.linha !== undefined ? items[alvo.linha] : null;
+    if (alvo.escopo === 'ITEM' && !item) return;
+
+    const aplicar = (valor: Discount | null): void => {
+      if (item) {
+        setItems((atuais) => atuais.map(atual =>
+          atual.id === item.id ? recalcularItem({ ...atual, desconto: valor || undefined }, promocaoLinhaCents(alvo.linha!)) : atual
+        ));
+      } else {
+        setDescontoVenda(valor);
+      }
+
+      showNotification(valor ? 'Desconto aplicado' : 'Desconto removido', 'success');
+      focusCodigoInput();
+    };
+
+    // Dentro do limite do operador (ou remoção) não precisa de supervisor
+    if (!desconto || !regrasDesconto || percentual <= regrasDesconto.limite_percentual) {
+      aplicar(desconto);
+      return;
+    }
+
+    const origem = item ? `Item ${alvo.linha! + 1} - ${item.descricao}` : 'Subtotal da venda';
+
+    requestSupervisorOverride(
+      'DISCOUNT',
+      'Autorizar Desconto',
+      `${origem}\nDesconto de ${percentual.toFixed(2)}% (limite do operador: ${regrasDesconto.limite_percentual}%)`,
+      {
+        escopo: alvo.escopo,
+        sequencia: item ? alvo.linha! + 1 : null,
+        codigo: item?.codigo || null,
+        tipo: desconto.tipo,
+        valor: desconto.valor,
+        motivo: desconto.motivo,
+        percentual
+      },
+      (autorizacao) => aplicar({ ...desconto, autorizacaoId: autorizacao.id })
+    );
+  };
+
+  const cancelarDesconto = (): void => {
+    setDescontoAlvo(null);
+    focusCodigoInput(50);
+  };
+
+  const confirmarAlteracaoPreco = (novoPreco: number): void => {
+    const item = itemAlteracaoPreco;
+    if (!item) return;
+
+    setItemAlteracaoPreco(null);
+
+    const precoOriginal = item.precoOriginal ?? item.vlrUnit;
+
+    requestSupervisorOverride(
+      'PRICE_CHANGE',
+      'Alterar Preço',
+      `${item.descricao}\nDe ${formatCurrency(item.vlrUnit)} para ${formatCurrency(novoPreco)}`,
+      { codigo: item.codigo, preco_original: precoOriginal, preco_anterior: item.vlrUnit, preco_novo: novoPreco },
+      (autorizacao) => {
+        setItems((atuais) => atuais.map(atual =>
+          atual.id === item.id
+            ? recalcularItem({
+                ...atual,
+                vlrUnit: novoPreco,
+                valorEtiqueta: undefined, // novo preço por KG substitui o valor impresso
+                precoOriginal,
+                autorizacaoId: autorizacao.id
+              })
+            : atual
+        ));
+        setValorUnitario(novoPreco);
+        setSubtotal(item.qtde * novoPreco);
+        showNotification(`Preço alterado (autorizado por ${autorizacao.supervisor_nome})`, 'success');
+        focusCodigoInput();
+      }
+    );
+  };
+
+  const cancelarAlteracaoPreco = (): void => {
+    setItemAlteracaoPreco(null);
+    focusCodigoInput(50);
+  };
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const limparCampos = (): void => {
+    setCodigoAtual('');
+    setQuantidadeAtual('1');
+  };
+
+  // Auto-foco inicial
+  useEffect(() => {
+    if (currentScreen === 'PDV') {
+      focusCodigoInput(500);
+    }
+  }, [currentScreen]);
+
+  // Handlers para o formulário
+  const handleCodigoChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    // "6*" ou "6x" no campo de código passa a quantidade para a próxima leitura
+    const multiplicador = e.target.value.match(/^(-?\d+(?:[.,]\d+)?)[*xX]$/);
+    if (multiplicador) {
+      setQuantidadeAtual(multiplicador[1]);
+      setCodigoAtual('');
+      return;
+    }
+
+    setCodigoAtual(e.target.value);
+  };
+
+  const handleCodigoKeyPress = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addItem();
+    }
+  };
+
+  const handleQuantidadeChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    // Decimais aceitos aqui; a precisão é validada pela unidade do produto ao adicionar.
+    // Negativa lança devolução (com autorização do supervisor)
+    setQuantidadeAtual(e.target.value.replace(/[^0-9,.-]/g, ''));
   };
 
   const handleQuantidadeKeyPress = (e: React.KeyboardEvent<HTMLInputElement>): void => {
@@ -468,15 +1765,158 @@ const PDVInterface: React.FC = () => {
   };
 
   // Renderização condicional baseada na tela atual
+  if (currentScreen === 'LOGIN') {
+    return (
+      <LoginScreen
+        loading={loading}
+        onLogin={handleLogin}
+      />
+    );
+  }
+
+  if (currentScreen === 'SHIFT_OPEN' && sessao) {
+    return (
+      <ShiftOpenScreen
+        operador={sessao.operador.nome}
+        loading={loading}
+        onOpen={handleAbrirCaixa}
+      />
+    );
+  }
+
+  if (currentScreen === 'SHIFT_CLOSE' && turno) {
+    return (
+      <ShiftCloseScreen
+        turno={turno}
+        loading={loading}
+        onClose={handleFecharCaixa}
+        onFinish={concluirFechamentoCaixa}
+        onCancel={voltarTelaPrincipal}
+      />
+    );
+  }
+
+  if (currentScreen === 'CASH_MOVEMENT' && turno) {
+    return (
+      <>
+        <CashMovementScreen
+          turno={turno}
+          loading={loading}
+          atalhosBloqueados={overrideRequest !== null}
+          onSubmit={handleMovimentoCaixa}
+          onLoadMovements={listCashMovements}
+          onCancel={voltarTelaPrincipal}
+        />
+
+        {overrideRequest && (
+          <SupervisorOverrideModal
+            titulo={overrideRequest.titulo}
+            mensagem={overrideRequest.mensagem}
+            loading={loading}
+            crachaLido={crachaLido}
+            onAuthorize={handleOverrideAuthorize}
+            onCancel={handleOverrideCancel}
+          />
+        )}
+      </>
+    );
+  }
+
+  // Consulta não mexe na venda em andamento (volta com os itens e pagamentos intactos)
+  if (currentScreen === 'HISTORICO') {
+    return (
+      <SalesHistoryScreen
+        onSearch={searchSaleHistory}
+        onReprint={reprintSale}
+        onGetReceipt={getSaleReceipt}
+        onPreview={previewReceipt}
+        onExport={exportReceipt}
+        onCancel={() => {
+          setCurrentScreen('PDV');
+          focusCodigoInput(200);
+        }}
+      />
+    );
+  }
+
+  if (currentScreen === 'DEVOLUCAO' && turno) {
+    return (
+      <>
+        <ReturnScreen
+          turno={turno}
+          loading={loading}
+          atalhosBloqueados={overrideRequest !== null}
+          onFindSale={findSaleForReturn}
+          onSubmit={handleDevolucao}
+          onCancel={voltarTelaPrincipal}
+        />
+
+        {overrideRequest && (
+          <SupervisorOverrideModal
+            titulo={overrideRequest.titulo}
+            mensagem={overrideRequest.mensagem}
+            loading={loading}
+            crachaLido={crachaLido}
+            onAuthorize={handleOverrideAuthorize}
+            onCancel={handleOverrideCancel}
+          />
+        )}
+      </>
+    );
+  }
+
+  if (currentScreen === 'CONTA_CLIENTE' && turno) {
+    return (
+      <StoreCreditScreen
+        turno={turno}
+        loading={loading}
+        onSearchCustomer={findCustomer}
+        onSubmit={handleRecebimentoConta}
+        onLoadPayments={listCustomerAccountPayments}
+        onCancel={voltarTelaPrincipal}
+      />
+    );
+  }
+
   if (currentScreen === 'PAYMENT') {
     return (
+      <>
       <PaymentScreen
-        items={items}
+        items={itensAtivos}
         totalVenda={totalGeral}
+        subtotalVenda={subtotalBruto}
+        descontoItens={descontoItens}
+        descontoPromocoes={descontoPromocoesCents / 100}
+        descontoVenda={valorDescontoVenda}
+        pagamentosIniciais={pagamentos}
+        onPaymentsChange={setPagamentos}
         onPaymentComplete={finalizarVendaComPagamentos}
         onCancel={voltarTelaPrincipal}
         isConnected={isConnected}
+        documentoConsumidor={documentoConsumidor}
+        onEditDocument={() => setEditandoDocumento(true)}
+        clienteFidelidade={clienteFidelidade}
+        onEditCustomer={() => setBuscandoCliente(true)}
+        atalhosBloqueados={editandoDocumento || buscandoCliente}
       />
+
+      {editandoDocumento && (
+        <CustomerDocumentModal
+          documentoAtual={documentoConsumidor}
+          onConfirm={confirmarDocumento}
+          onCancel={fecharDocumento}
+        />
+      )}
+
+      {buscandoCliente && (
+        <CustomerLookupModal
+          clienteAtual={clienteFidelidade}
+          onSearch={findCustomer}
+          onConfirm={confirmarCliente}
+          onCancel={fecharCliente}
+        />
+      )}
+      </>
     );
   }
 
@@ -486,6 +1926,7 @@ const PDVInterface: React.FC = () => {
       <Header 
         isConnected={isConnected} 
         isListening={isConnected} 
+        operador={sessao?.operador.nome}
       />
 
       <div className="bg-white rounded-b-lg shadow-lg flex flex-col h-[calc(100vh-120px)]">
@@ -496,6 +1937,10 @@ const PDVInterface: React.FC = () => {
           <ProductTable 
             items={items}
             isConnected={isConnected}
+            selectedIndex={linhaSelecionada}
+            descontoVenda={descontoVenda}
+            valorDescontoVenda={valorDescontoVenda}
+            promocoes={promocoesAplicadas}
           />
 
           {/* Product Form Component */}
@@ -514,12 +1959,26 @@ const PDVInterface: React.FC = () => {
             onQuantidadeChange={handleQuantidadeChange}
             onQuantidadeKeyPress={handleQuantidadeKeyPress}
             quantidadeProduto={quantidadeProduto}
+            unidadeProduto={itensAtivos[itensAtivos.length - 1]?.unidade}
             codigoInputRef={codigoInputRef}
           />
         </div>
 
         {/* Product Display Component */}
-        <ProductDisplay items={items} />
+        <ProductDisplay items={itensAtivos} />
+
+        {(documentoConsumidor || clienteFidelidade) && (
+          <div className="px-6 pb-2 flex justify-center gap-6 text-sm text-gray-600">
+            {documentoConsumidor && (
+              <span>CPF/CNPJ na nota: <strong>{formatarDocumento(documentoConsumidor)}</strong></span>
+            )}
+            {clienteFidelidade && (
+              <span>
+                Cliente: <strong>{clienteFidelidade.nome}</strong> | {clienteFidelidade.pontos.toLocaleString('pt-BR')} pontos
+              </span>
+            )}
+          </div>
+        )}
 
         {/* Footer Actions Component - ATUALIZADO com novos atalhos */}
         <div className="bg-gray-100 p-4 rounded-b-lg border-t">
@@ -528,9 +1987,15 @@ const PDVInterface: React.FC = () => {
               <span><strong>F1</strong> Adicionar</span>
               <span><strong>F2</strong> Pagamento</span>
               <span><strong>F3</strong> Cancelar Item</span>
+              <span><strong>↑↓</strong> Selecionar Item</span>
               <span><strong>F4</strong> Cancelar Venda</span>
               <span><strong>F5</strong> Sincronizar</span>
               <span><strong>F6</strong> Focar Código</span>
+              <span><strong>F7</strong> Alterar Preço</span>
+              <span><strong>F8</strong> Sangria/Suprimento</span>
+              <span><strong>F9</strong> Desconto Item</span>
+              <span><strong>F10</strong> Fechar Caixa</span>
+              <span><strong>F11</strong> Trocar Operador</span>
               <span><strong>ESC</strong> Limpar</span>
             </div>
 
@@ -539,6 +2004,17 @@ const PDVInterface: React.FC = () => {
             <div className="flex space-x-4">
               <span><strong>Ctrl+Del</strong> Cancelar Venda</span>
               <span><strong>Ctrl+⌫</strong> Cancelar Item</span>
+              <span><strong>Ctrl+F9</strong> Desconto Venda</span>
+              <span><strong>Ctrl+E</strong> Espera/Recuperar</span>
+              <span><strong>{teclaRepetirItem}</strong> Repetir Item</span>
+              <span><strong>Qtd*Código</strong> Multiplicar</span>
+              <span><strong>Ctrl+D</strong> CPF/CNPJ</span>
+              <span><strong>Ctrl+F</strong> Cliente</span>
+              <span><strong>Ctrl+F8</strong> Receber Conta</span>
+              <span><strong>Ctrl+F3</strong> Devolução</span>
+              <span><strong>Ctrl+F4</strong> Cancelar Cupom</span>
+              <span><strong>Ctrl+H</strong> Histórico</span>
+              <span><strong>Ctrl+G</strong> Abrir Gaveta</span>
             </div>
 
             {isConnected && (
@@ -566,6 +2042,112 @@ const PDVInterface: React.FC = () => {
           </div>
         )}
 
+        {/* Alteração de preço (segue para autorização do supervisor) */}
+        {itemAlteracaoPreco && (
+          <PriceChangeModal
+            item={itemAlteracaoPreco}
+            onConfirm={confirmarAlteracaoPreco}
+            onCancel={cancelarAlteracaoPreco}
+          />
+        )}
+
+        {/* Cancelamento de item por número (segue para autorização do supervisor) */}
+        {sequenciaCancelamento !== null && (
+          <CancelItemModal
+            items={items}
+            sequenciaInicial={sequenciaCancelamento}
+            onConfirm={confirmarCancelamentoItem}
+            onCancel={fecharCancelamentoItem}
+          />
+        )}
+
+        {/* Desconto no item ou na venda (acima do limite segue para o supervisor) */}
+        {descontoAlvo && regrasDesconto && (
+          <DiscountModal
+            titulo={descontoAlvo.escopo === 'ITEM' ? `Desconto no Item ${descontoAlvo.linha! + 1}` : 'Desconto na Venda'}
+            descricao={
+              descontoAlvo.escopo === 'ITEM'
+                ? items[descontoAlvo.linha!]?.descricao || ''
+                : `${quantidadeItens} itens`
+            }
+            base={
+              descontoAlvo.escopo === 'ITEM'
+                ? (items[descontoAlvo.linha!]
+                  ? Math.max(valorBrutoCents(items[descontoAlvo.linha!]) - promocaoLinhaCents(descontoAlvo.linha!), 0) / 100
+                  : 0)
+                : baseDescontoVendaCents / 100
+            }
+            descontoAtual={descontoAlvo.escopo === 'ITEM' ? items[descontoAlvo.linha!]?.desconto : descontoVenda}
+            regras={regrasDesconto}
+            onConfirm={confirmarDesconto}
+            onCancel={cancelarDesconto}
+          />
+        )}
+
+        {/* CPF/CNPJ do consumidor */}
+        {editandoDocumento && (
+          <CustomerDocumentModal
+            documentoAtual={documentoConsumidor}
+            onConfirm={confirmarDocumento}
+            onCancel={fecharDocumento}
+          />
+        )}
+
+        {/* Cliente da fidelidade */}
+        {buscandoCliente && (
+          <CustomerLookupModal
+            clienteAtual={clienteFidelidade}
+            onSearch={findCustomer}
+            onConfirm={confirmarCliente}
+            onCancel={fecharCliente}
+          />
+        )}
+
+        {/* Vendas em espera do turno */}
+        {vendasEmEspera !== null && (
+          <ParkedSalesModal
+            vendas={vendasEmEspera}
+            loading={loading}
+            onRecall={recuperarVendaEmEspera}
+            onCancel={fecharVendasEmEspera}
+          />
+        )}
+
+        {/* Cancelamento de cupom finalizado */}
+        {cancelandoCupom && turno && (
+          <VoidSaleModal
+            turno={turno}
+            loading={loading}
+            atalhosBloqueados={overrideRequest !== null}
+            onFindSale={findSaleForReturn}
+            onConfirm={handleCancelamentoCupom}
+            onClose={fecharCancelamentoCupom}
+          />
+        )}
+
+        {/* Abertura da gaveta sem venda */}
+        {abrindoGaveta && (
+          <DrawerOpenModal
+            loading={loading}
+            precisaAutorizacao={!sessao?.permissoes.includes('drawer:open')}
+            atalhosBloqueados={overrideRequest !== null}
+            onConfirm={handleAbrirGaveta}
+            onClose={fecharAbrirGaveta}
+          />
+        )}
+
+        {/* Autorização do supervisor (PIN ou crachá) */}
+        {overrideRequest && (
+          <SupervisorOverrideModal
+            titulo={overrideRequest.titulo}
+            mensagem={overrideRequest.mensagem}
+            loading={loading}
+            crachaLido={crachaLido}
+            onAuthorize={handleOverrideAuthorize}
+            onCancel={handleOverrideCancel}
+          />
+        )}
+
         {/* Modal de confirmação customizado */}
         {showConfirmModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
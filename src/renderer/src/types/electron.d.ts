@@ -9,6 +9,7 @@ declare global {
       };
       sale: {
         create: (vendaData: any) => Promise<{ success: boolean; data?: any; error?: string }>;
+        void: (dados: { vendaId: number; motivo: string; autorizacaoId: number }) => Promise<{ success: boolean; data?: any; error?: string }>;
       };
       barcode: {
         listen: () => Promise<{ success: boolean }>;
@@ -8,6 +8,24 @@ export interface Product {
   ativo: boolean;
   created_at: string;
   updated_at: string;
+  unidade?: string;
+  balanca?: ScaleBarcode;
+  precos_atacado?: WholesalePrice[];
+}
+
+// Preço de atacado: vale para a linha a partir da quantidade mínima
+export interface WholesalePrice {
+  quantidade_minima: number;
+  preco: number;
+}
+
+// Etiqueta de balança decodificada (PLU + peso ou preço embutido)
+export interface ScaleBarcode {
+  codigo_barras: string;
+  plu: string;
+  modo: 'PRECO' | 'PESO';
+  quantidade: number;
+  valor_total: number | null;
 }
 
 export interface Item {
@@ -18,13 +36,27 @@ export interface Item {
   vlrUnit: number;
   total: number;
   produto_id?: number;
+  precoOriginal?: number; // preço de cadastro quando alterado por supervisor
+  autorizacaoId?: number; // autorização de supervisor da alteração de preço
+  cancelado?: boolean; // linha cancelada: continua no cupom, riscada e fora do total
+  autorizacaoCancelamentoId?: number;
+  desconto?: Discount;
+  valorDesconto?: number; // desconto em R$ já abatido do total da linha
+  unidade?: string; // UN, KG, L ou M (define as casas decimais da quantidade)
+  codigoBalanca?: string; // etiqueta de balança lida (cada etiqueta é uma linha)
+  valorEtiqueta?: number; // preço impresso na etiqueta: é o valor bruto da linha
+  autorizacaoDevolucaoId?: number; // quantidade negativa: devolução autorizada pelo supervisor
+  precoVarejo?: number; // preço de cadastro quando o produto tem faixas de atacado
+  precosAtacado?: WholesalePrice[]; // vlrUnit troca de faixa conforme a quantidade da linha
 }
 
 export interface Payment {
   id: number;
-  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS';
+  tipo: 'DINHEIRO' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'PIX' | 'OUTROS' | 'PONTOS' | 'CREDITO_LOJA';
   valor: number;
   timestamp: string;
+  troco?: number; // valor do troco para dinheiro
+  valorRecebido?: number; // valor total recebido quando há troco
 }
 
 export interface Sale {
@@ -34,6 +66,171 @@ export interface Sale {
   items: any[];
   payments?: Payment[]; // ✅ NOVO: formas de pagamento
   forma_pagamento?: string; // Compatibilidade com API existente
+  comprovante?: string; // cupom em texto montado pelo processo principal
+  fidelidade?: SaleLoyalty | null;
+  conta_cliente?: SaleStoreCredit | null;
+  tributos?: SaleTaxes | null;
+  nfce?: NfceDocument | null;
+}
+
+// Tributos da venda (ICMS, PIS e COFINS somados das linhas)
+export interface SaleTaxes {
+  base_icms: number;
+  valor_icms: number;
+  valor_pis: number;
+  valor_cofins: number;
+  valor_tributos: number;
+}
+
+export type NfceStatus = 'PENDENTE' | 'ENVIADA' | 'ERRO_VALIDACAO' | 'CANCELADA' | 'INUTILIZADA';
+
+export interface NfceDocument {
+  id: number;
+  venda_id: number;
+  serie: number;
+  numero: number;
+  chave: string;
+  tipo_emissao: 1 | 9;
+  ambiente: 1 | 2;
+  valor_total: number;
+  status: NfceStatus;
+  erros_validacao: string[];
+  created_at: string;
+  enviada_em: string | null;
+}
+
+// Cliente do programa de fidelidade (saldos já incluem os movimentos ainda não sincronizados)
+export interface Customer {
+  id: number;
+  nome: string;
+  cpf: string | null;
+  telefone: string | null;
+  pontos: number;
+  pontos_pendentes: number;
+  valor_disponivel: number; // saldo em R$ para pagar com pontos
+  limite_credito: number; // crédito na loja; 0 = cliente sem conta
+  saldo_devedor: number;
+  credito_disponivel: number;
+}
+
+export interface SaleLoyalty {
+  cliente_id: number;
+  cliente_nome: string;
+  referencia: string;
+  pontos_acumulados: number;
+  pontos_resgatados: number;
+  saldo?: number;
+}
+
+// Compra lançada na conta do cliente (forma CREDITO_LOJA)
+export interface SaleStoreCredit {
+  cliente_id: number;
+  cliente_nome: string;
+  referencia: string;
+  valor: number;
+  saldo_devedor?: number;
+}
+
+// Recebimento de conta do cliente no caixa
+export interface StoreCreditPayment {
+  referencia: string;
+  cliente_id: number;
+  cliente_nome: string;
+  turno_id: number;
+  tipo: Payment['tipo'];
+  valor: number;
+  valor_recebido: number;
+  troco: number;
+  saldo_devedor: number;
+  operador: string;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface StoreCreditPaymentResult {
+  pagamento: StoreCreditPayment;
+  comprovante: string;
+}
+
+// Venda do histórico local (origem de devoluções)
+export interface SaleHistoryItem {
+  sequencia: number;
+  codigo: string;
+  descricao: string;
+  quantidade: number;
+  unidade: string;
+  preco_unitario: number;
+  valor_total: number; // líquido pago na linha
+  quantidade_devolvida: number;
+  valor_etiqueta?: number; // etiqueta de balança com preço embutido
+}
+
+export interface SaleHistoryRecord {
+  id: number;
+  numero_venda: number;
+  turno_id: number | null;
+  data_venda: string;
+  total: number;
+  itens: SaleHistoryItem[];
+  pagamentos: Array<{ tipo: Payment['tipo']; valor: number; valorRecebido?: number; troco?: number }>;
+  cliente_id: number | null;
+  cliente_nome: string | null;
+  operador_codigo: string | null;
+  sincronizado: boolean;
+  referencia: string | null;
+  status: 'FINALIZADA' | 'CANCELADA';
+  fidelidade: SaleLoyalty | null; // pontos da venda (estornados no cancelamento)
+  venda_id_servidor: number | null; // id da API para a venda offline já sincronizada
+}
+
+export interface SaleHistoryFilter {
+  data_inicio?: string;
+  data_fim?: string;
+  valor_min?: number;
+  valor_max?: number;
+  numero?: string;
+  produto?: string;
+}
+
+export interface SaleCancellation {
+  venda_id: number;
+  numero_venda: number;
+  turno_id: number;
+  total: number;
+  motivo: string;
+  operador: string;
+  supervisor: string;
+  created_at: string;
+  pendente: boolean;
+  sincronizado: boolean;
+}
+
+export interface SaleCancellationResult {
+  cancelamento: SaleCancellation;
+  comprovante: string;
+}
+
+export type RefundType = 'DINHEIRO' | 'FORMA_ORIGINAL' | 'VALE_TROCA';
+
+export interface SaleReturn {
+  referencia: string;
+  venda_id: number;
+  numero_venda: number;
+  turno_id: number;
+  tipo_reembolso: RefundType;
+  itens: Array<{ sequencia: number; codigo: string; descricao: string; quantidade: number; unidade: string; valor: number }>;
+  valor_total: number;
+  reembolsos: Array<{ tipo: Payment['tipo']; valor: number }>;
+  vale_troca: string | null;
+  operador: string;
+  supervisor: string;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface SaleReturnResult {
+  devolucao: SaleReturn;
+  comprovante: string;
 }
 
 export interface SaleData {
@@ -44,6 +241,230 @@ export interface SaleData {
   desconto?: number;
 }
 
+export type OperatorRole = 'OPERADOR' | 'SUPERVISOR' | 'GERENTE';
+
+export type Permission =
+  | 'product:read'
+  | 'sale:create'
+  | 'sale:cancel'
+  | 'item:remove'
+  | 'shift:open'
+  | 'shift:close'
+  | 'cash:movement'
+  | 'price:change'
+  | 'discount:override'
+  | 'item:return'
+  | 'cache:sync'
+  | 'drawer:open'
+  | 'cash:authorize'
+  | 'sale:return'
+  | 'sale:history'
+  | 'receipt:export'
+  | 'nfce:manage'
+  | 'logs:export';
+
+export interface Operator {
+  id: number;
+  codigo: string;
+  nome: string;
+  perfil: OperatorRole;
+  ativo: boolean;
+}
+
+export interface OperatorSession {
+  operador: Operator;
+  permissoes: Permission[];
+  login_em: string;
+}
+
+// Descontos (por item ou no subtotal da venda)
+export type DiscountType = 'PERCENTUAL' | 'VALOR';
+
+export interface Discount {
+  tipo: DiscountType;
+  valor: number; // percentual (0-100) ou valor em R$, conforme o tipo
+  motivo: string; // código do motivo
+  autorizacaoId?: number; // exigida acima do limite do perfil do operador
+}
+
+export interface DiscountReason {
+  codigo: string;
+  descricao: string;
+}
+
+export interface DiscountRules {
+  motivos: DiscountReason[];
+  limite_percentual: number; // limite do operador logado
+  limites: Record<OperatorRole, number>;
+}
+
+// Promoção aplicada ao carrinho (calculada no processo principal a cada alteração)
+export type PromotionType = 'LEVE_PAGUE' | 'FAIXA_QUANTIDADE' | 'COMBO';
+
+export interface AppliedPromotion {
+  promocao_id: number;
+  nome: string;
+  tipo: PromotionType;
+  valor_desconto: number;
+  itens: Array<{ sequencia: number; codigo: string; valor_desconto: number }>;
+}
+
+// Autorização de supervisor para uma única ação restrita
+export type OverrideAction = 'ITEM_REMOVE' | 'SALE_CANCEL' | 'PRICE_CHANGE' | 'DISCOUNT' | 'ITEM_RETURN' | 'DRAWER_OPEN' | 'CASH_MOVEMENT';
+
+export type OverrideMethod = 'PIN' | 'CRACHA';
+
+export interface OverrideCredentials {
+  codigo?: string;
+  pin?: string;
+  cracha?: string;
+}
+
+export interface OverrideAuthorization {
+  id: number;
+  acao: OverrideAction;
+  metodo: OverrideMethod;
+  operador_id: number;
+  operador_codigo: string;
+  supervisor_id: number;
+  supervisor_codigo: string;
+  supervisor_nome: string;
+  detalhes: Record<string, any>;
+  created_at: string;
+  usada_em: string | null;
+  usada_referencia: string | null;
+}
+
+export interface Shift {
+  id: number;
+  caixa_id: string;
+  operador: string; // código do operador que abriu o caixa
+  fundo_troco: number;
+  status: 'ABERTO' | 'FECHADO';
+  aberto_em: string;
+  fechado_em?: string | null;
+}
+
+// Quantidade contada por cédula/moeda (chave = valor de face)
+export type CashCount = Record<string, number>;
+
+export interface ShiftReport {
+  turno: Shift;
+  total_vendas: number;
+  vendas_canceladas: number;
+  aberturas_gaveta: number;
+  aberturas_sem_venda: DrawerOpening[];
+  faturamento: number;
+  totais_por_forma: Partial<Record<Payment['tipo'], number>>;
+  dinheiro_vendas: number;
+  recebimentos_conta: number;
+  dinheiro_recebimentos: number;
+  total_devolucoes: number;
+  dinheiro_devolucoes: number;
+  total_sangrias: number;
+  total_suprimentos: number;
+  fundo_troco: number;
+  valor_esperado: number;
+  valor_contado: number;
+  diferenca: number;
+  contagem: CashCount;
+  vendas_espera_expiradas?: number;
+}
+
+export interface CashMovement {
+  id: number;
+  turno_id: number;
+  tipo: 'SANGRIA' | 'SUPRIMENTO';
+  valor: number;
+  motivo: string;
+  operador: string; // código do operador logado
+  supervisor: string; // código do supervisor que autorizou
+  autorizacao_id: number | null;
+  created_at: string;
+  sincronizado: boolean;
+}
+
+export interface CashMovementResult {
+  movimento: CashMovement;
+  comprovante: string;
+}
+
+export type DrawerOpeningReason =
+  | 'VENDA'
+  | 'RECEBIMENTO_CONTA'
+  | 'DEVOLUCAO'
+  | 'CANCELAMENTO'
+  | 'SANGRIA'
+  | 'SUPRIMENTO'
+  | 'SEM_VENDA';
+
+export interface DrawerOpening {
+  id: number;
+  turno_id: number;
+  motivo: DrawerOpeningReason;
+  referencia: string | null;
+  observacao: string | null;
+  operador: string;
+  autorizado_por: string | null;
+  aberta: boolean;
+  created_at: string;
+}
+
+export type ReceiptLineStyle = 'TITULO' | 'DESTAQUE' | 'TEXTO' | 'CODIGO_BARRAS';
+
+export interface ReceiptLayoutLine {
+  estilo: ReceiptLineStyle;
+  texto: string;
+  barras?: number[];
+}
+
+export interface ReceiptLayout {
+  colunas: number;
+  larguraMm: number;
+  areaMm: number;
+  logo: { url: string; larguraMm: number } | null;
+  codigoBarras: { moduloMm: number; alturaMm: number };
+  linhas: ReceiptLayoutLine[];
+}
+
+export type ReceiptExportFormat = 'PDF' | 'HTML';
+
+export interface CartState {
+  turno_id: number;
+  operador_id: number;
+  operador_nome: string;
+  itens: Item[];
+  desconto_venda: Discount | null;
+  pagamentos: Payment[];
+  documento_consumidor: string | null; // CPF/CNPJ na nota (sem máscara)
+  cliente: Customer | null; // cliente da fidelidade identificado na venda
+  versao: number;
+  iniciado_em: string;
+  atualizado_em: string;
+}
+
+export interface ParkedSale {
+  id: number;
+  turno_id: number;
+  operador_id: number;
+  operador_nome: string;
+  quantidade_itens: number;
+  total: number;
+  status: 'EM_ESPERA' | 'RECUPERADA' | 'EXPIRADA';
+  created_at: string;
+  recuperada_em?: string | null;
+}
+
+export interface ParkedSaleCart extends ParkedSale {
+  itens: Item[];
+  desconto_venda: Discount | null;
+}
+
+// Configurações de operação vindas do .env.pdv
+export interface PdvConfig {
+  tecla_repetir_item: string;
+}
+
 export type ShortcutKey = 'F1' | 'F2' | 'F3' | 'F4' | 'F5' | 'ESC';
 
-export type AppScreen = 'PDV' | 'PAYMENT'; // ✅ NOVO: controle de telas
\ No newline at end of file
+export type AppScreen = 'LOGIN' | 'PDV' | 'PAYMENT' | 'SHIFT_OPEN' | 'SHIFT_CLOSE' | 'CASH_MOVEMENT' | 'CONTA_CLIENTE' | 'DEVOLUCAO' | 'HISTORICO'; // ✅ NOVO: controle de telas
\ No newline at end of file